@@ -43,6 +43,7 @@ CREATE TABLE IF NOT EXISTS users (
   name VARCHAR(255),
   is_active BOOLEAN NOT NULL DEFAULT TRUE,
   is_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  role ENUM('user', 'moderator', 'admin') NOT NULL DEFAULT 'user',
   email_verification_token VARCHAR(255),
   email_verification_expires DATETIME,
   password_reset_token VARCHAR(255),
@@ -57,7 +58,8 @@ CREATE TABLE IF NOT EXISTS users (
   INDEX idx_users_email (email),
   INDEX idx_users_verification_token (email_verification_token),
   INDEX idx_users_reset_token (password_reset_token),
-  INDEX idx_users_active (is_active, is_verified)
+  INDEX idx_users_active (is_active, is_verified),
+  INDEX idx_users_role (role)
 ) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
 -- =====================================================================
@@ -90,6 +92,7 @@ CREATE TABLE IF NOT EXISTS rifle_profiles (
   caliber VARCHAR(100) NOT NULL,
   barrel_length DECIMAL(5,2) NOT NULL COMMENT 'Inches',
   twist_rate VARCHAR(20) NOT NULL COMMENT 'Format: 1:8, 1:10, etc.',
+  twist_direction ENUM('right', 'left') NOT NULL DEFAULT 'right' COMMENT 'Rifling direction',
   zero_distance DECIMAL(6,2) NOT NULL COMMENT 'Yards',
   optic_manufacturer VARCHAR(255) NOT NULL,
   optic_model VARCHAR(255) NOT NULL,
@@ -98,6 +101,7 @@ CREATE TABLE IF NOT EXISTS rifle_profiles (
   click_value DECIMAL(5,4) NOT NULL COMMENT 'Value per click',
   scope_height DECIMAL(5,2) NOT NULL COMMENT 'Inches over bore',
   notes TEXT,
+  row_version INT UNSIGNED NOT NULL DEFAULT 0 COMMENT 'Optimistic locking and sync conflict detection',
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
 
@@ -124,27 +128,69 @@ CREATE TABLE IF NOT EXISTS ammo_profiles (
   manufacturer VARCHAR(255) NOT NULL,
   bullet_weight DECIMAL(6,2) NOT NULL COMMENT 'Grains',
   bullet_type VARCHAR(100) NOT NULL COMMENT 'HPBT, ELD-X, etc.',
+  bullet_length DECIMAL(5,3) COMMENT 'Inches',
+  bullet_diameter DECIMAL(5,4) COMMENT 'Inches',
   ballistic_coefficient_g1 DECIMAL(6,4) NOT NULL,
   ballistic_coefficient_g7 DECIMAL(6,4) NOT NULL,
   muzzle_velocity DECIMAL(7,2) NOT NULL COMMENT 'Feet per second',
+  muzzle_velocity_temperature DECIMAL(5,2) COMMENT 'Fahrenheit the muzzle velocity was measured at',
   powder_type VARCHAR(100),
   powder_weight DECIMAL(6,2) COMMENT 'Grains',
   lot_number VARCHAR(100),
   notes TEXT,
+  parent_ammo_id BIGINT UNSIGNED COMMENT 'Profile this revision was trued from',
+  revision INT UNSIGNED NOT NULL DEFAULT 1,
+  row_version INT UNSIGNED NOT NULL DEFAULT 0 COMMENT 'Optimistic locking and sync conflict detection',
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
 
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
   FOREIGN KEY (rifle_id) REFERENCES rifle_profiles(id) ON DELETE CASCADE,
+  FOREIGN KEY (parent_ammo_id) REFERENCES ammo_profiles(id) ON DELETE SET NULL,
   INDEX idx_ammo_profiles_user (user_id),
   INDEX idx_ammo_profiles_rifle (rifle_id),
   INDEX idx_ammo_profiles_manufacturer (manufacturer),
+  INDEX idx_ammo_profiles_parent (parent_ammo_id),
 
   CONSTRAINT chk_bullet_weight CHECK (bullet_weight > 0 AND bullet_weight <= 1000),
+  CONSTRAINT chk_bullet_length CHECK (bullet_length IS NULL OR (bullet_length > 0 AND bullet_length <= 5)),
+  CONSTRAINT chk_bullet_diameter CHECK (bullet_diameter IS NULL OR (bullet_diameter > 0 AND bullet_diameter <= 1)),
   CONSTRAINT chk_bc_g1 CHECK (ballistic_coefficient_g1 >= 0 AND ballistic_coefficient_g1 <= 1),
   CONSTRAINT chk_bc_g7 CHECK (ballistic_coefficient_g7 >= 0 AND ballistic_coefficient_g7 <= 1),
   CONSTRAINT chk_muzzle_velocity CHECK (muzzle_velocity > 0 AND muzzle_velocity <= 5000),
-  CONSTRAINT chk_powder_weight CHECK (powder_weight IS NULL OR powder_weight >= 0)
+  CONSTRAINT chk_muzzle_velocity_temperature CHECK (muzzle_velocity_temperature IS NULL OR (muzzle_velocity_temperature >= -50 AND muzzle_velocity_temperature <= 150)),
+  CONSTRAINT chk_powder_weight CHECK (powder_weight IS NULL OR powder_weight >= 0),
+  CONSTRAINT chk_revision CHECK (revision >= 1)
+) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+
+-- =====================================================================
+-- CUSTOM DRAG MODELS TABLE
+-- =====================================================================
+-- Stores measured drag curves and velocity-banded BCs for ammo profiles
+
+CREATE TABLE IF NOT EXISTS custom_drag_models (
+  id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  user_id BIGINT UNSIGNED NOT NULL,
+  ammo_id BIGINT UNSIGNED NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  type ENUM('curve', 'banded') NOT NULL,
+  reference_diameter DECIMAL(5,4) COMMENT 'Inches, used to compute sectional density for curves',
+  drag_model ENUM('G1', 'G7') COMMENT 'Reference drag model for banded BCs',
+  points JSON COMMENT 'Mach vs Cd pairs [{mach,cd}]',
+  bc_bands JSON COMMENT 'Minimum velocity (fps) and BC pairs [{min_velocity,bc}]',
+  source VARCHAR(255),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (ammo_id) REFERENCES ammo_profiles(id) ON DELETE CASCADE,
+  INDEX idx_custom_drag_models_user (user_id),
+  INDEX idx_custom_drag_models_ammo_active (ammo_id, is_active),
+
+  CONSTRAINT chk_drag_reference_diameter CHECK (reference_diameter IS NULL OR (reference_diameter > 0 AND reference_diameter <= 1)),
+  CONSTRAINT chk_drag_curve CHECK (type <> 'curve' OR (points IS NOT NULL AND reference_diameter IS NOT NULL)),
+  CONSTRAINT chk_drag_bands CHECK (type <> 'banded' OR (bc_bands IS NOT NULL AND drag_model IS NOT NULL))
 ) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
 -- =====================================================================
@@ -158,6 +204,7 @@ CREATE TABLE IF NOT EXISTS environment_snapshots (
   temperature DECIMAL(5,2) NOT NULL COMMENT 'Fahrenheit',
   humidity DECIMAL(5,2) NOT NULL COMMENT 'Percentage 0-100',
   pressure DECIMAL(5,2) NOT NULL COMMENT 'Inches of mercury (inHg)',
+  pressure_type ENUM('station', 'barometric') NOT NULL DEFAULT 'barometric' COMMENT 'Station or altimeter-corrected pressure',
   altitude DECIMAL(7,2) NOT NULL COMMENT 'Feet',
   density_altitude DECIMAL(7,2) NOT NULL COMMENT 'Feet (calculated)',
   wind_speed DECIMAL(5,2) NOT NULL COMMENT 'Miles per hour',
@@ -165,6 +212,7 @@ CREATE TABLE IF NOT EXISTS environment_snapshots (
   latitude DECIMAL(10,8),
   longitude DECIMAL(11,8),
   timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  row_version INT UNSIGNED NOT NULL DEFAULT 0 COMMENT 'Optimistic locking and sync conflict detection',
 
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
   INDEX idx_environment_snapshots_user (user_id),
@@ -180,6 +228,39 @@ CREATE TABLE IF NOT EXISTS environment_snapshots (
   CONSTRAINT chk_longitude CHECK (longitude IS NULL OR (longitude >= -180 AND longitude <= 180))
 ) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
+-- =====================================================================
+-- RANGE SESSIONS TABLE
+-- =====================================================================
+-- Tracks complete range sessions with multiple shots (created before
+-- dope_logs, which can link to a session)
+
+CREATE TABLE IF NOT EXISTS range_sessions (
+  id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  user_id BIGINT UNSIGNED NOT NULL,
+  rifle_id BIGINT UNSIGNED NOT NULL,
+  ammo_id BIGINT UNSIGNED NOT NULL,
+  environment_id BIGINT UNSIGNED NOT NULL,
+  session_name VARCHAR(255),
+  start_time DATETIME NOT NULL,
+  end_time DATETIME,
+  distance DECIMAL(7,2) NOT NULL COMMENT 'Yards',
+  shot_count INT UNSIGNED NOT NULL DEFAULT 0,
+  cold_bore_shot BOOLEAN NOT NULL DEFAULT FALSE,
+  notes TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  FOREIGN KEY (rifle_id) REFERENCES rifle_profiles(id) ON DELETE CASCADE,
+  FOREIGN KEY (ammo_id) REFERENCES ammo_profiles(id) ON DELETE CASCADE,
+  FOREIGN KEY (environment_id) REFERENCES environment_snapshots(id) ON DELETE RESTRICT,
+  INDEX idx_range_sessions_user (user_id),
+  INDEX idx_range_sessions_rifle (rifle_id),
+  INDEX idx_range_sessions_start (start_time),
+
+  CONSTRAINT chk_session_distance CHECK (distance > 0),
+  CONSTRAINT chk_session_times CHECK (end_time IS NULL OR end_time >= start_time)
+) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+
 -- =====================================================================
 -- DOPE LOGS TABLE
 -- =====================================================================
@@ -191,6 +272,7 @@ CREATE TABLE IF NOT EXISTS dope_logs (
   rifle_id BIGINT UNSIGNED NOT NULL,
   ammo_id BIGINT UNSIGNED NOT NULL,
   environment_id BIGINT UNSIGNED NOT NULL,
+  range_session_id BIGINT UNSIGNED,
   distance DECIMAL(7,2) NOT NULL,
   distance_unit ENUM('yards', 'meters') NOT NULL,
   distance_yards DECIMAL(7,2) AS (
@@ -202,6 +284,9 @@ CREATE TABLE IF NOT EXISTS dope_logs (
   elevation_correction DECIMAL(7,4) NOT NULL COMMENT 'MIL or MOA',
   windage_correction DECIMAL(7,4) NOT NULL COMMENT 'MIL or MOA',
   correction_unit ENUM('MIL', 'MOA') NOT NULL,
+  incline_angle DECIMAL(5,2) COMMENT 'Degrees, positive = uphill',
+  cant_angle DECIMAL(5,2) COMMENT 'Degrees, positive = canted clockwise',
+  shot_azimuth DECIMAL(5,2) COMMENT 'Degrees true bearing',
   target_type ENUM('steel', 'paper', 'vital_zone', 'other') NOT NULL,
   group_size DECIMAL(6,2) COMMENT 'Inches',
   hit_count INT UNSIGNED,
@@ -214,11 +299,13 @@ CREATE TABLE IF NOT EXISTS dope_logs (
   ) STORED COMMENT 'Hit percentage calculation',
   notes TEXT,
   timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  row_version INT UNSIGNED NOT NULL DEFAULT 0 COMMENT 'Optimistic locking and sync conflict detection',
 
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
   FOREIGN KEY (rifle_id) REFERENCES rifle_profiles(id) ON DELETE CASCADE,
   FOREIGN KEY (ammo_id) REFERENCES ammo_profiles(id) ON DELETE CASCADE,
   FOREIGN KEY (environment_id) REFERENCES environment_snapshots(id) ON DELETE RESTRICT,
+  FOREIGN KEY (range_session_id) REFERENCES range_sessions(id) ON DELETE SET NULL,
   INDEX idx_dope_logs_user (user_id),
   INDEX idx_dope_logs_rifle (rifle_id),
   INDEX idx_dope_logs_ammo (ammo_id),
@@ -226,11 +313,15 @@ CREATE TABLE IF NOT EXISTS dope_logs (
   INDEX idx_dope_logs_distance (distance),
   INDEX idx_dope_logs_distance_yards (distance_yards),
   INDEX idx_dope_logs_rifle_distance (rifle_id, distance_yards),
+  INDEX idx_dope_logs_range_session (range_session_id),
 
   CONSTRAINT chk_distance CHECK (distance > 0 AND distance <= 3000),
   CONSTRAINT chk_group_size CHECK (group_size IS NULL OR group_size >= 0),
   CONSTRAINT chk_hit_count CHECK (hit_count IS NULL OR hit_count >= 0),
   CONSTRAINT chk_shot_count CHECK (shot_count IS NULL OR shot_count >= 0),
+  CONSTRAINT chk_incline_angle CHECK (incline_angle IS NULL OR (incline_angle >= -90 AND incline_angle <= 90)),
+  CONSTRAINT chk_cant_angle CHECK (cant_angle IS NULL OR (cant_angle >= -90 AND cant_angle <= 90)),
+  CONSTRAINT chk_shot_azimuth CHECK (shot_azimuth IS NULL OR (shot_azimuth >= 0 AND shot_azimuth < 360)),
   CONSTRAINT chk_hit_vs_shot CHECK (hit_count IS NULL OR shot_count IS NULL OR hit_count <= shot_count)
 ) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
@@ -261,35 +352,44 @@ CREATE TABLE IF NOT EXISTS shot_strings (
 ) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
 -- =====================================================================
--- RANGE SESSIONS TABLE
+-- COLD BORE SHOTS TABLE
 -- =====================================================================
--- Tracks complete range sessions with multiple shots
+-- First shot of the day from a cold, clean or fouled bore, with the
+-- warm-bore group center it is compared against
 
-CREATE TABLE IF NOT EXISTS range_sessions (
+CREATE TABLE IF NOT EXISTS cold_bore_shots (
   id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
   user_id BIGINT UNSIGNED NOT NULL,
   rifle_id BIGINT UNSIGNED NOT NULL,
-  ammo_id BIGINT UNSIGNED NOT NULL,
-  environment_id BIGINT UNSIGNED NOT NULL,
-  session_name VARCHAR(255),
-  start_time DATETIME NOT NULL,
-  end_time DATETIME,
-  distance DECIMAL(7,2) NOT NULL COMMENT 'Yards',
-  shot_count INT UNSIGNED NOT NULL DEFAULT 0,
-  cold_bore_shot BOOLEAN NOT NULL DEFAULT FALSE,
+  ammo_id BIGINT UNSIGNED,
+  range_session_id BIGINT UNSIGNED,
+  environment_id BIGINT UNSIGNED,
+  shot_time DATETIME NOT NULL,
+  distance_yards DECIMAL(7,2) NOT NULL COMMENT 'Yards',
+  offset_horizontal DECIMAL(6,2) NOT NULL COMMENT 'Inches from point of aim, positive = right',
+  offset_vertical DECIMAL(6,2) NOT NULL COMMENT 'Inches from point of aim, positive = high',
+  warm_offset_horizontal DECIMAL(6,2) COMMENT 'Warm-bore group center, inches, positive = right',
+  warm_offset_vertical DECIMAL(6,2) COMMENT 'Warm-bore group center, inches, positive = high',
+  warm_shot_count INT UNSIGNED,
+  days_since_cleaning SMALLINT UNSIGNED,
   notes TEXT,
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
 
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
   FOREIGN KEY (rifle_id) REFERENCES rifle_profiles(id) ON DELETE CASCADE,
-  FOREIGN KEY (ammo_id) REFERENCES ammo_profiles(id) ON DELETE CASCADE,
-  FOREIGN KEY (environment_id) REFERENCES environment_snapshots(id) ON DELETE RESTRICT,
-  INDEX idx_range_sessions_user (user_id),
-  INDEX idx_range_sessions_rifle (rifle_id),
-  INDEX idx_range_sessions_start (start_time),
-
-  CONSTRAINT chk_session_distance CHECK (distance > 0),
-  CONSTRAINT chk_session_times CHECK (end_time IS NULL OR end_time >= start_time)
+  FOREIGN KEY (ammo_id) REFERENCES ammo_profiles(id) ON DELETE SET NULL,
+  FOREIGN KEY (range_session_id) REFERENCES range_sessions(id) ON DELETE SET NULL,
+  FOREIGN KEY (environment_id) REFERENCES environment_snapshots(id) ON DELETE SET NULL,
+  INDEX idx_cold_bore_user (user_id),
+  INDEX idx_cold_bore_rifle (rifle_id),
+  INDEX idx_cold_bore_session (range_session_id),
+  INDEX idx_cold_bore_time (shot_time),
+
+  CONSTRAINT chk_cold_bore_distance CHECK (distance_yards > 0 AND distance_yards <= 3000),
+  CONSTRAINT chk_cold_bore_warm CHECK (
+    (warm_offset_horizontal IS NULL AND warm_offset_vertical IS NULL) OR
+    (warm_offset_horizontal IS NOT NULL AND warm_offset_vertical IS NOT NULL)
+  )
 ) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
 -- =====================================================================
@@ -303,10 +403,16 @@ CREATE TABLE IF NOT EXISTS target_images (
   dope_log_id BIGINT UNSIGNED,
   range_session_id BIGINT UNSIGNED,
   image_uri VARCHAR(500) NOT NULL COMMENT 'Cloud storage URL or S3 key',
+  thumbnail_uri VARCHAR(500) COMMENT 'Storage key of the JPEG thumbnail',
+  content_type VARCHAR(50) NOT NULL DEFAULT 'image/jpeg',
+  image_width INT UNSIGNED COMMENT 'Pixels, after EXIF rotation',
+  image_height INT UNSIGNED COMMENT 'Pixels, after EXIF rotation',
   target_type VARCHAR(100) NOT NULL,
-  poi_markers JSON NOT NULL COMMENT 'Point of impact coordinates array [{x,y}]',
+  poi_markers JSON NOT NULL COMMENT 'Point of impact pixel coordinates array [{x,y}]',
+  aim_point JSON COMMENT 'Point of aim pixel coordinates {x,y}',
+  scale_reference JSON COMMENT 'Two points a known distance apart {from,to,inches}',
   shot_count INT UNSIGNED AS (JSON_LENGTH(poi_markers)) STORED COMMENT 'Calculated from POI markers',
-  group_size DECIMAL(6,2) COMMENT 'Inches',
+  group_size DECIMAL(6,2) COMMENT 'Inches, extreme spread computed from POI markers',
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
 
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
@@ -345,7 +451,7 @@ CREATE TABLE IF NOT EXISTS app_settings (
 
 CREATE TABLE IF NOT EXISTS community_ammo (
   id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
-  submitted_by BIGINT UNSIGNED NOT NULL,
+  submitted_by BIGINT UNSIGNED COMMENT 'NULL once the submitter is deleted',
   manufacturer VARCHAR(255) NOT NULL,
   product_name VARCHAR(255) NOT NULL,
   caliber VARCHAR(100) NOT NULL,
@@ -357,8 +463,10 @@ CREATE TABLE IF NOT EXISTS community_ammo (
   barrel_length DECIMAL(5,2) COMMENT 'Inches (velocity reference)',
   data_source VARCHAR(255) COMMENT 'Manufacturer spec, chronograph test, etc.',
   verification_status ENUM('pending', 'verified', 'disputed', 'rejected') NOT NULL DEFAULT 'pending',
-  verified_by BIGINT UNSIGNED COMMENT 'Admin user ID who verified',
+  verified_by BIGINT UNSIGNED COMMENT 'Moderator user ID who verified',
   verified_at DATETIME,
+  moderation_reason TEXT COMMENT 'Reason for the last rejection or dispute',
+  merged_into_id BIGINT UNSIGNED COMMENT 'Canonical entry this duplicate was merged into',
   vote_score INT NOT NULL DEFAULT 0 COMMENT 'Net upvotes minus downvotes',
   vote_count INT UNSIGNED NOT NULL DEFAULT 0,
   usage_count INT UNSIGNED NOT NULL DEFAULT 0 COMMENT 'Times copied to user profiles',
@@ -376,7 +484,10 @@ CREATE TABLE IF NOT EXISTS community_ammo (
 
   FOREIGN KEY (submitted_by) REFERENCES users(id) ON DELETE SET NULL,
   FOREIGN KEY (verified_by) REFERENCES users(id) ON DELETE SET NULL,
+  FOREIGN KEY (merged_into_id) REFERENCES community_ammo(id) ON DELETE SET NULL,
   INDEX idx_community_ammo_caliber (caliber),
+  INDEX idx_community_ammo_weight (bullet_weight),
+  INDEX idx_community_ammo_merged (merged_into_id),
   INDEX idx_community_ammo_manufacturer (manufacturer),
   INDEX idx_community_ammo_status (verification_status),
   INDEX idx_community_ammo_score (vote_score DESC),
@@ -401,13 +512,38 @@ CREATE TABLE IF NOT EXISTS community_ammo_votes (
   ammo_id BIGINT UNSIGNED NOT NULL,
   user_id BIGINT UNSIGNED NOT NULL,
   vote_type ENUM('up', 'down') NOT NULL,
+  is_flagged BOOLEAN NOT NULL DEFAULT FALSE COMMENT 'Suspected vote ring, excluded from counters',
+  flag_reason VARCHAR(255),
   created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
 
   FOREIGN KEY (ammo_id) REFERENCES community_ammo(id) ON DELETE CASCADE,
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
   UNIQUE KEY idx_community_votes_unique (ammo_id, user_id),
   INDEX idx_community_votes_ammo (ammo_id),
-  INDEX idx_community_votes_user (user_id)
+  INDEX idx_community_votes_user (user_id),
+  INDEX idx_community_votes_flagged (is_flagged)
+) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+
+-- =====================================================================
+-- COMMUNITY AMMO MODERATION TABLE
+-- =====================================================================
+-- History of every moderation decision on community ammunition data
+
+CREATE TABLE IF NOT EXISTS community_ammo_moderation (
+  id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  ammo_id BIGINT UNSIGNED NOT NULL,
+  moderator_id BIGINT UNSIGNED COMMENT 'NULL once the moderator is deleted',
+  action ENUM('verify', 'reject', 'dispute', 'merge') NOT NULL,
+  from_status ENUM('pending', 'verified', 'disputed', 'rejected') NOT NULL,
+  to_status ENUM('pending', 'verified', 'disputed', 'rejected') NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (ammo_id) REFERENCES community_ammo(id) ON DELETE CASCADE,
+  FOREIGN KEY (moderator_id) REFERENCES users(id) ON DELETE SET NULL,
+  INDEX idx_community_moderation_ammo (ammo_id, created_at),
+  INDEX idx_community_moderation_moderator (moderator_id),
+  INDEX idx_community_moderation_timestamp (created_at)
 ) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
 -- =====================================================================
@@ -424,6 +560,8 @@ CREATE TABLE IF NOT EXISTS sync_logs (
   client_timestamp TIMESTAMP NOT NULL COMMENT 'Timestamp from mobile client',
   server_timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
   device_id VARCHAR(255) COMMENT 'Mobile device identifier',
+  entity_version INT UNSIGNED COMMENT 'row_version after the change',
+  changed_fields JSON COMMENT 'Fields an update changed; NULL when unknown',
 
   FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
   INDEX idx_sync_logs_user (user_id),
@@ -431,6 +569,38 @@ CREATE TABLE IF NOT EXISTS sync_logs (
   INDEX idx_sync_logs_timestamp (server_timestamp)
 ) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
+-- =====================================================================
+-- SYNC CONFLICTS TABLE
+-- =====================================================================
+-- Device changes that overlapped edits made elsewhere, how they were
+-- resolved, and those left pending for the user to settle
+
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+  id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+  user_id BIGINT UNSIGNED NOT NULL,
+  entity_type ENUM('rifle', 'ammo', 'dope_log', 'environment') NOT NULL,
+  entity_id BIGINT UNSIGNED NOT NULL,
+  operation ENUM('update', 'delete') NOT NULL COMMENT 'Client operation',
+  device_id VARCHAR(255) COMMENT 'Device that sent the change',
+  base_version INT UNSIGNED NOT NULL COMMENT 'row_version the device last saw',
+  server_version INT UNSIGNED NOT NULL COMMENT 'row_version when the change arrived',
+  conflicting_fields JSON NOT NULL,
+  client_data JSON NOT NULL COMMENT 'Client values of the conflicting fields',
+  server_data JSON NOT NULL COMMENT 'Server values of the conflicting fields',
+  client_timestamp TIMESTAMP NOT NULL,
+  strategy ENUM('server_wins', 'client_wins', 'merge', 'manual') NOT NULL,
+  status ENUM('pending', 'resolved') NOT NULL,
+  resolution ENUM('server', 'client', 'merge') COMMENT 'NULL while pending',
+  resolved_data JSON COMMENT 'Values written by the resolution',
+  resolved_at TIMESTAMP NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_sync_conflicts_user_status (user_id, status),
+  INDEX idx_sync_conflicts_entity (entity_type, entity_id)
+) ENGINE=InnoDB ROW_FORMAT=DYNAMIC DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+
 -- =====================================================================
 -- AUDIT LOGS TABLE
 -- =====================================================================
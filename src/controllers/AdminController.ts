@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { Op, WhereAttributeHash } from 'sequelize';
+import User, { UserRole } from '../models/User';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { sendSuccess, sendPaginated } from '../utils/response';
+import logger from '../utils/logger';
+
+/**
+ * Admin Controller
+ *
+ * Account administration: listing users and granting roles.
+ */
+
+const USER_ATTRIBUTES = ['id', 'email', 'name', 'role', 'is_active', 'is_verified', 'created_at'];
+
+export class AdminController {
+  /**
+   * List users, optionally by role or search text
+   * GET /api/v1/admin/users
+   */
+  async getUsers(req: Request, res: Response) {
+    const { page, limit, offset } = (req as any).pagination;
+    const { role, search } = req.query;
+
+    const where: WhereAttributeHash<User> & { [Op.or]?: WhereAttributeHash<User>[] } = {};
+
+    if (role) {
+      where.role = role as UserRole;
+    }
+
+    if (search) {
+      where[Op.or] = [
+        { email: { [Op.like]: `%${String(search)}%` } },
+        { name: { [Op.like]: `%${String(search)}%` } },
+      ];
+    }
+
+    const { count, rows } = await User.findAndCountAll({
+      where,
+      attributes: USER_ATTRIBUTES,
+      limit,
+      offset,
+      order: [['id', 'ASC']],
+    });
+
+    return sendPaginated(res, rows, page, limit, count);
+  }
+
+  /**
+   * Change a user's role
+   * PUT /api/v1/admin/users/:id/role
+   */
+  async updateRole(req: Request, res: Response) {
+    const adminId = (req as any).userId;
+    const userId = (req as any).idParsed;
+
+    // Keeps at least the acting admin in place
+    if (Number(userId) === Number(adminId)) {
+      throw new ValidationError('You cannot change your own role');
+    }
+
+    const user = await User.findByPk(userId);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const previous = user.role;
+    await user.update({ role: req.body.role });
+
+    logger.info('User role changed', { adminId, userId, from: previous, to: user.role });
+
+    return sendSuccess(res, user, 'Role updated successfully');
+  }
+}
+
+export default new AdminController();
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
 import AmmoProfile from '../models/AmmoProfile';
 import RifleProfile from '../models/RifleProfile';
+import SyncLog from '../models/SyncLog';
 import { NotFoundError, ValidationError } from '../utils/errors';
+import { versionedChanges } from '../utils/rowVersion';
 import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../utils/response';
 import { Op } from 'sequelize';
 
@@ -106,10 +108,9 @@ export class AmmoProfileController {
       throw new ValidationError('Invalid rifle_id: Rifle not found or does not belong to you');
     }
 
-    const ammo = await AmmoProfile.create({
-      ...req.body,
-      user_id: userId,
-    });
+    const ammo = await SyncLog.logged((transaction) =>
+      AmmoProfile.create({ ...req.body, user_id: userId }, { transaction }),
+    );
 
     // Load rifle relationship
     await ammo.reload({
@@ -144,6 +145,8 @@ export class AmmoProfileController {
       throw new NotFoundError('Ammo profile');
     }
 
+    const changes = versionedChanges(ammo, req.body, 'Ammo profile');
+
     // If updating rifle_id, verify it belongs to user
     if (req.body.rifle_id && req.body.rifle_id !== ammo.rifle_id) {
       const rifle = await RifleProfile.findOne({
@@ -159,7 +162,7 @@ export class AmmoProfileController {
     }
 
     // Update ammo
-    await ammo.update(req.body);
+    await SyncLog.logged((transaction) => ammo.update(changes, { transaction }));
 
     // Reload with rifle
     await ammo.reload({
@@ -194,7 +197,7 @@ export class AmmoProfileController {
       throw new NotFoundError('Ammo profile');
     }
 
-    await ammo.destroy();
+    await SyncLog.logged((transaction) => ammo.destroy({ transaction }));
 
     return sendNoContent(res);
   }
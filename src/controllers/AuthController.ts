@@ -2,7 +2,7 @@ import { Request, Response } from 'express';
 import User from '../models/User';
 import { generateTokenPair, verifyRefreshToken } from '../utils/jwt';
 import { AuthenticationError, ConflictError, NotFoundError } from '../utils/errors';
-import { sendSuccess, sendCreated, sendError } from '../utils/response';
+import { sendSuccess, sendCreated } from '../utils/response';
 import { logAuth } from '../utils/logger';
 
 /**
@@ -38,7 +38,7 @@ export class AuthController {
     });
 
     // Generate verification token
-    const verificationToken = await user.generateVerificationToken();
+    await user.generateVerificationToken();
 
     logAuth('user_registered', user.id, { email });
 
@@ -175,7 +175,7 @@ export class AuthController {
     }
 
     // Generate reset token
-    const resetToken = await user.generatePasswordResetToken();
+    await user.generatePasswordResetToken();
 
     logAuth('password_reset_requested', user.id, { email });
 
@@ -0,0 +1,398 @@
+import { Request, Response } from 'express';
+import CustomDragModel from '../models/CustomDragModel';
+import DOPELog from '../models/DOPELog';
+import EnvironmentSnapshot from '../models/EnvironmentSnapshot';
+import BallisticsService, { ShotConditions } from '../services/BallisticsService';
+import LeadService, {
+  DEFAULT_TARGET_ANGLE,
+  DEFAULT_TARGET_WIDTH_INCHES,
+} from '../services/LeadService';
+import PredictionService from '../services/PredictionService';
+import SettingsService from '../services/SettingsService';
+import ShotAngleService from '../services/ShotAngleService';
+import TruingService, { TruingFit, TruingObservation } from '../services/TruingService';
+import WindTableService, {
+  DEFAULT_CLOCKS,
+  DEFAULT_WIND_SPEEDS,
+  WindCalibration,
+  WindObservation,
+} from '../services/WindTableService';
+import { ValidationError } from '../utils/errors';
+import { convertAngular, round } from '../utils/units';
+import { sendSuccess, sendCreated } from '../utils/response';
+
+/**
+ * Ballistics Controller
+ *
+ * Handles trajectory predictions for rifle/ammo combinations.
+ */
+
+export class BallisticsController {
+  /**
+   * Solve trajectory for a rifle/ammo pair
+   * POST /api/v1/ballistics/solve
+   */
+  async solve(req: Request, res: Response) {
+    const userId = (req as any).userId;
+
+    const { rifle, ammo, environment, customDrag, velocityAdjustment, input } =
+      await PredictionService.loadContext(userId, req.body);
+
+    const result = BallisticsService.solve(input);
+
+    return sendSuccess(res, {
+      rifle: {
+        id: rifle.id,
+        name: rifle.name,
+        caliber: rifle.caliber,
+      },
+      ammo: {
+        id: ammo.id,
+        name: ammo.name,
+        manufacturer: ammo.manufacturer,
+      },
+      environment_id: environment ? environment.id : null,
+      custom_drag_model_id: customDrag ? customDrag.id : null,
+      conditions: this.describeConditions(input.conditions),
+      muzzle_velocity_adjustment: velocityAdjustment,
+      ...result,
+    });
+  }
+
+  /**
+   * Calculate Miller gyroscopic stability for a rifle/ammo pair
+   * POST /api/v1/ballistics/stability
+   */
+  async stability(req: Request, res: Response) {
+    const userId = (req as any).userId;
+
+    const { rifle, ammo, environment, input } = await PredictionService.loadContext(
+      userId,
+      req.body,
+    );
+
+    const stability = PredictionService.getStability(
+      rifle,
+      ammo,
+      input.conditions,
+      input.muzzleVelocity,
+    );
+
+    if (!stability) {
+      throw new ValidationError(
+        'Stability requires a valid rifle twist_rate and ammo bullet_length and bullet_diameter',
+      );
+    }
+
+    const g1 = Number(ammo.ballistic_coefficient_g1);
+    const g7 = Number(ammo.ballistic_coefficient_g7);
+
+    return sendSuccess(res, {
+      rifle: {
+        id: rifle.id,
+        name: rifle.name,
+        twist_rate: rifle.twist_rate,
+      },
+      ammo: {
+        id: ammo.id,
+        name: ammo.name,
+        bullet_weight: Number(ammo.bullet_weight),
+        bullet_length: Number(ammo.bullet_length),
+        bullet_diameter: Number(ammo.bullet_diameter),
+        muzzle_velocity: input.muzzleVelocity,
+      },
+      environment_id: environment ? environment.id : null,
+      conditions: {
+        temperature: input.conditions.temperature,
+        pressure: input.conditions.pressure,
+        pressure_type: input.conditions.pressureType,
+      },
+      ...stability,
+      corrected_bc: {
+        g1: Number((g1 * stability.bc_correction_factor).toFixed(4)),
+        g7: Number((g7 * stability.bc_correction_factor).toFixed(4)),
+      },
+    });
+  }
+
+  /**
+   * True muzzle velocity and/or BC against logged DOPE. The profile
+   * velocity is trued as-is, without powder temperature adjustment.
+   * POST /api/v1/ballistics/true
+   */
+  async true(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const fit: TruingFit = req.body.fit || 'both';
+
+    const { rifle, ammo, customDrag, input } = await PredictionService.loadContext(userId, {
+      rifle_id: req.body.rifle_id,
+      ammo_id: req.body.ammo_id,
+      drag_model: req.body.drag_model,
+      powder_temperature: false,
+    });
+
+    const logs = await DOPELog.findAll({
+      where: {
+        user_id: userId,
+        rifle_id: rifle.id,
+        ammo_id: ammo.id,
+      },
+      include: [
+        {
+          model: EnvironmentSnapshot,
+          as: 'environment',
+        },
+      ],
+      order: [['distance_yards', 'ASC']],
+    });
+
+    // Each log is flown under the conditions and shot angle it was recorded at
+    const observations: TruingObservation[] = logs.map((log) => {
+      const level = ShotAngleService.removeCant(
+        Number(log.elevation_correction),
+        Number(log.windage_correction),
+        Number(log.cant_angle) || 0,
+      );
+      const hasAzimuth = log.shot_azimuth !== null && log.shot_azimuth !== undefined;
+
+      return {
+        input: {
+          ...input,
+          conditions: PredictionService.buildConditions(log.environment || null),
+          inclineAngle: Number(log.incline_angle) || 0,
+          shotAzimuth: hasAzimuth ? Number(log.shot_azimuth) : input.shotAzimuth,
+        },
+        rangeYards: Number(log.distance_yards),
+        elevationMil: convertAngular(level.elevation, log.correction_unit, 'MIL'),
+      };
+    });
+
+    const distances = new Set(observations.map((o) => Math.round(o.rangeYards)));
+    const required = fit === 'both' ? 2 : 1;
+    if (distances.size < required) {
+      throw new ValidationError(
+        `Truing requires DOPE logged at ${required} or more distances for fit=${fit}`,
+      );
+    }
+
+    const result = TruingService.true(observations, fit, rifle.click_value_type);
+
+    // The BC scale applies to both drag models so they stay consistent. A
+    // drag model the profile has no BC for (0) still has none after truing.
+    const truedBc = {
+      g1: round(Number(ammo.ballistic_coefficient_g1) * result.trued.bc_scale, 4),
+      g7: round(Number(ammo.ballistic_coefficient_g7) * result.trued.bc_scale, 4),
+    };
+    const outOfRange = (['g1', 'g7'] as const).filter((model) => truedBc[model] > 1);
+    if (outOfRange.length > 0) {
+      throw new ValidationError(
+        'Trued ballistic coefficient is out of range; check the logged DOPE',
+        outOfRange.map((model) => ({
+          field: `ballistic_coefficient_${model}`,
+          message: `Trued ${model.toUpperCase()} BC ${truedBc[model]} is above 1`,
+        })),
+      );
+    }
+
+    if (!req.body.save) {
+      return sendSuccess(res, {
+        rifle_id: rifle.id,
+        ammo_id: ammo.id,
+        drag_model: input.dragModel,
+        ...result,
+        revision: null,
+      });
+    }
+
+    // Save the trued values as a new revision of the ammo profile. Its custom
+    // drag models come along, and the one flown here is trued with it.
+    const flownDrag = req.body.drag_model ? null : customDrag;
+    const dragModels = await CustomDragModel.findAll({
+      where: { ammo_id: ammo.id, user_id: userId },
+    });
+    const revision = await ammo.createRevision(
+      {
+        ballistic_coefficient_g1: truedBc.g1,
+        ballistic_coefficient_g7: truedBc.g7,
+        muzzle_velocity: result.trued.muzzle_velocity,
+        notes: `Trued (${fit}) from ${result.observation_count} DOPE logs`,
+      },
+      (created, transaction) =>
+        Promise.all(
+          dragModels.map((model) =>
+            model.copyTo(
+              created.id,
+              model.id === flownDrag?.id ? result.trued.bc_scale : 1,
+              transaction,
+            ),
+          ),
+        ),
+    );
+
+    return sendCreated(
+      res,
+      {
+        rifle_id: rifle.id,
+        ammo_id: ammo.id,
+        drag_model: input.dragModel,
+        ...result,
+        revision: revision.toJSON(),
+      },
+      'Trued ammo profile revision created',
+    );
+  }
+
+  /**
+   * Wind hold table per range for a rifle/ammo pair
+   * POST /api/v1/ballistics/wind-table
+   */
+  async windTable(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const speeds: number[] = (req.body.wind_speeds || DEFAULT_WIND_SPEEDS).map(Number);
+    const clocks: number[] = (req.body.clock_positions || DEFAULT_CLOCKS).map(Number);
+    const calibrate = req.body.calibrate !== false;
+
+    const { rifle, ammo, environment, input } = await PredictionService.loadContext(
+      userId,
+      req.body,
+    );
+
+    let calibration: WindCalibration = { factor: 1, log_count: 0, applied: false };
+
+    if (calibrate) {
+      const logs = await DOPELog.findAll({
+        where: {
+          user_id: userId,
+          rifle_id: rifle.id,
+          ammo_id: ammo.id,
+        },
+        include: [
+          {
+            model: EnvironmentSnapshot,
+            as: 'environment',
+          },
+        ],
+      });
+
+      // Only logs with recorded wind say anything about wind holds
+      const observations: WindObservation[] = logs
+        .filter((log) => log.environment && Number(log.environment.wind_speed) > 0)
+        .map((log) => {
+          const level = ShotAngleService.removeCant(
+            Number(log.elevation_correction),
+            Number(log.windage_correction),
+            Number(log.cant_angle) || 0,
+          );
+          const hasAzimuth = log.shot_azimuth !== null && log.shot_azimuth !== undefined;
+
+          return {
+            input: {
+              ...input,
+              conditions: PredictionService.buildConditions(log.environment || null),
+              inclineAngle: Number(log.incline_angle) || 0,
+              shotAzimuth: hasAzimuth ? Number(log.shot_azimuth) : input.shotAzimuth,
+            },
+            rangeYards: Number(log.distance_yards),
+            windageMil: convertAngular(level.windage, log.correction_unit, 'MIL'),
+          };
+        });
+
+      calibration = WindTableService.calibrate(observations);
+    }
+
+    const ranges: number[] = [];
+    for (let range = input.rangeStep; range <= input.maxRange + 1e-9; range += input.rangeStep) {
+      ranges.push(range);
+    }
+
+    // Holds in the preferred unit; clicks still follow the turret
+    const settings = await SettingsService.getUserSettings(userId);
+    const unit = settings.correction_unit || rifle.click_value_type;
+    const clickValue = convertAngular(Number(rifle.click_value), rifle.click_value_type, unit);
+
+    const table = WindTableService.buildTable(input, ranges, {
+      speeds,
+      clocks,
+      unit,
+      clickValue,
+      calibrationFactor: calibration.factor,
+    });
+
+    return sendSuccess(res, {
+      rifle: {
+        id: rifle.id,
+        name: rifle.name,
+        caliber: rifle.caliber,
+      },
+      ammo: {
+        id: ammo.id,
+        name: ammo.name,
+        manufacturer: ammo.manufacturer,
+      },
+      environment_id: environment ? environment.id : null,
+      unit,
+      click_value: clickValue,
+      wind_speeds: speeds,
+      clock_positions: clocks,
+      calibration,
+      table,
+    });
+  }
+
+  /**
+   * Moving-target leads per range for a rifle/ammo pair
+   * POST /api/v1/ballistics/leads
+   */
+  async leads(req: Request, res: Response) {
+    const userId = (req as any).userId;
+
+    const { rifle, ammo, environment, input } = await PredictionService.loadContext(
+      userId,
+      req.body,
+    );
+
+    const target = {
+      speed: Number(req.body.target_speed),
+      angle: Number(req.body.target_angle ?? DEFAULT_TARGET_ANGLE),
+      width: Number(req.body.target_width ?? DEFAULT_TARGET_WIDTH_INCHES),
+    };
+
+    const trajectory = BallisticsService.solve(input).trajectory;
+
+    return sendSuccess(res, {
+      rifle: {
+        id: rifle.id,
+        name: rifle.name,
+        caliber: rifle.caliber,
+      },
+      ammo: {
+        id: ammo.id,
+        name: ammo.name,
+        manufacturer: ammo.manufacturer,
+      },
+      environment_id: environment ? environment.id : null,
+      moving_target: target,
+      leads: LeadService.computeLeads(trajectory, target),
+    });
+  }
+
+  /**
+   * Solver conditions under the API's field names, which the response
+   * units convert
+   */
+  private describeConditions(conditions: ShotConditions) {
+    return {
+      temperature: conditions.temperature,
+      pressure: conditions.pressure,
+      pressure_type: conditions.pressureType,
+      humidity: conditions.humidity,
+      altitude: conditions.altitude,
+      density_altitude: conditions.densityAltitude,
+      wind_speed: conditions.windSpeed,
+      wind_direction: conditions.windDirection,
+      latitude: conditions.latitude,
+    };
+  }
+}
+
+export default new BallisticsController();
@@ -0,0 +1,297 @@
+import { Request, Response } from 'express';
+import { Op, WhereAttributeHash, WhereOperators } from 'sequelize';
+import RifleProfile from '../models/RifleProfile';
+import AmmoProfile from '../models/AmmoProfile';
+import EnvironmentSnapshot from '../models/EnvironmentSnapshot';
+import RangeSession from '../models/RangeSession';
+import ColdBoreShot from '../models/ColdBoreShot';
+import ColdBoreService from '../services/ColdBoreService';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { sendSuccess, sendCreated, sendNoContent } from '../utils/response';
+
+/**
+ * Cold Bore Shot Controller
+ *
+ * Handles cold-bore impacts for a rifle and the cold vs warm bore
+ * point-of-impact shift analysis.
+ */
+
+export class ColdBoreShotController {
+  /**
+   * Get all cold-bore shots for a rifle
+   * GET /api/v1/rifles/:id/cold-bore-shots
+   */
+  async getAll(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const rifle = await this.findRifle(userId, (req as any).idParsed);
+
+    const shots = await ColdBoreShot.findAll({
+      where: this.buildWhere(userId, rifle.id, req.query),
+      order: [['shot_time', 'DESC']],
+      include: [
+        {
+          model: EnvironmentSnapshot,
+          as: 'environment',
+          attributes: ['id', 'temperature', 'humidity', 'pressure', 'wind_speed', 'wind_direction'],
+        },
+      ],
+    });
+
+    return sendSuccess(res, shots);
+  }
+
+  /**
+   * Cold vs warm bore point-of-impact shift and the hold for the first shot
+   * GET /api/v1/rifles/:id/cold-bore-shots/analysis
+   */
+  async getAnalysis(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const rifle = await this.findRifle(userId, (req as any).idParsed);
+
+    const shots = await ColdBoreShot.findAll({
+      where: this.buildWhere(userId, rifle.id, req.query),
+      order: [['shot_time', 'ASC']],
+    });
+
+    const analysis = ColdBoreService.analyze(shots);
+    const unit = rifle.click_value_type;
+    const clickValue = Number(rifle.click_value);
+
+    // Hold expressed in the rifle's turret clicks
+    let holdClicks = null;
+    if (analysis.hold && clickValue > 0) {
+      const hold = analysis.hold;
+      const horizontal = unit === 'MIL' ? hold.horizontal_mil : hold.horizontal_moa;
+      const vertical = unit === 'MIL' ? hold.vertical_mil : hold.vertical_moa;
+      holdClicks = {
+        windage: Math.round(horizontal / clickValue),
+        elevation: Math.round(vertical / clickValue),
+      };
+    }
+
+    return sendSuccess(res, {
+      rifle_id: rifle.id,
+      unit,
+      click_value: clickValue,
+      ...analysis,
+      hold_clicks: holdClicks,
+    });
+  }
+
+  /**
+   * Get single cold-bore shot
+   * GET /api/v1/rifles/:id/cold-bore-shots/:shotId
+   */
+  async getById(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const rifle = await this.findRifle(userId, (req as any).idParsed);
+    const shot = await this.findShot(userId, rifle.id, (req as any).shotIdParsed);
+
+    await shot.reload({
+      include: [
+        {
+          model: EnvironmentSnapshot,
+          as: 'environment',
+        },
+        {
+          model: AmmoProfile,
+          as: 'ammo',
+          attributes: ['id', 'name', 'manufacturer'],
+        },
+      ],
+    });
+
+    return sendSuccess(res, shot);
+  }
+
+  /**
+   * Record a cold-bore shot. Linking a range session fills in its ammo,
+   * conditions, distance and start time and marks the session as having
+   * a cold-bore shot.
+   * POST /api/v1/rifles/:id/cold-bore-shots
+   */
+  async create(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const rifle = await this.findRifle(userId, (req as any).idParsed);
+
+    let session: RangeSession | null = null;
+    if (req.body.range_session_id) {
+      session = await this.findRangeSession(userId, rifle.id, req.body.range_session_id);
+    }
+
+    const ammoId = req.body.ammo_id ?? session?.ammo_id ?? null;
+    const environmentId = req.body.environment_id ?? session?.environment_id ?? null;
+    const distance = req.body.distance_yards ?? session?.distance;
+
+    if (!distance) {
+      throw new ValidationError('distance_yards is required without a range session');
+    }
+
+    await this.verifyLinks(userId, req.body.ammo_id, req.body.environment_id);
+
+    const shot = await ColdBoreShot.create({
+      user_id: userId,
+      rifle_id: rifle.id,
+      ammo_id: ammoId,
+      range_session_id: session ? session.id : null,
+      environment_id: environmentId,
+      shot_time: req.body.shot_time || session?.start_time || new Date(),
+      distance_yards: distance,
+      offset_horizontal: req.body.offset_horizontal,
+      offset_vertical: req.body.offset_vertical,
+      warm_offset_horizontal: req.body.warm_offset_horizontal ?? null,
+      warm_offset_vertical: req.body.warm_offset_vertical ?? null,
+      warm_shot_count: req.body.warm_shot_count ?? null,
+      days_since_cleaning: req.body.days_since_cleaning ?? null,
+      notes: req.body.notes ?? null,
+    });
+
+    if (session && !session.cold_bore_shot) {
+      await session.update({ cold_bore_shot: true });
+    }
+
+    return sendCreated(res, shot, 'Cold-bore shot recorded');
+  }
+
+  /**
+   * Update cold-bore shot
+   * PUT /api/v1/rifles/:id/cold-bore-shots/:shotId
+   */
+  async update(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const rifle = await this.findRifle(userId, (req as any).idParsed);
+    const shot = await this.findShot(userId, rifle.id, (req as any).shotIdParsed);
+
+    if (req.body.range_session_id && req.body.range_session_id !== shot.range_session_id) {
+      await this.findRangeSession(userId, rifle.id, req.body.range_session_id);
+    }
+
+    await this.verifyLinks(userId, req.body.ammo_id, req.body.environment_id);
+
+    // Prevent moving the shot to another rifle
+    const updates = { ...req.body };
+    delete updates.user_id;
+    delete updates.rifle_id;
+
+    await shot.update(updates);
+
+    return sendSuccess(res, shot, 'Cold-bore shot updated successfully');
+  }
+
+  /**
+   * Delete cold-bore shot
+   * DELETE /api/v1/rifles/:id/cold-bore-shots/:shotId
+   */
+  async delete(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const rifle = await this.findRifle(userId, (req as any).idParsed);
+    const shot = await this.findShot(userId, rifle.id, (req as any).shotIdParsed);
+
+    await shot.destroy();
+
+    return sendNoContent(res);
+  }
+
+  private buildWhere(
+    userId: number,
+    rifleId: number,
+    filters: Request['query'],
+  ): WhereAttributeHash<ColdBoreShot> {
+    const where: WhereAttributeHash<ColdBoreShot> = {
+      user_id: userId,
+      rifle_id: rifleId,
+    };
+
+    if (filters.ammo_id) {
+      where.ammo_id = Number(filters.ammo_id);
+    }
+
+    if (filters.date_from || filters.date_to) {
+      const shotTime: WhereOperators = {};
+      if (filters.date_from) {
+        shotTime[Op.gte] = String(filters.date_from);
+      }
+      if (filters.date_to) {
+        shotTime[Op.lte] = String(filters.date_to);
+      }
+      where.shot_time = shotTime;
+    }
+
+    return where;
+  }
+
+  private async verifyLinks(userId: number, ammoId?: number, environmentId?: number) {
+    if (ammoId) {
+      const ammo = await AmmoProfile.findOne({ where: { id: ammoId, user_id: userId } });
+      if (!ammo) {
+        throw new ValidationError('Invalid ammo_id: Ammo not found or does not belong to you');
+      }
+    }
+
+    if (environmentId) {
+      const environment = await EnvironmentSnapshot.findOne({
+        where: { id: environmentId, user_id: userId },
+      });
+      if (!environment) {
+        throw new ValidationError(
+          'Invalid environment_id: Environment not found or does not belong to you',
+        );
+      }
+    }
+  }
+
+  private async findRangeSession(
+    userId: number,
+    rifleId: number,
+    sessionId: number,
+  ): Promise<RangeSession> {
+    const session = await RangeSession.findOne({
+      where: { id: sessionId, user_id: userId },
+    });
+
+    if (!session) {
+      throw new ValidationError(
+        'Invalid range_session_id: Session not found or does not belong to you',
+      );
+    }
+
+    if (Number(session.rifle_id) !== Number(rifleId)) {
+      throw new ValidationError('Range session is for a different rifle');
+    }
+
+    return session;
+  }
+
+  private async findRifle(userId: number, rifleId: number): Promise<RifleProfile> {
+    const rifle = await RifleProfile.findOne({
+      where: {
+        id: rifleId,
+        user_id: userId,
+      },
+    });
+
+    if (!rifle) {
+      throw new NotFoundError('Rifle profile');
+    }
+
+    return rifle;
+  }
+
+  private async findShot(userId: number, rifleId: number, shotId: number): Promise<ColdBoreShot> {
+    const shot = await ColdBoreShot.findOne({
+      where: {
+        id: shotId,
+        rifle_id: rifleId,
+        user_id: userId,
+      },
+    });
+
+    if (!shot) {
+      throw new NotFoundError('Cold-bore shot');
+    }
+
+    return shot;
+  }
+}
+
+export default new ColdBoreShotController();
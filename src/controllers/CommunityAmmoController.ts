@@ -0,0 +1,420 @@
+import { Request, Response } from 'express';
+import { Includeable, Op, Utils, WhereAttributeHash, literal } from 'sequelize';
+import CommunityAmmo from '../models/CommunityAmmo';
+import AmmoProfile from '../models/AmmoProfile';
+import RifleProfile from '../models/RifleProfile';
+import User from '../models/User';
+import CommunityAmmoVote from '../models/CommunityAmmoVote';
+import CommunityVoteService, { CastVote } from '../services/CommunityVoteService';
+import DuplicateDetectionService from '../services/DuplicateDetectionService';
+import { VerificationStatus, VoteType } from '../types/community';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors';
+import logger from '../utils/logger';
+import { sendSuccess, sendCreated, sendPaginated } from '../utils/response';
+
+/**
+ * Community Ammo Controller
+ *
+ * Handles the shared factory ammunition database: ranked search,
+ * submissions and copying a load into the user's own ammo profiles.
+ */
+
+const SUBMITTER_ATTRIBUTES = ['id', 'name'];
+
+// Votes considered when looking for vote rings
+const RING_HISTORY_LIMIT = 200;
+const RING_RELATED_LIMIT = 5000;
+
+// Must list the columns of the FULLTEXT index exactly
+const FULLTEXT_COLUMNS = 'manufacturer, product_name, caliber, bullet_type';
+
+export class CommunityAmmoController {
+  /**
+   * Search community ammo, best quality first
+   * GET /api/v1/community/ammo
+   */
+  async getAll(req: Request, res: Response) {
+    const { page, limit, offset } = (req as any).pagination;
+    const { q, caliber, manufacturer, bullet_type, status } = req.query;
+
+    // Rejected submissions stay out of search
+    const where: WhereAttributeHash<CommunityAmmo> & { [Op.and]?: Utils.Literal[] } = {
+      verification_status: status ? (status as VerificationStatus) : { [Op.ne]: 'rejected' },
+    };
+
+    if (caliber) {
+      where.caliber = String(caliber);
+    }
+
+    if (manufacturer) {
+      where.manufacturer = String(manufacturer);
+    }
+
+    if (bullet_type) {
+      where.bullet_type = String(bullet_type);
+    }
+
+    const match = q ? this.fullTextMatch(q as string) : null;
+    if (match) {
+      where[Op.and] = [literal(match)];
+    }
+
+    const { count, rows } = await CommunityAmmo.findAndCountAll({
+      where,
+      limit,
+      offset,
+      order: [
+        ['quality_score', 'DESC'],
+        ['usage_count', 'DESC'],
+        ['id', 'DESC'],
+      ],
+      include: [
+        {
+          model: User,
+          as: 'submitter',
+          attributes: SUBMITTER_ATTRIBUTES,
+        },
+      ],
+    });
+
+    return sendPaginated(res, rows, page, limit, count);
+  }
+
+  /**
+   * Get single community ammo entry with the duplicates merged into it
+   * GET /api/v1/community/ammo/:id
+   */
+  async getById(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed, [
+      {
+        model: CommunityAmmo,
+        as: 'merged_entries',
+        attributes: ['id', 'manufacturer', 'product_name', 'data_source', 'created_at'],
+        include: [
+          {
+            model: User,
+            as: 'submitter',
+            attributes: SUBMITTER_ATTRIBUTES,
+          },
+        ],
+      },
+    ]);
+    const vote = await CommunityAmmoVote.findOne({
+      where: { ammo_id: ammo.id, user_id: userId },
+    });
+
+    return sendSuccess(res, { ...ammo.toJSON(), my_vote: vote?.vote_type ?? null });
+  }
+
+  /**
+   * Submit ammo to the community database for review
+   * POST /api/v1/community/ammo
+   */
+  async create(req: Request, res: Response) {
+    const userId = (req as any).userId;
+
+    if (
+      req.body.ballistic_coefficient_g1 === undefined &&
+      req.body.ballistic_coefficient_g7 === undefined
+    ) {
+      throw new ValidationError('A G1 or G7 ballistic coefficient is required');
+    }
+
+    // Looked up first so the new entry is not its own match
+    const duplicates = await DuplicateDetectionService.findLikelyDuplicates(req.body);
+
+    const ammo = await CommunityAmmo.create({
+      manufacturer: req.body.manufacturer,
+      product_name: req.body.product_name,
+      caliber: req.body.caliber,
+      bullet_weight: req.body.bullet_weight,
+      bullet_type: req.body.bullet_type,
+      ballistic_coefficient_g1: req.body.ballistic_coefficient_g1 ?? null,
+      ballistic_coefficient_g7: req.body.ballistic_coefficient_g7 ?? null,
+      advertised_velocity: req.body.advertised_velocity ?? null,
+      barrel_length: req.body.barrel_length ?? null,
+      data_source: req.body.data_source ?? null,
+      notes: req.body.notes ?? null,
+      submitted_by: userId,
+    });
+
+    // Load the generated quality score
+    await ammo.reload({
+      include: [
+        {
+          model: User,
+          as: 'submitter',
+          attributes: SUBMITTER_ATTRIBUTES,
+        },
+      ],
+    });
+
+    return sendCreated(
+      res,
+      { ...ammo.toJSON(), possible_duplicates: duplicates },
+      duplicates.length > 0
+        ? 'Community ammo submitted for review; similar entries already exist'
+        : 'Community ammo submitted for review',
+    );
+  }
+
+  /**
+   * Copy community ammo into the user's ammo profiles for a rifle
+   * POST /api/v1/community/ammo/:id/copy
+   *
+   * Missing BCs or velocity can be filled in (or overridden) in the body.
+   */
+  async copy(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const community = await this.findAmmo(userId, (req as any).idParsed);
+
+    if (community.verification_status === 'rejected') {
+      throw new ValidationError('Rejected community ammo cannot be copied');
+    }
+
+    const rifle = await RifleProfile.findOne({
+      where: {
+        id: req.body.rifle_id,
+        user_id: userId,
+      },
+    });
+
+    if (!rifle) {
+      throw new ValidationError('Invalid rifle_id: Rifle not found or does not belong to you');
+    }
+
+    const { ballistic_coefficient_g1, ballistic_coefficient_g7, muzzle_velocity } = req.body;
+    const values = {
+      ballistic_coefficient_g1: ballistic_coefficient_g1 ?? community.ballistic_coefficient_g1,
+      ballistic_coefficient_g7: ballistic_coefficient_g7 ?? community.ballistic_coefficient_g7,
+      muzzle_velocity: muzzle_velocity ?? community.advertised_velocity,
+    };
+
+    const missing = Object.entries(values)
+      .filter(([, value]) => value === null || value === undefined)
+      .map(([field]) => ({ field, message: `${field} is required for this ammo` }));
+    if (missing.length > 0) {
+      throw new ValidationError('Community ammo is missing data required for a profile', missing);
+    }
+
+    const ammo = await community.recordCopy((transaction) =>
+      AmmoProfile.create(
+        {
+          user_id: userId,
+          rifle_id: rifle.id,
+          name: req.body.name || community.getDisplayName().slice(0, 255),
+          manufacturer: community.manufacturer,
+          bullet_weight: Number(community.bullet_weight),
+          bullet_type: community.bullet_type,
+          ballistic_coefficient_g1: Number(values.ballistic_coefficient_g1),
+          ballistic_coefficient_g7: Number(values.ballistic_coefficient_g7),
+          muzzle_velocity: Number(values.muzzle_velocity),
+          lot_number: req.body.lot_number,
+          notes: req.body.notes ?? community.notes ?? undefined,
+        },
+        { transaction },
+      ),
+    );
+
+    await ammo.reload({
+      include: [
+        {
+          model: RifleProfile,
+          as: 'rifle',
+          attributes: ['id', 'name', 'caliber'],
+        },
+      ],
+    });
+
+    return sendCreated(res, ammo, 'Community ammo copied to your ammo profiles');
+  }
+
+  /**
+   * Vote community ammo up or down, replacing any earlier vote
+   * PUT /api/v1/community/ammo/:id/vote
+   *
+   * Votes that look like part of a vote ring are accepted but flagged
+   * and left out of the counters, together with the correlated votes.
+   */
+  async vote(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const voteType: VoteType = req.body.vote_type;
+    const ammo = await this.findVotableAmmo(userId, (req as any).idParsed);
+
+    const existing = await CommunityAmmoVote.findOne({
+      where: { ammo_id: ammo.id, user_id: userId },
+    });
+    if (existing?.vote_type === voteType) {
+      return sendSuccess(res, this.voteSummary(ammo, voteType), 'Vote unchanged');
+    }
+
+    const assessment = CommunityVoteService.assess({
+      voter: { user_id: userId, created_at: new Date(req.user!.created_at) },
+      vote_type: voteType,
+      ammo: { id: Number(ammo.id), submitted_by: this.toUserId(ammo.submitted_by) },
+      ...(await this.loadVoteHistory(userId, ammo.id)),
+    });
+
+    if (assessment.flagged) {
+      logger.warn('Community vote flagged as possible vote ring', {
+        ammoId: ammo.id,
+        userId,
+        reasons: assessment.reasons,
+        correlatedUserIds: assessment.correlated_user_ids,
+      });
+    }
+
+    await CommunityVoteService.record(
+      ammo.id,
+      userId,
+      {
+        vote_type: voteType,
+        is_flagged: assessment.flagged,
+        flag_reason: assessment.flagged ? assessment.reasons.join('; ').slice(0, 255) : null,
+      },
+      assessment.correlated_user_ids,
+    );
+
+    await ammo.reload();
+    return sendSuccess(res, this.voteSummary(ammo, voteType), 'Vote recorded');
+  }
+
+  /**
+   * Retract the user's vote
+   * DELETE /api/v1/community/ammo/:id/vote
+   */
+  async retractVote(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+
+    const existing = await CommunityAmmoVote.findOne({
+      where: { ammo_id: ammo.id, user_id: userId },
+    });
+    if (!existing) {
+      throw new NotFoundError('Vote');
+    }
+
+    await CommunityVoteService.record(ammo.id, userId, null);
+
+    await ammo.reload();
+    return sendSuccess(res, this.voteSummary(ammo, null), 'Vote retracted');
+  }
+
+  /**
+   * Users cannot vote on rejected entries or their own submissions
+   */
+  private async findVotableAmmo(userId: number, ammoId: number) {
+    const ammo = await this.findAmmo(userId, ammoId);
+
+    if (ammo.verification_status === 'rejected') {
+      throw new ValidationError('Rejected community ammo cannot be voted on');
+    }
+
+    if (Number(ammo.submitted_by) === Number(userId)) {
+      throw new AuthorizationError('You cannot vote on your own submission');
+    }
+
+    return ammo;
+  }
+
+  /**
+   * The voter's earlier votes and other accounts' votes on the same
+   * entries, for vote ring detection
+   */
+  private async loadVoteHistory(userId: number, ammoId: number) {
+    const include = [
+      { model: CommunityAmmo, as: 'ammo', attributes: ['submitted_by'] },
+      { model: User, as: 'voter', attributes: ['id', 'created_at'] },
+    ];
+
+    const history = await CommunityAmmoVote.findAll({
+      where: { user_id: userId },
+      include,
+      order: [['created_at', 'DESC']],
+      limit: RING_HISTORY_LIMIT,
+    });
+
+    const ammoIds = [ammoId, ...history.map((vote) => vote.ammo_id)];
+    const related = await CommunityAmmoVote.findAll({
+      where: { ammo_id: ammoIds, user_id: { [Op.ne]: userId } },
+      include,
+      order: [['created_at', 'DESC']],
+      limit: RING_RELATED_LIMIT,
+    });
+
+    return {
+      history: history.map((vote) => this.toCastVote(vote)),
+      related: related.map((vote) => this.toCastVote(vote)),
+    };
+  }
+
+  private toCastVote(vote: CommunityAmmoVote): CastVote {
+    return {
+      user_id: Number(vote.user_id),
+      ammo_id: Number(vote.ammo_id),
+      vote_type: vote.vote_type,
+      submitted_by: this.toUserId(vote.ammo?.submitted_by),
+      created_at: new Date(vote.created_at),
+      voter_created_at: new Date(vote.voter!.created_at),
+    };
+  }
+
+  private toUserId(id: number | null | undefined): number | null {
+    return id === null || id === undefined ? null : Number(id);
+  }
+
+  private voteSummary(ammo: CommunityAmmo, myVote: VoteType | null) {
+    return {
+      ammo_id: ammo.id,
+      my_vote: myVote,
+      vote_score: ammo.vote_score,
+      vote_count: ammo.vote_count,
+    };
+  }
+
+  /**
+   * Rejected submissions are only visible to their submitter
+   */
+  private async findAmmo(userId: number, ammoId: number, include: Includeable[] = []) {
+    const ammo = await CommunityAmmo.findByPk(ammoId, {
+      include: [
+        {
+          model: User,
+          as: 'submitter',
+          attributes: SUBMITTER_ATTRIBUTES,
+        },
+        ...include,
+      ],
+    });
+
+    const hidden =
+      ammo?.verification_status === 'rejected' && Number(ammo.submitted_by) !== Number(userId);
+    if (!ammo || hidden) {
+      throw new NotFoundError('Community ammo');
+    }
+
+    return ammo;
+  }
+
+  /**
+   * Boolean-mode FULLTEXT match requiring every search word
+   */
+  private fullTextMatch(text: string): string | null {
+    const terms = text
+      .split(/\s+/)
+      .map((word) => word.replace(/["+\-<>()~*@]/g, ''))
+      .filter((word) => word.length > 0)
+      .map((word) => `+"${word}"`)
+      .join(' ');
+
+    if (!terms) {
+      return null;
+    }
+
+    const escaped = CommunityAmmo.sequelize!.escape(terms);
+    return `MATCH (${FULLTEXT_COLUMNS}) AGAINST (${escaped} IN BOOLEAN MODE)`;
+  }
+}
+
+export default new CommunityAmmoController();
@@ -0,0 +1,159 @@
+import { Request, Response } from 'express';
+import { Op } from 'sequelize';
+import AmmoProfile from '../models/AmmoProfile';
+import CustomDragModel from '../models/CustomDragModel';
+import { NotFoundError } from '../utils/errors';
+import { sendSuccess, sendCreated, sendNoContent } from '../utils/response';
+
+/**
+ * Custom Drag Model Controller
+ *
+ * Handles CRUD operations for drag curves and velocity-banded BCs
+ * attached to an ammo profile.
+ */
+
+export class CustomDragModelController {
+  /**
+   * Get all drag models for an ammo profile
+   * GET /api/v1/ammo/:id/drag-models
+   */
+  async getAll(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+
+    const models = await CustomDragModel.findAll({
+      where: {
+        ammo_id: ammo.id,
+        user_id: userId,
+      },
+      order: [
+        ['is_active', 'DESC'],
+        ['created_at', 'DESC'],
+      ],
+    });
+
+    return sendSuccess(res, models);
+  }
+
+  /**
+   * Get single drag model
+   * GET /api/v1/ammo/:id/drag-models/:dragModelId
+   */
+  async getById(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const model = await this.findModel(userId, ammo.id, (req as any).dragModelIdParsed);
+
+    return sendSuccess(res, model);
+  }
+
+  /**
+   * Create drag model
+   * POST /api/v1/ammo/:id/drag-models
+   */
+  async create(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+
+    const model = await CustomDragModel.create({
+      ...req.body,
+      user_id: userId,
+      ammo_id: ammo.id,
+    });
+
+    if (model.is_active) {
+      await this.deactivateOthers(model);
+    }
+
+    return sendCreated(res, model, 'Drag model created successfully');
+  }
+
+  /**
+   * Update drag model
+   * PUT /api/v1/ammo/:id/drag-models/:dragModelId
+   */
+  async update(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const model = await this.findModel(userId, ammo.id, (req as any).dragModelIdParsed);
+
+    // Prevent moving the model to another ammo profile
+    const updates = { ...req.body };
+    delete updates.user_id;
+    delete updates.ammo_id;
+
+    await model.update(updates);
+
+    if (model.is_active) {
+      await this.deactivateOthers(model);
+    }
+
+    return sendSuccess(res, model, 'Drag model updated successfully');
+  }
+
+  /**
+   * Delete drag model
+   * DELETE /api/v1/ammo/:id/drag-models/:dragModelId
+   */
+  async delete(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const model = await this.findModel(userId, ammo.id, (req as any).dragModelIdParsed);
+
+    await model.destroy();
+
+    return sendNoContent(res);
+  }
+
+  private async findAmmo(userId: number, ammoId: number): Promise<AmmoProfile> {
+    const ammo = await AmmoProfile.findOne({
+      where: {
+        id: ammoId,
+        user_id: userId,
+      },
+    });
+
+    if (!ammo) {
+      throw new NotFoundError('Ammo profile');
+    }
+
+    return ammo;
+  }
+
+  private async findModel(
+    userId: number,
+    ammoId: number,
+    modelId: number,
+  ): Promise<CustomDragModel> {
+    const model = await CustomDragModel.findOne({
+      where: {
+        id: modelId,
+        ammo_id: ammoId,
+        user_id: userId,
+      },
+    });
+
+    if (!model) {
+      throw new NotFoundError('Drag model');
+    }
+
+    return model;
+  }
+
+  /**
+   * Only one drag model per ammo profile is used for predictions
+   */
+  private async deactivateOthers(model: CustomDragModel): Promise<void> {
+    await CustomDragModel.update(
+      { is_active: false },
+      {
+        where: {
+          ammo_id: model.ammo_id,
+          id: { [Op.ne]: model.id },
+        },
+      },
+    );
+  }
+}
+
+export default new CustomDragModelController();
@@ -3,7 +3,23 @@ import DOPELog from '../models/DOPELog';
 import RifleProfile from '../models/RifleProfile';
 import AmmoProfile from '../models/AmmoProfile';
 import EnvironmentSnapshot from '../models/EnvironmentSnapshot';
+import RangeSession from '../models/RangeSession';
+import SyncLog from '../models/SyncLog';
+import BallisticsService, { SolverInput, TrajectoryPoint } from '../services/BallisticsService';
+import PredictionService from '../services/PredictionService';
+import SettingsService from '../services/SettingsService';
+import DOPECardService, { CardMode, DEFAULT_TOLERANCE_MIL } from '../services/DOPECardService';
+import ShotAngleService, { AngleMode } from '../services/ShotAngleService';
+import { VelocityAdjustment } from '../services/TemperatureSensitivityService';
+import LeadService, {
+  DEFAULT_TARGET_ANGLE,
+  DEFAULT_TARGET_WIDTH_INCHES,
+  MovingTarget,
+} from '../services/LeadService';
 import { NotFoundError, ValidationError } from '../utils/errors';
+import { versionedChanges } from '../utils/rowVersion';
+import { convertAngular, convertDistance } from '../utils/units';
+import { getDisplayUnits } from '../middlewares/units';
 import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../utils/response';
 import { Op } from 'sequelize';
 
@@ -21,7 +37,8 @@ export class DOPELogController {
   async getAll(req: Request, res: Response) {
     const userId = (req as any).userId;
     const { page, limit, offset } = (req as any).pagination;
-    const { rifle_id, ammo_id, distance_min, distance_max, target_type, sort } = req.query;
+    const { rifle_id, ammo_id, range_session_id, distance_min, distance_max, target_type, sort } =
+      req.query;
 
     // Build query
     const where: any = { user_id: userId };
@@ -34,6 +51,10 @@ export class DOPELogController {
       where.ammo_id = ammo_id;
     }
 
+    if (range_session_id) {
+      where.range_session_id = range_session_id;
+    }
+
     if (distance_min || distance_max) {
       where.distance_yards = {};
       if (distance_min) {
@@ -165,11 +186,14 @@ export class DOPELogController {
       throw new ValidationError('Invalid environment_id: Environment not found or does not belong to you');
     }
 
+    if (req.body.range_session_id) {
+      await this.verifyRangeSession(userId, req.body.range_session_id, rifle.id, ammo.id);
+    }
+
     // Create DOPE log
-    const dopeLog = await DOPELog.create({
-      ...req.body,
-      user_id: userId,
-    });
+    const dopeLog = await SyncLog.logged((transaction) =>
+      DOPELog.create({ ...req.body, user_id: userId }, { transaction }),
+    );
 
     // Load relationships
     await dopeLog.reload({
@@ -214,6 +238,8 @@ export class DOPELogController {
       throw new NotFoundError('DOPE log');
     }
 
+    const changes = versionedChanges(dopeLog, req.body, 'DOPE log');
+
     // Validate any changed foreign keys
     if (req.body.rifle_id && req.body.rifle_id !== dopeLog.rifle_id) {
       const rifle = await RifleProfile.findOne({
@@ -242,8 +268,17 @@ export class DOPELogController {
       }
     }
 
+    if (req.body.range_session_id && req.body.range_session_id !== dopeLog.range_session_id) {
+      await this.verifyRangeSession(
+        userId,
+        req.body.range_session_id,
+        req.body.rifle_id || dopeLog.rifle_id,
+        req.body.ammo_id || dopeLog.ammo_id,
+      );
+    }
+
     // Update log
-    await dopeLog.update(req.body);
+    await SyncLog.logged((transaction) => dopeLog.update(changes, { transaction }));
 
     // Reload with relationships
     await dopeLog.reload({
@@ -287,21 +322,38 @@ export class DOPELogController {
       throw new NotFoundError('DOPE log');
     }
 
-    await dopeLog.destroy();
+    await SyncLog.logged((transaction) => dopeLog.destroy({ transaction }));
 
     return sendNoContent(res);
   }
 
   /**
-   * Get DOPE card data (all logs for a rifle/ammo combination)
+   * Get DOPE card data for a rifle/ammo combination
    * GET /api/v1/dope/card
+   *
+   * Modes:
+   * - observed: logged DOPE only (default)
+   * - predicted: solver prediction at every range increment
+   * - blended: predictions overlaid with logged corrections, flagging
+   *   ranges where they disagree by more than the tolerance
+   *
+   * Passing target_speed adds moving-target leads at every card range.
+   *
+   * The rifle, row spacing and correction unit default to the user's
+   * settings; increment and max_range are in the response distance unit.
    */
   async getCard(req: Request, res: Response) {
     const userId = (req as any).userId;
-    const { rifle_id, ammo_id } = req.query;
+    const ammo_id = req.query.ammo_id as string | undefined;
+    const { environment_id } = req.query;
+    const mode = ((req.query.mode as string) || 'observed') as CardMode;
+    const settings = await SettingsService.getUserSettings(userId);
+    const rifle_id = (req.query.rifle_id as string | undefined) || settings.default_rifle_id;
 
     if (!rifle_id || !ammo_id) {
-      throw new ValidationError('rifle_id and ammo_id are required');
+      throw new ValidationError(
+        'rifle_id (or a default_rifle_id setting) and ammo_id are required',
+      );
     }
 
     // Verify ownership
@@ -331,18 +383,176 @@ export class DOPELogController {
         'elevation_correction',
         'windage_correction',
         'correction_unit',
+        'incline_angle',
+        'cant_angle',
+        'shot_azimuth',
         'hit_percentage',
         'group_size',
       ],
     });
 
+    // Corrections in the preferred unit; clicks still follow the turret
+    const unit = settings.correction_unit || rifle.click_value_type;
+    const clickValue = convertAngular(Number(rifle.click_value), rifle.click_value_type, unit);
+    const distanceUnit = getDisplayUnits(res).distance;
+    const angleMode = ((req.query.angle_mode as string) || 'rifleman') as AngleMode;
+    const increment = Number(req.query.increment) || settings.card_increment;
+    const tolerance =
+      req.query.tolerance !== undefined
+        ? Number(req.query.tolerance)
+        : convertAngular(DEFAULT_TOLERANCE_MIL, 'MIL', unit);
+
+    const hasAngledLogs = logs.some((log) => Number(log.incline_angle) !== 0);
+    let movingTarget: MovingTarget | null = null;
+    if (req.query.target_speed !== undefined) {
+      movingTarget = {
+        speed: Number(req.query.target_speed),
+        angle: Number(req.query.target_angle ?? DEFAULT_TARGET_ANGLE),
+        width: Number(req.query.target_width ?? DEFAULT_TARGET_WIDTH_INCHES),
+      };
+    }
+
+    // Solver input is needed for predictions, moving-target leads and
+    // full-trajectory angle normalization
+    let environment: EnvironmentSnapshot | null = null;
+    let input: SolverInput | undefined;
+    let velocityAdjustment: VelocityAdjustment | null = null;
+    if (mode !== 'observed' || movingTarget || (angleMode === 'full' && hasAngledLogs)) {
+      environment = await EnvironmentSnapshot.findOne({
+        where: environment_id
+          ? { id: Number(environment_id), user_id: userId }
+          : { user_id: userId },
+        order: [['timestamp', 'DESC']],
+      });
+
+      if (environment_id && !environment) {
+        throw new NotFoundError('Environment snapshot');
+      }
+
+      // Muzzle velocity follows the snapshot temperature unless disabled
+      const conditions = PredictionService.buildConditions(environment);
+      if (req.query.powder_temperature !== 'false') {
+        velocityAdjustment = await PredictionService.getVelocityAdjustment(
+          userId,
+          ammo,
+          conditions.temperature,
+        );
+      }
+
+      input = PredictionService.buildSolverInput(
+        rifle,
+        ammo,
+        conditions,
+        {},
+        await PredictionService.getActiveDragModel(ammo.id),
+        velocityAdjustment,
+      );
+    }
+
+    // Normalize inclined and canted logs to flat-fire equivalents
+    const observed = logs.map((log) => {
+      const flat = ShotAngleService.toFlat(
+        {
+          rangeYards: Number(log.distance_yards),
+          elevation: Number(log.elevation_correction),
+          windage: Number(log.windage_correction),
+          unit: log.correction_unit,
+          inclineAngle: log.incline_angle,
+          cantAngle: log.cant_angle,
+        },
+        angleMode,
+        input,
+      );
+
+      return {
+        range_yards: Number(log.distance_yards),
+        elevation: flat.elevation,
+        windage: flat.windage,
+        unit: log.correction_unit,
+        normalized: flat.normalized,
+      };
+    });
+
+    // Predict at every increment (plus observed ranges when blending)
+    let predicted: TrajectoryPoint[] = [];
+    if (mode !== 'observed' && input) {
+      const maxObserved = observed.reduce((max, entry) => Math.max(max, entry.range_yards), 0);
+      const maxRange =
+        Number(req.query.max_range) ||
+        Math.max(settings.card_max_range, convertDistance(maxObserved, 'yards', distanceUnit));
+      const ranges: number[] = [];
+      for (let range = increment; range <= maxRange + 1e-9; range += increment) {
+        ranges.push(convertDistance(range, distanceUnit, 'yards'));
+      }
+      if (mode === 'blended') {
+        observed.forEach((entry) => ranges.push(Math.round(entry.range_yards)));
+      }
+
+      predicted = BallisticsService.solveRanges(input, ranges);
+    }
+
+    const card = DOPECardService.buildCard(predicted, observed, {
+      mode,
+      unit,
+      clickValue,
+      tolerance,
+    });
+
+    // Leads use the predicted time of flight at every card range
+    const cardRanges = card.map((row) => row.range_yards);
+    const leads =
+      movingTarget && input
+        ? LeadService.computeLeads(BallisticsService.solveRanges(input, cardRanges), movingTarget)
+        : null;
+
     return sendSuccess(res, {
       rifle: rifle.toJSON(),
       ammo: ammo.toJSON(),
+      mode,
+      angle_mode: angleMode,
+      unit,
+      click_value: clickValue,
+      distance_unit: distanceUnit,
+      tolerance,
+      environment_id: environment ? environment.id : null,
+      muzzle_velocity_adjustment: velocityAdjustment,
+      card: card.map((row) => ({
+        range: Math.round(convertDistance(row.range_yards, 'yards', distanceUnit)),
+        ...row,
+      })),
+      moving_target: movingTarget,
+      leads,
       dope_data: logs,
       generated_at: new Date().toISOString(),
     });
   }
+
+  /**
+   * A log can only join the user's own session for the same rifle and ammo
+   */
+  private async verifyRangeSession(
+    userId: number,
+    sessionId: number,
+    rifleId: number,
+    ammoId: number,
+  ): Promise<void> {
+    const session = await RangeSession.findOne({
+      where: { id: sessionId, user_id: userId },
+    });
+
+    if (!session) {
+      throw new ValidationError(
+        'Invalid range_session_id: Session not found or does not belong to you',
+      );
+    }
+
+    if (
+      Number(session.rifle_id) !== Number(rifleId) ||
+      Number(session.ammo_id) !== Number(ammoId)
+    ) {
+      throw new ValidationError('Range session is for a different rifle or ammo');
+    }
+  }
 }
 
 export default new DOPELogController();
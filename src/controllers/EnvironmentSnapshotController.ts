@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import EnvironmentSnapshot from '../models/EnvironmentSnapshot';
+import SyncLog from '../models/SyncLog';
 import { NotFoundError } from '../utils/errors';
+import { versionedChanges } from '../utils/rowVersion';
+import { calculateAtmosphere } from '../utils/atmosphere';
 import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../utils/response';
 import { Op } from 'sequelize';
 
@@ -84,10 +87,9 @@ export class EnvironmentSnapshotController {
     const userId = (req as any).userId;
 
     // Density altitude will be auto-calculated by model hook
-    const snapshot = await EnvironmentSnapshot.create({
-      ...req.body,
-      user_id: userId,
-    });
+    const snapshot = await SyncLog.logged((transaction) =>
+      EnvironmentSnapshot.create({ ...req.body, user_id: userId }, { transaction }),
+    );
 
     return sendCreated(res, snapshot, 'Environment snapshot created successfully');
   }
@@ -111,8 +113,10 @@ export class EnvironmentSnapshotController {
       throw new NotFoundError('Environment snapshot');
     }
 
+    const changes = versionedChanges(snapshot, req.body, 'Environment snapshot');
+
     // Update snapshot (density altitude will be recalculated if needed)
-    await snapshot.update(req.body);
+    await SyncLog.logged((transaction) => snapshot.update(changes, { transaction }));
 
     return sendSuccess(res, snapshot, 'Environment snapshot updated successfully');
   }
@@ -155,7 +159,7 @@ export class EnvironmentSnapshotController {
       });
     }
 
-    await snapshot.destroy();
+    await SyncLog.logged((transaction) => snapshot.destroy({ transaction }));
 
     return sendNoContent(res);
   }
@@ -228,12 +232,56 @@ export class EnvironmentSnapshotController {
       }
     );
 
+    // Derived values are averaged per snapshot so station and barometric
+    // readings can be mixed
+    const snapshots = await EnvironmentSnapshot.findAll({
+      where: {
+        user_id: userId,
+        timestamp: {
+          [Op.gte]: new Date(date_from as string),
+          [Op.lte]: new Date(date_to as string),
+        },
+      },
+      attributes: ['temperature', 'humidity', 'pressure', 'pressure_type', 'altitude'],
+    });
+
+    let atmosphere = null;
+    if (snapshots.length > 0) {
+      const totals = snapshots.reduce(
+        (sum, snapshot) => {
+          const air = calculateAtmosphere({
+            temperature: Number(snapshot.temperature),
+            pressure: Number(snapshot.pressure),
+            humidity: Number(snapshot.humidity),
+            altitude: Number(snapshot.altitude),
+            pressureType: snapshot.pressure_type,
+          });
+          return {
+            station_pressure: sum.station_pressure + air.station_pressure,
+            density_ratio: sum.density_ratio + air.density_ratio,
+            density_altitude: sum.density_altitude + air.density_altitude,
+            speed_of_sound: sum.speed_of_sound + air.speed_of_sound,
+          };
+        },
+        { station_pressure: 0, density_ratio: 0, density_altitude: 0, speed_of_sound: 0 },
+      );
+
+      const count = snapshots.length;
+      atmosphere = {
+        avg_station_pressure: Number((totals.station_pressure / count).toFixed(2)),
+        avg_density_ratio: Number((totals.density_ratio / count).toFixed(4)),
+        avg_density_altitude: Math.round(totals.density_altitude / count),
+        avg_speed_of_sound: Number((totals.speed_of_sound / count).toFixed(1)),
+      };
+    }
+
     return sendSuccess(res, {
       date_range: {
         from: date_from,
         to: date_to,
       },
       averages: averages?.[0] || null,
+      atmosphere,
     });
   }
 }
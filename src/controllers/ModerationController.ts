@@ -0,0 +1,240 @@
+import { Request, Response } from 'express';
+import { WhereAttributeHash, literal } from 'sequelize';
+import CommunityAmmo from '../models/CommunityAmmo';
+import CommunityAmmoModeration from '../models/CommunityAmmoModeration';
+import User from '../models/User';
+import DuplicateDetectionService from '../services/DuplicateDetectionService';
+import ModerationService from '../services/ModerationService';
+import { ModerationAction } from '../types/community';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { sendSuccess, sendPaginated } from '../utils/response';
+
+/**
+ * Moderation Controller
+ *
+ * Review queue for community ammo submissions. Moderators verify,
+ * reject or dispute entries and merge duplicates; every decision is
+ * kept in the history.
+ */
+
+const USER_ATTRIBUTES = ['id', 'name'];
+
+const ACTION_MESSAGES: Record<ModerationAction, string> = {
+  verify: 'Community ammo verified',
+  reject: 'Community ammo rejected',
+  dispute: 'Community ammo marked as disputed',
+  merge: 'Duplicate merged into community ammo',
+};
+
+export class ModerationController {
+  /**
+   * List entries awaiting review, oldest first
+   * GET /api/v1/moderation/community/ammo
+   */
+  async queue(req: Request, res: Response) {
+    const { page, limit, offset } = (req as any).pagination;
+    const status = (req.query.status as string) || 'pending';
+
+    const { count, rows } = await CommunityAmmo.findAndCountAll({
+      where: { verification_status: status },
+      attributes: {
+        include: [
+          [
+            literal(
+              '(SELECT COUNT(*) FROM community_ammo_votes AS v WHERE v.ammo_id = `CommunityAmmo`.`id` AND v.is_flagged)',
+            ),
+            'flagged_vote_count',
+          ],
+        ],
+      },
+      limit,
+      offset,
+      order: [
+        ['created_at', 'ASC'],
+        ['id', 'ASC'],
+      ],
+      include: [
+        {
+          model: User,
+          as: 'submitter',
+          attributes: USER_ATTRIBUTES,
+        },
+      ],
+    });
+
+    return sendPaginated(res, rows, page, limit, count);
+  }
+
+  /**
+   * Verify an entry
+   * POST /api/v1/moderation/community/ammo/:id/verify
+   */
+  async verify(req: Request, res: Response) {
+    return this.moderate(req, res, 'verify');
+  }
+
+  /**
+   * Reject an entry with a reason
+   * POST /api/v1/moderation/community/ammo/:id/reject
+   */
+  async reject(req: Request, res: Response) {
+    return this.moderate(req, res, 'reject');
+  }
+
+  /**
+   * Mark an entry as disputed with a reason
+   * POST /api/v1/moderation/community/ammo/:id/dispute
+   */
+  async dispute(req: Request, res: Response) {
+    return this.moderate(req, res, 'dispute');
+  }
+
+  /**
+   * Likely duplicates of an entry
+   * GET /api/v1/moderation/community/ammo/:id/duplicates
+   */
+  async duplicates(req: Request, res: Response) {
+    const ammo = await this.findAmmo((req as any).idParsed);
+    const duplicates = await DuplicateDetectionService.findLikelyDuplicates(ammo, ammo.id);
+
+    return sendSuccess(res, duplicates);
+  }
+
+  /**
+   * Merge a duplicate into this (canonical) entry
+   * POST /api/v1/moderation/community/ammo/:id/merge
+   */
+  async merge(req: Request, res: Response) {
+    const canonical = await this.findAmmo((req as any).idParsed);
+
+    if (Number(req.body.duplicate_id) === Number(canonical.id)) {
+      throw new ValidationError('Community ammo cannot be merged into itself');
+    }
+
+    const duplicate = await this.findAmmo(req.body.duplicate_id);
+
+    await ModerationService.merge(canonical, duplicate, (req as any).userId, req.body.reason);
+
+    await canonical.reload({
+      include: [
+        {
+          model: User,
+          as: 'submitter',
+          attributes: USER_ATTRIBUTES,
+        },
+        {
+          model: CommunityAmmo,
+          as: 'merged_entries',
+          attributes: ['id', 'manufacturer', 'product_name', 'data_source', 'submitted_by'],
+        },
+      ],
+    });
+
+    return sendSuccess(res, canonical, ACTION_MESSAGES.merge);
+  }
+
+  /**
+   * Moderation history of one entry, newest first
+   * GET /api/v1/moderation/community/ammo/:id/history
+   */
+  async ammoHistory(req: Request, res: Response) {
+    const ammo = await this.findAmmo((req as any).idParsed);
+
+    const history = await CommunityAmmoModeration.findAll({
+      where: { ammo_id: ammo.id },
+      order: [
+        ['created_at', 'DESC'],
+        ['id', 'DESC'],
+      ],
+      include: [
+        {
+          model: User,
+          as: 'moderator',
+          attributes: USER_ATTRIBUTES,
+        },
+      ],
+    });
+
+    return sendSuccess(res, history);
+  }
+
+  /**
+   * All moderation decisions, newest first
+   * GET /api/v1/moderation/history
+   */
+  async history(req: Request, res: Response) {
+    const { page, limit, offset } = (req as any).pagination;
+    const { moderator_id, action } = req.query;
+
+    const where: WhereAttributeHash<CommunityAmmoModeration> = {};
+
+    if (moderator_id) {
+      where.moderator_id = parseInt(moderator_id as string, 10);
+    }
+
+    if (action) {
+      where.action = action as ModerationAction;
+    }
+
+    const { count, rows } = await CommunityAmmoModeration.findAndCountAll({
+      where,
+      limit,
+      offset,
+      order: [
+        ['created_at', 'DESC'],
+        ['id', 'DESC'],
+      ],
+      include: [
+        {
+          model: User,
+          as: 'moderator',
+          attributes: USER_ATTRIBUTES,
+        },
+        {
+          model: CommunityAmmo,
+          as: 'ammo',
+          attributes: ['id', 'manufacturer', 'product_name', 'caliber', 'verification_status'],
+        },
+      ],
+    });
+
+    return sendPaginated(res, rows, page, limit, count);
+  }
+
+  /**
+   * Apply a moderation action and record the decision
+   */
+  private async moderate(req: Request, res: Response, action: ModerationAction) {
+    const ammo = await this.findAmmo((req as any).idParsed);
+    await ModerationService.apply(ammo, (req as any).userId, action, req.body.reason);
+
+    await ammo.reload({
+      include: [
+        {
+          model: User,
+          as: 'submitter',
+          attributes: USER_ATTRIBUTES,
+        },
+        {
+          model: User,
+          as: 'verifier',
+          attributes: USER_ATTRIBUTES,
+        },
+      ],
+    });
+
+    return sendSuccess(res, ammo, ACTION_MESSAGES[action]);
+  }
+
+  private async findAmmo(ammoId: number) {
+    const ammo = await CommunityAmmo.findByPk(ammoId);
+
+    if (!ammo) {
+      throw new NotFoundError('Community ammo');
+    }
+
+    return ammo;
+  }
+}
+
+export default new ModerationController();
@@ -0,0 +1,330 @@
+import { Request, Response } from 'express';
+import { Op, WhereAttributeHash, WhereOperators } from 'sequelize';
+import RangeSession from '../models/RangeSession';
+import RifleProfile from '../models/RifleProfile';
+import AmmoProfile from '../models/AmmoProfile';
+import EnvironmentSnapshot from '../models/EnvironmentSnapshot';
+import DOPELog from '../models/DOPELog';
+import SyncLog from '../models/SyncLog';
+import RangeSessionService from '../services/RangeSessionService';
+import SettingsService from '../services/SettingsService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../utils/response';
+
+/**
+ * Range Session Controller
+ *
+ * Handles starting, stopping and summarizing range sessions. A user has
+ * at most one active session at a time.
+ */
+
+export class RangeSessionController {
+  /**
+   * Get all range sessions for authenticated user
+   * GET /api/v1/range-sessions
+   */
+  async getAll(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const { page, limit, offset } = (req as any).pagination;
+    const { rifle_id, ammo_id, active, date_from, date_to } = req.query;
+
+    const where: WhereAttributeHash<RangeSession> = { user_id: userId };
+
+    if (rifle_id) {
+      where.rifle_id = Number(rifle_id);
+    }
+
+    if (ammo_id) {
+      where.ammo_id = Number(ammo_id);
+    }
+
+    if (active === 'true') {
+      where.end_time = null;
+    } else if (active === 'false') {
+      where.end_time = { [Op.ne]: null };
+    }
+
+    if (date_from || date_to) {
+      const startTime: WhereOperators = {};
+      if (date_from) {
+        startTime[Op.gte] = String(date_from);
+      }
+      if (date_to) {
+        startTime[Op.lte] = String(date_to);
+      }
+      where.start_time = startTime;
+    }
+
+    const { count, rows } = await RangeSession.findAndCountAll({
+      where,
+      limit,
+      offset,
+      order: [['start_time', 'DESC']],
+      include: [
+        {
+          model: RifleProfile,
+          as: 'rifle',
+          attributes: ['id', 'name', 'caliber'],
+        },
+        {
+          model: AmmoProfile,
+          as: 'ammo',
+          attributes: ['id', 'name', 'manufacturer'],
+        },
+      ],
+    });
+
+    return sendPaginated(res, rows, page, limit, count);
+  }
+
+  /**
+   * Get the active range session
+   * GET /api/v1/range-sessions/active
+   */
+  async getActive(req: Request, res: Response) {
+    const userId = (req as any).userId;
+
+    const session = await this.findActive(userId);
+    if (!session) {
+      throw new NotFoundError('Active range session');
+    }
+
+    return sendSuccess(res, session);
+  }
+
+  /**
+   * Get single range session
+   * GET /api/v1/range-sessions/:id
+   */
+  async getById(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const session = await this.findSession(userId, (req as any).idParsed);
+
+    await session.reload({
+      include: [
+        {
+          model: RifleProfile,
+          as: 'rifle',
+        },
+        {
+          model: AmmoProfile,
+          as: 'ammo',
+        },
+        {
+          model: EnvironmentSnapshot,
+          as: 'environment',
+        },
+      ],
+    });
+
+    return sendSuccess(res, session);
+  }
+
+  /**
+   * Session summary: logs, hit rate, rounds fired and how conditions
+   * changed over the session
+   * GET /api/v1/range-sessions/:id/summary
+   */
+  async getSummary(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const session = await this.findSession(userId, (req as any).idParsed);
+
+    return sendSuccess(res, await this.buildSummary(session));
+  }
+
+  /**
+   * Start a range session. Conditions default to the most recent
+   * environment snapshot.
+   * POST /api/v1/range-sessions
+   */
+  async start(req: Request, res: Response) {
+    const userId = (req as any).userId;
+
+    const active = await this.findActive(userId);
+    if (active) {
+      throw new ConflictError(`Range session ${active.id} is still active; stop it first`);
+    }
+
+    // Fall back to the user's default rifle
+    const rifleId =
+      req.body.rifle_id || (await SettingsService.getUserSettings(userId)).default_rifle_id;
+    if (!rifleId) {
+      throw new ValidationError('rifle_id is required without a default_rifle_id setting');
+    }
+
+    // Verify rifle belongs to user
+    const rifle = await RifleProfile.findOne({
+      where: {
+        id: rifleId,
+        user_id: userId,
+      },
+    });
+
+    if (!rifle) {
+      throw new ValidationError('Invalid rifle_id: Rifle not found or does not belong to you');
+    }
+
+    // Verify ammo belongs to user
+    const ammo = await AmmoProfile.findOne({
+      where: {
+        id: req.body.ammo_id,
+        user_id: userId,
+      },
+    });
+
+    if (!ammo) {
+      throw new ValidationError('Invalid ammo_id: Ammo not found or does not belong to you');
+    }
+
+    const environment = await EnvironmentSnapshot.findOne({
+      where: req.body.environment_id
+        ? { id: req.body.environment_id, user_id: userId }
+        : { user_id: userId },
+      order: [['timestamp', 'DESC']],
+    });
+
+    if (!environment) {
+      throw new ValidationError(
+        req.body.environment_id
+          ? 'Invalid environment_id: Environment not found or does not belong to you'
+          : 'Record an environment snapshot before starting a session',
+      );
+    }
+
+    const session = await RangeSession.create({
+      user_id: userId,
+      rifle_id: rifle.id,
+      ammo_id: ammo.id,
+      environment_id: environment.id,
+      session_name: req.body.session_name ?? null,
+      start_time: req.body.start_time || new Date(),
+      distance: req.body.distance,
+      cold_bore_shot: req.body.cold_bore_shot ?? false,
+      notes: req.body.notes ?? null,
+    });
+
+    return sendCreated(res, session, 'Range session started');
+  }
+
+  /**
+   * Stop an active range session. Rounds fired default to the total
+   * logged during the session.
+   * POST /api/v1/range-sessions/:id/stop
+   */
+  async stop(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const session = await this.findSession(userId, (req as any).idParsed);
+
+    if (!session.isActive()) {
+      throw new ConflictError('Range session has already been stopped');
+    }
+
+    const logs = await DOPELog.findAll({
+      where: { range_session_id: session.id, user_id: userId },
+      attributes: ['shot_count', 'hit_count'],
+    });
+    const tally = RangeSessionService.tally(logs);
+
+    await session.update({
+      end_time: req.body.end_time || new Date(),
+      shot_count: req.body.shot_count ?? Math.max(session.shot_count, tally.rounds_fired),
+      notes: req.body.notes ?? session.notes,
+    });
+
+    return sendSuccess(res, await this.buildSummary(session), 'Range session stopped');
+  }
+
+  /**
+   * Update range session
+   * PUT /api/v1/range-sessions/:id
+   */
+  async update(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const session = await this.findSession(userId, (req as any).idParsed);
+
+    if (req.body.environment_id && req.body.environment_id !== session.environment_id) {
+      const environment = await EnvironmentSnapshot.findOne({
+        where: { id: req.body.environment_id, user_id: userId },
+      });
+      if (!environment) {
+        throw new ValidationError('Invalid environment_id');
+      }
+    }
+
+    // The rifle and ammo are fixed for the session's logs
+    const updates = { ...req.body };
+    delete updates.user_id;
+    delete updates.rifle_id;
+    delete updates.ammo_id;
+
+    await session.update(updates);
+
+    return sendSuccess(res, session, 'Range session updated successfully');
+  }
+
+  /**
+   * Delete range session; its logs are kept and unlinked
+   * DELETE /api/v1/range-sessions/:id
+   */
+  async delete(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const session = await this.findSession(userId, (req as any).idParsed);
+
+    await SyncLog.logged((transaction) => session.destroy({ transaction }));
+
+    return sendNoContent(res);
+  }
+
+  private async buildSummary(session: RangeSession) {
+    const logs = await DOPELog.findAll({
+      where: { range_session_id: session.id, user_id: session.user_id },
+      order: [['timestamp', 'ASC']],
+      include: [
+        {
+          model: EnvironmentSnapshot,
+          as: 'environment',
+        },
+      ],
+    });
+
+    const startEnvironment = await EnvironmentSnapshot.findByPk(session.environment_id);
+    const environments = [
+      ...(startEnvironment ? [startEnvironment] : []),
+      ...logs.flatMap((log) => (log.environment ? [log.environment] : [])),
+    ];
+
+    const summary = RangeSessionService.summarize(logs, environments);
+
+    return {
+      session,
+      active: session.isActive(),
+      duration_minutes: session.getDurationMinutes(),
+      ...summary,
+      logs,
+    };
+  }
+
+  private async findActive(userId: number): Promise<RangeSession | null> {
+    return RangeSession.findOne({
+      where: { user_id: userId, end_time: null },
+      order: [['start_time', 'DESC']],
+    });
+  }
+
+  private async findSession(userId: number, sessionId: number): Promise<RangeSession> {
+    const session = await RangeSession.findOne({
+      where: {
+        id: sessionId,
+        user_id: userId,
+      },
+    });
+
+    if (!session) {
+      throw new NotFoundError('Range session');
+    }
+
+    return session;
+  }
+}
+
+export default new RangeSessionController();
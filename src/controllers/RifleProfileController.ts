@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import RifleProfile from '../models/RifleProfile';
+import SyncLog from '../models/SyncLog';
 import { NotFoundError } from '../utils/errors';
+import { versionedChanges } from '../utils/rowVersion';
 import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../utils/response';
 import { Op } from 'sequelize';
 
@@ -74,10 +76,9 @@ export class RifleProfileController {
   async create(req: Request, res: Response) {
     const userId = (req as any).userId;
 
-    const rifle = await RifleProfile.create({
-      ...req.body,
-      user_id: userId,
-    });
+    const rifle = await SyncLog.logged((transaction) =>
+      RifleProfile.create({ ...req.body, user_id: userId }, { transaction }),
+    );
 
     return sendCreated(res, rifle, 'Rifle profile created successfully');
   }
@@ -101,8 +102,10 @@ export class RifleProfileController {
       throw new NotFoundError('Rifle profile');
     }
 
+    const changes = versionedChanges(rifle, req.body, 'Rifle profile');
+
     // Update rifle
-    await rifle.update(req.body);
+    await SyncLog.logged((transaction) => rifle.update(changes, { transaction }));
 
     return sendSuccess(res, rifle, 'Rifle profile updated successfully');
   }
@@ -126,7 +129,7 @@ export class RifleProfileController {
       throw new NotFoundError('Rifle profile');
     }
 
-    await rifle.destroy();
+    await SyncLog.logged((transaction) => rifle.destroy({ transaction }));
 
     return sendNoContent(res);
   }
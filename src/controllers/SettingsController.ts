@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import RifleProfile from '../models/RifleProfile';
+import AppSetting from '../models/AppSetting';
+import SettingsService, { SETTINGS_SCHEMA } from '../services/SettingsService';
+import { SettingKey, UserSettings } from '../types/settings';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { sendSuccess, sendNoContent } from '../utils/response';
+
+/**
+ * Settings Controller
+ *
+ * Handles the authenticated user's typed settings, stored as key/value
+ * pairs and validated against the declared settings schema.
+ */
+
+export class SettingsController {
+  /**
+   * Get all settings, with defaults for keys never set
+   * GET /api/v1/settings
+   */
+  async getAll(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const settings = await SettingsService.getUserSettings(userId);
+
+    return sendSuccess(res, settings);
+  }
+
+  /**
+   * Get the declared settings with their types, allowed values and defaults
+   * GET /api/v1/settings/schema
+   */
+  getSchema(_req: Request, res: Response): Response {
+    return sendSuccess(res, SETTINGS_SCHEMA);
+  }
+
+  /**
+   * Get a single setting
+   * GET /api/v1/settings/:key
+   */
+  async getOne(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const key = this.findKey(req.params.key as string);
+    const settings = await SettingsService.getUserSettings(userId);
+
+    return sendSuccess(res, {
+      key,
+      value: settings[key],
+      default: SETTINGS_SCHEMA[key].default,
+      is_default: settings[key] === SETTINGS_SCHEMA[key].default,
+    });
+  }
+
+  /**
+   * Update several settings at once
+   * PUT /api/v1/settings
+   */
+  async update(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const values = SettingsService.parseAll(req.body);
+
+    await this.verifyValues(userId, values);
+    await AppSetting.saveUserSettings(userId, values);
+
+    const settings = await SettingsService.getUserSettings(userId);
+    return sendSuccess(res, settings, 'Settings updated successfully');
+  }
+
+  /**
+   * Update a single setting
+   * PUT /api/v1/settings/:key
+   */
+  async updateOne(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const key = this.findKey(req.params.key as string);
+
+    if (req.body.value === undefined) {
+      throw new ValidationError('value is required');
+    }
+
+    const values = { [key]: SettingsService.parse(key, req.body.value) } as Partial<UserSettings>;
+
+    await this.verifyValues(userId, values);
+    await AppSetting.saveUserSettings(userId, values);
+
+    return sendSuccess(res, { key, value: values[key] }, 'Setting updated successfully');
+  }
+
+  /**
+   * Reset a setting to its default
+   * DELETE /api/v1/settings/:key
+   */
+  async reset(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const key = this.findKey(req.params.key as string);
+
+    await AppSetting.resetUserSettings(userId, [key]);
+
+    return sendNoContent(res);
+  }
+
+  /**
+   * Checks the schema can't express, such as ownership of a default rifle
+   */
+  private async verifyValues(userId: number, values: Partial<UserSettings>) {
+    if (values.default_rifle_id) {
+      const rifle = await RifleProfile.findOne({
+        where: { id: values.default_rifle_id, user_id: userId },
+      });
+      if (!rifle) {
+        throw new ValidationError(
+          'Invalid default_rifle_id: Rifle not found or does not belong to you',
+        );
+      }
+    }
+  }
+
+  private findKey(key: string): SettingKey {
+    if (!SettingsService.isKey(key)) {
+      throw new NotFoundError(`Setting ${key}`);
+    }
+    return key;
+  }
+}
+
+export default new SettingsController();
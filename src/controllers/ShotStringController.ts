@@ -0,0 +1,392 @@
+import { Request, Response } from 'express';
+import { Op, WhereAttributeHash, WhereOperators } from 'sequelize';
+import AmmoProfile from '../models/AmmoProfile';
+import ShotString from '../models/ShotString';
+import SyncLog from '../models/SyncLog';
+import ShotStringService from '../services/ShotStringService';
+import PredictionService from '../services/PredictionService';
+import ChronographImportService, { ParsedSeries } from '../services/ChronographImportService';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { sendSuccess, sendCreated, sendNoContent } from '../utils/response';
+
+/**
+ * Shot String Controller
+ *
+ * Handles chronograph readings for an ammo profile, grouped into
+ * sessions with velocity statistics.
+ */
+
+interface ShotInput {
+  velocity: number;
+  shot_number?: number;
+  temperature?: number;
+  notes?: string;
+}
+
+export class ShotStringController {
+  /**
+   * Get all sessions for an ammo profile
+   * GET /api/v1/ammo/:id/shot-strings
+   */
+  async getAll(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const { date_from, date_to } = req.query;
+
+    const where: WhereAttributeHash<ShotString> = {
+      ammo_id: ammo.id,
+      user_id: userId,
+    };
+
+    if (date_from || date_to) {
+      const sessionDate: WhereOperators = {};
+      if (date_from) {
+        sessionDate[Op.gte] = String(date_from);
+      }
+      if (date_to) {
+        sessionDate[Op.lte] = String(date_to);
+      }
+      where.session_date = sessionDate;
+    }
+
+    const shots = await ShotString.findAll({
+      where,
+      order: [
+        ['session_date', 'DESC'],
+        ['shot_number', 'ASC'],
+      ],
+    });
+
+    return sendSuccess(res, {
+      ammo_id: ammo.id,
+      sessions: ShotStringService.groupSessions(shots),
+    });
+  }
+
+  /**
+   * Get a single session with statistics
+   * GET /api/v1/ammo/:id/shot-strings/sessions/:sessionDate
+   */
+  async getSession(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const session = await this.findSession(userId, ammo.id, req.params.sessionDate as string);
+
+    return sendSuccess(res, session);
+  }
+
+  /**
+   * Powder temperature sensitivity fitted over every session
+   * GET /api/v1/ammo/:id/shot-strings/temperature-sensitivity
+   */
+  async getTemperatureSensitivity(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const sensitivity = await PredictionService.getTemperatureSensitivity(userId, ammo.id);
+
+    return sendSuccess(res, {
+      ammo_id: ammo.id,
+      muzzle_velocity: Number(ammo.muzzle_velocity),
+      muzzle_velocity_temperature:
+        ammo.muzzle_velocity_temperature !== null && ammo.muzzle_velocity_temperature !== undefined
+          ? Number(ammo.muzzle_velocity_temperature)
+          : null,
+      ...sensitivity,
+    });
+  }
+
+  /**
+   * Get single shot
+   * GET /api/v1/ammo/:id/shot-strings/:shotId
+   */
+  async getById(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const shot = await this.findShot(userId, ammo.id, (req as any).shotIdParsed);
+
+    return sendSuccess(res, shot);
+  }
+
+  /**
+   * Record a string of shots for a session. Shot numbers continue after
+   * the session's last shot unless given, and temperature defaults to
+   * the session temperature.
+   * POST /api/v1/ammo/:id/shot-strings
+   */
+  async create(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const { session_date, temperature, notes } = req.body;
+    const shots: ShotInput[] = req.body.shots;
+
+    const lastShot: number =
+      (await ShotString.max('shot_number', {
+        where: {
+          ammo_id: ammo.id,
+          user_id: userId,
+          session_date,
+        },
+      })) || 0;
+
+    const created = await ShotString.bulkCreate(
+      shots.map((shot, index) => ({
+        user_id: userId,
+        ammo_id: ammo.id,
+        session_date,
+        shot_number: shot.shot_number || lastShot + index + 1,
+        velocity: shot.velocity,
+        temperature: shot.temperature ?? temperature,
+        notes: shot.notes ?? notes ?? null,
+      })),
+      { validate: true },
+    );
+
+    const session = await this.findSession(userId, ammo.id, session_date);
+
+    return sendCreated(
+      res,
+      {
+        shots: created,
+        session,
+      },
+      `${created.length} shots recorded`,
+    );
+  }
+
+  /**
+   * Import a chronograph CSV export. Series are grouped by session date;
+   * sessions whose readings already exist are reported and skipped.
+   * With dry_run the parsed sessions are returned without saving.
+   * POST /api/v1/ammo/:id/shot-strings/import
+   */
+  async importFile(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const file = req.file;
+    const dryRun = req.body.dry_run === true || req.body.dry_run === 'true';
+
+    if (!file) {
+      throw new ValidationError('A chronograph CSV file is required in the "file" field');
+    }
+
+    const parsed = ChronographImportService.parse(file.buffer.toString('utf8'), {
+      format: req.body.format,
+      unit: req.body.unit,
+    });
+
+    // A session date in the request applies to every series
+    const groups = new Map<string, ParsedSeries[]>();
+    parsed.series.forEach((series) => {
+      const sessionDate = req.body.session_date || series.session_date;
+      if (!sessionDate) {
+        throw new ValidationError(
+          `No session date in the file for ${series.name}; provide session_date`,
+        );
+      }
+      groups.set(sessionDate, [...(groups.get(sessionDate) || []), series]);
+    });
+
+    const sessions = [];
+    let importedCount = 0;
+
+    for (const [sessionDate, seriesList] of groups) {
+      const existing = await ShotString.findAll({
+        where: {
+          ammo_id: ammo.id,
+          user_id: userId,
+          session_date: sessionDate,
+        },
+      });
+      const lastShot = existing.reduce((max, shot) => Math.max(max, shot.shot_number), 0);
+
+      // Renumber so shots from several series don't collide
+      const shots = seriesList
+        .flatMap((series) => series.shots.map((shot) => ({ ...shot, series: series.name })))
+        .map((shot, index) => ({
+          session_date: sessionDate,
+          shot_number: lastShot + index + 1,
+          velocity: shot.velocity,
+          temperature: Number(req.body.temperature),
+          notes: `Imported from ${shot.series}`,
+        }));
+
+      const duplicate = ChronographImportService.isDuplicate(
+        existing.map((shot) => Number(shot.velocity)),
+        shots.map((shot) => shot.velocity),
+      );
+
+      if (!dryRun && !duplicate) {
+        await ShotString.bulkCreate(
+          shots.map((shot) => ({ ...shot, user_id: userId, ammo_id: ammo.id })),
+          { validate: true },
+        );
+        importedCount += shots.length;
+      }
+
+      sessions.push({
+        session_date: sessionDate,
+        series: seriesList.map((series) => series.name),
+        duplicate,
+        existing_shot_count: existing.length,
+        stats: ShotStringService.summarize(shots),
+        shots,
+      });
+    }
+
+    const result = {
+      dry_run: dryRun,
+      format: parsed.format,
+      unit: parsed.unit,
+      unit_source: parsed.unit_source,
+      warnings: parsed.warnings,
+      imported_count: importedCount,
+      skipped_sessions: sessions.filter((session) => session.duplicate).length,
+      sessions,
+    };
+
+    if (importedCount > 0) {
+      return sendCreated(res, result, `${importedCount} shots imported`);
+    }
+
+    return sendSuccess(res, result, dryRun ? 'Import preview' : 'No new shots to import');
+  }
+
+  /**
+   * Update shot
+   * PUT /api/v1/ammo/:id/shot-strings/:shotId
+   */
+  async update(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const shot = await this.findShot(userId, ammo.id, (req as any).shotIdParsed);
+
+    // Prevent moving the shot to another ammo profile
+    const updates = { ...req.body };
+    delete updates.user_id;
+    delete updates.ammo_id;
+
+    await shot.update(updates);
+
+    return sendSuccess(res, shot, 'Shot updated successfully');
+  }
+
+  /**
+   * Delete shot
+   * DELETE /api/v1/ammo/:id/shot-strings/:shotId
+   */
+  async delete(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const shot = await this.findShot(userId, ammo.id, (req as any).shotIdParsed);
+
+    await shot.destroy();
+
+    return sendNoContent(res);
+  }
+
+  /**
+   * Delete every shot in a session
+   * DELETE /api/v1/ammo/:id/shot-strings/sessions/:sessionDate
+   */
+  async deleteSession(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+
+    const deleted = await ShotString.destroy({
+      where: {
+        ammo_id: ammo.id,
+        user_id: userId,
+        session_date: req.params.sessionDate,
+      },
+    });
+
+    if (deleted === 0) {
+      throw new NotFoundError('Shot string session');
+    }
+
+    return sendNoContent(res);
+  }
+
+  /**
+   * Set the ammo profile's muzzle velocity to the session average,
+   * recorded at the session's average temperature
+   * POST /api/v1/ammo/:id/shot-strings/sessions/:sessionDate/apply
+   */
+  async applyToAmmo(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const ammo = await this.findAmmo(userId, (req as any).idParsed);
+    const session = await this.findSession(userId, ammo.id, req.params.sessionDate as string);
+
+    const previous = Number(ammo.muzzle_velocity);
+    await SyncLog.logged((transaction) =>
+      ammo.update(
+        {
+          muzzle_velocity: session.stats.average,
+          muzzle_velocity_temperature: session.stats.average_temperature,
+        },
+        { transaction },
+      ),
+    );
+
+    return sendSuccess(
+      res,
+      {
+        ammo,
+        previous_muzzle_velocity: previous,
+        session,
+      },
+      'Muzzle velocity updated from session average',
+    );
+  }
+
+  private async findAmmo(userId: number, ammoId: number): Promise<AmmoProfile> {
+    const ammo = await AmmoProfile.findOne({
+      where: {
+        id: ammoId,
+        user_id: userId,
+      },
+    });
+
+    if (!ammo) {
+      throw new NotFoundError('Ammo profile');
+    }
+
+    return ammo;
+  }
+
+  private async findShot(userId: number, ammoId: number, shotId: number): Promise<ShotString> {
+    const shot = await ShotString.findOne({
+      where: {
+        id: shotId,
+        ammo_id: ammoId,
+        user_id: userId,
+      },
+    });
+
+    if (!shot) {
+      throw new NotFoundError('Shot');
+    }
+
+    return shot;
+  }
+
+  private async findSession(userId: number, ammoId: number, sessionDate: string) {
+    const shots = await ShotString.findAll({
+      where: {
+        ammo_id: ammoId,
+        user_id: userId,
+        session_date: sessionDate,
+      },
+      order: [['shot_number', 'ASC']],
+    });
+
+    const [session] = ShotStringService.groupSessions(shots);
+    if (!session) {
+      throw new NotFoundError('Shot string session');
+    }
+
+    return session;
+  }
+}
+
+export default new ShotStringController();
@@ -0,0 +1,671 @@
+import { Request, Response } from 'express';
+import {
+  ForeignKeyConstraintError,
+  Model,
+  ModelStatic,
+  Op,
+  Transaction,
+  ValidationError as SequelizeValidationError,
+  WhereAttributeHash,
+} from 'sequelize';
+import {
+  SyncLog,
+  SyncConflict,
+  RifleProfile,
+  AmmoProfile,
+  EnvironmentSnapshot,
+  DOPELog,
+} from '../models';
+import { SyncConflictStatus } from '../models/SyncConflict';
+import SyncService, { ClientChange, SYNC_ENTITY_RULES } from '../services/SyncService';
+import SyncConflictService, { ConflictOutcome } from '../services/SyncConflictService';
+import SettingsService from '../services/SettingsService';
+import {
+  ConflictStrategy,
+  SyncData,
+  SyncEntityType,
+  SyncOperation,
+  SYNC_ENTITY_TYPES,
+} from '../types/sync';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { sendSuccess, sendPaginated } from '../utils/response';
+import logger from '../utils/logger';
+
+/**
+ * Sync Controller
+ *
+ * Offline-first delta sync. A device pushes the changes it made offline
+ * and pulls everything changed elsewhere since its cursor, in one round
+ * trip. Changes that overlap edits made elsewhere are resolved with the
+ * user's conflict strategy or left for the user to settle.
+ */
+
+// The columns sync relies on, shared by every synced model
+type SyncedRow = Model & { id: number; user_id: number; row_version: number };
+
+const SYNC_MODELS: Record<SyncEntityType, ModelStatic<SyncedRow>> = {
+  rifle: RifleProfile,
+  ammo: AmmoProfile,
+  environment: EnvironmentSnapshot,
+  dope_log: DOPELog,
+};
+
+const ENTITY_LABELS: Record<SyncEntityType, string> = {
+  rifle: 'Rifle profile',
+  ammo: 'Ammo profile',
+  environment: 'Environment snapshot',
+  dope_log: 'DOPE log',
+};
+
+const PULL_LIMIT = 500;
+
+// Logs younger than this may still have uncommitted neighbours with
+// lower ids, so the cursor is not moved past them yet
+const SETTLE_MS = 10 * 1000;
+
+interface ChangeResult {
+  index: number;
+  entity_type: SyncEntityType;
+  operation: SyncOperation;
+  client_id?: string;
+  entity_id: number | string | null;
+  status: 'applied' | 'conflict' | 'failed'; // conflict: pending the user's decision
+  data?: SyncedRow | null;
+  conflict?: SyncConflict;
+  error?: string;
+}
+
+interface AppliedChange {
+  row: SyncedRow | null; // null once deleted
+  conflict: SyncConflict | null;
+}
+
+interface ServerChange {
+  entity_type: SyncEntityType;
+  entity_id: number;
+  operation: SyncOperation;
+  server_timestamp: Date | null;
+  data: SyncedRow | null;
+}
+
+export class SyncController {
+  /**
+   * Apply a batch of client changes and return server changes since the
+   * client's cursor
+   * POST /api/v1/sync
+   */
+  async sync(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const deviceId: string = req.body.device_id;
+    const cursor: number | null =
+      req.body.cursor === undefined || req.body.cursor === null ? null : Number(req.body.cursor);
+    const changes = SyncService.validateBatch(req.body.changes || []);
+    const strategy: ConflictStrategy =
+      req.body.conflict_strategy ||
+      (await SettingsService.getUserSettings(userId)).sync_conflict_strategy;
+
+    // Read before the push so the cursor never moves past logs written
+    // while this request ran
+    const settledId = await this.settledLogId(userId);
+
+    const results = await this.push(userId, deviceId, strategy, changes);
+    const applied = results.filter((result) => result.status === 'applied').length;
+    const pendingConflicts = await SyncConflict.count({
+      where: { user_id: userId, status: 'pending' },
+    });
+
+    const pull =
+      cursor === null
+        ? await this.snapshot(userId, settledId)
+        : await this.changesSince(userId, deviceId, cursor, settledId);
+
+    logger.info('Device synced', {
+      userId,
+      deviceId,
+      pushed: changes.length,
+      applied,
+      pulled: pull.changes.length,
+    });
+
+    return sendSuccess(
+      res,
+      {
+        cursor: pull.cursor,
+        has_more: pull.has_more,
+        results,
+        changes: pull.changes,
+        pending_conflicts: pendingConflicts,
+      },
+      'Sync complete',
+    );
+  }
+
+  /**
+   * List sync conflicts, pending ones by default
+   * GET /api/v1/sync/conflicts
+   */
+  async getConflicts(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const { page, limit, offset } = (req as any).pagination;
+    const { status = 'pending', entity_type } = req.query;
+
+    const where: WhereAttributeHash<SyncConflict> = {
+      user_id: userId,
+      status: status as SyncConflictStatus,
+    };
+
+    if (entity_type) {
+      where.entity_type = entity_type as SyncEntityType;
+    }
+
+    const { count, rows } = await SyncConflict.findAndCountAll({
+      where,
+      limit,
+      offset,
+      order: [['created_at', 'DESC']],
+    });
+
+    return sendPaginated(res, rows, page, limit, count);
+  }
+
+  /**
+   * Get a sync conflict with the entity's current state
+   * GET /api/v1/sync/conflicts/:id
+   */
+  async getConflict(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const conflict = await this.findConflict(userId, (req as any).idParsed);
+
+    const entity = await SYNC_MODELS[conflict.entity_type].findOne({
+      where: { id: conflict.entity_id, user_id: userId },
+    });
+
+    return sendSuccess(res, { ...conflict.toJSON(), entity });
+  }
+
+  /**
+   * Settle a pending conflict: keep the server values, apply the client's,
+   * or write chosen values for the conflicting fields
+   * POST /api/v1/sync/conflicts/:id/resolve
+   */
+  async resolveConflict(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const { resolution, data, device_id } = req.body;
+    const conflict = await this.findConflict(userId, (req as any).idParsed);
+
+    const settlement = SyncConflictService.settle(
+      conflict.operation,
+      conflict.conflicting_fields,
+      conflict.client_data,
+      resolution,
+      data,
+    );
+
+    const context = { device_id: device_id || null, client_timestamp: new Date(), log_ids: [] };
+    const entity = await SyncLog.withContext(context, async (transaction) => {
+      await conflict.reload({ transaction, lock: transaction.LOCK.UPDATE });
+      if (conflict.status !== 'pending') {
+        throw new ConflictError('Sync conflict is already resolved');
+      }
+
+      const row = await SYNC_MODELS[conflict.entity_type].findOne({
+        where: { id: conflict.entity_id, user_id: userId },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      // An entity deleted since has nothing left to settle
+      if (row && settlement.delete) {
+        await this.destroyRow(conflict.entity_type, row, transaction);
+      } else if (row && Object.keys(settlement.apply).length > 0) {
+        await this.checkReferences(userId, conflict.entity_type, settlement.apply, transaction);
+        await row.update(settlement.apply, { transaction });
+      }
+
+      await conflict.update(
+        {
+          status: 'resolved',
+          resolution,
+          resolved_data: settlement.apply,
+          resolved_at: new Date(),
+        },
+        { transaction },
+      );
+
+      return settlement.delete ? null : row;
+    });
+
+    logger.info('Sync conflict resolved', { userId, conflictId: conflict.id, resolution });
+
+    return sendSuccess(res, { ...conflict.toJSON(), entity }, 'Conflict resolved');
+  }
+
+  /**
+   * Apply each change in its own transaction. A failed change is
+   * reported and the rest of the batch still applies.
+   */
+  private async push(
+    userId: number,
+    deviceId: string,
+    strategy: ConflictStrategy,
+    changes: ClientChange[],
+  ): Promise<ChangeResult[]> {
+    const createdIds = new Map<string, number>();
+    const results: ChangeResult[] = [];
+
+    for (const [index, change] of changes.entries()) {
+      const base = {
+        index,
+        entity_type: change.entity_type,
+        operation: change.operation,
+        client_id: change.client_id,
+      };
+
+      try {
+        const context = {
+          device_id: deviceId,
+          client_timestamp: new Date(change.client_timestamp),
+          log_ids: [],
+        };
+        const { row, conflict } = await SyncLog.withContext(context, (transaction) =>
+          this.applyChange(userId, deviceId, strategy, change, createdIds, transaction),
+        );
+
+        if (change.operation === 'create' && row) {
+          createdIds.set(change.client_id as string, row.id);
+        }
+
+        results.push({
+          ...base,
+          entity_id: row ? row.id : this.entityId(change, createdIds),
+          status: conflict?.status === 'pending' ? 'conflict' : 'applied',
+          data: row,
+          ...(conflict ? { conflict } : {}),
+        });
+      } catch (error) {
+        const message = this.failureMessage(error);
+        if (message === null) {
+          throw error;
+        }
+
+        results.push({
+          ...base,
+          entity_id: this.entityId(change, createdIds),
+          status: 'failed',
+          error: message,
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Apply one change, returning the entity as stored (null once deleted)
+   * and any conflict with edits made elsewhere
+   */
+  private async applyChange(
+    userId: number,
+    deviceId: string,
+    strategy: ConflictStrategy,
+    change: ClientChange,
+    createdIds: ReadonlyMap<string, number>,
+    transaction: Transaction,
+  ): Promise<AppliedChange> {
+    const Model = SYNC_MODELS[change.entity_type];
+    const data = SyncService.prepareData(change.entity_type, change.data || {}, createdIds);
+
+    if (change.operation === 'create') {
+      await this.checkReferences(userId, change.entity_type, data, transaction);
+      const row = await Model.create({ ...data, user_id: userId }, { transaction });
+      return { row, conflict: null };
+    }
+
+    const id = this.entityId(change, createdIds);
+    const row = await Model.findOne({
+      where: { id, user_id: userId },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!row) {
+      // Already deleted on the server or by another device
+      if (change.operation === 'delete') {
+        return { row: null, conflict: null };
+      }
+      throw new NotFoundError(ENTITY_LABELS[change.entity_type]);
+    }
+
+    const { outcome, conflict } = await this.resolveConflicts(
+      userId,
+      deviceId,
+      strategy,
+      change,
+      row,
+      data,
+      transaction,
+    );
+
+    if (outcome.delete) {
+      await this.destroyRow(change.entity_type, row, transaction);
+      return { row: null, conflict };
+    }
+
+    if (Object.keys(outcome.apply).length > 0) {
+      await this.checkReferences(userId, change.entity_type, outcome.apply, transaction);
+      await row.update(outcome.apply, { transaction });
+    }
+
+    return { row, conflict };
+  }
+
+  /**
+   * Check an update or delete against edits made elsewhere since the
+   * client's base version, recording any conflict. Changes without a base
+   * version apply as sent.
+   */
+  private async resolveConflicts(
+    userId: number,
+    deviceId: string,
+    strategy: ConflictStrategy,
+    change: ClientChange,
+    row: SyncedRow,
+    data: SyncData,
+    transaction: Transaction,
+  ): Promise<{ outcome: ConflictOutcome; conflict: SyncConflict | null }> {
+    const operation = change.operation as 'update' | 'delete';
+    const baseVersion = change.base_version ?? null;
+    const clientTimestamp = new Date(change.client_timestamp);
+    const serverData = this.pick(
+      row.get({ plain: true }) as SyncData,
+      SYNC_ENTITY_RULES[change.entity_type].fields,
+    );
+
+    const serverEdits =
+      baseVersion === null
+        ? []
+        : await SyncLog.editsSince(change.entity_type, row, baseVersion, deviceId, transaction);
+
+    const outcome = SyncConflictService.resolve(
+      {
+        operation,
+        client_data: data,
+        client_timestamp: clientTimestamp,
+        server_data: serverData,
+        server_edits: serverEdits,
+      },
+      strategy,
+    );
+
+    if (outcome.conflicting_fields.length === 0) {
+      return { outcome, conflict: null };
+    }
+
+    const fields = outcome.conflicting_fields;
+    const conflict = await SyncConflict.create(
+      {
+        user_id: userId,
+        entity_type: change.entity_type,
+        entity_id: row.id,
+        operation,
+        device_id: deviceId,
+        base_version: baseVersion as number,
+        server_version: row.row_version,
+        conflicting_fields: fields,
+        client_data: this.pick(data, fields),
+        server_data: this.pick(serverData, fields),
+        client_timestamp: clientTimestamp,
+        strategy,
+        status: outcome.pending ? 'pending' : 'resolved',
+        resolution: outcome.resolution,
+        resolved_data: outcome.pending ? null : this.pick(outcome.apply, fields),
+        resolved_at: outcome.pending ? null : new Date(),
+      },
+      { transaction },
+    );
+
+    logger.info('Sync conflict', {
+      userId,
+      conflictId: conflict.id,
+      entityType: change.entity_type,
+      entityId: row.id,
+      fields,
+      strategy,
+    });
+
+    return { outcome, conflict };
+  }
+
+  /**
+   * Delete a synced entity; environments still used by DOPE logs stay
+   */
+  private async destroyRow(
+    entityType: SyncEntityType,
+    row: SyncedRow,
+    transaction: Transaction,
+  ): Promise<void> {
+    if (entityType === 'environment') {
+      const usage = await DOPELog.count({ where: { environment_id: row.id }, transaction });
+      if (usage > 0) {
+        throw new ConflictError(
+          `Cannot delete environment snapshot: it is used by ${usage} DOPE log(s)`,
+        );
+      }
+    }
+
+    await row.destroy({ transaction });
+  }
+
+  /**
+   * Referenced rifles, ammo and environments must be the user's own
+   */
+  private async checkReferences(
+    userId: number,
+    entityType: SyncEntityType,
+    data: SyncData,
+    transaction: Transaction,
+  ): Promise<void> {
+    const references = Object.entries(SYNC_ENTITY_RULES[entityType].references);
+
+    for (const [field, referencedType] of references) {
+      const value = data[field];
+      if (value === undefined || value === null) {
+        continue;
+      }
+
+      let referenced: Model | null = null;
+      if (Number.isInteger(Number(value))) {
+        referenced = await SYNC_MODELS[referencedType].findOne({
+          where: { id: value, user_id: userId },
+          attributes: ['id'],
+          transaction,
+        });
+      }
+
+      if (!referenced) {
+        throw new ValidationError(`${ENTITY_LABELS[referencedType]} not found`, [
+          { field, message: `${ENTITY_LABELS[referencedType]} not found` },
+        ]);
+      }
+    }
+  }
+
+  /**
+   * Server changes since the cursor from other devices and the REST API,
+   * latest operation per entity
+   */
+  private async changesSince(
+    userId: number,
+    deviceId: string,
+    cursor: number,
+    settledId: number,
+  ): Promise<{ cursor: number; has_more: boolean; changes: ServerChange[] }> {
+    // The device already has its own changes
+    const logs = await SyncLog.findAll({
+      where: {
+        user_id: userId,
+        id: { [Op.gt]: cursor },
+        [Op.or]: [{ device_id: null }, { device_id: { [Op.ne]: deviceId } }],
+      },
+      order: [['id', 'ASC']],
+      limit: PULL_LIMIT + 1,
+    });
+
+    const hasMore = logs.length > PULL_LIMIT;
+    const page = logs.slice(0, PULL_LIMIT);
+
+    // A full page ends the cursor at its last log; otherwise every
+    // settled log, the device's own included, has been seen
+    const reached = hasMore ? Math.min(page[PULL_LIMIT - 1]?.id ?? cursor, settledId) : settledId;
+
+    const collapsed = SyncService.collapse(
+      page.map((log) => ({
+        id: log.id,
+        entity_type: log.entity_type,
+        entity_id: log.entity_id,
+        operation: log.operation,
+        server_timestamp: log.server_timestamp,
+      })),
+    );
+
+    const rows = await this.loadRows(
+      userId,
+      collapsed.filter((log) => log.operation !== 'delete'),
+    );
+
+    const changes = collapsed.map((log): ServerChange => {
+      const entityType = log.entity_type as SyncEntityType;
+      const row = rows.get(`${entityType}:${log.entity_id}`) || null;
+
+      return {
+        entity_type: entityType,
+        entity_id: log.entity_id,
+        // Rows deleted since the log was written are reported as deleted
+        operation: row ? log.operation : 'delete',
+        server_timestamp: log.server_timestamp,
+        data: row,
+      };
+    });
+
+    return { cursor: Math.max(cursor, reached), has_more: hasMore, changes };
+  }
+
+  /**
+   * Every synced entity of the user, for a device syncing the first time
+   */
+  private async snapshot(
+    userId: number,
+    settledId: number,
+  ): Promise<{ cursor: number; has_more: boolean; changes: ServerChange[] }> {
+    const changes: ServerChange[] = [];
+
+    for (const entityType of SYNC_ENTITY_TYPES) {
+      const rows = await SYNC_MODELS[entityType].findAll({
+        where: { user_id: userId },
+        order: [['id', 'ASC']],
+      });
+
+      rows.forEach((row) => {
+        changes.push({
+          entity_type: entityType,
+          entity_id: row.id,
+          operation: 'create',
+          server_timestamp: null,
+          data: row,
+        });
+      });
+    }
+
+    return { cursor: settledId, has_more: false, changes };
+  }
+
+  /**
+   * Current rows of logged entities, keyed by entity type and id
+   */
+  private async loadRows(
+    userId: number,
+    logs: { entity_type: string; entity_id: number }[],
+  ): Promise<Map<string, SyncedRow>> {
+    const rows = new Map<string, SyncedRow>();
+
+    for (const entityType of SYNC_ENTITY_TYPES) {
+      const ids = logs.filter((log) => log.entity_type === entityType).map((log) => log.entity_id);
+      if (ids.length === 0) {
+        continue;
+      }
+
+      const found = await SYNC_MODELS[entityType].findAll({
+        where: { id: ids, user_id: userId },
+      });
+      found.forEach((row) => rows.set(`${entityType}:${row.id}`, row));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Highest log id of the user older than the settle window
+   */
+  private async settledLogId(userId: number): Promise<number> {
+    const settledId = await SyncLog.max<number, SyncLog>('id', {
+      where: {
+        user_id: userId,
+        server_timestamp: { [Op.lte]: new Date(Date.now() - SETTLE_MS) },
+      },
+    });
+
+    return Number(settledId) || 0;
+  }
+
+  private async findConflict(userId: number, conflictId: number): Promise<SyncConflict> {
+    const conflict = await SyncConflict.findOne({
+      where: { id: conflictId, user_id: userId },
+    });
+
+    if (!conflict) {
+      throw new NotFoundError('Sync conflict');
+    }
+
+    return conflict;
+  }
+
+  private pick(data: object, fields: readonly string[]): SyncData {
+    return Object.fromEntries(Object.entries(data).filter(([field]) => fields.includes(field)));
+  }
+
+  private entityId(change: ClientChange, createdIds: ReadonlyMap<string, number>) {
+    if (change.operation === 'create') {
+      return (change.client_id && createdIds.get(change.client_id)) || null;
+    }
+    return SyncService.resolveId(change.entity_id, createdIds) as number | string;
+  }
+
+  /**
+   * Why a change was refused, or null for errors that should fail the
+   * whole request
+   */
+  private failureMessage(error: unknown): string | null {
+    if (error instanceof ValidationError && error.errors.length > 0) {
+      return error.errors
+        .map((e: { field: string; message: string }) => `${e.field}: ${e.message}`)
+        .join('; ');
+    }
+
+    if (error instanceof AppError) {
+      return error.message;
+    }
+
+    // Unique constraint errors are Sequelize validation errors too
+    if (error instanceof SequelizeValidationError) {
+      return error.errors.map((e) => `${e.path}: ${e.message}`).join('; ');
+    }
+
+    if (error instanceof ForeignKeyConstraintError) {
+      return 'Invalid reference to related resource';
+    }
+
+    return null;
+  }
+}
+
+export default new SyncController();
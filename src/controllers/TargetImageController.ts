@@ -0,0 +1,506 @@
+import { Request, Response } from 'express';
+import { Op, WhereAttributeHash } from 'sequelize';
+import DOPELog from '../models/DOPELog';
+import RangeSession from '../models/RangeSession';
+import TargetImage from '../models/TargetImage';
+import SyncLog from '../models/SyncLog';
+import TargetImageService from '../services/TargetImageService';
+import GroupAnalysisService, { GroupAnalysis } from '../services/GroupAnalysisService';
+import { getStorage } from '../services/StorageService';
+import { createSignedUrl, verifySignedResource, DEFAULT_SIGNED_URL_TTL } from '../utils/signedUrl';
+import { AuthenticationError, NotFoundError, ValidationError } from '../utils/errors';
+import { sendSuccess, sendCreated, sendNoContent, sendPaginated } from '../utils/response';
+import { round } from '../utils/units';
+import logger from '../utils/logger';
+
+/**
+ * Target Image Controller
+ *
+ * Handles target photo uploads, their POI markers and group analysis, and
+ * downloads through ownership-checked requests or signed temporary URLs.
+ */
+
+type Variant = 'original' | 'thumbnail';
+
+export class TargetImageController {
+  /**
+   * Get all target images for authenticated user
+   * GET /api/v1/target-images
+   */
+  async getAll(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const { page, limit, offset } = (req as any).pagination;
+    const { dope_log_id, range_session_id, target_type } = req.query;
+
+    const where: WhereAttributeHash<TargetImage> = { user_id: userId };
+
+    if (dope_log_id) {
+      where.dope_log_id = Number(dope_log_id);
+    }
+
+    if (range_session_id) {
+      where.range_session_id = Number(range_session_id);
+    }
+
+    if (target_type) {
+      where.target_type = target_type as TargetImage['target_type'];
+    }
+
+    const { count, rows } = await TargetImage.findAndCountAll({
+      where,
+      limit,
+      offset,
+      order: [['created_at', 'DESC']],
+    });
+
+    return sendPaginated(
+      res,
+      rows.map((image) => this.withUrls(image)),
+      page,
+      limit,
+      count,
+    );
+  }
+
+  /**
+   * Get single target image with temporary download URLs
+   * GET /api/v1/target-images/:id
+   */
+  async getById(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const image = await this.findImage(userId, (req as any).idParsed);
+
+    return sendSuccess(res, this.withUrls(image));
+  }
+
+  /**
+   * Group measurements from the POI markers
+   * GET /api/v1/target-images/:id/analysis
+   */
+  async getAnalysis(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const image = await this.findImage(userId, (req as any).idParsed);
+
+    if (!image.scale_reference) {
+      throw new ValidationError(
+        'Set a scale_reference on the target image before analyzing the group',
+      );
+    }
+
+    return sendSuccess(res, {
+      target_image_id: image.id,
+      dope_log_id: image.dope_log_id,
+      range_session_id: image.range_session_id,
+      group_size:
+        image.group_size !== null && image.group_size !== undefined
+          ? Number(image.group_size)
+          : null,
+      ...(await this.analyze(image)),
+    });
+  }
+
+  /**
+   * Mint a signed temporary download URL
+   * GET /api/v1/target-images/:id/url
+   */
+  async getSignedUrl(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const image = await this.findImage(userId, (req as any).idParsed);
+    const variant = (req.query.variant as Variant) || 'original';
+    const ttl = req.query.expires_in ? Number(req.query.expires_in) : DEFAULT_SIGNED_URL_TTL;
+
+    return sendSuccess(res, {
+      target_image_id: image.id,
+      variant,
+      ...this.signedUrl(image.id, variant, ttl),
+    });
+  }
+
+  /**
+   * Download the image or its thumbnail. Requires an access token for the
+   * owner or a valid expires/signature pair from a signed URL.
+   * GET /api/v1/target-images/:id/file
+   */
+  async download(req: Request, res: Response) {
+    const imageId = (req as any).idParsed;
+    const variant = (req.query.variant as Variant) || 'original';
+    let image: TargetImage | null;
+
+    if (req.query.signature) {
+      if (
+        !verifySignedResource(
+          this.resource(imageId, variant),
+          req.query.expires,
+          req.query.signature,
+        )
+      ) {
+        throw new AuthenticationError('Download link is invalid or has expired');
+      }
+      image = await TargetImage.findByPk(imageId);
+      if (!image) {
+        throw new NotFoundError('Target image');
+      }
+    } else {
+      const userId = (req as any).userId;
+      if (!userId) {
+        throw new AuthenticationError('Access token or signed URL required');
+      }
+      image = await this.findImage(userId, imageId);
+    }
+
+    const thumbnail = variant === 'thumbnail' && image.thumbnail_uri;
+    const key = thumbnail ? image.thumbnail_uri! : image.image_uri;
+    const data = await getStorage().get(key);
+
+    if (!data) {
+      throw new NotFoundError('Image file');
+    }
+
+    res.set({
+      'Content-Type': thumbnail ? 'image/jpeg' : image.content_type,
+      'Content-Length': String(data.length),
+      'Cache-Control': 'private, max-age=300',
+      'Cross-Origin-Resource-Policy': 'cross-origin',
+    });
+    return res.send(data);
+  }
+
+  /**
+   * Upload a target photo (multipart "image") for a DOPE log or range session
+   * POST /api/v1/target-images
+   */
+  async create(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const file = req.file;
+
+    if (!file) {
+      throw new ValidationError('A target photo is required in the "image" field');
+    }
+
+    const { dope_log_id, range_session_id } = req.body;
+    if (!dope_log_id && !range_session_id) {
+      throw new ValidationError('dope_log_id or range_session_id is required');
+    }
+
+    await this.verifyLinks(userId, dope_log_id, range_session_id);
+
+    const processed = await TargetImageService.process(file.buffer);
+    const markers = TargetImageService.parseMarkers(
+      req.body.poi_markers,
+      processed.width,
+      processed.height,
+    );
+    const aimPoint = GroupAnalysisService.parseAimPoint(req.body.aim_point);
+    const scale = GroupAnalysisService.parseScaleReference(req.body.scale_reference);
+    const keys = TargetImageService.storageKeys(userId, processed.extension);
+    const storage = getStorage();
+
+    await storage.put(keys.image, file.buffer, processed.content_type);
+    await storage.put(keys.thumbnail, processed.thumbnail, 'image/jpeg');
+
+    let image: TargetImage;
+    try {
+      image = await TargetImage.create({
+        user_id: userId,
+        dope_log_id: dope_log_id || null,
+        range_session_id: range_session_id || null,
+        image_uri: keys.image,
+        thumbnail_uri: keys.thumbnail,
+        content_type: processed.content_type,
+        image_width: processed.width,
+        image_height: processed.height,
+        target_type: req.body.target_type,
+        poi_markers: markers,
+        aim_point: aimPoint,
+        scale_reference: scale,
+      });
+    } catch (error) {
+      // Don't leave orphaned files behind
+      await this.removeFiles([keys.image, keys.thumbnail]);
+      throw error;
+    }
+
+    // Pick up the generated shot_count
+    await image.reload();
+    const analysis = await this.updateGroupSize(image);
+
+    return sendCreated(
+      res,
+      { ...this.withUrls(image), group_analysis: analysis },
+      'Target image uploaded',
+    );
+  }
+
+  /**
+   * Update target image details or move it to another log/session
+   * PUT /api/v1/target-images/:id
+   */
+  async update(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const image = await this.findImage(userId, (req as any).idParsed);
+
+    await this.verifyLinks(userId, req.body.dope_log_id, req.body.range_session_id);
+    const previousLogId = image.dope_log_id ?? null;
+
+    // Files and markers are managed by their own endpoints; group size is computed
+    const updates = { ...req.body };
+    delete updates.user_id;
+    delete updates.image_uri;
+    delete updates.thumbnail_uri;
+    delete updates.content_type;
+    delete updates.image_width;
+    delete updates.image_height;
+    delete updates.poi_markers;
+    delete updates.shot_count;
+    delete updates.group_size;
+
+    if (updates.aim_point !== undefined) {
+      updates.aim_point = GroupAnalysisService.parseAimPoint(updates.aim_point);
+    }
+    if (updates.scale_reference !== undefined) {
+      updates.scale_reference = GroupAnalysisService.parseScaleReference(updates.scale_reference);
+    }
+
+    await image.update(updates);
+    const analysis = await this.updateGroupSize(image, previousLogId);
+
+    return sendSuccess(
+      res,
+      { ...this.withUrls(image), group_analysis: analysis },
+      'Target image updated successfully',
+    );
+  }
+
+  /**
+   * Replace the POI markers, optionally with the aim point and scale reference
+   * PUT /api/v1/target-images/:id/markers
+   */
+  async updateMarkers(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const image = await this.findImage(userId, (req as any).idParsed);
+
+    const markers = TargetImageService.parseMarkers(
+      req.body.poi_markers,
+      image.image_width,
+      image.image_height,
+    );
+
+    const updates: Partial<Pick<TargetImage, 'poi_markers' | 'aim_point' | 'scale_reference'>> = {
+      poi_markers: markers,
+    };
+    if (req.body.aim_point !== undefined) {
+      updates.aim_point = GroupAnalysisService.parseAimPoint(req.body.aim_point);
+    }
+    if (req.body.scale_reference !== undefined) {
+      updates.scale_reference = GroupAnalysisService.parseScaleReference(req.body.scale_reference);
+    }
+
+    await image.update(updates);
+    await image.reload();
+    const analysis = await this.updateGroupSize(image);
+
+    return sendSuccess(
+      res,
+      { ...this.withUrls(image), group_analysis: analysis },
+      'POI markers updated successfully',
+    );
+  }
+
+  /**
+   * Delete target image and its files
+   * DELETE /api/v1/target-images/:id
+   */
+  async delete(req: Request, res: Response) {
+    const userId = (req as any).userId;
+    const image = await this.findImage(userId, (req as any).idParsed);
+    const keys = image.getStorageKeys();
+
+    await image.destroy();
+    if (image.dope_log_id) {
+      await this.clearLogGroupSize(userId, image.dope_log_id, this.groupSizeOf(image));
+    }
+    await this.removeFiles(keys);
+
+    return sendNoContent(res);
+  }
+
+  /**
+   * Group analysis at the linked log's distance (or the session's when only
+   * a session is linked); null until the image has a scale reference
+   */
+  private async analyze(image: TargetImage): Promise<GroupAnalysis | null> {
+    if (!image.scale_reference) {
+      return null;
+    }
+
+    let distance: number | null = null;
+    if (image.dope_log_id) {
+      const dopeLog = await DOPELog.findByPk(image.dope_log_id, {
+        attributes: ['id', 'distance_yards'],
+      });
+      distance = dopeLog ? Number(dopeLog.distance_yards) : null;
+    } else if (image.range_session_id) {
+      const session = await RangeSession.findByPk(image.range_session_id, {
+        attributes: ['id', 'distance'],
+      });
+      distance = session ? Number(session.distance) : null;
+    }
+
+    return GroupAnalysisService.analyze(
+      image.poi_markers,
+      image.scale_reference,
+      distance,
+      image.aim_point ?? null,
+    );
+  }
+
+  /**
+   * Store the measured extreme spread as the group size of the image and
+   * its linked DOPE log. A log the image no longer measures (moved off, or
+   * the group can't be measured any more) drops the size it got from it.
+   */
+  private async updateGroupSize(
+    image: TargetImage,
+    previousLogId: number | null = image.dope_log_id ?? null,
+  ): Promise<GroupAnalysis | null> {
+    const staleSize = this.groupSizeOf(image);
+    const analysis = await this.analyze(image);
+    const groupSize =
+      analysis && analysis.extreme_spread ? round(analysis.extreme_spread.inches, 2) : null;
+
+    await image.update({ group_size: groupSize });
+
+    if (groupSize !== null && image.dope_log_id) {
+      const dopeLog = await DOPELog.findOne({
+        where: { id: image.dope_log_id, user_id: image.user_id },
+      });
+      if (dopeLog) {
+        await SyncLog.logged((transaction) =>
+          dopeLog.update({ group_size: groupSize }, { transaction }),
+        );
+      }
+    } else if (image.dope_log_id) {
+      await this.clearLogGroupSize(image.user_id, image.dope_log_id, staleSize);
+    }
+
+    if (previousLogId && previousLogId !== image.dope_log_id) {
+      await this.clearLogGroupSize(image.user_id, previousLogId, staleSize);
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Replace a log's group size that came from an image (`staleSize`) with
+   * the newest group still measured on the log, or clear it. A size entered
+   * by hand or from another image stays.
+   */
+  private async clearLogGroupSize(
+    userId: number,
+    dopeLogId: number,
+    staleSize: number | null,
+  ): Promise<void> {
+    if (staleSize === null) {
+      return;
+    }
+
+    const dopeLog = await DOPELog.findOne({ where: { id: dopeLogId, user_id: userId } });
+    if (!dopeLog || Number(dopeLog.group_size) !== staleSize) {
+      return;
+    }
+
+    const measured = await TargetImage.findOne({
+      where: { dope_log_id: dopeLogId, user_id: userId, group_size: { [Op.ne]: null } },
+      order: [['created_at', 'DESC']],
+    });
+    const groupSize = measured ? this.groupSizeOf(measured) : null;
+    await SyncLog.logged((transaction) =>
+      dopeLog.update({ group_size: groupSize }, { transaction }),
+    );
+  }
+
+  private groupSizeOf(image: TargetImage): number | null {
+    return image.group_size !== null && image.group_size !== undefined
+      ? Number(image.group_size)
+      : null;
+  }
+
+  private withUrls(image: TargetImage) {
+    return {
+      ...image.toJSON(),
+      urls: {
+        original: this.signedUrl(image.id, 'original').url,
+        thumbnail: this.signedUrl(image.id, 'thumbnail').url,
+      },
+    };
+  }
+
+  private signedUrl(imageId: number, variant: Variant, ttl: number = DEFAULT_SIGNED_URL_TTL) {
+    const path = `${process.env.API_URL || ''}/api/v1/target-images/${imageId}/file?variant=${variant}`;
+    return createSignedUrl(path, this.resource(imageId, variant), ttl);
+  }
+
+  private resource(imageId: number, variant: Variant): string {
+    return `target-images/${imageId}/${variant}`;
+  }
+
+  private async removeFiles(keys: string[]) {
+    const storage = getStorage();
+    for (const key of keys) {
+      try {
+        await storage.remove(key);
+      } catch (error) {
+        logger.warn(`Failed to remove stored file ${key}`, { error });
+      }
+    }
+  }
+
+  private async verifyLinks(userId: number, dopeLogId?: number, rangeSessionId?: number) {
+    let dopeLog: DOPELog | null = null;
+
+    if (dopeLogId) {
+      dopeLog = await DOPELog.findOne({ where: { id: dopeLogId, user_id: userId } });
+      if (!dopeLog) {
+        throw new ValidationError(
+          'Invalid dope_log_id: DOPE log not found or does not belong to you',
+        );
+      }
+    }
+
+    if (rangeSessionId) {
+      const session = await RangeSession.findOne({
+        where: { id: rangeSessionId, user_id: userId },
+      });
+      if (!session) {
+        throw new ValidationError(
+          'Invalid range_session_id: Session not found or does not belong to you',
+        );
+      }
+
+      if (
+        dopeLog &&
+        dopeLog.range_session_id &&
+        Number(dopeLog.range_session_id) !== Number(session.id)
+      ) {
+        throw new ValidationError('DOPE log belongs to a different range session');
+      }
+    }
+  }
+
+  private async findImage(userId: number, imageId: number): Promise<TargetImage> {
+    const image = await TargetImage.findOne({
+      where: {
+        id: imageId,
+        user_id: userId,
+      },
+    });
+
+    if (!image) {
+      throw new NotFoundError('Target image');
+    }
+
+    return image;
+  }
+}
+
+export default new TargetImageController();
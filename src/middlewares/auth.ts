@@ -1,8 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, extractBearerToken } from '../utils/jwt';
-import { AuthenticationError, AuthorizationError } from '../utils/errors';
+import { AuthenticationError } from '../utils/errors';
 import { sendUnauthorized, sendForbidden } from '../utils/response';
-import User from '../models/User';
+import User, { UserRole } from '../models/User';
 
 /**
  * Authentication Middleware
@@ -52,7 +52,7 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
     req.user = user;
     req.userId = user.id;
 
-    next();
+    return next();
   } catch (error) {
     if (error instanceof AuthenticationError) {
       return sendUnauthorized(res, error.message);
@@ -65,7 +65,7 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
  * Optional authentication
  * Authenticates user if token is present, but doesn't fail if missing
  */
-export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
+export async function optionalAuth(req: Request, _res: Response, next: NextFunction) {
   try {
     const token = extractBearerToken(req.headers.authorization);
 
@@ -99,7 +99,44 @@ export function requireVerified(req: Request, res: Response, next: NextFunction)
     return sendForbidden(res, 'Email verification required');
   }
 
-  next();
+  return next();
+}
+
+/**
+ * Require one of the given roles
+ * Must be used after authenticate middleware
+ */
+export function authorize(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendUnauthorized(res, 'Authentication required');
+    }
+
+    if (!req.user.hasRole(...roles)) {
+      return sendForbidden(res, 'You do not have permission to perform this action');
+    }
+
+    return next();
+  };
+}
+
+/**
+ * Require a minimum account age in days
+ * Must be used after authenticate middleware
+ */
+export function requireAccountAge(minDays: number) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return sendUnauthorized(res, 'Authentication required');
+    }
+
+    const ageMs = Date.now() - new Date(req.user.created_at).getTime();
+    if (ageMs < minDays * 24 * 60 * 60 * 1000) {
+      return sendForbidden(res, `Account must be at least ${minDays} days old`);
+    }
+
+    return next();
+  };
 }
 
 /**
@@ -196,9 +233,9 @@ export function checkResourceOwnership(getResource: (req: Request) => Promise<an
       // Attach resource to request for use in controller
       (req as any).resource = resource;
 
-      next();
+      return next();
     } catch (error) {
-      next(error);
+      return next(error);
     }
   };
 }
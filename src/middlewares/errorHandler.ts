@@ -13,7 +13,12 @@ import logger, { logError } from '../utils/logger';
  * Global error handler
  * Should be registered last in middleware chain
  */
-export function errorHandler(err: Error | AppError, req: Request, res: Response, next: NextFunction) {
+export function errorHandler(
+  err: Error | AppError,
+  req: Request,
+  res: Response,
+  _next: NextFunction,
+) {
   // Log error
   logError(err, {
     method: req.method,
@@ -28,6 +33,15 @@ export function errorHandler(err: Error | AppError, req: Request, res: Response,
     return res.status(err.statusCode).json(response);
   }
 
+  // Handle upload errors (file too large, unexpected field)
+  if (err.name === 'MulterError') {
+    return res.status(400).json({
+      success: false,
+      error: 'Upload Error',
+      message: err.message,
+    });
+  }
+
   // Handle Sequelize validation errors
   if (err.name === 'SequelizeValidationError') {
     return res.status(400).json({
@@ -54,6 +68,15 @@ export function errorHandler(err: Error | AppError, req: Request, res: Response,
     });
   }
 
+  // Handle Sequelize optimistic lock errors (row changed after it was read)
+  if (err.name === 'SequelizeOptimisticLockError') {
+    return res.status(409).json({
+      success: false,
+      error: 'Conflict',
+      message: 'Resource was changed elsewhere; reload and try again',
+    });
+  }
+
   // Handle Sequelize foreign key constraint errors
   if (err.name === 'SequelizeForeignKeyConstraintError') {
     return res.status(400).json({
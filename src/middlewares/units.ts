@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from 'express';
+import SettingsService from '../services/SettingsService';
+import UnitConversionService, {
+  CANONICAL_UNITS,
+  DisplayUnits,
+  UNIT_SYSTEMS,
+} from '../services/UnitConversionService';
+import { sendValidationError } from '../utils/response';
+
+/**
+ * Unit Negotiation Middleware
+ *
+ * Lets clients work in imperial or metric units with a `units` query
+ * parameter or an `Accept-Units` header, else in the user's unit
+ * settings. Request bodies are converted from the same display units
+ * responses are converted to, so a record read and written back
+ * unchanged keeps its values. Sync always works in canonical units.
+ *
+ * Routers whose payloads carry units mount convertUnits after
+ * authenticate; only their requests load the user's settings. Routes
+ * taking multipart uploads also mount convertUploadFields after the
+ * upload middleware, once the fields are parsed.
+ */
+
+interface UnitLocals {
+  negotiated?: boolean;
+  displayUnits?: DisplayUnits;
+}
+
+interface ApiBody {
+  success?: boolean;
+  data?: unknown;
+}
+
+// Paths under /api whose payloads stay in canonical units both ways
+const CANONICAL_PATHS = ['/v1/sync'];
+
+// Query filters that carry a unit
+const QUERY_QUANTITIES: Record<string, keyof DisplayUnits> = {
+  temp_min: 'temperature',
+  temp_max: 'temperature',
+  distance_min: 'distance',
+  distance_max: 'distance',
+  target_speed: 'speed',
+  target_width: 'length',
+};
+
+/**
+ * Negotiate the unit system and convert output
+ */
+export function negotiateUnits(req: Request, res: Response, next: NextFunction): void {
+  if (CANONICAL_PATHS.some((path) => req.path === path || req.path.startsWith(`${path}/`))) {
+    next();
+    return;
+  }
+
+  const locals = res.locals as UnitLocals;
+  const requested =
+    (typeof req.query.units === 'string' && req.query.units) || req.header('Accept-Units');
+  res.vary('Accept-Units');
+  locals.negotiated = true;
+
+  if (requested) {
+    const system = (requested.split(',')[0] ?? '').trim().toLowerCase();
+    if (!UnitConversionService.isUnitSystem(system)) {
+      sendValidationError(res, [
+        { field: 'units', message: 'Units must be metric or imperial', value: requested },
+      ]);
+      return;
+    }
+
+    locals.displayUnits = UNIT_SYSTEMS[system];
+  }
+
+  const json = res.json.bind(res);
+  res.json = (body?: ApiBody): Response => {
+    if (!body || body.success !== true || body.data === undefined) {
+      return json(body);
+    }
+
+    const units = getDisplayUnits(res);
+    return json({
+      ...body,
+      data: UnitConversionService.format(body.data, units),
+      units: { system: UnitConversionService.systemOf(units), ...units },
+    });
+  };
+
+  next();
+}
+
+/**
+ * Take input and give output in the user's unit settings when the
+ * request named no system, and convert the query and a parsed body
+ */
+export async function convertUnits(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const locals = res.locals as UnitLocals;
+  if (!locals.negotiated) {
+    next();
+    return;
+  }
+
+  if (!locals.displayUnits && req.userId) {
+    try {
+      const settings = await SettingsService.getUserSettings(req.userId);
+      locals.displayUnits = SettingsService.displayUnits(settings);
+    } catch (error) {
+      next(error);
+      return;
+    }
+  }
+
+  const units = getDisplayUnits(res);
+  convertQuery(req, units);
+  if (!req.is('multipart/form-data')) {
+    convertBody(req, units);
+  }
+
+  next();
+}
+
+/**
+ * Convert the fields of a multipart upload once they are parsed
+ */
+export function convertUploadFields(req: Request, res: Response, next: NextFunction): void {
+  if ((res.locals as UnitLocals).negotiated) {
+    convertBody(req, getDisplayUnits(res));
+  }
+
+  next();
+}
+
+/**
+ * Units for the response: the requested system, else the user's
+ * settings, else canonical
+ */
+export function getDisplayUnits(res: Response): DisplayUnits {
+  return (res.locals as UnitLocals).displayUnits ?? CANONICAL_UNITS;
+}
+
+/**
+ * Body from display units to canonical units
+ */
+function convertBody(req: Request, units: DisplayUnits): void {
+  if (req.body && typeof req.body === 'object') {
+    req.body = UnitConversionService.parse(req.body, units);
+  }
+}
+
+/**
+ * Query filters from display units to canonical units
+ */
+function convertQuery(req: Request, units: DisplayUnits): void {
+  Object.entries(QUERY_QUANTITIES).forEach(([key, quantity]) => {
+    const value = req.query[key];
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+      req.query[key] = String(
+        UnitConversionService.convertValue(Number(value), quantity, units, 'parse'),
+      );
+    }
+  });
+}
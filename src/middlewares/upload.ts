@@ -0,0 +1,48 @@
+import multer from 'multer';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Upload Middleware
+ *
+ * Multer configuration for multipart file uploads. Files are kept in
+ * memory and parsed by the controller.
+ */
+
+const MAX_CSV_SIZE = 2 * 1024 * 1024; // 2 MB
+const CSV_MIME_TYPES = ['text/csv', 'text/plain', 'application/csv', 'application/vnd.ms-excel'];
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10 MB
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/**
+ * Single CSV file in the "file" field
+ */
+export const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_CSV_SIZE,
+    files: 1,
+  },
+  fileFilter: (_req, file, callback) => {
+    if (CSV_MIME_TYPES.includes(file.mimetype) || /\.(csv|txt)$/i.test(file.originalname)) {
+      return callback(null, true);
+    }
+    return callback(new ValidationError('Only CSV files are accepted'));
+  },
+}).single('file');
+
+/**
+ * Single JPEG, PNG or WebP image in the "image" field
+ */
+export const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMAGE_SIZE,
+    files: 1,
+  },
+  fileFilter: (_req, file, callback) => {
+    if (IMAGE_MIME_TYPES.includes(file.mimetype)) {
+      return callback(null, true);
+    }
+    return callback(new ValidationError('Only JPEG, PNG or WebP images are accepted'));
+  },
+}).single('image');
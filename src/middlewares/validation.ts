@@ -37,7 +37,7 @@ export function validate(validations: ValidationChain[]) {
 /**
  * Sanitize input to prevent XSS attacks
  */
-export function sanitizeInput(req: Request, res: Response, next: NextFunction) {
+export function sanitizeInput(req: Request, _res: Response, next: NextFunction) {
   // Remove any HTML tags from string inputs
   const sanitizeValue = (value: any): any => {
     if (typeof value === 'string') {
@@ -107,7 +107,7 @@ export function validatePagination(req: Request, res: Response, next: NextFuncti
     offset: (page - 1) * limit,
   };
 
-  next();
+  return next();
 }
 
 /**
@@ -115,7 +115,7 @@ export function validatePagination(req: Request, res: Response, next: NextFuncti
  */
 export function validateId(paramName: string = 'id') {
   return (req: Request, res: Response, next: NextFunction) => {
-    const id = parseInt(req.params[paramName], 10);
+    const id = parseInt(req.params[paramName] ?? '', 10);
 
     if (isNaN(id) || id < 1) {
       return sendValidationError(res, [
@@ -130,6 +130,6 @@ export function validateId(paramName: string = 'id') {
     // Attach parsed ID to request
     (req as any)[`${paramName}Parsed`] = id;
 
-    next();
+    return next();
   };
 }
@@ -1,7 +1,8 @@
-import { DataTypes, Model, Optional, Association } from 'sequelize';
+import { DataTypes, Model, Optional, Association, Transaction } from 'sequelize';
 import sequelize from '../config/database';
 import User from './User';
 import RifleProfile from './RifleProfile';
+import { rowVersioning } from '../utils/rowVersion';
 
 /**
  * AmmoProfile Model
@@ -18,18 +19,27 @@ interface AmmoProfileAttributes {
   manufacturer: string;
   bullet_weight: number; // grains
   bullet_type: string; // HPBT, ELD-X, etc.
+  bullet_length?: number | null; // inches
+  bullet_diameter?: number | null; // inches
   ballistic_coefficient_g1: number;
   ballistic_coefficient_g7: number;
   muzzle_velocity: number; // feet per second
+  muzzle_velocity_temperature?: number | null; // Fahrenheit the velocity was measured at
   powder_type?: string;
   powder_weight?: number; // grains
   lot_number?: string;
   notes?: string;
+  parent_ammo_id?: number | null; // profile this revision was trued from
+  revision?: number;
+  row_version: number; // bumped on every update
   created_at?: Date;
   updated_at?: Date;
 }
 
-interface AmmoProfileCreationAttributes extends Optional<AmmoProfileAttributes, 'id' | 'created_at' | 'updated_at'> {}
+interface AmmoProfileCreationAttributes extends Optional<
+  AmmoProfileAttributes,
+  'id' | 'row_version' | 'created_at' | 'updated_at'
+> {}
 
 class AmmoProfile extends Model<AmmoProfileAttributes, AmmoProfileCreationAttributes> implements AmmoProfileAttributes {
   public id!: number;
@@ -39,23 +49,31 @@ class AmmoProfile extends Model<AmmoProfileAttributes, AmmoProfileCreationAttrib
   public manufacturer!: string;
   public bullet_weight!: number;
   public bullet_type!: string;
+  public bullet_length?: number | null;
+  public bullet_diameter?: number | null;
   public ballistic_coefficient_g1!: number;
   public ballistic_coefficient_g7!: number;
   public muzzle_velocity!: number;
+  public muzzle_velocity_temperature?: number | null;
   public powder_type?: string;
   public powder_weight?: number;
   public lot_number?: string;
   public notes?: string;
+  public parent_ammo_id?: number | null;
+  public revision!: number;
+  public row_version!: number;
   public readonly created_at!: Date;
   public readonly updated_at!: Date;
 
   // Associations
   public readonly user?: User;
   public readonly rifle?: RifleProfile;
+  public readonly parent?: AmmoProfile;
 
   public static associations: {
     user: Association<AmmoProfile, User>;
     rifle: Association<AmmoProfile, RifleProfile>;
+    parent: Association<AmmoProfile, AmmoProfile>;
   };
 
   /**
@@ -77,10 +95,53 @@ class AmmoProfile extends Model<AmmoProfileAttributes, AmmoProfileCreationAttrib
   /**
    * Get sectional density
    * Formula: SD = weight (grains) / (diameter^2 * 7000)
-   * Note: Caliber to diameter conversion needed for accurate calculation
+   * Uses the stored bullet diameter unless one is given; returns null
+   * when no diameter is known
    */
-  public getSectionalDensity(bulletDiameter: number): number {
-    return this.bullet_weight / (Math.pow(bulletDiameter, 2) * 7000);
+  public getSectionalDensity(bulletDiameter?: number): number | null {
+    const diameter = bulletDiameter ?? (this.bullet_diameter ? Number(this.bullet_diameter) : null);
+    if (!diameter) {
+      return null;
+    }
+    return this.bullet_weight / (Math.pow(diameter, 2) * 7000);
+  }
+
+  /**
+   * Create the next revision of this profile with the given changes.
+   * `copy` carries over what hangs off the profile in the same transaction.
+   */
+  public async createRevision(
+    changes: Partial<AmmoProfileCreationAttributes>,
+    copy: (revision: AmmoProfile, transaction: Transaction) => Promise<unknown>,
+  ): Promise<AmmoProfile> {
+    return sequelize.transaction(async (transaction) => {
+      const revision = await AmmoProfile.create(
+        {
+          user_id: this.user_id,
+          rifle_id: this.rifle_id,
+          name: this.name,
+          manufacturer: this.manufacturer,
+          bullet_weight: this.bullet_weight,
+          bullet_type: this.bullet_type,
+          bullet_length: this.bullet_length,
+          bullet_diameter: this.bullet_diameter,
+          ballistic_coefficient_g1: this.ballistic_coefficient_g1,
+          ballistic_coefficient_g7: this.ballistic_coefficient_g7,
+          muzzle_velocity: this.muzzle_velocity,
+          muzzle_velocity_temperature: this.muzzle_velocity_temperature,
+          powder_type: this.powder_type,
+          powder_weight: this.powder_weight,
+          lot_number: this.lot_number,
+          notes: this.notes,
+          parent_ammo_id: this.id,
+          revision: (this.revision || 1) + 1,
+          ...changes,
+        },
+        { transaction },
+      );
+      await copy(revision, transaction);
+      return revision;
+    });
   }
 }
 
@@ -140,6 +201,24 @@ AmmoProfile.init(
       },
       comment: 'HPBT, ELD-X, etc.',
     },
+    bullet_length: {
+      type: DataTypes.DECIMAL(5, 3),
+      allowNull: true,
+      validate: {
+        min: 0,
+        max: 5,
+      },
+      comment: 'Inches',
+    },
+    bullet_diameter: {
+      type: DataTypes.DECIMAL(5, 4),
+      allowNull: true,
+      validate: {
+        min: 0,
+        max: 1,
+      },
+      comment: 'Inches',
+    },
     ballistic_coefficient_g1: {
       type: DataTypes.DECIMAL(6, 4),
       allowNull: false,
@@ -165,6 +244,15 @@ AmmoProfile.init(
       },
       comment: 'Feet per second',
     },
+    muzzle_velocity_temperature: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+      validate: {
+        min: -50,
+        max: 150,
+      },
+      comment: 'Fahrenheit the muzzle velocity was measured at',
+    },
     powder_type: {
       type: DataTypes.STRING(100),
       allowNull: true,
@@ -185,6 +273,30 @@ AmmoProfile.init(
       type: DataTypes.TEXT,
       allowNull: true,
     },
+    parent_ammo_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: true,
+      references: {
+        model: 'ammo_profiles',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+      comment: 'Profile this revision was trued from',
+    },
+    revision: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 1,
+      validate: {
+        min: 1,
+      },
+    },
+    row_version: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Optimistic locking and sync conflict detection',
+    },
     created_at: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -201,10 +313,12 @@ AmmoProfile.init(
     tableName: 'ammo_profiles',
     timestamps: true,
     underscored: true,
+    ...rowVersioning,
     indexes: [
       { fields: ['user_id'] },
       { fields: ['rifle_id'] },
       { fields: ['manufacturer'] },
+      { fields: ['parent_ammo_id'] },
     ],
   }
 );
@@ -220,4 +334,9 @@ AmmoProfile.belongsTo(RifleProfile, {
   as: 'rifle',
 });
 
+AmmoProfile.belongsTo(AmmoProfile, {
+  foreignKey: 'parent_ammo_id',
+  as: 'parent',
+});
+
 export default AmmoProfile;
@@ -0,0 +1,111 @@
+import { DataTypes, Model, Optional, Association } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import { SettingKey, UserSettings } from '../types/settings';
+
+/**
+ * AppSetting Model
+ *
+ * One user preference as a key/value pair. Values are stored as JSON
+ * text; the known keys are declared in SettingsService.
+ */
+
+interface AppSettingAttributes {
+  id: number;
+  user_id: number;
+  setting_key: string;
+  setting_value: string; // JSON-encoded
+  updated_at?: Date;
+}
+
+interface AppSettingCreationAttributes extends Optional<
+  AppSettingAttributes,
+  'id' | 'updated_at'
+> {}
+
+class AppSetting extends Model<AppSettingAttributes, AppSettingCreationAttributes> implements AppSettingAttributes {
+  public id!: number;
+  public user_id!: number;
+  public setting_key!: string;
+  public setting_value!: string;
+  public readonly updated_at!: Date;
+
+  // Associations
+  public readonly user?: User;
+
+  public static associations: {
+    user: Association<AppSetting, User>;
+  };
+
+  /**
+   * Store already validated settings
+   */
+  public static async saveUserSettings(
+    userId: number,
+    values: Partial<UserSettings>,
+  ): Promise<void> {
+    await sequelize.transaction(async (transaction) => {
+      for (const [key, value] of Object.entries(values)) {
+        await AppSetting.upsert(
+          { user_id: userId, setting_key: key, setting_value: JSON.stringify(value) },
+          { transaction },
+        );
+      }
+    });
+  }
+
+  /**
+   * Drop stored settings so the defaults apply again
+   */
+  public static async resetUserSettings(userId: number, keys: SettingKey[]): Promise<void> {
+    await AppSetting.destroy({ where: { user_id: userId, setting_key: keys } });
+  }
+}
+
+AppSetting.init(
+  {
+    id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    user_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    setting_key: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    setting_value: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'app_settings',
+    timestamps: true,
+    createdAt: false,
+    underscored: true,
+    indexes: [{ unique: true, fields: ['user_id', 'setting_key'] }, { fields: ['user_id'] }],
+  },
+);
+
+// Define associations
+AppSetting.belongsTo(User, {
+  foreignKey: 'user_id',
+  as: 'user',
+});
+
+export default AppSetting;
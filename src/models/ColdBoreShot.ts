@@ -0,0 +1,230 @@
+import { DataTypes, Model, Optional, Association } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import RifleProfile from './RifleProfile';
+import AmmoProfile from './AmmoProfile';
+import EnvironmentSnapshot from './EnvironmentSnapshot';
+import RangeSession from './RangeSession';
+
+/**
+ * ColdBoreShot Model
+ *
+ * The first shot from a cold bore, as an offset from the point of aim,
+ * optionally paired with the warm-bore group center that followed it.
+ */
+
+interface ColdBoreShotAttributes {
+  id: number;
+  user_id: number;
+  rifle_id: number;
+  ammo_id?: number | null;
+  range_session_id?: number | null;
+  environment_id?: number | null;
+  shot_time: Date;
+  distance_yards: number;
+  offset_horizontal: number; // inches, positive = right
+  offset_vertical: number; // inches, positive = high
+  warm_offset_horizontal?: number | null; // inches, warm group center
+  warm_offset_vertical?: number | null; // inches, warm group center
+  warm_shot_count?: number | null;
+  days_since_cleaning?: number | null;
+  notes?: string | null;
+  created_at?: Date;
+}
+
+interface ColdBoreShotCreationAttributes extends Optional<
+  ColdBoreShotAttributes,
+  'id' | 'shot_time' | 'created_at'
+> {}
+
+class ColdBoreShot extends Model<ColdBoreShotAttributes, ColdBoreShotCreationAttributes> implements ColdBoreShotAttributes {
+  public id!: number;
+  public user_id!: number;
+  public rifle_id!: number;
+  public ammo_id?: number | null;
+  public range_session_id?: number | null;
+  public environment_id?: number | null;
+  public shot_time!: Date;
+  public distance_yards!: number;
+  public offset_horizontal!: number;
+  public offset_vertical!: number;
+  public warm_offset_horizontal?: number | null;
+  public warm_offset_vertical?: number | null;
+  public warm_shot_count?: number | null;
+  public days_since_cleaning?: number | null;
+  public notes?: string | null;
+  public readonly created_at!: Date;
+
+  // Associations
+  public readonly user?: User;
+  public readonly rifle?: RifleProfile;
+  public readonly ammo?: AmmoProfile;
+  public readonly range_session?: RangeSession;
+  public readonly environment?: EnvironmentSnapshot;
+
+  public static associations: {
+    user: Association<ColdBoreShot, User>;
+    rifle: Association<ColdBoreShot, RifleProfile>;
+    ammo: Association<ColdBoreShot, AmmoProfile>;
+    range_session: Association<ColdBoreShot, RangeSession>;
+    environment: Association<ColdBoreShot, EnvironmentSnapshot>;
+  };
+}
+
+ColdBoreShot.init(
+  {
+    id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    user_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    rifle_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'rifle_profiles',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    ammo_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: true,
+      references: {
+        model: 'ammo_profiles',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    range_session_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: true,
+      references: {
+        model: 'range_sessions',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    environment_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: true,
+      references: {
+        model: 'environment_snapshots',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    shot_time: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    distance_yards: {
+      type: DataTypes.DECIMAL(7, 2),
+      allowNull: false,
+      validate: {
+        min: 0.01,
+        max: 3000,
+      },
+      comment: 'Yards',
+    },
+    offset_horizontal: {
+      type: DataTypes.DECIMAL(6, 2),
+      allowNull: false,
+      comment: 'Inches from point of aim, positive = right',
+    },
+    offset_vertical: {
+      type: DataTypes.DECIMAL(6, 2),
+      allowNull: false,
+      comment: 'Inches from point of aim, positive = high',
+    },
+    warm_offset_horizontal: {
+      type: DataTypes.DECIMAL(6, 2),
+      allowNull: true,
+      comment: 'Warm-bore group center, inches, positive = right',
+    },
+    warm_offset_vertical: {
+      type: DataTypes.DECIMAL(6, 2),
+      allowNull: true,
+      comment: 'Warm-bore group center, inches, positive = high',
+    },
+    warm_shot_count: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+    },
+    days_since_cleaning: {
+      type: DataTypes.SMALLINT.UNSIGNED,
+      allowNull: true,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'cold_bore_shots',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      { fields: ['user_id'] },
+      { fields: ['rifle_id'] },
+      { fields: ['range_session_id'] },
+      { fields: ['shot_time'] },
+    ],
+    validate: {
+      warmOffsetComplete() {
+        const hasHorizontal =
+          this.warm_offset_horizontal !== null && this.warm_offset_horizontal !== undefined;
+        const hasVertical =
+          this.warm_offset_vertical !== null && this.warm_offset_vertical !== undefined;
+        if (hasHorizontal !== hasVertical) {
+          throw new Error('Warm-bore offset needs both horizontal and vertical values');
+        }
+      },
+    },
+  },
+);
+
+// Define associations
+ColdBoreShot.belongsTo(User, {
+  foreignKey: 'user_id',
+  as: 'user',
+});
+
+ColdBoreShot.belongsTo(RifleProfile, {
+  foreignKey: 'rifle_id',
+  as: 'rifle',
+});
+
+ColdBoreShot.belongsTo(AmmoProfile, {
+  foreignKey: 'ammo_id',
+  as: 'ammo',
+});
+
+ColdBoreShot.belongsTo(RangeSession, {
+  foreignKey: 'range_session_id',
+  as: 'range_session',
+});
+
+ColdBoreShot.belongsTo(EnvironmentSnapshot, {
+  foreignKey: 'environment_id',
+  as: 'environment',
+});
+
+export default ColdBoreShot;
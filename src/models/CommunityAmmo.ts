@@ -0,0 +1,297 @@
+import { DataTypes, Model, Optional, Association, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import { VerificationStatus } from '../types/community';
+
+/**
+ * CommunityAmmo Model
+ *
+ * Factory load data shared by users. Submissions start pending and are
+ * ranked by a generated quality score built from verification status,
+ * votes and how often the load has been copied to user profiles.
+ */
+
+interface CommunityAmmoAttributes {
+  id: number;
+  submitted_by: number | null; // null once the submitter's account is deleted
+  manufacturer: string;
+  product_name: string;
+  caliber: string;
+  bullet_weight: number; // grains
+  bullet_type: string;
+  ballistic_coefficient_g1?: number | null;
+  ballistic_coefficient_g7?: number | null;
+  advertised_velocity?: number | null; // feet per second
+  barrel_length?: number | null; // inches, velocity reference
+  data_source?: string | null; // manufacturer spec, chronograph test, etc.
+  verification_status: VerificationStatus;
+  verified_by?: number | null;
+  verified_at?: Date | null;
+  moderation_reason?: string | null; // why it was last rejected or disputed
+  merged_into_id?: number | null; // canonical entry this duplicate was merged into
+  vote_score: number; // upvotes minus downvotes
+  vote_count: number;
+  usage_count: number; // times copied to user profiles
+  quality_score?: number; // Generated column
+  notes?: string | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface CommunityAmmoCreationAttributes extends Optional<
+  CommunityAmmoAttributes,
+  | 'id'
+  | 'verification_status'
+  | 'vote_score'
+  | 'vote_count'
+  | 'usage_count'
+  | 'quality_score'
+  | 'created_at'
+  | 'updated_at'
+> {}
+
+class CommunityAmmo extends Model<CommunityAmmoAttributes, CommunityAmmoCreationAttributes> implements CommunityAmmoAttributes {
+  public id!: number;
+  public submitted_by!: number | null;
+  public manufacturer!: string;
+  public product_name!: string;
+  public caliber!: string;
+  public bullet_weight!: number;
+  public bullet_type!: string;
+  public ballistic_coefficient_g1?: number | null;
+  public ballistic_coefficient_g7?: number | null;
+  public advertised_velocity?: number | null;
+  public barrel_length?: number | null;
+  public data_source?: string | null;
+  public verification_status!: VerificationStatus;
+  public verified_by?: number | null;
+  public verified_at?: Date | null;
+  public moderation_reason?: string | null;
+  public merged_into_id?: number | null;
+  public vote_score!: number;
+  public vote_count!: number;
+  public usage_count!: number;
+  public readonly quality_score!: number;
+  public notes?: string | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Associations
+  public readonly submitter?: User;
+  public readonly verifier?: User;
+  public readonly canonical?: CommunityAmmo;
+  public readonly merged_entries?: CommunityAmmo[];
+
+  public static associations: {
+    submitter: Association<CommunityAmmo, User>;
+    verifier: Association<CommunityAmmo, User>;
+    canonical: Association<CommunityAmmo, CommunityAmmo>;
+    merged_entries: Association<CommunityAmmo, CommunityAmmo>;
+  };
+
+  /**
+   * Display name, e.g. "Hornady 140gr ELD Match"
+   */
+  public getDisplayName(): string {
+    return `${this.manufacturer} ${this.product_name}`;
+  }
+
+  /**
+   * Create a user's copy and count the usage in one transaction
+   */
+  public async recordCopy<T>(create: (transaction: Transaction) => Promise<T>): Promise<T> {
+    return sequelize.transaction(async (transaction) => {
+      const copy = await create(transaction);
+      await this.increment('usage_count', { transaction });
+      return copy;
+    });
+  }
+}
+
+CommunityAmmo.init(
+  {
+    id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    submitted_by: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    manufacturer: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    product_name: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    caliber: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    bullet_weight: {
+      type: DataTypes.DECIMAL(6, 2),
+      allowNull: false,
+      validate: {
+        min: 0.01,
+        max: 1000,
+      },
+      comment: 'Grains',
+    },
+    bullet_type: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    ballistic_coefficient_g1: {
+      type: DataTypes.DECIMAL(6, 4),
+      allowNull: true,
+      validate: {
+        min: 0,
+        max: 1,
+      },
+    },
+    ballistic_coefficient_g7: {
+      type: DataTypes.DECIMAL(6, 4),
+      allowNull: true,
+      validate: {
+        min: 0,
+        max: 1,
+      },
+    },
+    advertised_velocity: {
+      type: DataTypes.DECIMAL(7, 2),
+      allowNull: true,
+      validate: {
+        min: 0.01,
+        max: 5000,
+      },
+      comment: 'Feet per second',
+    },
+    barrel_length: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+      comment: 'Inches (velocity reference)',
+    },
+    data_source: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    verification_status: {
+      type: DataTypes.ENUM('pending', 'verified', 'disputed', 'rejected'),
+      allowNull: false,
+      defaultValue: 'pending',
+    },
+    verified_by: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    verified_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    moderation_reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    merged_into_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: true,
+      references: {
+        model: 'community_ammo',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    vote_score: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    vote_count: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    usage_count: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    quality_score: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+      // Generated column in MySQL - calculated automatically
+      comment: 'Calculated quality score for ranking',
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'community_ammo',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      { fields: ['caliber'] },
+      { fields: ['manufacturer'] },
+      { fields: ['bullet_weight'] },
+      { fields: ['merged_into_id'] },
+      { fields: ['verification_status'] },
+      { fields: ['quality_score'] },
+    ],
+  },
+);
+
+// Define associations
+CommunityAmmo.belongsTo(User, {
+  foreignKey: 'submitted_by',
+  as: 'submitter',
+});
+
+CommunityAmmo.belongsTo(User, {
+  foreignKey: 'verified_by',
+  as: 'verifier',
+});
+
+CommunityAmmo.belongsTo(CommunityAmmo, {
+  foreignKey: 'merged_into_id',
+  as: 'canonical',
+});
+
+export default CommunityAmmo;
@@ -0,0 +1,122 @@
+import { DataTypes, Model, Optional, Association } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import CommunityAmmo from './CommunityAmmo';
+import { ModerationAction, VerificationStatus } from '../types/community';
+
+/**
+ * CommunityAmmoModeration Model
+ *
+ * One moderation decision on a community ammo entry. Rows are only ever
+ * added, giving the full review history of every entry.
+ */
+
+interface CommunityAmmoModerationAttributes {
+  id: number;
+  ammo_id: number;
+  moderator_id: number | null; // null once the moderator's account is deleted
+  action: ModerationAction;
+  from_status: VerificationStatus;
+  to_status: VerificationStatus;
+  reason?: string | null;
+  created_at?: Date;
+}
+
+interface CommunityAmmoModerationCreationAttributes extends Optional<
+  CommunityAmmoModerationAttributes,
+  'id' | 'reason' | 'created_at'
+> {}
+
+class CommunityAmmoModeration extends Model<CommunityAmmoModerationAttributes, CommunityAmmoModerationCreationAttributes> implements CommunityAmmoModerationAttributes {
+  public id!: number;
+  public ammo_id!: number;
+  public moderator_id!: number | null;
+  public action!: ModerationAction;
+  public from_status!: VerificationStatus;
+  public to_status!: VerificationStatus;
+  public reason?: string | null;
+  public readonly created_at!: Date;
+
+  // Associations
+  public readonly ammo?: CommunityAmmo;
+  public readonly moderator?: User;
+
+  public static associations: {
+    ammo: Association<CommunityAmmoModeration, CommunityAmmo>;
+    moderator: Association<CommunityAmmoModeration, User>;
+  };
+}
+
+CommunityAmmoModeration.init(
+  {
+    id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    ammo_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'community_ammo',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    moderator_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
+    action: {
+      type: DataTypes.ENUM('verify', 'reject', 'dispute', 'merge'),
+      allowNull: false,
+    },
+    from_status: {
+      type: DataTypes.ENUM('pending', 'verified', 'disputed', 'rejected'),
+      allowNull: false,
+    },
+    to_status: {
+      type: DataTypes.ENUM('pending', 'verified', 'disputed', 'rejected'),
+      allowNull: false,
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'community_ammo_moderation',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      { fields: ['ammo_id', 'created_at'] },
+      { fields: ['moderator_id'] },
+      { fields: ['created_at'] },
+    ],
+  },
+);
+
+// Define associations
+CommunityAmmoModeration.belongsTo(CommunityAmmo, {
+  foreignKey: 'ammo_id',
+  as: 'ammo',
+});
+
+CommunityAmmoModeration.belongsTo(User, {
+  foreignKey: 'moderator_id',
+  as: 'moderator',
+});
+
+export default CommunityAmmoModeration;
@@ -0,0 +1,119 @@
+import { DataTypes, Model, Optional, Association } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import CommunityAmmo from './CommunityAmmo';
+import { VoteType } from '../types/community';
+
+/**
+ * CommunityAmmoVote Model
+ *
+ * One user's up or down vote on a community ammo entry. The entry's
+ * vote_score and vote_count are kept in step with these rows; votes
+ * flagged as part of a vote ring are kept for review but not counted.
+ */
+
+interface CommunityAmmoVoteAttributes {
+  id: number;
+  ammo_id: number;
+  user_id: number;
+  vote_type: VoteType;
+  is_flagged: boolean;
+  flag_reason?: string | null;
+  created_at?: Date;
+}
+
+interface CommunityAmmoVoteCreationAttributes extends Optional<
+  CommunityAmmoVoteAttributes,
+  'id' | 'is_flagged' | 'flag_reason' | 'created_at'
+> {}
+
+class CommunityAmmoVote extends Model<CommunityAmmoVoteAttributes, CommunityAmmoVoteCreationAttributes> implements CommunityAmmoVoteAttributes {
+  public id!: number;
+  public ammo_id!: number;
+  public user_id!: number;
+  public vote_type!: VoteType;
+  public is_flagged!: boolean;
+  public flag_reason?: string | null;
+  public readonly created_at!: Date;
+
+  // Associations
+  public readonly ammo?: CommunityAmmo;
+  public readonly voter?: User;
+
+  public static associations: {
+    ammo: Association<CommunityAmmoVote, CommunityAmmo>;
+    voter: Association<CommunityAmmoVote, User>;
+  };
+}
+
+CommunityAmmoVote.init(
+  {
+    id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    ammo_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'community_ammo',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    user_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    vote_type: {
+      type: DataTypes.ENUM('up', 'down'),
+      allowNull: false,
+    },
+    is_flagged: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+      comment: 'Suspected vote ring, excluded from counters',
+    },
+    flag_reason: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'community_ammo_votes',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      { unique: true, fields: ['ammo_id', 'user_id'] },
+      { fields: ['ammo_id'] },
+      { fields: ['user_id'] },
+    ],
+  },
+);
+
+// Define associations
+CommunityAmmoVote.belongsTo(CommunityAmmo, {
+  foreignKey: 'ammo_id',
+  as: 'ammo',
+});
+
+CommunityAmmoVote.belongsTo(User, {
+  foreignKey: 'user_id',
+  as: 'voter',
+});
+
+export default CommunityAmmoVote;
@@ -0,0 +1,244 @@
+import { DataTypes, Model, Optional, Association, Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import AmmoProfile from './AmmoProfile';
+import {
+  DragModel,
+  DragPoint,
+  VelocityBand,
+  validateDragCurve,
+  validateVelocityBands,
+} from '../utils/dragTables';
+import { round } from '../utils/units';
+
+/**
+ * CustomDragModel Model
+ *
+ * Custom drag data attached to an ammo profile: either a measured
+ * Mach vs Cd curve (Doppler radar / CDM) or velocity-banded BCs for a
+ * standard drag model. The active model is used for trajectory predictions.
+ */
+
+interface CustomDragModelAttributes {
+  id: number;
+  user_id: number;
+  ammo_id: number;
+  name: string;
+  type: 'curve' | 'banded';
+  reference_diameter?: number | null; // inches, curve only
+  drag_model?: DragModel | null; // reference model, banded only
+  points?: DragPoint[] | null; // curve only
+  bc_bands?: VelocityBand[] | null; // banded only
+  source?: string;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface CustomDragModelCreationAttributes extends Optional<
+  CustomDragModelAttributes,
+  'id' | 'is_active' | 'created_at' | 'updated_at'
+> {}
+
+class CustomDragModel extends Model<CustomDragModelAttributes, CustomDragModelCreationAttributes> implements CustomDragModelAttributes {
+  public id!: number;
+  public user_id!: number;
+  public ammo_id!: number;
+  public name!: string;
+  public type!: 'curve' | 'banded';
+  public reference_diameter?: number | null;
+  public drag_model?: DragModel | null;
+  public points?: DragPoint[] | null;
+  public bc_bands?: VelocityBand[] | null;
+  public source?: string;
+  public is_active!: boolean;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Associations
+  public readonly user?: User;
+  public readonly ammo?: AmmoProfile;
+
+  public static associations: {
+    user: Association<CustomDragModel, User>;
+    ammo: Association<CustomDragModel, AmmoProfile>;
+  };
+
+  /**
+   * Drag curve points sorted by Mach
+   */
+  public getCurve(): DragPoint[] {
+    return (this.points || [])
+      .map((point) => ({ mach: Number(point.mach), cd: Number(point.cd) }))
+      .sort((a, b) => a.mach - b.mach);
+  }
+
+  /**
+   * Velocity bands sorted fastest first
+   */
+  public getBands(): VelocityBand[] {
+    return (this.bc_bands || [])
+      .map((band) => ({ min_velocity: Number(band.min_velocity), bc: Number(band.bc) }))
+      .sort((a, b) => b.min_velocity - a.min_velocity);
+  }
+
+  /**
+   * Copy this model onto another ammo profile, with the drag scaled so
+   * the copy flies as if its ballistic coefficient were `bcScale` times
+   * this one's (a curve's Cd shrinks as the BC grows)
+   */
+  public async copyTo(
+    ammoId: number,
+    bcScale: number,
+    transaction?: Transaction,
+  ): Promise<CustomDragModel> {
+    return CustomDragModel.create(
+      {
+        user_id: this.user_id,
+        ammo_id: ammoId,
+        name: this.name,
+        type: this.type,
+        reference_diameter: this.reference_diameter,
+        drag_model: this.drag_model,
+        points: this.points
+          ? this.getCurve().map((point) => ({ ...point, cd: round(point.cd / bcScale, 4) }))
+          : null,
+        bc_bands: this.bc_bands
+          ? this.getBands().map((band) => ({ ...band, bc: round(band.bc * bcScale, 4) }))
+          : null,
+        source: this.source,
+        is_active: this.is_active,
+      },
+      { transaction },
+    );
+  }
+}
+
+CustomDragModel.init(
+  {
+    id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    user_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    ammo_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'ammo_profiles',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    type: {
+      type: DataTypes.ENUM('curve', 'banded'),
+      allowNull: false,
+    },
+    reference_diameter: {
+      type: DataTypes.DECIMAL(5, 4),
+      allowNull: true,
+      validate: {
+        min: 0.1,
+        max: 1,
+      },
+      comment: 'Inches, used to compute sectional density for curves',
+    },
+    drag_model: {
+      type: DataTypes.ENUM('G1', 'G7'),
+      allowNull: true,
+      comment: 'Reference drag model for banded BCs',
+    },
+    points: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: 'Mach vs Cd pairs',
+    },
+    bc_bands: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: 'Minimum velocity (fps) and BC pairs',
+    },
+    source: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'custom_drag_models',
+    timestamps: true,
+    underscored: true,
+    indexes: [{ fields: ['user_id'] }, { fields: ['ammo_id', 'is_active'] }],
+    validate: {
+      matchesType(this: CustomDragModel) {
+        if (this.type === 'curve') {
+          if (!this.reference_diameter) {
+            throw new Error('reference_diameter is required for a drag curve');
+          }
+          // Validate in submitted order so unsorted Mach values are rejected
+          const error = validateDragCurve(
+            (this.points || []).map((point) => ({
+              mach: Number(point.mach),
+              cd: Number(point.cd),
+            })),
+          );
+          if (error) {
+            throw new Error(error);
+          }
+        } else {
+          if (!this.drag_model) {
+            throw new Error('drag_model is required for velocity-banded BCs');
+          }
+          const error = validateVelocityBands(this.getBands());
+          if (error) {
+            throw new Error(error);
+          }
+        }
+      },
+    },
+  },
+);
+
+// Define associations
+CustomDragModel.belongsTo(User, {
+  foreignKey: 'user_id',
+  as: 'user',
+});
+
+CustomDragModel.belongsTo(AmmoProfile, {
+  foreignKey: 'ammo_id',
+  as: 'ammo',
+});
+
+export default CustomDragModel;
@@ -4,6 +4,8 @@ import User from './User';
 import RifleProfile from './RifleProfile';
 import AmmoProfile from './AmmoProfile';
 import EnvironmentSnapshot from './EnvironmentSnapshot';
+import RangeSession from './RangeSession';
+import { rowVersioning } from '../utils/rowVersion';
 
 /**
  * DOPELog Model
@@ -18,22 +20,30 @@ interface DOPELogAttributes {
   rifle_id: number;
   ammo_id: number;
   environment_id: number;
+  range_session_id?: number | null;
   distance: number;
   distance_unit: 'yards' | 'meters';
   distance_yards: number; // Generated column
   elevation_correction: number; // MIL or MOA
   windage_correction: number; // MIL or MOA
   correction_unit: 'MIL' | 'MOA';
+  incline_angle?: number | null; // degrees, positive = uphill
+  cant_angle?: number | null; // degrees, positive = canted clockwise (right)
+  shot_azimuth?: number | null; // degrees true bearing of the shot
   target_type: 'steel' | 'paper' | 'vital_zone' | 'other';
-  group_size?: number; // inches
+  group_size?: number | null; // inches
   hit_count?: number;
   shot_count?: number;
   hit_percentage?: number; // Generated column
   notes?: string;
   timestamp?: Date;
+  row_version: number; // bumped on every update
 }
 
-interface DOPELogCreationAttributes extends Optional<DOPELogAttributes, 'id' | 'distance_yards' | 'hit_percentage' | 'timestamp'> {}
+interface DOPELogCreationAttributes extends Optional<
+  DOPELogAttributes,
+  'id' | 'distance_yards' | 'hit_percentage' | 'timestamp' | 'row_version'
+> {}
 
 class DOPELog extends Model<DOPELogAttributes, DOPELogCreationAttributes> implements DOPELogAttributes {
   public id!: number;
@@ -41,31 +51,38 @@ class DOPELog extends Model<DOPELogAttributes, DOPELogCreationAttributes> implem
   public rifle_id!: number;
   public ammo_id!: number;
   public environment_id!: number;
+  public range_session_id?: number | null;
   public distance!: number;
   public distance_unit!: 'yards' | 'meters';
   public distance_yards!: number;
   public elevation_correction!: number;
   public windage_correction!: number;
   public correction_unit!: 'MIL' | 'MOA';
+  public incline_angle?: number | null;
+  public cant_angle?: number | null;
+  public shot_azimuth?: number | null;
   public target_type!: 'steel' | 'paper' | 'vital_zone' | 'other';
-  public group_size?: number;
+  public group_size?: number | null;
   public hit_count?: number;
   public shot_count?: number;
   public hit_percentage?: number;
   public notes?: string;
   public readonly timestamp!: Date;
+  public row_version!: number;
 
   // Associations
   public readonly user?: User;
   public readonly rifle?: RifleProfile;
   public readonly ammo?: AmmoProfile;
   public readonly environment?: EnvironmentSnapshot;
+  public readonly range_session?: RangeSession;
 
   public static associations: {
     user: Association<DOPELog, User>;
     rifle: Association<DOPELog, RifleProfile>;
     ammo: Association<DOPELog, AmmoProfile>;
     environment: Association<DOPELog, EnvironmentSnapshot>;
+    range_session: Association<DOPELog, RangeSession>;
   };
 
   /**
@@ -154,6 +171,15 @@ DOPELog.init(
       },
       onDelete: 'RESTRICT',
     },
+    range_session_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: true,
+      references: {
+        model: 'range_sessions',
+        key: 'id',
+      },
+      onDelete: 'SET NULL',
+    },
     distance: {
       type: DataTypes.DECIMAL(7, 2),
       allowNull: false,
@@ -186,6 +212,33 @@ DOPELog.init(
       type: DataTypes.ENUM('MIL', 'MOA'),
       allowNull: false,
     },
+    incline_angle: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+      validate: {
+        min: -90,
+        max: 90,
+      },
+      comment: 'Degrees, positive = uphill',
+    },
+    cant_angle: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+      validate: {
+        min: -90,
+        max: 90,
+      },
+      comment: 'Degrees, positive = canted clockwise',
+    },
+    shot_azimuth: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: true,
+      validate: {
+        min: 0,
+        max: 359.99,
+      },
+      comment: 'Degrees true bearing',
+    },
     target_type: {
       type: DataTypes.ENUM('steel', 'paper', 'vital_zone', 'other'),
       allowNull: false,
@@ -227,12 +280,19 @@ DOPELog.init(
       allowNull: false,
       defaultValue: DataTypes.NOW,
     },
+    row_version: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Optimistic locking and sync conflict detection',
+    },
   },
   {
     sequelize,
     tableName: 'dope_logs',
     timestamps: false, // Uses custom timestamp field
     underscored: true,
+    ...rowVersioning,
     indexes: [
       { fields: ['user_id'] },
       { fields: ['rifle_id'] },
@@ -241,12 +301,13 @@ DOPELog.init(
       { fields: ['distance'] },
       { fields: ['distance_yards'] },
       { fields: ['rifle_id', 'distance_yards'] },
+      { fields: ['range_session_id'] },
     ],
     validate: {
       hitCountValid() {
         if (
-          this.hit_count !== null &&
-          this.shot_count !== null &&
+          typeof this.hit_count === 'number' &&
+          typeof this.shot_count === 'number' &&
           this.hit_count > this.shot_count
         ) {
           throw new Error('Hit count cannot exceed shot count');
@@ -285,4 +346,9 @@ DOPELog.belongsTo(EnvironmentSnapshot, {
   as: 'environment',
 });
 
+DOPELog.belongsTo(RangeSession, {
+  foreignKey: 'range_session_id',
+  as: 'range_session',
+});
+
 export default DOPELog;
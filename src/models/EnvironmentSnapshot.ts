@@ -1,6 +1,8 @@
 import { DataTypes, Model, Optional, Association } from 'sequelize';
 import sequelize from '../config/database';
 import User from './User';
+import { calculateAtmosphere, PressureType } from '../utils/atmosphere';
+import { rowVersioning } from '../utils/rowVersion';
 
 /**
  * EnvironmentSnapshot Model
@@ -15,6 +17,7 @@ interface EnvironmentSnapshotAttributes {
   temperature: number; // Fahrenheit
   humidity: number; // percentage 0-100
   pressure: number; // inches of mercury (inHg)
+  pressure_type: PressureType;
   altitude: number; // feet
   density_altitude: number; // feet (calculated)
   wind_speed: number; // miles per hour
@@ -22,9 +25,13 @@ interface EnvironmentSnapshotAttributes {
   latitude?: number;
   longitude?: number;
   timestamp?: Date;
+  row_version: number; // bumped on every update
 }
 
-interface EnvironmentSnapshotCreationAttributes extends Optional<EnvironmentSnapshotAttributes, 'id' | 'timestamp'> {}
+interface EnvironmentSnapshotCreationAttributes extends Optional<
+  EnvironmentSnapshotAttributes,
+  'id' | 'pressure_type' | 'timestamp' | 'row_version'
+> {}
 
 class EnvironmentSnapshot extends Model<EnvironmentSnapshotAttributes, EnvironmentSnapshotCreationAttributes> implements EnvironmentSnapshotAttributes {
   public id!: number;
@@ -32,6 +39,7 @@ class EnvironmentSnapshot extends Model<EnvironmentSnapshotAttributes, Environme
   public temperature!: number;
   public humidity!: number;
   public pressure!: number;
+  public pressure_type!: PressureType;
   public altitude!: number;
   public density_altitude!: number;
   public wind_speed!: number;
@@ -39,6 +47,7 @@ class EnvironmentSnapshot extends Model<EnvironmentSnapshotAttributes, Environme
   public latitude?: number;
   public longitude?: number;
   public readonly timestamp!: Date;
+  public row_version!: number;
 
   // Associations
   public readonly user?: User;
@@ -48,21 +57,24 @@ class EnvironmentSnapshot extends Model<EnvironmentSnapshotAttributes, Environme
   };
 
   /**
-   * Calculate density altitude from environmental conditions
-   * Formula: DA = PA + (120 * (OAT - ISA))
-   * Where: PA = Pressure Altitude, OAT = Outside Air Temp, ISA = Standard Temp
+   * Calculate density altitude from environmental conditions using the
+   * ICAO standard atmosphere and moist air density
    */
   public static calculateDensityAltitude(
     temperature: number,
     pressure: number,
-    altitude: number
+    altitude: number,
+    humidity: number = 0,
+    pressureType: PressureType = 'barometric',
   ): number {
-    const standardPressure = 29.92; // inHg at sea level
-    const pressureAltitude = altitude + 1000 * (standardPressure - pressure);
-    const standardTemp = 59 - 0.00356 * altitude; // ISA temp at altitude
-    const tempDifference = temperature - standardTemp;
-    const densityAltitude = pressureAltitude + 120 * tempDifference;
-    return Math.round(densityAltitude);
+    const atmosphere = calculateAtmosphere({
+      temperature: Number(temperature),
+      pressure: Number(pressure),
+      humidity: Number(humidity),
+      altitude: Number(altitude),
+      pressureType,
+    });
+    return Math.round(atmosphere.density_altitude);
   }
 
   /**
@@ -71,7 +83,7 @@ class EnvironmentSnapshot extends Model<EnvironmentSnapshotAttributes, Environme
   public getWindBearing(): string {
     const bearings = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
     const index = Math.round(this.wind_direction / 22.5) % 16;
-    return bearings[index];
+    return bearings[index] ?? 'N';
   }
 
   /**
@@ -125,6 +137,12 @@ EnvironmentSnapshot.init(
       },
       comment: 'Inches of mercury (inHg)',
     },
+    pressure_type: {
+      type: DataTypes.ENUM('station', 'barometric'),
+      allowNull: false,
+      defaultValue: 'barometric',
+      comment: 'Station pressure or altimeter-corrected barometric pressure',
+    },
     altitude: {
       type: DataTypes.DECIMAL(7, 2),
       allowNull: false,
@@ -178,24 +196,41 @@ EnvironmentSnapshot.init(
       allowNull: false,
       defaultValue: DataTypes.NOW,
     },
+    row_version: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Optimistic locking and sync conflict detection',
+    },
   },
   {
     sequelize,
     tableName: 'environment_snapshots',
     timestamps: false, // Uses custom timestamp field
     underscored: true,
+    ...rowVersioning,
     indexes: [
       { fields: ['user_id'] },
       { fields: ['timestamp'] },
     ],
     hooks: {
       beforeValidate: (snapshot: EnvironmentSnapshot) => {
-        // Auto-calculate density altitude if not provided
-        if (!snapshot.density_altitude) {
+        // Auto-calculate density altitude if not provided, and recalculate
+        // it when the conditions it depends on change
+        const conditionsChanged =
+          !snapshot.isNewRecord &&
+          !snapshot.changed('density_altitude') &&
+          ['temperature', 'pressure', 'pressure_type', 'humidity', 'altitude'].some((field) =>
+            snapshot.changed(field as keyof EnvironmentSnapshotAttributes),
+          );
+
+        if (!snapshot.density_altitude || conditionsChanged) {
           snapshot.density_altitude = EnvironmentSnapshot.calculateDensityAltitude(
             snapshot.temperature,
             snapshot.pressure,
-            snapshot.altitude
+            snapshot.altitude,
+            snapshot.humidity,
+            snapshot.pressure_type,
           );
         }
       },
@@ -0,0 +1,202 @@
+import { DataTypes, Model, Optional, Association } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import RifleProfile from './RifleProfile';
+import AmmoProfile from './AmmoProfile';
+import EnvironmentSnapshot from './EnvironmentSnapshot';
+
+/**
+ * RangeSession Model
+ *
+ * A day at the range with one rifle/ammo pair. Sessions are started and
+ * stopped; DOPE logs recorded in between link to the session.
+ */
+
+interface RangeSessionAttributes {
+  id: number;
+  user_id: number;
+  rifle_id: number;
+  ammo_id: number;
+  environment_id: number; // conditions at the start of the session
+  session_name?: string | null;
+  start_time: Date;
+  end_time?: Date | null; // null while the session is active
+  distance: number; // yards
+  shot_count: number; // rounds fired
+  cold_bore_shot: boolean;
+  notes?: string | null;
+  created_at?: Date;
+}
+
+interface RangeSessionCreationAttributes extends Optional<
+  RangeSessionAttributes,
+  'id' | 'start_time' | 'shot_count' | 'cold_bore_shot' | 'created_at'
+> {}
+
+class RangeSession extends Model<RangeSessionAttributes, RangeSessionCreationAttributes> implements RangeSessionAttributes {
+  public id!: number;
+  public user_id!: number;
+  public rifle_id!: number;
+  public ammo_id!: number;
+  public environment_id!: number;
+  public session_name?: string | null;
+  public start_time!: Date;
+  public end_time?: Date | null;
+  public distance!: number;
+  public shot_count!: number;
+  public cold_bore_shot!: boolean;
+  public notes?: string | null;
+  public readonly created_at!: Date;
+
+  // Associations
+  public readonly user?: User;
+  public readonly rifle?: RifleProfile;
+  public readonly ammo?: AmmoProfile;
+  public readonly environment?: EnvironmentSnapshot;
+
+  public static associations: {
+    user: Association<RangeSession, User>;
+    rifle: Association<RangeSession, RifleProfile>;
+    ammo: Association<RangeSession, AmmoProfile>;
+    environment: Association<RangeSession, EnvironmentSnapshot>;
+  };
+
+  /**
+   * Whether the session has not been stopped
+   */
+  public isActive(): boolean {
+    return this.end_time === null || this.end_time === undefined;
+  }
+
+  /**
+   * Session length in minutes, up to now for an active session
+   */
+  public getDurationMinutes(now: Date = new Date()): number {
+    const end = this.end_time ? new Date(this.end_time) : now;
+    return Math.max(0, Math.round((end.getTime() - new Date(this.start_time).getTime()) / 60000));
+  }
+}
+
+RangeSession.init(
+  {
+    id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    user_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    rifle_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'rifle_profiles',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    ammo_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'ammo_profiles',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    environment_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'environment_snapshots',
+        key: 'id',
+      },
+      onDelete: 'RESTRICT',
+    },
+    session_name: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    start_time: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    end_time: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    distance: {
+      type: DataTypes.DECIMAL(7, 2),
+      allowNull: false,
+      validate: {
+        min: 0.01,
+      },
+      comment: 'Yards',
+    },
+    shot_count: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    cold_bore_shot: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'range_sessions',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [{ fields: ['user_id'] }, { fields: ['rifle_id'] }, { fields: ['start_time'] }],
+    validate: {
+      endAfterStart() {
+        if (this.end_time && new Date(this.end_time as Date) < new Date(this.start_time as Date)) {
+          throw new Error('End time cannot be before start time');
+        }
+      },
+    },
+  },
+);
+
+// Define associations
+RangeSession.belongsTo(User, {
+  foreignKey: 'user_id',
+  as: 'user',
+});
+
+RangeSession.belongsTo(RifleProfile, {
+  foreignKey: 'rifle_id',
+  as: 'rifle',
+});
+
+RangeSession.belongsTo(AmmoProfile, {
+  foreignKey: 'ammo_id',
+  as: 'ammo',
+});
+
+RangeSession.belongsTo(EnvironmentSnapshot, {
+  foreignKey: 'environment_id',
+  as: 'environment',
+});
+
+export default RangeSession;
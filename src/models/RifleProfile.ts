@@ -1,6 +1,8 @@
 import { DataTypes, Model, Optional, Association } from 'sequelize';
 import sequelize from '../config/database';
 import User from './User';
+import { TwistDirection } from '../types/ballistics';
+import { rowVersioning } from '../utils/rowVersion';
 
 /**
  * RifleProfile Model
@@ -16,6 +18,7 @@ interface RifleProfileAttributes {
   caliber: string;
   barrel_length: number; // inches
   twist_rate: string; // format: "1:8", "1:10"
+  twist_direction: TwistDirection;
   zero_distance: number; // yards
   optic_manufacturer: string;
   optic_model: string;
@@ -24,11 +27,15 @@ interface RifleProfileAttributes {
   click_value: number; // value per click
   scope_height: number; // inches over bore
   notes?: string;
+  row_version: number; // bumped on every update
   created_at?: Date;
   updated_at?: Date;
 }
 
-interface RifleProfileCreationAttributes extends Optional<RifleProfileAttributes, 'id' | 'created_at' | 'updated_at'> {}
+interface RifleProfileCreationAttributes extends Optional<
+  RifleProfileAttributes,
+  'id' | 'twist_direction' | 'row_version' | 'created_at' | 'updated_at'
+> {}
 
 class RifleProfile extends Model<RifleProfileAttributes, RifleProfileCreationAttributes> implements RifleProfileAttributes {
   public id!: number;
@@ -37,6 +44,7 @@ class RifleProfile extends Model<RifleProfileAttributes, RifleProfileCreationAtt
   public caliber!: string;
   public barrel_length!: number;
   public twist_rate!: string;
+  public twist_direction!: TwistDirection;
   public zero_distance!: number;
   public optic_manufacturer!: string;
   public optic_model!: string;
@@ -45,6 +53,7 @@ class RifleProfile extends Model<RifleProfileAttributes, RifleProfileCreationAtt
   public click_value!: number;
   public scope_height!: number;
   public notes?: string;
+  public row_version!: number;
   public readonly created_at!: Date;
   public readonly updated_at!: Date;
 
@@ -62,6 +71,17 @@ class RifleProfile extends Model<RifleProfileAttributes, RifleProfileCreationAtt
     return /^1:\d+$/.test(twistRate);
   }
 
+  /**
+   * Parse twist rate ("1:10") into inches per turn
+   */
+  public static parseTwistRate(twistRate: string): number | null {
+    if (!RifleProfile.isValidTwistRate(twistRate)) {
+      return null;
+    }
+    const inches = Number(twistRate.split(':')[1]);
+    return inches > 0 ? inches : null;
+  }
+
   /**
    * Get rifle summary
    */
@@ -117,6 +137,12 @@ RifleProfile.init(
       },
       comment: 'Format: 1:8, 1:10, etc.',
     },
+    twist_direction: {
+      type: DataTypes.ENUM('right', 'left'),
+      allowNull: false,
+      defaultValue: 'right',
+      comment: 'Rifling direction',
+    },
     zero_distance: {
       type: DataTypes.DECIMAL(6, 2),
       allowNull: false,
@@ -173,6 +199,12 @@ RifleProfile.init(
       type: DataTypes.TEXT,
       allowNull: true,
     },
+    row_version: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      defaultValue: 0,
+      comment: 'Optimistic locking and sync conflict detection',
+    },
     created_at: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -189,6 +221,7 @@ RifleProfile.init(
     tableName: 'rifle_profiles',
     timestamps: true,
     underscored: true,
+    ...rowVersioning,
     indexes: [
       { fields: ['user_id'] },
       { fields: ['caliber'] },
@@ -0,0 +1,136 @@
+import { DataTypes, Model, Optional, Association } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import AmmoProfile from './AmmoProfile';
+
+/**
+ * ShotString Model
+ *
+ * Individual chronograph readings for an ammo profile, grouped into
+ * sessions by date.
+ */
+
+interface ShotStringAttributes {
+  id: number;
+  user_id: number;
+  ammo_id: number;
+  session_date: string; // YYYY-MM-DD
+  shot_number: number;
+  velocity: number; // feet per second
+  temperature: number; // Fahrenheit
+  notes?: string | null;
+  created_at?: Date;
+}
+
+interface ShotStringCreationAttributes extends Optional<
+  ShotStringAttributes,
+  'id' | 'created_at'
+> {}
+
+class ShotString extends Model<ShotStringAttributes, ShotStringCreationAttributes> implements ShotStringAttributes {
+  public id!: number;
+  public user_id!: number;
+  public ammo_id!: number;
+  public session_date!: string;
+  public shot_number!: number;
+  public velocity!: number;
+  public temperature!: number;
+  public notes?: string | null;
+  public readonly created_at!: Date;
+
+  // Associations
+  public readonly user?: User;
+  public readonly ammo?: AmmoProfile;
+
+  public static associations: {
+    user: Association<ShotString, User>;
+    ammo: Association<ShotString, AmmoProfile>;
+  };
+}
+
+ShotString.init(
+  {
+    id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    user_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    ammo_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'ammo_profiles',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    session_date: {
+      type: DataTypes.DATEONLY,
+      allowNull: false,
+    },
+    shot_number: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+      validate: {
+        min: 1,
+      },
+    },
+    velocity: {
+      type: DataTypes.DECIMAL(7, 2),
+      allowNull: false,
+      validate: {
+        min: 0.01,
+        max: 5000,
+      },
+      comment: 'Feet per second',
+    },
+    temperature: {
+      type: DataTypes.DECIMAL(5, 2),
+      allowNull: false,
+      validate: {
+        min: -50,
+        max: 150,
+      },
+      comment: 'Fahrenheit',
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'shot_strings',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [{ fields: ['user_id'] }, { fields: ['ammo_id'] }, { fields: ['session_date'] }],
+  },
+);
+
+// Define associations
+ShotString.belongsTo(User, {
+  foreignKey: 'user_id',
+  as: 'user',
+});
+
+ShotString.belongsTo(AmmoProfile, {
+  foreignKey: 'ammo_id',
+  as: 'ammo',
+});
+
+export default ShotString;
@@ -0,0 +1,174 @@
+import { DataTypes, Model, Optional, Association } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import { ConflictResolution, ConflictStrategy, SyncData, SyncEntityType } from '../types/sync';
+
+/**
+ * SyncConflict Model
+ *
+ * A device change that overlapped edits made elsewhere since the version
+ * the device last saw. Conflicts resolved by the user's strategy are kept
+ * as history; manual ones stay pending until the user settles them.
+ */
+
+export type SyncConflictStatus = 'pending' | 'resolved';
+
+interface SyncConflictAttributes {
+  id: number;
+  user_id: number;
+  entity_type: SyncEntityType;
+  entity_id: number;
+  operation: 'update' | 'delete';
+  device_id?: string | null;
+  base_version: number;
+  server_version: number;
+  conflicting_fields: string[];
+  client_data: SyncData; // client values of the conflicting fields
+  server_data: SyncData; // server values of the conflicting fields
+  client_timestamp: Date;
+  strategy: ConflictStrategy;
+  status: SyncConflictStatus;
+  resolution?: ConflictResolution | null;
+  resolved_data?: SyncData | null; // values the resolution wrote
+  resolved_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+interface SyncConflictCreationAttributes extends Optional<
+  SyncConflictAttributes,
+  'id' | 'device_id' | 'resolution' | 'resolved_data' | 'resolved_at' | 'created_at' | 'updated_at'
+> {}
+
+class SyncConflict extends Model<SyncConflictAttributes, SyncConflictCreationAttributes> implements SyncConflictAttributes {
+  public id!: number;
+  public user_id!: number;
+  public entity_type!: SyncEntityType;
+  public entity_id!: number;
+  public operation!: 'update' | 'delete';
+  public device_id?: string | null;
+  public base_version!: number;
+  public server_version!: number;
+  public conflicting_fields!: string[];
+  public client_data!: SyncData;
+  public server_data!: SyncData;
+  public client_timestamp!: Date;
+  public strategy!: ConflictStrategy;
+  public status!: SyncConflictStatus;
+  public resolution?: ConflictResolution | null;
+  public resolved_data?: SyncData | null;
+  public resolved_at?: Date | null;
+  public readonly created_at!: Date;
+  public readonly updated_at!: Date;
+
+  // Associations
+  public readonly user?: User;
+
+  public static associations: {
+    user: Association<SyncConflict, User>;
+  };
+}
+
+SyncConflict.init(
+  {
+    id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    user_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    entity_type: {
+      type: DataTypes.ENUM('rifle', 'ammo', 'dope_log', 'environment'),
+      allowNull: false,
+    },
+    entity_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+    },
+    operation: {
+      type: DataTypes.ENUM('update', 'delete'),
+      allowNull: false,
+    },
+    device_id: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    base_version: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+    },
+    server_version: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: false,
+    },
+    conflicting_fields: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    client_data: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    server_data: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    client_timestamp: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    strategy: {
+      type: DataTypes.ENUM('server_wins', 'client_wins', 'merge', 'manual'),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('pending', 'resolved'),
+      allowNull: false,
+    },
+    resolution: {
+      type: DataTypes.ENUM('server', 'client', 'merge'),
+      allowNull: true,
+    },
+    resolved_data: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    resolved_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'sync_conflicts',
+    timestamps: true,
+    underscored: true,
+    indexes: [{ fields: ['user_id', 'status'] }, { fields: ['entity_type', 'entity_id'] }],
+  },
+);
+
+// Define associations
+SyncConflict.belongsTo(User, {
+  foreignKey: 'user_id',
+  as: 'user',
+});
+
+export default SyncConflict;
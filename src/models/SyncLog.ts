@@ -0,0 +1,334 @@
+import { DataTypes, Model, Optional, Association, ModelStatic, Transaction, Op } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import { ServerEdit, SyncEntityType, SyncOperation } from '../types/sync';
+
+/**
+ * SyncLog Model
+ *
+ * One create, update or delete of a synced entity, whether it came from
+ * the REST API or a device sync. Devices pull the log from their last
+ * cursor (a log id) to catch up on changes made elsewhere.
+ */
+
+interface SyncLogAttributes {
+  id: number;
+  user_id: number;
+  entity_type: SyncEntityType | 'range_session' | 'shot_string' | 'target_image' | 'settings';
+  entity_id: number;
+  operation: SyncOperation;
+  client_timestamp: Date;
+  server_timestamp?: Date;
+  device_id?: string | null;
+  entity_version?: number | null; // row_version after the change
+  changed_fields?: string[] | null; // fields an update changed; null when unknown
+}
+
+interface SyncLogCreationAttributes extends Optional<
+  SyncLogAttributes,
+  'id' | 'server_timestamp' | 'device_id' | 'entity_version' | 'changed_fields'
+> {}
+
+/**
+ * Device and client time of the changes made in a sync transaction
+ */
+export interface SyncContext {
+  device_id: string | null;
+  client_timestamp: Date;
+  log_ids: number[]; // filled with the ids of the logs written
+}
+
+/**
+ * Rows the database changes through a foreign key when a row is deleted
+ * (ON DELETE CASCADE or SET NULL). Rows of models without an entity type
+ * aren't synced; only the rows their own cascades change are logged.
+ */
+export interface SyncCascade {
+  model: ModelStatic<TrackedRow>;
+  entity_type?: SyncEntityType;
+  foreign_key: string;
+  operation: 'delete' | 'update';
+  cascades?: SyncCascade[];
+}
+
+type TrackedRow = Model & { id: number; user_id: number; row_version?: number };
+
+// Bookkeeping columns left out of changed_fields
+const UNTRACKED_FIELDS = ['row_version', 'updated_at'];
+
+const contexts = new WeakMap<Transaction, SyncContext>();
+
+class SyncLog extends Model<SyncLogAttributes, SyncLogCreationAttributes> implements SyncLogAttributes {
+  public id!: number;
+  public user_id!: number;
+  public entity_type!: SyncLogAttributes['entity_type'];
+  public entity_id!: number;
+  public operation!: SyncOperation;
+  public client_timestamp!: Date;
+  public readonly server_timestamp!: Date;
+  public device_id?: string | null;
+  public entity_version?: number | null;
+  public changed_fields?: string[] | null;
+
+  // Associations
+  public readonly user?: User;
+
+  public static associations: {
+    user: Association<SyncLog, User>;
+  };
+
+  /**
+   * Run changes in a transaction whose logs carry the device and client
+   * time of the context
+   */
+  public static async withContext<T>(
+    context: SyncContext,
+    fn: (transaction: Transaction) => Promise<T>,
+  ): Promise<T> {
+    return sequelize.transaction(async (transaction) => {
+      contexts.set(transaction, context);
+      return fn(transaction);
+    });
+  }
+
+  /**
+   * Run a change to synced rows in a transaction, so the change and its
+   * logs are written together or not at all
+   */
+  public static async logged<T>(fn: (transaction: Transaction) => Promise<T>): Promise<T> {
+    return sequelize.transaction(fn);
+  }
+
+  /**
+   * Log every create, update and destroy of a model's rows. Bulk
+   * updates and destroys are only logged with individualHooks.
+   */
+  public static track(
+    model: ModelStatic<TrackedRow>,
+    entityType: SyncEntityType,
+    cascades: SyncCascade[] = [],
+  ): void {
+    model.afterCreate(async (row, options) => {
+      await SyncLog.record(row.user_id, entityType, row.id, 'create', options.transaction, {
+        entity_version: row.row_version ?? null,
+      });
+    });
+
+    model.afterUpdate(async (row, options) => {
+      const changed = (row.changed() || []).filter((field) => !UNTRACKED_FIELDS.includes(field));
+      await SyncLog.record(row.user_id, entityType, row.id, 'update', options.transaction, {
+        entity_version: row.row_version ?? null,
+        changed_fields: changed,
+      });
+    });
+
+    SyncLog.trackCascades(model, cascades);
+
+    model.afterDestroy(async (row, options) => {
+      await SyncLog.record(row.user_id, entityType, row.id, 'delete', options.transaction, {
+        entity_version: row.row_version ?? null,
+      });
+    });
+  }
+
+  /**
+   * Log the synced rows foreign keys delete or clear along with a row of
+   * the model, which need not be synced itself
+   */
+  public static trackCascades(model: ModelStatic<TrackedRow>, cascades: SyncCascade[]): void {
+    if (cascades.length === 0) {
+      return;
+    }
+
+    model.beforeDestroy(async (row, options) => {
+      await SyncLog.recordCascades(cascades, [row.id], options.transaction);
+    });
+  }
+
+  /**
+   * Updates to an entity after a version, leaving out the device's own.
+   * Rows whose version moved without a logged update count as changed
+   * everywhere.
+   */
+  public static async editsSince(
+    entityType: SyncEntityType,
+    row: TrackedRow & { row_version: number },
+    baseVersion: number,
+    deviceId: string | null,
+    transaction?: Transaction,
+  ): Promise<ServerEdit[]> {
+    if (row.row_version <= baseVersion) {
+      return [];
+    }
+
+    const logs = await SyncLog.findAll({
+      where: {
+        entity_type: entityType,
+        entity_id: row.id,
+        operation: 'update',
+        entity_version: { [Op.gt]: baseVersion },
+      },
+      order: [['id', 'ASC']],
+      transaction,
+    });
+
+    const edits = logs
+      .filter((log) => !deviceId || log.device_id !== deviceId)
+      .map((log) => ({
+        fields: log.changed_fields ?? null,
+        client_timestamp: log.client_timestamp,
+      }));
+
+    // Every version bump should have its update logged
+    const unlogged = logs.length < row.row_version - baseVersion;
+
+    return unlogged ? [...edits, { fields: null, client_timestamp: new Date() }] : edits;
+  }
+
+  private static async recordCascades(
+    cascades: SyncCascade[],
+    parentIds: number[],
+    transaction?: Transaction | null,
+  ): Promise<void> {
+    for (const cascade of cascades) {
+      const children = await cascade.model.findAll({
+        where: { [cascade.foreign_key]: parentIds },
+        attributes: ['id', 'user_id'],
+        transaction,
+      });
+
+      if (children.length === 0) {
+        continue;
+      }
+
+      await SyncLog.recordCascades(
+        cascade.cascades || [],
+        children.map((child) => child.id),
+        transaction,
+      );
+
+      if (!cascade.entity_type) {
+        continue;
+      }
+
+      for (const child of children) {
+        await SyncLog.record(
+          child.user_id,
+          cascade.entity_type,
+          child.id,
+          cascade.operation,
+          transaction,
+          {
+            changed_fields: cascade.operation === 'update' ? [cascade.foreign_key] : null,
+          },
+        );
+      }
+    }
+  }
+
+  private static async record(
+    userId: number,
+    entityType: SyncEntityType,
+    entityId: number,
+    operation: SyncOperation,
+    transaction?: Transaction | null,
+    details: Pick<SyncLogAttributes, 'entity_version' | 'changed_fields'> = {},
+  ): Promise<void> {
+    const context = transaction ? contexts.get(transaction) : undefined;
+
+    const log = await SyncLog.create(
+      {
+        user_id: userId,
+        entity_type: entityType,
+        entity_id: entityId,
+        operation,
+        client_timestamp: context?.client_timestamp || new Date(),
+        device_id: context?.device_id || null,
+        ...details,
+      },
+      { transaction },
+    );
+
+    context?.log_ids.push(log.id);
+  }
+}
+
+SyncLog.init(
+  {
+    id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    user_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    entity_type: {
+      type: DataTypes.ENUM(
+        'rifle',
+        'ammo',
+        'dope_log',
+        'environment',
+        'range_session',
+        'shot_string',
+        'target_image',
+        'settings',
+      ),
+      allowNull: false,
+    },
+    entity_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+    },
+    operation: {
+      type: DataTypes.ENUM('create', 'update', 'delete'),
+      allowNull: false,
+    },
+    client_timestamp: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    server_timestamp: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    device_id: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    entity_version: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+    },
+    changed_fields: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'sync_logs',
+    timestamps: false,
+    underscored: true,
+    indexes: [
+      { fields: ['user_id'] },
+      { fields: ['entity_type', 'entity_id'] },
+      { fields: ['server_timestamp'] },
+    ],
+  },
+);
+
+// Define associations
+SyncLog.belongsTo(User, {
+  foreignKey: 'user_id',
+  as: 'user',
+});
+
+export default SyncLog;
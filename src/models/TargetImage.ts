@@ -0,0 +1,221 @@
+import { DataTypes, Model, Optional, Association } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import DOPELog from './DOPELog';
+import RangeSession from './RangeSession';
+import { PoiMarker, Point, ScaleReference } from '../types/targetImage';
+
+/**
+ * TargetImage Model
+ *
+ * A photo of a shot target attached to a DOPE log or range session, with
+ * the points of impact marked on it. The file itself lives in storage;
+ * only its keys are kept here.
+ */
+
+interface TargetImageAttributes {
+  id: number;
+  user_id: number;
+  dope_log_id?: number | null;
+  range_session_id?: number | null;
+  image_uri: string; // storage key
+  thumbnail_uri?: string | null; // storage key
+  content_type: string;
+  image_width?: number | null; // px
+  image_height?: number | null; // px
+  target_type: string;
+  poi_markers: PoiMarker[];
+  aim_point?: Point | null;
+  scale_reference?: ScaleReference | null;
+  shot_count?: number; // generated from poi_markers
+  group_size?: number | null; // inches, computed when scaled
+  created_at?: Date;
+}
+
+interface TargetImageCreationAttributes extends Optional<
+  TargetImageAttributes,
+  'id' | 'content_type' | 'poi_markers' | 'shot_count' | 'created_at'
+> {}
+
+class TargetImage extends Model<TargetImageAttributes, TargetImageCreationAttributes> implements TargetImageAttributes {
+  public id!: number;
+  public user_id!: number;
+  public dope_log_id?: number | null;
+  public range_session_id?: number | null;
+  public image_uri!: string;
+  public thumbnail_uri?: string | null;
+  public content_type!: string;
+  public image_width?: number | null;
+  public image_height?: number | null;
+  public target_type!: string;
+  public poi_markers!: PoiMarker[];
+  public aim_point?: Point | null;
+  public scale_reference?: ScaleReference | null;
+  public readonly shot_count!: number;
+  public group_size?: number | null;
+  public readonly created_at!: Date;
+
+  // Associations
+  public readonly user?: User;
+  public readonly dope_log?: DOPELog;
+  public readonly range_session?: RangeSession;
+
+  public static associations: {
+    user: Association<TargetImage, User>;
+    dope_log: Association<TargetImage, DOPELog>;
+    range_session: Association<TargetImage, RangeSession>;
+  };
+
+  /**
+   * Storage keys for every file belonging to this image
+   */
+  public getStorageKeys(): string[] {
+    return this.thumbnail_uri ? [this.image_uri, this.thumbnail_uri] : [this.image_uri];
+  }
+
+  /**
+   * Get image JSON (storage keys are internal; clients download through the API)
+   */
+  public toJSON(): Partial<TargetImageAttributes> {
+    const values: Partial<TargetImageAttributes> = { ...this.get() };
+    delete values.image_uri;
+    delete values.thumbnail_uri;
+    return values;
+  }
+}
+
+TargetImage.init(
+  {
+    id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    user_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    dope_log_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: true,
+      references: {
+        model: 'dope_logs',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    range_session_id: {
+      type: DataTypes.BIGINT.UNSIGNED,
+      allowNull: true,
+      references: {
+        model: 'range_sessions',
+        key: 'id',
+      },
+      onDelete: 'CASCADE',
+    },
+    image_uri: {
+      type: DataTypes.STRING(500),
+      allowNull: false,
+    },
+    thumbnail_uri: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    content_type: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      defaultValue: 'image/jpeg',
+    },
+    image_width: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+    },
+    image_height: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+    },
+    target_type: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    poi_markers: {
+      type: DataTypes.JSON,
+      allowNull: false,
+      defaultValue: [],
+      comment: 'Point of impact pixel coordinates array [{x,y}]',
+    },
+    aim_point: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: 'Point of aim pixel coordinates {x,y}',
+    },
+    scale_reference: {
+      type: DataTypes.JSON,
+      allowNull: true,
+      comment: 'Two points a known distance apart {from,to,inches}',
+    },
+    shot_count: {
+      type: DataTypes.INTEGER.UNSIGNED,
+      allowNull: true,
+      comment: 'Generated column, calculated from POI markers',
+    },
+    group_size: {
+      type: DataTypes.DECIMAL(6, 2),
+      allowNull: true,
+      validate: {
+        min: 0,
+      },
+      comment: 'Inches, extreme spread computed from POI markers',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'target_images',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      { fields: ['user_id'] },
+      { fields: ['dope_log_id'] },
+      { fields: ['range_session_id'] },
+    ],
+    validate: {
+      linkedToLogOrSession() {
+        if (!this.dope_log_id && !this.range_session_id) {
+          throw new Error('Target image must be linked to a DOPE log or range session');
+        }
+      },
+    },
+  },
+);
+
+// Define associations
+TargetImage.belongsTo(User, {
+  foreignKey: 'user_id',
+  as: 'user',
+});
+
+TargetImage.belongsTo(DOPELog, {
+  foreignKey: 'dope_log_id',
+  as: 'dope_log',
+});
+
+TargetImage.belongsTo(RangeSession, {
+  foreignKey: 'range_session_id',
+  as: 'range_session',
+});
+
+export default TargetImage;
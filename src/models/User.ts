@@ -9,6 +9,9 @@ import bcrypt from 'bcrypt';
  * Includes JWT refresh tokens, email verification, and password reset functionality.
  */
 
+export const USER_ROLES = ['user', 'moderator', 'admin'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
 interface UserAttributes {
   id: number;
   uuid: string; // Generated column
@@ -17,6 +20,7 @@ interface UserAttributes {
   name?: string;
   is_active: boolean;
   is_verified: boolean;
+  role: UserRole;
   email_verification_token?: string;
   email_verification_expires?: Date;
   password_reset_token?: string;
@@ -28,7 +32,18 @@ interface UserAttributes {
   updated_at?: Date;
 }
 
-interface UserCreationAttributes extends Optional<UserAttributes, 'id' | 'uuid' | 'is_active' | 'is_verified' | 'login_count' | 'row_version' | 'created_at' | 'updated_at'> {}
+interface UserCreationAttributes extends Optional<
+  UserAttributes,
+  | 'id'
+  | 'uuid'
+  | 'is_active'
+  | 'is_verified'
+  | 'role'
+  | 'login_count'
+  | 'row_version'
+  | 'created_at'
+  | 'updated_at'
+> {}
 
 class User extends Model<UserAttributes, UserCreationAttributes> implements UserAttributes {
   public id!: number;
@@ -38,6 +53,7 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
   public name?: string;
   public is_active!: boolean;
   public is_verified!: boolean;
+  public role!: UserRole;
   public email_verification_token?: string;
   public email_verification_expires?: Date;
   public password_reset_token?: string;
@@ -63,6 +79,13 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
     return bcrypt.compare(password, this.password_hash);
   }
 
+  /**
+   * Whether the user has one of the given roles
+   */
+  public hasRole(...roles: UserRole[]): boolean {
+    return roles.includes(this.role);
+  }
+
   /**
    * Update login information
    */
@@ -109,7 +132,7 @@ class User extends Model<UserAttributes, UserCreationAttributes> implements User
    * Get user JSON (exclude sensitive fields)
    */
   public toJSON(): Partial<UserAttributes> {
-    const values = { ...this.get() };
+    const values: Partial<UserAttributes> = { ...this.get() };
     delete values.password_hash;
     delete values.email_verification_token;
     delete values.password_reset_token;
@@ -158,6 +181,11 @@ User.init(
       allowNull: false,
       defaultValue: false,
     },
+    role: {
+      type: DataTypes.ENUM(...USER_ROLES),
+      allowNull: false,
+      defaultValue: 'user',
+    },
     email_verification_token: {
       type: DataTypes.STRING(255),
       allowNull: true,
@@ -214,6 +242,7 @@ User.init(
       { fields: ['email_verification_token'] },
       { fields: ['password_reset_token'] },
       { fields: ['is_active', 'is_verified'] },
+      { fields: ['role'] },
     ],
     hooks: {
       beforeUpdate: (user: User) => {
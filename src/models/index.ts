@@ -13,6 +13,17 @@ import RifleProfile from './RifleProfile';
 import AmmoProfile from './AmmoProfile';
 import EnvironmentSnapshot from './EnvironmentSnapshot';
 import DOPELog from './DOPELog';
+import CustomDragModel from './CustomDragModel';
+import ShotString from './ShotString';
+import RangeSession from './RangeSession';
+import ColdBoreShot from './ColdBoreShot';
+import TargetImage from './TargetImage';
+import AppSetting from './AppSetting';
+import CommunityAmmo from './CommunityAmmo';
+import CommunityAmmoVote from './CommunityAmmoVote';
+import CommunityAmmoModeration from './CommunityAmmoModeration';
+import SyncLog, { SyncCascade } from './SyncLog';
+import SyncConflict from './SyncConflict';
 
 // Define associations
 // Note: Individual model files already define belongsTo associations
@@ -53,11 +64,146 @@ AmmoProfile.hasMany(DOPELog, {
   as: 'dope_logs',
 });
 
+AmmoProfile.hasMany(CustomDragModel, {
+  foreignKey: 'ammo_id',
+  as: 'drag_models',
+});
+
+AmmoProfile.hasMany(ShotString, {
+  foreignKey: 'ammo_id',
+  as: 'shot_strings',
+});
+
 EnvironmentSnapshot.hasMany(DOPELog, {
   foreignKey: 'environment_id',
   as: 'dope_logs',
 });
 
+User.hasMany(RangeSession, {
+  foreignKey: 'user_id',
+  as: 'range_sessions',
+});
+
+RangeSession.hasMany(DOPELog, {
+  foreignKey: 'range_session_id',
+  as: 'dope_logs',
+});
+
+RifleProfile.hasMany(ColdBoreShot, {
+  foreignKey: 'rifle_id',
+  as: 'cold_bore_shots',
+});
+
+RangeSession.hasMany(ColdBoreShot, {
+  foreignKey: 'range_session_id',
+  as: 'cold_bore_shots',
+});
+
+DOPELog.hasMany(TargetImage, {
+  foreignKey: 'dope_log_id',
+  as: 'target_images',
+});
+
+RangeSession.hasMany(TargetImage, {
+  foreignKey: 'range_session_id',
+  as: 'target_images',
+});
+
+User.hasMany(AppSetting, {
+  foreignKey: 'user_id',
+  as: 'settings',
+});
+
+User.hasMany(CommunityAmmo, {
+  foreignKey: 'submitted_by',
+  as: 'community_submissions',
+});
+
+CommunityAmmo.hasMany(CommunityAmmo, {
+  foreignKey: 'merged_into_id',
+  as: 'merged_entries',
+});
+
+CommunityAmmo.hasMany(CommunityAmmoVote, {
+  foreignKey: 'ammo_id',
+  as: 'votes',
+});
+
+User.hasMany(CommunityAmmoVote, {
+  foreignKey: 'user_id',
+  as: 'community_votes',
+});
+
+CommunityAmmo.hasMany(CommunityAmmoModeration, {
+  foreignKey: 'ammo_id',
+  as: 'moderation_history',
+});
+
+User.hasMany(CommunityAmmoModeration, {
+  foreignKey: 'moderator_id',
+  as: 'moderation_decisions',
+});
+
+User.hasMany(SyncLog, {
+  foreignKey: 'user_id',
+  as: 'sync_logs',
+});
+
+User.hasMany(SyncConflict, {
+  foreignKey: 'user_id',
+  as: 'sync_conflicts',
+});
+
+// Log changes to synced entities for device sync, including the rows
+// foreign keys delete or clear along with them
+const sessionLogs: SyncCascade = {
+  model: DOPELog,
+  entity_type: 'dope_log',
+  foreign_key: 'range_session_id',
+  operation: 'update',
+};
+
+const sessionCascades = (foreignKey: string): SyncCascade => ({
+  model: RangeSession,
+  foreign_key: foreignKey,
+  operation: 'delete',
+  cascades: [sessionLogs],
+});
+
+SyncLog.track(RifleProfile, 'rifle', [
+  sessionCascades('rifle_id'),
+  {
+    model: AmmoProfile,
+    entity_type: 'ammo',
+    foreign_key: 'rifle_id',
+    operation: 'delete',
+    cascades: [
+      sessionCascades('ammo_id'),
+      {
+        model: AmmoProfile,
+        entity_type: 'ammo',
+        foreign_key: 'parent_ammo_id',
+        operation: 'update',
+      },
+      { model: DOPELog, entity_type: 'dope_log', foreign_key: 'ammo_id', operation: 'delete' },
+    ],
+  },
+  { model: DOPELog, entity_type: 'dope_log', foreign_key: 'rifle_id', operation: 'delete' },
+]);
+
+SyncLog.track(AmmoProfile, 'ammo', [
+  sessionCascades('ammo_id'),
+  { model: AmmoProfile, entity_type: 'ammo', foreign_key: 'parent_ammo_id', operation: 'update' },
+  { model: DOPELog, entity_type: 'dope_log', foreign_key: 'ammo_id', operation: 'delete' },
+]);
+
+SyncLog.track(EnvironmentSnapshot, 'environment');
+
+SyncLog.track(DOPELog, 'dope_log');
+
+// Range sessions aren't synced, but deleting one unlinks its DOPE logs
+SyncLog.trackCascades(RangeSession, [sessionLogs]);
+
 // Export models and sequelize instance
 export {
   sequelize,
@@ -66,6 +212,17 @@ export {
   AmmoProfile,
   EnvironmentSnapshot,
   DOPELog,
+  CustomDragModel,
+  ShotString,
+  RangeSession,
+  ColdBoreShot,
+  TargetImage,
+  AppSetting,
+  CommunityAmmo,
+  CommunityAmmoVote,
+  CommunityAmmoModeration,
+  SyncLog,
+  SyncConflict,
 };
 
 // Export default object with all models
@@ -76,4 +233,15 @@ export default {
   AmmoProfile,
   EnvironmentSnapshot,
   DOPELog,
+  CustomDragModel,
+  ShotString,
+  RangeSession,
+  ColdBoreShot,
+  TargetImage,
+  AppSetting,
+  CommunityAmmo,
+  CommunityAmmoVote,
+  CommunityAmmoModeration,
+  SyncLog,
+  SyncConflict,
 };
@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import AdminController from '../controllers/AdminController';
+import { validate, validatePagination, validateId } from '../middlewares/validation';
+import { authenticate, authorize } from '../middlewares/auth';
+import { asyncHandler } from '../middlewares/errorHandler';
+import { USER_ROLES } from '../models/User';
+
+/**
+ * Admin Routes
+ *
+ * Defines account administration endpoints.
+ */
+
+const router = Router();
+
+// All admin routes require an admin
+router.use(authenticate);
+router.use(authorize('admin'));
+
+/**
+ * @route   GET /api/v1/admin/users
+ * @desc    List users, optionally filtered by role or email/name search
+ * @access  Admin
+ */
+router.get(
+  '/users',
+  validatePagination,
+  validate([
+    query('role')
+      .optional()
+      .isIn([...USER_ROLES]),
+    query('search').optional().trim().isLength({ min: 1, max: 255 }),
+  ]),
+  asyncHandler(AdminController.getUsers.bind(AdminController)),
+);
+
+/**
+ * @route   PUT /api/v1/admin/users/:id/role
+ * @desc    Change a user's role
+ * @access  Admin
+ */
+router.put(
+  '/users/:id/role',
+  validateId('id'),
+  validate([
+    body('role')
+      .isIn([...USER_ROLES])
+      .withMessage(`Role must be one of: ${USER_ROLES.join(', ')}`),
+  ]),
+  asyncHandler(AdminController.updateRole.bind(AdminController)),
+);
+
+export default router;
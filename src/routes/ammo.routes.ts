@@ -1,9 +1,14 @@
 import { Router } from 'express';
-import { body, query } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import AmmoProfileController from '../controllers/AmmoProfileController';
+import CustomDragModelController from '../controllers/CustomDragModelController';
+import ShotStringController from '../controllers/ShotStringController';
 import { validate, validatePagination, validateId } from '../middlewares/validation';
 import { authenticate } from '../middlewares/auth';
+import { convertUnits, convertUploadFields } from '../middlewares/units';
 import { asyncHandler } from '../middlewares/errorHandler';
+import { csvUpload } from '../middlewares/upload';
+import { validateDragCurve, validateVelocityBands } from '../utils/dragTables';
 
 /**
  * Ammo Profile Routes
@@ -15,6 +20,7 @@ const router = Router();
 
 // All ammo routes require authentication
 router.use(authenticate);
+router.use(convertUnits);
 
 /**
  * @route   GET /api/v1/ammo
@@ -83,6 +89,14 @@ router.post(
       .notEmpty()
       .withMessage('Bullet type is required')
       .isLength({ max: 100 }),
+    body('bullet_length')
+      .optional({ nullable: true })
+      .isFloat({ min: 0.01, max: 5 })
+      .withMessage('Bullet length must be between 0 and 5 inches'),
+    body('bullet_diameter')
+      .optional({ nullable: true })
+      .isFloat({ min: 0.01, max: 1 })
+      .withMessage('Bullet diameter must be between 0 and 1 inch'),
     body('ballistic_coefficient_g1')
       .isFloat({ min: 0, max: 1 })
       .withMessage('G1 BC must be between 0 and 1'),
@@ -92,6 +106,10 @@ router.post(
     body('muzzle_velocity')
       .isFloat({ min: 0.01, max: 5000 })
       .withMessage('Muzzle velocity must be between 0 and 5000 fps'),
+    body('muzzle_velocity_temperature')
+      .optional({ nullable: true })
+      .isFloat({ min: -50, max: 150 })
+      .withMessage('Muzzle velocity temperature must be between -50 and 150 °F'),
     body('powder_type')
       .optional()
       .trim()
@@ -121,6 +139,10 @@ router.put(
   '/:id',
   validateId('id'),
   validate([
+    body('row_version')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Row version must be a non-negative integer'),
     body('rifle_id')
       .optional()
       .isInt({ min: 1 }),
@@ -142,6 +164,8 @@ router.put(
       .trim()
       .notEmpty()
       .isLength({ max: 100 }),
+    body('bullet_length').optional({ nullable: true }).isFloat({ min: 0.01, max: 5 }),
+    body('bullet_diameter').optional({ nullable: true }).isFloat({ min: 0.01, max: 1 }),
     body('ballistic_coefficient_g1')
       .optional()
       .isFloat({ min: 0, max: 1 }),
@@ -151,6 +175,9 @@ router.put(
     body('muzzle_velocity')
       .optional()
       .isFloat({ min: 0.01, max: 5000 }),
+    body('muzzle_velocity_temperature')
+      .optional({ nullable: true })
+      .isFloat({ min: -50, max: 150 }),
     body('powder_type')
       .optional()
       .trim()
@@ -181,4 +208,303 @@ router.delete(
   asyncHandler(AmmoProfileController.delete.bind(AmmoProfileController))
 );
 
+/**
+ * Drag model body validation shared by create and update
+ */
+const dragModelValidation = (optional: boolean) => [
+  (optional ? body('name').optional() : body('name'))
+    .trim()
+    .notEmpty()
+    .withMessage('Drag model name is required')
+    .isLength({ max: 255 }),
+  (optional ? body('type').optional() : body('type'))
+    .isIn(['curve', 'banded'])
+    .withMessage('Type must be curve or banded'),
+  body('reference_diameter')
+    .optional()
+    .isFloat({ min: 0.1, max: 1 })
+    .withMessage('Reference diameter must be between 0.1 and 1 inch'),
+  body('drag_model').optional().isIn(['G1', 'G7']).withMessage('Drag model must be G1 or G7'),
+  body('points')
+    .optional()
+    .isArray({ min: 2, max: 500 })
+    .withMessage('Points must be an array of 2 to 500 Mach/Cd pairs')
+    .custom((points: Array<{ mach: unknown; cd: unknown }>) => {
+      const error = validateDragCurve(
+        points.map((point) => ({ mach: Number(point.mach), cd: Number(point.cd) })),
+      );
+      if (error) {
+        throw new Error(error);
+      }
+      return true;
+    }),
+  body('points.*.mach').isFloat({ min: 0, max: 10 }).withMessage('Mach must be between 0 and 10'),
+  body('points.*.cd').isFloat({ min: 0, max: 2 }).withMessage('Cd must be between 0 and 2'),
+  body('bc_bands')
+    .optional()
+    .isArray({ min: 1, max: 20 })
+    .withMessage('BC bands must be an array of 1 to 20 bands')
+    .custom((bands: Array<{ min_velocity: unknown; bc: unknown }>) => {
+      const error = validateVelocityBands(
+        bands.map((band) => ({
+          min_velocity: Number(band.min_velocity),
+          bc: Number(band.bc),
+        })),
+      );
+      if (error) {
+        throw new Error(error);
+      }
+      return true;
+    }),
+  body('bc_bands.*.min_velocity')
+    .isFloat({ min: 0, max: 5000 })
+    .withMessage('Band velocity must be between 0 and 5000 fps'),
+  body('bc_bands.*.bc').isFloat({ min: 0, max: 1 }).withMessage('Band BC must be between 0 and 1'),
+  body('source').optional().trim().isLength({ max: 255 }),
+  body('is_active').optional().isBoolean().toBoolean(),
+];
+
+/**
+ * @route   GET /api/v1/ammo/:id/drag-models
+ * @desc    Get custom drag models for ammo profile
+ * @access  Private
+ */
+router.get(
+  '/:id/drag-models',
+  validateId('id'),
+  asyncHandler(CustomDragModelController.getAll.bind(CustomDragModelController)),
+);
+
+/**
+ * @route   GET /api/v1/ammo/:id/drag-models/:dragModelId
+ * @desc    Get single custom drag model
+ * @access  Private
+ */
+router.get(
+  '/:id/drag-models/:dragModelId',
+  validateId('id'),
+  validateId('dragModelId'),
+  asyncHandler(CustomDragModelController.getById.bind(CustomDragModelController)),
+);
+
+/**
+ * @route   POST /api/v1/ammo/:id/drag-models
+ * @desc    Create drag curve or velocity-banded BCs
+ * @access  Private
+ */
+router.post(
+  '/:id/drag-models',
+  validateId('id'),
+  validate(dragModelValidation(false)),
+  asyncHandler(CustomDragModelController.create.bind(CustomDragModelController)),
+);
+
+/**
+ * @route   PUT /api/v1/ammo/:id/drag-models/:dragModelId
+ * @desc    Update custom drag model
+ * @access  Private
+ */
+router.put(
+  '/:id/drag-models/:dragModelId',
+  validateId('id'),
+  validateId('dragModelId'),
+  validate(dragModelValidation(true)),
+  asyncHandler(CustomDragModelController.update.bind(CustomDragModelController)),
+);
+
+/**
+ * @route   DELETE /api/v1/ammo/:id/drag-models/:dragModelId
+ * @desc    Delete custom drag model
+ * @access  Private
+ */
+router.delete(
+  '/:id/drag-models/:dragModelId',
+  validateId('id'),
+  validateId('dragModelId'),
+  asyncHandler(CustomDragModelController.delete.bind(CustomDragModelController)),
+);
+
+const sessionDateValidation = [
+  param('sessionDate')
+    .isISO8601({ strict: true })
+    .withMessage('Session date must be a valid date (YYYY-MM-DD)'),
+];
+
+/**
+ * @route   GET /api/v1/ammo/:id/shot-strings
+ * @desc    Get chronograph sessions with velocity statistics
+ * @access  Private
+ */
+router.get(
+  '/:id/shot-strings',
+  validateId('id'),
+  validate([query('date_from').optional().isISO8601(), query('date_to').optional().isISO8601()]),
+  asyncHandler(ShotStringController.getAll.bind(ShotStringController)),
+);
+
+/**
+ * @route   GET /api/v1/ammo/:id/shot-strings/temperature-sensitivity
+ * @desc    Fit muzzle velocity against temperature (fps per °F)
+ * @access  Private
+ */
+router.get(
+  '/:id/shot-strings/temperature-sensitivity',
+  validateId('id'),
+  asyncHandler(ShotStringController.getTemperatureSensitivity.bind(ShotStringController)),
+);
+
+/**
+ * @route   GET /api/v1/ammo/:id/shot-strings/sessions/:sessionDate
+ * @desc    Get a single chronograph session with statistics
+ * @access  Private
+ */
+router.get(
+  '/:id/shot-strings/sessions/:sessionDate',
+  validateId('id'),
+  validate(sessionDateValidation),
+  asyncHandler(ShotStringController.getSession.bind(ShotStringController)),
+);
+
+/**
+ * @route   POST /api/v1/ammo/:id/shot-strings/sessions/:sessionDate/apply
+ * @desc    Set ammo muzzle velocity to the session average
+ * @access  Private
+ */
+router.post(
+  '/:id/shot-strings/sessions/:sessionDate/apply',
+  validateId('id'),
+  validate(sessionDateValidation),
+  asyncHandler(ShotStringController.applyToAmmo.bind(ShotStringController)),
+);
+
+/**
+ * @route   DELETE /api/v1/ammo/:id/shot-strings/sessions/:sessionDate
+ * @desc    Delete every shot in a chronograph session
+ * @access  Private
+ */
+router.delete(
+  '/:id/shot-strings/sessions/:sessionDate',
+  validateId('id'),
+  validate(sessionDateValidation),
+  asyncHandler(ShotStringController.deleteSession.bind(ShotStringController)),
+);
+
+/**
+ * @route   GET /api/v1/ammo/:id/shot-strings/:shotId
+ * @desc    Get single chronograph shot
+ * @access  Private
+ */
+router.get(
+  '/:id/shot-strings/:shotId',
+  validateId('id'),
+  validateId('shotId'),
+  asyncHandler(ShotStringController.getById.bind(ShotStringController)),
+);
+
+/**
+ * @route   POST /api/v1/ammo/:id/shot-strings
+ * @desc    Record a string of chronograph shots for a session
+ * @access  Private
+ */
+router.post(
+  '/:id/shot-strings',
+  validateId('id'),
+  validate([
+    body('session_date')
+      .isISO8601({ strict: true })
+      .withMessage('Session date must be a valid date (YYYY-MM-DD)'),
+    body('temperature')
+      .isFloat({ min: -50, max: 150 })
+      .withMessage('Temperature must be between -50 and 150 °F'),
+    body('notes').optional().trim(),
+    body('shots')
+      .isArray({ min: 1, max: 100 })
+      .withMessage('Shots must be an array of 1 to 100 readings'),
+    body('shots.*.velocity')
+      .isFloat({ min: 1, max: 5000 })
+      .withMessage('Velocity must be between 1 and 5000 fps'),
+    body('shots.*.shot_number')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Shot number must be a positive integer'),
+    body('shots.*.temperature')
+      .optional()
+      .isFloat({ min: -50, max: 150 })
+      .withMessage('Temperature must be between -50 and 150 °F'),
+    body('shots.*.notes').optional().trim(),
+  ]),
+  asyncHandler(ShotStringController.create.bind(ShotStringController)),
+);
+
+/**
+ * @route   POST /api/v1/ammo/:id/shot-strings/import
+ * @desc    Import LabRadar, MagnetoSpeed or Garmin Xero CSV (multipart "file")
+ * @access  Private
+ */
+router.post(
+  '/:id/shot-strings/import',
+  validateId('id'),
+  csvUpload,
+  convertUploadFields,
+  validate([
+    body('format')
+      .optional()
+      .isIn(['labradar', 'magnetospeed', 'garmin'])
+      .withMessage('Format must be labradar, magnetospeed or garmin'),
+    body('unit').optional().isIn(['fps', 'mps']).withMessage('Unit must be fps or mps'),
+    body('session_date')
+      .optional()
+      .isISO8601({ strict: true })
+      .withMessage('Session date must be a valid date (YYYY-MM-DD)'),
+    body('temperature')
+      .isFloat({ min: -50, max: 150 })
+      .withMessage('Temperature must be between -50 and 150 °F'),
+    body('dry_run').optional().isBoolean().withMessage('Dry run must be a boolean').toBoolean(),
+  ]),
+  asyncHandler(ShotStringController.importFile.bind(ShotStringController)),
+);
+
+/**
+ * @route   PUT /api/v1/ammo/:id/shot-strings/:shotId
+ * @desc    Update chronograph shot
+ * @access  Private
+ */
+router.put(
+  '/:id/shot-strings/:shotId',
+  validateId('id'),
+  validateId('shotId'),
+  validate([
+    body('session_date')
+      .optional()
+      .isISO8601({ strict: true })
+      .withMessage('Session date must be a valid date (YYYY-MM-DD)'),
+    body('shot_number')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Shot number must be a positive integer'),
+    body('velocity')
+      .optional()
+      .isFloat({ min: 1, max: 5000 })
+      .withMessage('Velocity must be between 1 and 5000 fps'),
+    body('temperature')
+      .optional()
+      .isFloat({ min: -50, max: 150 })
+      .withMessage('Temperature must be between -50 and 150 °F'),
+    body('notes').optional().trim(),
+  ]),
+  asyncHandler(ShotStringController.update.bind(ShotStringController)),
+);
+
+/**
+ * @route   DELETE /api/v1/ammo/:id/shot-strings/:shotId
+ * @desc    Delete chronograph shot
+ * @access  Private
+ */
+router.delete(
+  '/:id/shot-strings/:shotId',
+  validateId('id'),
+  validateId('shotId'),
+  asyncHandler(ShotStringController.delete.bind(ShotStringController)),
+);
+
 export default router;
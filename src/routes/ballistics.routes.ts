@@ -0,0 +1,240 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import BallisticsController from '../controllers/BallisticsController';
+import { validate } from '../middlewares/validation';
+import { authenticate } from '../middlewares/auth';
+import { convertUnits } from '../middlewares/units';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+/**
+ * Ballistics Routes
+ *
+ * Defines trajectory prediction endpoints with validation.
+ */
+
+const router = Router();
+
+// All ballistics routes require authentication
+router.use(authenticate);
+router.use(convertUnits);
+
+const conditionsValidation = [
+  body('conditions').optional().isObject().withMessage('Conditions must be an object'),
+  body('conditions.temperature')
+    .optional()
+    .isFloat({ min: -50, max: 150 })
+    .withMessage('Temperature must be between -50 and 150 °F'),
+  body('conditions.humidity')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Humidity must be between 0 and 100%'),
+  body('conditions.pressure')
+    .optional()
+    .isFloat({ min: 20, max: 35 })
+    .withMessage('Pressure must be between 20 and 35 inHg'),
+  body('conditions.pressure_type')
+    .optional()
+    .isIn(['station', 'barometric'])
+    .withMessage('Pressure type must be station or barometric'),
+  body('conditions.altitude')
+    .optional()
+    .isFloat({ min: -1000, max: 30000 })
+    .withMessage('Altitude must be between -1000 and 30000 feet'),
+  body('conditions.wind_speed')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Wind speed must be between 0 and 100 mph'),
+  body('conditions.wind_direction')
+    .optional()
+    .isFloat({ min: 0, max: 359.99 })
+    .withMessage('Wind direction must be between 0 and 360 degrees'),
+  body('conditions.latitude')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+];
+
+/**
+ * @route   POST /api/v1/ballistics/solve
+ * @desc    Solve trajectory for a rifle/ammo pair
+ * @access  Private
+ */
+router.post(
+  '/solve',
+  validate([
+    body('rifle_id').isInt({ min: 1 }).withMessage('Valid rifle ID is required'),
+    body('ammo_id').isInt({ min: 1 }).withMessage('Valid ammo ID is required'),
+    body('environment_id')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Environment ID must be a positive integer'),
+    ...conditionsValidation,
+    body('drag_model').optional().isIn(['G1', 'G7']).withMessage('Drag model must be G1 or G7'),
+    body('max_range')
+      .optional()
+      .isFloat({ min: 1, max: 3000 })
+      .withMessage('Max range must be between 1 and 3000 yards'),
+    body('range_step')
+      .optional()
+      .isFloat({ min: 1, max: 1000 })
+      .withMessage('Range step must be between 1 and 1000 yards'),
+    body('shot_azimuth')
+      .optional()
+      .isFloat({ min: 0, max: 359.99 })
+      .withMessage('Shot azimuth must be between 0 and 360 degrees'),
+    body('incline_angle')
+      .optional()
+      .isFloat({ min: -90, max: 90 })
+      .withMessage('Incline angle must be between -90 and 90 degrees'),
+    body('second_order')
+      .optional()
+      .isBoolean()
+      .withMessage('Second order must be a boolean')
+      .toBoolean(),
+    body('powder_temperature')
+      .optional()
+      .isBoolean()
+      .withMessage('Powder temperature must be a boolean')
+      .toBoolean(),
+  ]),
+  asyncHandler(BallisticsController.solve.bind(BallisticsController)),
+);
+
+/**
+ * @route   POST /api/v1/ballistics/stability
+ * @desc    Calculate Miller stability factor for a rifle/ammo pair
+ * @access  Private
+ */
+router.post(
+  '/stability',
+  validate([
+    body('rifle_id').isInt({ min: 1 }).withMessage('Valid rifle ID is required'),
+    body('ammo_id').isInt({ min: 1 }).withMessage('Valid ammo ID is required'),
+    body('environment_id')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Environment ID must be a positive integer'),
+    body('conditions').optional().isObject().withMessage('Conditions must be an object'),
+    body('conditions.temperature')
+      .optional()
+      .isFloat({ min: -50, max: 150 })
+      .withMessage('Temperature must be between -50 and 150 °F'),
+    body('conditions.pressure')
+      .optional()
+      .isFloat({ min: 20, max: 35 })
+      .withMessage('Pressure must be between 20 and 35 inHg'),
+    body('conditions.pressure_type')
+      .optional()
+      .isIn(['station', 'barometric'])
+      .withMessage('Pressure type must be station or barometric'),
+  ]),
+  asyncHandler(BallisticsController.stability.bind(BallisticsController)),
+);
+
+/**
+ * @route   POST /api/v1/ballistics/true
+ * @desc    Fit muzzle velocity and/or BC to logged DOPE
+ * @access  Private
+ */
+router.post(
+  '/true',
+  validate([
+    body('rifle_id').isInt({ min: 1 }).withMessage('Valid rifle ID is required'),
+    body('ammo_id').isInt({ min: 1 }).withMessage('Valid ammo ID is required'),
+    body('fit')
+      .optional()
+      .isIn(['muzzle_velocity', 'bc', 'both'])
+      .withMessage('Fit must be muzzle_velocity, bc or both'),
+    body('drag_model').optional().isIn(['G1', 'G7']).withMessage('Drag model must be G1 or G7'),
+    body('save').optional().isBoolean().withMessage('Save must be a boolean').toBoolean(),
+  ]),
+  asyncHandler(BallisticsController.true.bind(BallisticsController)),
+);
+
+/**
+ * @route   POST /api/v1/ballistics/wind-table
+ * @desc    Wind holds per range for configurable speeds and clock directions
+ * @access  Private
+ */
+router.post(
+  '/wind-table',
+  validate([
+    body('rifle_id').isInt({ min: 1 }).withMessage('Valid rifle ID is required'),
+    body('ammo_id').isInt({ min: 1 }).withMessage('Valid ammo ID is required'),
+    body('environment_id')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Environment ID must be a positive integer'),
+    ...conditionsValidation,
+    body('wind_speeds')
+      .optional()
+      .isArray({ min: 1, max: 10 })
+      .withMessage('Wind speeds must be an array of 1 to 10 values'),
+    body('wind_speeds.*')
+      .isFloat({ min: 0, max: 100 })
+      .withMessage('Each wind speed must be between 0 and 100 mph'),
+    body('clock_positions')
+      .optional()
+      .isArray({ min: 1, max: 12 })
+      .withMessage('Clock positions must be an array of 1 to 12 values'),
+    body('clock_positions.*')
+      .isInt({ min: 1, max: 12 })
+      .withMessage('Each clock position must be between 1 and 12'),
+    body('drag_model').optional().isIn(['G1', 'G7']).withMessage('Drag model must be G1 or G7'),
+    body('max_range')
+      .optional()
+      .isFloat({ min: 1, max: 3000 })
+      .withMessage('Max range must be between 1 and 3000 yards'),
+    body('range_step')
+      .optional()
+      .isFloat({ min: 1, max: 1000 })
+      .withMessage('Range step must be between 1 and 1000 yards'),
+    body('shot_azimuth')
+      .optional()
+      .isFloat({ min: 0, max: 359.99 })
+      .withMessage('Shot azimuth must be between 0 and 360 degrees'),
+    body('calibrate').optional().isBoolean().withMessage('Calibrate must be a boolean').toBoolean(),
+  ]),
+  asyncHandler(BallisticsController.windTable.bind(BallisticsController)),
+);
+
+/**
+ * @route   POST /api/v1/ballistics/leads
+ * @desc    Moving-target leads per range in MIL, MOA and target widths
+ * @access  Private
+ */
+router.post(
+  '/leads',
+  validate([
+    body('rifle_id').isInt({ min: 1 }).withMessage('Valid rifle ID is required'),
+    body('ammo_id').isInt({ min: 1 }).withMessage('Valid ammo ID is required'),
+    body('environment_id')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Environment ID must be a positive integer'),
+    ...conditionsValidation,
+    body('target_speed')
+      .isFloat({ min: 0, max: 60 })
+      .withMessage('Target speed must be between 0 and 60 mph'),
+    body('target_angle')
+      .optional()
+      .isFloat({ min: 0, max: 359.99 })
+      .withMessage('Target angle must be between 0 and 360 degrees'),
+    body('target_width')
+      .optional()
+      .isFloat({ min: 0.1, max: 240 })
+      .withMessage('Target width must be between 0.1 and 240 inches'),
+    body('drag_model').optional().isIn(['G1', 'G7']).withMessage('Drag model must be G1 or G7'),
+    body('max_range')
+      .optional()
+      .isFloat({ min: 1, max: 3000 })
+      .withMessage('Max range must be between 1 and 3000 yards'),
+    body('range_step')
+      .optional()
+      .isFloat({ min: 1, max: 1000 })
+      .withMessage('Range step must be between 1 and 1000 yards'),
+  ]),
+  asyncHandler(BallisticsController.leads.bind(BallisticsController)),
+);
+
+export default router;
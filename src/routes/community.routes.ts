@@ -0,0 +1,162 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import CommunityAmmoController from '../controllers/CommunityAmmoController';
+import { validate, validatePagination, validateId } from '../middlewares/validation';
+import { authenticate, requireVerified, requireAccountAge, rateLimit } from '../middlewares/auth';
+import { convertUnits } from '../middlewares/units';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+/**
+ * Community Routes
+ *
+ * Defines the shared community ammunition database endpoints.
+ */
+
+const router = Router();
+
+// Voting safeguards
+const VOTE_MIN_ACCOUNT_DAYS = parseInt(process.env.COMMUNITY_VOTE_MIN_ACCOUNT_DAYS || '7', 10);
+const VOTE_MAX_PER_HOUR = parseInt(process.env.COMMUNITY_VOTE_MAX_PER_HOUR || '30', 10);
+const voteGuards = [
+  requireVerified,
+  requireAccountAge(VOTE_MIN_ACCOUNT_DAYS),
+  rateLimit(VOTE_MAX_PER_HOUR, 60 * 60 * 1000),
+];
+
+// All community routes require authentication
+router.use(authenticate);
+router.use(convertUnits);
+
+/**
+ * @route   GET /api/v1/community/ammo
+ * @desc    Search community ammo ranked by quality score
+ * @access  Private
+ */
+router.get(
+  '/ammo',
+  validatePagination,
+  validate([
+    query('q').optional().trim().isLength({ min: 1, max: 255 }),
+    query('caliber').optional().trim().isLength({ max: 100 }),
+    query('manufacturer').optional().trim().isLength({ max: 255 }),
+    query('bullet_type').optional().trim().isLength({ max: 100 }),
+    query('status').optional().isIn(['pending', 'verified', 'disputed']),
+  ]),
+  asyncHandler(CommunityAmmoController.getAll.bind(CommunityAmmoController)),
+);
+
+/**
+ * @route   GET /api/v1/community/ammo/:id
+ * @desc    Get single community ammo entry
+ * @access  Private
+ */
+router.get(
+  '/ammo/:id',
+  validateId('id'),
+  asyncHandler(CommunityAmmoController.getById.bind(CommunityAmmoController)),
+);
+
+/**
+ * @route   POST /api/v1/community/ammo
+ * @desc    Submit ammo to the community database for review
+ * @access  Private
+ */
+router.post(
+  '/ammo',
+  validate([
+    body('manufacturer')
+      .trim()
+      .notEmpty()
+      .withMessage('Manufacturer is required')
+      .isLength({ max: 255 }),
+    body('product_name')
+      .trim()
+      .notEmpty()
+      .withMessage('Product name is required')
+      .isLength({ max: 255 }),
+    body('caliber').trim().notEmpty().withMessage('Caliber is required').isLength({ max: 100 }),
+    body('bullet_weight')
+      .isFloat({ min: 0.01, max: 1000 })
+      .withMessage('Bullet weight must be between 0 and 1000 grains'),
+    body('bullet_type')
+      .trim()
+      .notEmpty()
+      .withMessage('Bullet type is required')
+      .isLength({ max: 100 }),
+    body('ballistic_coefficient_g1')
+      .optional()
+      .isFloat({ min: 0, max: 1 })
+      .withMessage('G1 BC must be between 0 and 1'),
+    body('ballistic_coefficient_g7')
+      .optional()
+      .isFloat({ min: 0, max: 1 })
+      .withMessage('G7 BC must be between 0 and 1'),
+    body('advertised_velocity')
+      .optional()
+      .isFloat({ min: 0.01, max: 5000 })
+      .withMessage('Advertised velocity must be between 0 and 5000 fps'),
+    body('barrel_length')
+      .optional()
+      .isFloat({ min: 0.01, max: 50 })
+      .withMessage('Barrel length must be between 0 and 50 inches'),
+    body('data_source').optional().trim().isLength({ max: 255 }),
+    body('notes').optional().trim().isLength({ max: 5000 }),
+  ]),
+  asyncHandler(CommunityAmmoController.create.bind(CommunityAmmoController)),
+);
+
+/**
+ * @route   POST /api/v1/community/ammo/:id/copy
+ * @desc    Copy community ammo into my ammo profiles for a rifle
+ * @access  Private
+ */
+router.post(
+  '/ammo/:id/copy',
+  validateId('id'),
+  validate([
+    body('rifle_id').isInt({ min: 1 }).withMessage('Valid rifle ID is required'),
+    body('name').optional().trim().notEmpty().isLength({ max: 255 }),
+    body('ballistic_coefficient_g1')
+      .optional()
+      .isFloat({ min: 0, max: 1 })
+      .withMessage('G1 BC must be between 0 and 1'),
+    body('ballistic_coefficient_g7')
+      .optional()
+      .isFloat({ min: 0, max: 1 })
+      .withMessage('G7 BC must be between 0 and 1'),
+    body('muzzle_velocity')
+      .optional()
+      .isFloat({ min: 0.01, max: 5000 })
+      .withMessage('Muzzle velocity must be between 0 and 5000 fps'),
+    body('lot_number').optional().trim().isLength({ max: 100 }),
+    body('notes').optional().trim().isLength({ max: 5000 }),
+  ]),
+  asyncHandler(CommunityAmmoController.copy.bind(CommunityAmmoController)),
+);
+
+/**
+ * @route   PUT /api/v1/community/ammo/:id/vote
+ * @desc    Vote community ammo up or down (replaces my earlier vote)
+ * @access  Private (verified accounts)
+ */
+router.put(
+  '/ammo/:id/vote',
+  voteGuards,
+  validateId('id'),
+  validate([body('vote_type').isIn(['up', 'down']).withMessage('Vote type must be up or down')]),
+  asyncHandler(CommunityAmmoController.vote.bind(CommunityAmmoController)),
+);
+
+/**
+ * @route   DELETE /api/v1/community/ammo/:id/vote
+ * @desc    Retract my vote on community ammo
+ * @access  Private (verified accounts)
+ */
+router.delete(
+  '/ammo/:id/vote',
+  voteGuards,
+  validateId('id'),
+  asyncHandler(CommunityAmmoController.retractVote.bind(CommunityAmmoController)),
+);
+
+export default router;
@@ -3,6 +3,7 @@ import { body, query } from 'express-validator';
 import DOPELogController from '../controllers/DOPELogController';
 import { validate, validatePagination, validateId } from '../middlewares/validation';
 import { authenticate } from '../middlewares/auth';
+import { convertUnits } from '../middlewares/units';
 import { asyncHandler } from '../middlewares/errorHandler';
 
 /**
@@ -15,17 +16,59 @@ const router = Router();
 
 // All DOPE routes require authentication
 router.use(authenticate);
+router.use(convertUnits);
 
 /**
  * @route   GET /api/v1/dope/card
- * @desc    Get DOPE card data for rifle/ammo combination
+ * @desc    Get DOPE card data for rifle/ammo combination (defaults from settings)
  * @access  Private
  */
 router.get(
   '/card',
   validate([
-    query('rifle_id').isInt({ min: 1 }).withMessage('Valid rifle_id is required'),
+    query('rifle_id').optional().isInt({ min: 1 }).withMessage('Valid rifle_id is required'),
     query('ammo_id').isInt({ min: 1 }).withMessage('Valid ammo_id is required'),
+    query('mode')
+      .optional()
+      .isIn(['predicted', 'observed', 'blended'])
+      .withMessage('Mode must be predicted, observed or blended'),
+    query('environment_id').optional().isInt({ min: 1 }),
+    query('increment')
+      .optional()
+      .isFloat({ min: 1, max: 1000 })
+      .withMessage(
+        'Increment must be between 1 and 1000 (yards or meters per distance_unit setting)',
+      ),
+    query('max_range')
+      .optional()
+      .isFloat({ min: 1, max: 3000 })
+      .withMessage(
+        'Max range must be between 1 and 3000 (yards or meters per distance_unit setting)',
+      ),
+    query('tolerance')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Tolerance must be a positive number'),
+    query('angle_mode')
+      .optional()
+      .isIn(['rifleman', 'full'])
+      .withMessage('Angle mode must be rifleman or full'),
+    query('target_speed')
+      .optional()
+      .isFloat({ min: 0, max: 60 })
+      .withMessage('Target speed must be between 0 and 60 mph'),
+    query('target_angle')
+      .optional()
+      .isFloat({ min: 0, max: 359.99 })
+      .withMessage('Target angle must be between 0 and 360 degrees'),
+    query('target_width')
+      .optional()
+      .isFloat({ min: 0.1, max: 240 })
+      .withMessage('Target width must be between 0.1 and 240 inches'),
+    query('powder_temperature')
+      .optional()
+      .isBoolean()
+      .withMessage('Powder temperature must be a boolean'),
   ]),
   asyncHandler(DOPELogController.getCard.bind(DOPELogController))
 );
@@ -41,6 +84,7 @@ router.get(
   validate([
     query('rifle_id').optional().isInt({ min: 1 }),
     query('ammo_id').optional().isInt({ min: 1 }),
+    query('range_session_id').optional().isInt({ min: 1 }),
     query('distance_min').optional().isFloat({ min: 0 }),
     query('distance_max').optional().isFloat({ min: 0, max: 3000 }),
     query('target_type').optional().isIn(['steel', 'paper', 'vital_zone', 'other']),
@@ -77,6 +121,11 @@ router.post(
     body('environment_id')
       .isInt({ min: 1 })
       .withMessage('Valid environment ID is required'),
+    body('range_session_id')
+      .optional({ nullable: true })
+      .isInt({ min: 1 })
+      .withMessage('Range session ID must be a positive integer')
+      .toInt(),
     body('distance')
       .isFloat({ min: 0.01, max: 3000 })
       .withMessage('Distance must be between 0 and 3000'),
@@ -92,6 +141,18 @@ router.post(
     body('correction_unit')
       .isIn(['MIL', 'MOA'])
       .withMessage('Correction unit must be MIL or MOA'),
+    body('incline_angle')
+      .optional({ nullable: true })
+      .isFloat({ min: -90, max: 90 })
+      .withMessage('Incline angle must be between -90 and 90 degrees'),
+    body('cant_angle')
+      .optional({ nullable: true })
+      .isFloat({ min: -90, max: 90 })
+      .withMessage('Cant angle must be between -90 and 90 degrees'),
+    body('shot_azimuth')
+      .optional({ nullable: true })
+      .isFloat({ min: 0, max: 359.99 })
+      .withMessage('Shot azimuth must be between 0 and 360 degrees'),
     body('target_type')
       .isIn(['steel', 'paper', 'vital_zone', 'other'])
       .withMessage('Invalid target type'),
@@ -124,14 +185,22 @@ router.put(
   '/:id',
   validateId('id'),
   validate([
+    body('row_version')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Row version must be a non-negative integer'),
     body('rifle_id').optional().isInt({ min: 1 }),
     body('ammo_id').optional().isInt({ min: 1 }),
     body('environment_id').optional().isInt({ min: 1 }),
+    body('range_session_id').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
     body('distance').optional().isFloat({ min: 0.01, max: 3000 }),
     body('distance_unit').optional().isIn(['yards', 'meters']),
     body('elevation_correction').optional().isFloat(),
     body('windage_correction').optional().isFloat(),
     body('correction_unit').optional().isIn(['MIL', 'MOA']),
+    body('incline_angle').optional({ nullable: true }).isFloat({ min: -90, max: 90 }),
+    body('cant_angle').optional({ nullable: true }).isFloat({ min: -90, max: 90 }),
+    body('shot_azimuth').optional({ nullable: true }).isFloat({ min: 0, max: 359.99 }),
     body('target_type').optional().isIn(['steel', 'paper', 'vital_zone', 'other']),
     body('group_size').optional().isFloat({ min: 0 }),
     body('hit_count').optional().isInt({ min: 0 }),
@@ -3,6 +3,7 @@ import { body, query } from 'express-validator';
 import EnvironmentSnapshotController from '../controllers/EnvironmentSnapshotController';
 import { validate, validatePagination, validateId } from '../middlewares/validation';
 import { authenticate } from '../middlewares/auth';
+import { convertUnits } from '../middlewares/units';
 import { asyncHandler } from '../middlewares/errorHandler';
 
 /**
@@ -15,6 +16,7 @@ const router = Router();
 
 // All environment routes require authentication
 router.use(authenticate);
+router.use(convertUnits);
 
 /**
  * @route   GET /api/v1/environment/current
@@ -108,6 +110,10 @@ router.post(
       .optional()
       .isFloat({ min: -180, max: 180 })
       .withMessage('Longitude must be between -180 and 180'),
+    body('pressure_type')
+      .optional()
+      .isIn(['station', 'barometric'])
+      .withMessage('Pressure type must be station or barometric'),
     body('density_altitude')
       .optional()
       .isFloat()
@@ -125,6 +131,10 @@ router.put(
   '/:id',
   validateId('id'),
   validate([
+    body('row_version')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Row version must be a non-negative integer'),
     body('temperature')
       .optional()
       .isFloat({ min: -50, max: 150 }),
@@ -149,6 +159,7 @@ router.put(
     body('longitude')
       .optional()
       .isFloat({ min: -180, max: 180 }),
+    body('pressure_type').optional().isIn(['station', 'barometric']),
     body('density_altitude')
       .optional()
       .isFloat(),
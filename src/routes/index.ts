@@ -4,6 +4,14 @@ import rifleRoutes from './rifles.routes';
 import ammoRoutes from './ammo.routes';
 import dopeRoutes from './dope.routes';
 import environmentRoutes from './environment.routes';
+import ballisticsRoutes from './ballistics.routes';
+import rangeSessionRoutes from './range-sessions.routes';
+import targetImageRoutes from './target-images.routes';
+import settingsRoutes from './settings.routes';
+import communityRoutes from './community.routes';
+import moderationRoutes from './moderation.routes';
+import adminRoutes from './admin.routes';
+import syncRoutes from './sync.routes';
 
 /**
  * Routes Index
@@ -19,6 +27,14 @@ router.use('/v1/rifles', rifleRoutes);
 router.use('/v1/ammo', ammoRoutes);
 router.use('/v1/dope', dopeRoutes);
 router.use('/v1/environment', environmentRoutes);
+router.use('/v1/ballistics', ballisticsRoutes);
+router.use('/v1/range-sessions', rangeSessionRoutes);
+router.use('/v1/target-images', targetImageRoutes);
+router.use('/v1/settings', settingsRoutes);
+router.use('/v1/community', communityRoutes);
+router.use('/v1/moderation', moderationRoutes);
+router.use('/v1/admin', adminRoutes);
+router.use('/v1/sync', syncRoutes);
 
 // Health check for API routes
 router.get('/health', (_req, res) => {
@@ -40,6 +56,14 @@ router.get('/', (_req, res) => {
       ammo: '/api/v1/ammo',
       dope: '/api/v1/dope',
       environment: '/api/v1/environment',
+      ballistics: '/api/v1/ballistics',
+      range_sessions: '/api/v1/range-sessions',
+      target_images: '/api/v1/target-images',
+      settings: '/api/v1/settings',
+      community: '/api/v1/community',
+      moderation: '/api/v1/moderation',
+      admin: '/api/v1/admin',
+      sync: '/api/v1/sync',
     },
     documentation: '/api-docs (coming soon)',
   });
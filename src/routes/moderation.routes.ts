@@ -0,0 +1,128 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import ModerationController from '../controllers/ModerationController';
+import { validate, validatePagination, validateId } from '../middlewares/validation';
+import { authenticate, authorize } from '../middlewares/auth';
+import { convertUnits } from '../middlewares/units';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+/**
+ * Moderation Routes
+ *
+ * Defines the community ammo review queue and moderation history.
+ */
+
+const router = Router();
+
+// All moderation routes require a moderator or admin
+router.use(authenticate);
+router.use(authorize('moderator', 'admin'));
+router.use(convertUnits);
+
+const reasonRequired = body('reason')
+  .trim()
+  .notEmpty()
+  .withMessage('Reason is required')
+  .isLength({ max: 5000 });
+
+/**
+ * @route   GET /api/v1/moderation/community/ammo
+ * @desc    List community ammo awaiting review (pending by default), oldest first
+ * @access  Moderator
+ */
+router.get(
+  '/community/ammo',
+  validatePagination,
+  validate([query('status').optional().isIn(['pending', 'disputed', 'verified', 'rejected'])]),
+  asyncHandler(ModerationController.queue.bind(ModerationController)),
+);
+
+/**
+ * @route   POST /api/v1/moderation/community/ammo/:id/verify
+ * @desc    Verify community ammo
+ * @access  Moderator
+ */
+router.post(
+  '/community/ammo/:id/verify',
+  validateId('id'),
+  validate([body('reason').optional().trim().isLength({ max: 5000 })]),
+  asyncHandler(ModerationController.verify.bind(ModerationController)),
+);
+
+/**
+ * @route   POST /api/v1/moderation/community/ammo/:id/reject
+ * @desc    Reject community ammo with a reason
+ * @access  Moderator
+ */
+router.post(
+  '/community/ammo/:id/reject',
+  validateId('id'),
+  validate([reasonRequired]),
+  asyncHandler(ModerationController.reject.bind(ModerationController)),
+);
+
+/**
+ * @route   POST /api/v1/moderation/community/ammo/:id/dispute
+ * @desc    Mark community ammo as disputed with a reason
+ * @access  Moderator
+ */
+router.post(
+  '/community/ammo/:id/dispute',
+  validateId('id'),
+  validate([reasonRequired]),
+  asyncHandler(ModerationController.dispute.bind(ModerationController)),
+);
+
+/**
+ * @route   GET /api/v1/moderation/community/ammo/:id/duplicates
+ * @desc    Find likely duplicates of an entry
+ * @access  Moderator
+ */
+router.get(
+  '/community/ammo/:id/duplicates',
+  validateId('id'),
+  asyncHandler(ModerationController.duplicates.bind(ModerationController)),
+);
+
+/**
+ * @route   POST /api/v1/moderation/community/ammo/:id/merge
+ * @desc    Merge a duplicate into this entry (votes, usage count and provenance)
+ * @access  Moderator
+ */
+router.post(
+  '/community/ammo/:id/merge',
+  validateId('id'),
+  validate([
+    body('duplicate_id').isInt({ min: 1 }).withMessage('Valid duplicate ID is required'),
+    body('reason').optional().trim().isLength({ max: 5000 }),
+  ]),
+  asyncHandler(ModerationController.merge.bind(ModerationController)),
+);
+
+/**
+ * @route   GET /api/v1/moderation/community/ammo/:id/history
+ * @desc    Get the moderation history of one entry
+ * @access  Moderator
+ */
+router.get(
+  '/community/ammo/:id/history',
+  validateId('id'),
+  asyncHandler(ModerationController.ammoHistory.bind(ModerationController)),
+);
+
+/**
+ * @route   GET /api/v1/moderation/history
+ * @desc    List every moderation decision, newest first
+ * @access  Moderator
+ */
+router.get(
+  '/history',
+  validatePagination,
+  validate([
+    query('moderator_id').optional().isInt({ min: 1 }),
+    query('action').optional().isIn(['verify', 'reject', 'dispute', 'merge']),
+  ]),
+  asyncHandler(ModerationController.history.bind(ModerationController)),
+);
+
+export default router;
@@ -0,0 +1,153 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import RangeSessionController from '../controllers/RangeSessionController';
+import { validate, validatePagination, validateId } from '../middlewares/validation';
+import { authenticate } from '../middlewares/auth';
+import { convertUnits } from '../middlewares/units';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+/**
+ * Range Session Routes
+ *
+ * Defines range session endpoints with start/stop semantics.
+ */
+
+const router = Router();
+
+// All range session routes require authentication
+router.use(authenticate);
+router.use(convertUnits);
+
+/**
+ * @route   GET /api/v1/range-sessions/active
+ * @desc    Get the active range session
+ * @access  Private
+ */
+router.get('/active', asyncHandler(RangeSessionController.getActive.bind(RangeSessionController)));
+
+/**
+ * @route   GET /api/v1/range-sessions
+ * @desc    Get all range sessions for authenticated user
+ * @access  Private
+ */
+router.get(
+  '/',
+  validatePagination,
+  validate([
+    query('rifle_id').optional().isInt({ min: 1 }),
+    query('ammo_id').optional().isInt({ min: 1 }),
+    query('active').optional().isIn(['true', 'false']),
+    query('date_from').optional().isISO8601(),
+    query('date_to').optional().isISO8601(),
+  ]),
+  asyncHandler(RangeSessionController.getAll.bind(RangeSessionController)),
+);
+
+/**
+ * @route   GET /api/v1/range-sessions/:id
+ * @desc    Get single range session
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  validateId('id'),
+  asyncHandler(RangeSessionController.getById.bind(RangeSessionController)),
+);
+
+/**
+ * @route   GET /api/v1/range-sessions/:id/summary
+ * @desc    Get session logs, hit rate, rounds fired and condition changes
+ * @access  Private
+ */
+router.get(
+  '/:id/summary',
+  validateId('id'),
+  asyncHandler(RangeSessionController.getSummary.bind(RangeSessionController)),
+);
+
+/**
+ * @route   POST /api/v1/range-sessions
+ * @desc    Start a range session (rifle defaults to the default_rifle_id setting)
+ * @access  Private
+ */
+router.post(
+  '/',
+  validate([
+    body('rifle_id').optional().isInt({ min: 1 }).withMessage('Valid rifle ID is required'),
+    body('ammo_id').isInt({ min: 1 }).withMessage('Valid ammo ID is required'),
+    body('environment_id')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Environment ID must be a positive integer'),
+    body('distance')
+      .isFloat({ min: 0.01, max: 3000 })
+      .withMessage('Distance must be between 0 and 3000 yards'),
+    body('session_name')
+      .optional()
+      .trim()
+      .isLength({ max: 255 })
+      .withMessage('Session name must be at most 255 characters'),
+    body('start_time').optional().isISO8601().withMessage('Start time must be a valid date'),
+    body('cold_bore_shot')
+      .optional()
+      .isBoolean()
+      .withMessage('Cold bore shot must be a boolean')
+      .toBoolean(),
+    body('notes').optional().trim().isLength({ max: 5000 }),
+  ]),
+  asyncHandler(RangeSessionController.start.bind(RangeSessionController)),
+);
+
+/**
+ * @route   POST /api/v1/range-sessions/:id/stop
+ * @desc    Stop an active range session
+ * @access  Private
+ */
+router.post(
+  '/:id/stop',
+  validateId('id'),
+  validate([
+    body('end_time').optional().isISO8601().withMessage('End time must be a valid date'),
+    body('shot_count')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Shot count must be a non-negative integer')
+      .toInt(),
+    body('notes').optional().trim().isLength({ max: 5000 }),
+  ]),
+  asyncHandler(RangeSessionController.stop.bind(RangeSessionController)),
+);
+
+/**
+ * @route   PUT /api/v1/range-sessions/:id
+ * @desc    Update range session
+ * @access  Private
+ */
+router.put(
+  '/:id',
+  validateId('id'),
+  validate([
+    body('environment_id').optional().isInt({ min: 1 }).toInt(),
+    body('distance').optional().isFloat({ min: 0.01, max: 3000 }),
+    body('session_name').optional({ nullable: true }).trim().isLength({ max: 255 }),
+    body('start_time').optional().isISO8601(),
+    body('end_time').optional({ nullable: true }).isISO8601(),
+    body('shot_count').optional().isInt({ min: 0 }),
+    body('cold_bore_shot').optional().isBoolean().toBoolean(),
+    body('notes').optional({ nullable: true }).trim().isLength({ max: 5000 }),
+  ]),
+  asyncHandler(RangeSessionController.update.bind(RangeSessionController)),
+);
+
+/**
+ * @route   DELETE /api/v1/range-sessions/:id
+ * @desc    Delete range session (logs are kept and unlinked)
+ * @access  Private
+ */
+router.delete(
+  '/:id',
+  validateId('id'),
+  asyncHandler(RangeSessionController.delete.bind(RangeSessionController)),
+);
+
+export default router;
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { body, query } from 'express-validator';
 import RifleProfileController from '../controllers/RifleProfileController';
+import ColdBoreShotController from '../controllers/ColdBoreShotController';
 import { validate, validatePagination, validateId } from '../middlewares/validation';
 import { authenticate } from '../middlewares/auth';
+import { convertUnits } from '../middlewares/units';
 import { asyncHandler } from '../middlewares/errorHandler';
 
 /**
@@ -15,6 +17,7 @@ const router = Router();
 
 // All rifle routes require authentication
 router.use(authenticate);
+router.use(convertUnits);
 
 /**
  * @route   GET /api/v1/rifles
@@ -80,6 +83,10 @@ router.post(
       .trim()
       .matches(/^1:\d+$/)
       .withMessage('Twist rate must be in format "1:X"'),
+    body('twist_direction')
+      .optional()
+      .isIn(['right', 'left'])
+      .withMessage('Twist direction must be right or left'),
     body('zero_distance')
       .isFloat({ min: 0.01, max: 1000 })
       .withMessage('Zero distance must be between 0 and 1000 yards'),
@@ -125,6 +132,10 @@ router.put(
   '/:id',
   validateId('id'),
   validate([
+    body('row_version')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Row version must be a non-negative integer'),
     body('name')
       .optional()
       .trim()
@@ -143,6 +154,7 @@ router.put(
       .optional()
       .trim()
       .matches(/^1:\d+$/),
+    body('twist_direction').optional().isIn(['right', 'left']),
     body('zero_distance')
       .optional()
       .isFloat({ min: 0.01, max: 1000 }),
@@ -189,4 +201,141 @@ router.delete(
   asyncHandler(RifleProfileController.delete.bind(RifleProfileController))
 );
 
+// Cold-bore shots for a rifle
+const coldBoreFilters = [
+  query('ammo_id').optional().isInt({ min: 1 }),
+  query('date_from').optional().isISO8601(),
+  query('date_to').optional().isISO8601(),
+];
+
+/**
+ * @route   GET /api/v1/rifles/:id/cold-bore-shots
+ * @desc    Get cold-bore shots for a rifle
+ * @access  Private
+ */
+router.get(
+  '/:id/cold-bore-shots',
+  validateId('id'),
+  validate(coldBoreFilters),
+  asyncHandler(ColdBoreShotController.getAll.bind(ColdBoreShotController)),
+);
+
+/**
+ * @route   GET /api/v1/rifles/:id/cold-bore-shots/analysis
+ * @desc    Cold vs warm bore point-of-impact shift and first-shot hold
+ * @access  Private
+ */
+router.get(
+  '/:id/cold-bore-shots/analysis',
+  validateId('id'),
+  validate(coldBoreFilters),
+  asyncHandler(ColdBoreShotController.getAnalysis.bind(ColdBoreShotController)),
+);
+
+/**
+ * @route   GET /api/v1/rifles/:id/cold-bore-shots/:shotId
+ * @desc    Get cold-bore shot
+ * @access  Private
+ */
+router.get(
+  '/:id/cold-bore-shots/:shotId',
+  validateId('id'),
+  validateId('shotId'),
+  asyncHandler(ColdBoreShotController.getById.bind(ColdBoreShotController)),
+);
+
+/**
+ * @route   POST /api/v1/rifles/:id/cold-bore-shots
+ * @desc    Record a cold-bore shot
+ * @access  Private
+ */
+router.post(
+  '/:id/cold-bore-shots',
+  validateId('id'),
+  validate([
+    body('offset_horizontal')
+      .isFloat({ min: -100, max: 100 })
+      .withMessage('Horizontal offset must be between -100 and 100 inches'),
+    body('offset_vertical')
+      .isFloat({ min: -100, max: 100 })
+      .withMessage('Vertical offset must be between -100 and 100 inches'),
+    body('distance_yards')
+      .optional()
+      .isFloat({ min: 0.01, max: 3000 })
+      .withMessage('Distance must be between 0 and 3000 yards'),
+    body('warm_offset_horizontal')
+      .optional({ nullable: true })
+      .isFloat({ min: -100, max: 100 })
+      .withMessage('Warm horizontal offset must be between -100 and 100 inches'),
+    body('warm_offset_vertical')
+      .optional({ nullable: true })
+      .isFloat({ min: -100, max: 100 })
+      .withMessage('Warm vertical offset must be between -100 and 100 inches'),
+    body('warm_shot_count')
+      .optional({ nullable: true })
+      .isInt({ min: 1 })
+      .withMessage('Warm shot count must be a positive integer'),
+    body('days_since_cleaning')
+      .optional({ nullable: true })
+      .isInt({ min: 0, max: 3650 })
+      .withMessage('Days since cleaning must be between 0 and 3650'),
+    body('range_session_id')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Range session ID must be a positive integer')
+      .toInt(),
+    body('ammo_id')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Ammo ID must be a positive integer')
+      .toInt(),
+    body('environment_id')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Environment ID must be a positive integer')
+      .toInt(),
+    body('shot_time').optional().isISO8601().withMessage('Shot time must be a valid date'),
+    body('notes').optional().trim().isLength({ max: 5000 }),
+  ]),
+  asyncHandler(ColdBoreShotController.create.bind(ColdBoreShotController)),
+);
+
+/**
+ * @route   PUT /api/v1/rifles/:id/cold-bore-shots/:shotId
+ * @desc    Update cold-bore shot
+ * @access  Private
+ */
+router.put(
+  '/:id/cold-bore-shots/:shotId',
+  validateId('id'),
+  validateId('shotId'),
+  validate([
+    body('offset_horizontal').optional().isFloat({ min: -100, max: 100 }),
+    body('offset_vertical').optional().isFloat({ min: -100, max: 100 }),
+    body('distance_yards').optional().isFloat({ min: 0.01, max: 3000 }),
+    body('warm_offset_horizontal').optional({ nullable: true }).isFloat({ min: -100, max: 100 }),
+    body('warm_offset_vertical').optional({ nullable: true }).isFloat({ min: -100, max: 100 }),
+    body('warm_shot_count').optional({ nullable: true }).isInt({ min: 1 }),
+    body('days_since_cleaning').optional({ nullable: true }).isInt({ min: 0, max: 3650 }),
+    body('range_session_id').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
+    body('ammo_id').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
+    body('environment_id').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
+    body('shot_time').optional().isISO8601(),
+    body('notes').optional({ nullable: true }).trim().isLength({ max: 5000 }),
+  ]),
+  asyncHandler(ColdBoreShotController.update.bind(ColdBoreShotController)),
+);
+
+/**
+ * @route   DELETE /api/v1/rifles/:id/cold-bore-shots/:shotId
+ * @desc    Delete cold-bore shot
+ * @access  Private
+ */
+router.delete(
+  '/:id/cold-bore-shots/:shotId',
+  validateId('id'),
+  validateId('shotId'),
+  asyncHandler(ColdBoreShotController.delete.bind(ColdBoreShotController)),
+);
+
 export default router;
@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import SettingsController from '../controllers/SettingsController';
+import { validate } from '../middlewares/validation';
+import { authenticate } from '../middlewares/auth';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+/**
+ * Settings Routes
+ *
+ * Defines user settings endpoints. Values are validated against the
+ * settings schema in SettingsService.
+ */
+
+const router = Router();
+
+// All settings routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/settings
+ * @desc    Get all settings for authenticated user (defaults included)
+ * @access  Private
+ */
+router.get('/', asyncHandler(SettingsController.getAll.bind(SettingsController)));
+
+/**
+ * @route   GET /api/v1/settings/schema
+ * @desc    Get the known setting keys, types, allowed values and defaults
+ * @access  Private
+ */
+router.get('/schema', asyncHandler(SettingsController.getSchema.bind(SettingsController)));
+
+/**
+ * @route   GET /api/v1/settings/:key
+ * @desc    Get a single setting
+ * @access  Private
+ */
+router.get('/:key', asyncHandler(SettingsController.getOne.bind(SettingsController)));
+
+/**
+ * @route   PUT /api/v1/settings
+ * @desc    Update several settings ({ key: value, ... })
+ * @access  Private
+ */
+router.put(
+  '/',
+  validate([body().isObject().withMessage('Settings must be an object of key/value pairs')]),
+  asyncHandler(SettingsController.update.bind(SettingsController)),
+);
+
+/**
+ * @route   PUT /api/v1/settings/:key
+ * @desc    Update a single setting ({ value })
+ * @access  Private
+ */
+router.put(
+  '/:key',
+  validate([body('value').exists().withMessage('Value is required')]),
+  asyncHandler(SettingsController.updateOne.bind(SettingsController)),
+);
+
+/**
+ * @route   DELETE /api/v1/settings/:key
+ * @desc    Reset a setting to its default
+ * @access  Private
+ */
+router.delete('/:key', asyncHandler(SettingsController.reset.bind(SettingsController)));
+
+export default router;
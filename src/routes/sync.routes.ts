@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import SyncController from '../controllers/SyncController';
+import { validate, validatePagination, validateId } from '../middlewares/validation';
+import { authenticate } from '../middlewares/auth';
+import { asyncHandler } from '../middlewares/errorHandler';
+import { MAX_BATCH_SIZE } from '../services/SyncService';
+import { CONFLICT_RESOLUTIONS, CONFLICT_STRATEGIES, SYNC_ENTITY_TYPES } from '../types/sync';
+
+/**
+ * Sync Routes
+ *
+ * Defines the offline-first delta sync and sync conflict endpoints.
+ */
+
+const router = Router();
+
+// All sync routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   POST /api/v1/sync
+ * @desc    Push offline changes and pull server changes since the cursor
+ * @access  Private
+ */
+router.post(
+  '/',
+  validate([
+    body('device_id')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage('Device ID is required (max 255 characters)'),
+    body('cursor')
+      .optional({ nullable: true })
+      .isInt({ min: 0 })
+      .withMessage('Cursor must be a sync log ID'),
+    body('changes')
+      .optional()
+      .isArray({ max: MAX_BATCH_SIZE })
+      .withMessage(`Changes must be an array of at most ${MAX_BATCH_SIZE} entries`),
+    body('conflict_strategy')
+      .optional()
+      .isIn([...CONFLICT_STRATEGIES])
+      .withMessage(`Conflict strategy must be one of: ${CONFLICT_STRATEGIES.join(', ')}`),
+  ]),
+  asyncHandler(SyncController.sync.bind(SyncController)),
+);
+
+/**
+ * @route   GET /api/v1/sync/conflicts
+ * @desc    List sync conflicts (pending by default)
+ * @access  Private
+ */
+router.get(
+  '/conflicts',
+  validatePagination,
+  validate([
+    query('status').optional().isIn(['pending', 'resolved']),
+    query('entity_type')
+      .optional()
+      .isIn([...SYNC_ENTITY_TYPES]),
+  ]),
+  asyncHandler(SyncController.getConflicts.bind(SyncController)),
+);
+
+/**
+ * @route   GET /api/v1/sync/conflicts/:id
+ * @desc    Get a sync conflict with the entity's current state
+ * @access  Private
+ */
+router.get(
+  '/conflicts/:id',
+  validateId('id'),
+  asyncHandler(SyncController.getConflict.bind(SyncController)),
+);
+
+/**
+ * @route   POST /api/v1/sync/conflicts/:id/resolve
+ * @desc    Settle a pending conflict with the server, client or merged values
+ * @access  Private
+ */
+router.post(
+  '/conflicts/:id/resolve',
+  validateId('id'),
+  validate([
+    body('resolution')
+      .isIn([...CONFLICT_RESOLUTIONS])
+      .withMessage(`Resolution must be one of: ${CONFLICT_RESOLUTIONS.join(', ')}`),
+    body('data').optional().isObject().withMessage('Data must be an object of field values'),
+    body('device_id').optional().isString().trim().isLength({ min: 1, max: 255 }),
+  ]),
+  asyncHandler(SyncController.resolveConflict.bind(SyncController)),
+);
+
+export default router;
@@ -0,0 +1,174 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import TargetImageController from '../controllers/TargetImageController';
+import { validate, validatePagination, validateId } from '../middlewares/validation';
+import { authenticate, optionalAuth } from '../middlewares/auth';
+import { convertUnits, convertUploadFields } from '../middlewares/units';
+import { asyncHandler } from '../middlewares/errorHandler';
+import { imageUpload } from '../middlewares/upload';
+import { MAX_SIGNED_URL_TTL } from '../utils/signedUrl';
+
+/**
+ * Target Image Routes
+ *
+ * Defines target photo upload, POI marker and download endpoints.
+ */
+
+const router = Router();
+
+/**
+ * @route   GET /api/v1/target-images/:id/file
+ * @desc    Download image or thumbnail (access token or signed URL)
+ * @access  Private or signed URL
+ */
+router.get(
+  '/:id/file',
+  optionalAuth,
+  validateId('id'),
+  validate([
+    query('variant').optional().isIn(['original', 'thumbnail']),
+    query('expires').optional().isInt({ min: 0 }),
+    query('signature').optional().isHexadecimal(),
+  ]),
+  asyncHandler(TargetImageController.download.bind(TargetImageController)),
+);
+
+// All other target image routes require authentication
+router.use(authenticate);
+router.use(convertUnits);
+
+/**
+ * @route   GET /api/v1/target-images
+ * @desc    Get all target images for authenticated user
+ * @access  Private
+ */
+router.get(
+  '/',
+  validatePagination,
+  validate([
+    query('dope_log_id').optional().isInt({ min: 1 }),
+    query('range_session_id').optional().isInt({ min: 1 }),
+    query('target_type').optional().isString(),
+  ]),
+  asyncHandler(TargetImageController.getAll.bind(TargetImageController)),
+);
+
+/**
+ * @route   GET /api/v1/target-images/:id
+ * @desc    Get single target image with temporary download URLs
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  validateId('id'),
+  asyncHandler(TargetImageController.getById.bind(TargetImageController)),
+);
+
+/**
+ * @route   GET /api/v1/target-images/:id/analysis
+ * @desc    Get extreme spread, mean radius, CEP, dispersion and center offset
+ * @access  Private
+ */
+router.get(
+  '/:id/analysis',
+  validateId('id'),
+  asyncHandler(TargetImageController.getAnalysis.bind(TargetImageController)),
+);
+
+/**
+ * @route   GET /api/v1/target-images/:id/url
+ * @desc    Get a signed temporary download URL
+ * @access  Private
+ */
+router.get(
+  '/:id/url',
+  validateId('id'),
+  validate([
+    query('variant').optional().isIn(['original', 'thumbnail']),
+    query('expires_in').optional().isInt({ min: 60, max: MAX_SIGNED_URL_TTL }),
+  ]),
+  asyncHandler(TargetImageController.getSignedUrl.bind(TargetImageController)),
+);
+
+/**
+ * @route   POST /api/v1/target-images
+ * @desc    Upload target photo (multipart "image") for a DOPE log or range session
+ * @access  Private
+ */
+router.post(
+  '/',
+  imageUpload,
+  convertUploadFields,
+  validate([
+    body('dope_log_id')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('DOPE log ID must be a positive integer')
+      .toInt(),
+    body('range_session_id')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Range session ID must be a positive integer')
+      .toInt(),
+    body('target_type')
+      .trim()
+      .notEmpty()
+      .withMessage('Target type is required')
+      .isLength({ max: 100 })
+      .withMessage('Target type must be 100 characters or less'),
+  ]),
+  asyncHandler(TargetImageController.create.bind(TargetImageController)),
+);
+
+/**
+ * @route   PUT /api/v1/target-images/:id
+ * @desc    Update target image details
+ * @access  Private
+ */
+router.put(
+  '/:id',
+  validateId('id'),
+  validate([
+    body('dope_log_id').optional({ nullable: true }).isInt({ min: 1 }),
+    body('range_session_id').optional({ nullable: true }).isInt({ min: 1 }),
+    body('target_type').optional().trim().notEmpty().isLength({ max: 100 }),
+    body('aim_point').optional({ nullable: true }).isObject(),
+    body('scale_reference').optional({ nullable: true }).isObject(),
+  ]),
+  asyncHandler(TargetImageController.update.bind(TargetImageController)),
+);
+
+/**
+ * @route   PUT /api/v1/target-images/:id/markers
+ * @desc    Replace POI markers ([{x, y}] in image pixels) and recompute group size
+ * @access  Private
+ */
+router.put(
+  '/:id/markers',
+  validateId('id'),
+  validate([
+    body('poi_markers').isArray().withMessage('POI markers must be an array of {x, y} points'),
+    body('aim_point')
+      .optional({ nullable: true })
+      .isObject()
+      .withMessage('Aim point must be an {x, y} point'),
+    body('scale_reference')
+      .optional({ nullable: true })
+      .isObject()
+      .withMessage('Scale reference must be {from, to, inches}'),
+  ]),
+  asyncHandler(TargetImageController.updateMarkers.bind(TargetImageController)),
+);
+
+/**
+ * @route   DELETE /api/v1/target-images/:id
+ * @desc    Delete target image and its files
+ * @access  Private
+ */
+router.delete(
+  '/:id',
+  validateId('id'),
+  asyncHandler(TargetImageController.delete.bind(TargetImageController)),
+);
+
+export default router;
@@ -14,6 +14,7 @@ import { testConnection, closeConnection } from './config/database';
 import routes from './routes';
 import { errorHandler, notFoundHandler, handleUncaughtErrors } from './middlewares/errorHandler';
 import { sanitizeInput } from './middlewares/validation';
+import { negotiateUnits } from './middlewares/units';
 import logger from './utils/logger';
 
 // Load environment variables
@@ -70,8 +71,8 @@ app.get('/', (_req: Request, res: Response) => {
   });
 });
 
-// API routes
-app.use('/api', routes);
+// API routes, in the units the client asked for
+app.use('/api', negotiateUnits, routes);
 
 // 404 handler (must come after all routes)
 app.use(notFoundHandler);
@@ -104,8 +105,10 @@ async function startServer() {
   }
 }
 
-// Start the server
-startServer();
+// Start the server (tests drive the app through supertest instead)
+if (NODE_ENV !== 'test') {
+  void startServer();
+}
 
 // Graceful shutdown
 async function gracefulShutdown(signal: string) {
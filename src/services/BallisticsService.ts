@@ -0,0 +1,493 @@
+import {
+  DragModel,
+  DragPoint,
+  VelocityBand,
+  bandedBc,
+  getDragTable,
+  interpolateCd,
+} from '../utils/dragTables';
+import { angularToInches, inchesToAngular, round } from '../utils/units';
+import { calculateAtmosphere, PressureType } from '../utils/atmosphere';
+import { TwistDirection } from '../types/ballistics';
+
+/**
+ * Ballistics Service
+ *
+ * Point-mass trajectory solver. Integrates the equations of motion using
+ * standard G1/G7 drag tables, velocity-banded BCs or a custom measured
+ * drag curve, zeroes the rifle at its zero distance and
+ * reports drop, windage, velocity, energy and time of flight downrange.
+ * Second-order effects (spin drift, Coriolis/Eötvös and aerodynamic jump)
+ * are applied as deflections on top of the point-mass trajectory and
+ * reported separately.
+ *
+ * All internal calculations use feet, seconds and pounds.
+ */
+
+const GRAVITY = 32.174; // ft/s^2
+// rho0 * PI / (8 * 144) with standard sea level density of 0.0764742 lb/ft^3
+const DRAG_CONSTANT = 2.08551e-4;
+const MPH_TO_FPS = 1.4666667;
+const MAX_TIME_OF_FLIGHT = 30; // seconds
+const MIN_VELOCITY = 100; // fps
+const EARTH_ROTATION = 7.292115e-5; // rad/s
+
+export interface ShotConditions {
+  temperature: number; // Fahrenheit
+  pressure: number; // inHg
+  pressureType?: PressureType; // defaults to barometric
+  humidity: number; // percentage 0-100
+  altitude: number; // feet
+  densityAltitude: number; // feet, informational; drag uses the full atmosphere
+  windSpeed: number; // mph
+  windDirection: number; // degrees the wind comes from (0 = head, 90 = from the right)
+  latitude?: number | null; // degrees, north positive; needed for Coriolis
+}
+
+export interface SecondOrderInput {
+  stabilityFactor: number; // gyroscopic stability (Sg)
+  bulletLength: number; // calibers
+  twistDirection: TwistDirection;
+}
+
+// CUSTOM flies a measured Mach vs Cd curve; its BC is the sectional density
+export type SolverDragModel = DragModel | 'CUSTOM';
+
+export interface SolverInput {
+  muzzleVelocity: number; // fps
+  ballisticCoefficient: number;
+  dragModel: SolverDragModel;
+  dragTable?: DragPoint[]; // required for CUSTOM
+  velocityBands?: VelocityBand[]; // BC by velocity, overrides ballisticCoefficient
+  bulletWeight: number; // grains
+  scopeHeight: number; // inches over bore
+  zeroDistance: number; // yards
+  conditions: ShotConditions;
+  maxRange: number; // yards
+  rangeStep: number; // yards
+  shotAzimuth?: number; // degrees; wind direction is taken relative to this bearing
+  inclineAngle?: number; // degrees, positive = uphill; the zero is always flat
+  secondOrder?: SecondOrderInput; // omit to ignore second-order effects
+}
+
+// Deflection of the point of impact, positive = right/up
+export interface EffectDeflection {
+  inches: number;
+  mil: number;
+  moa: number;
+}
+
+export interface TrajectoryEffects {
+  spin_drift: EffectDeflection;
+  coriolis_horizontal: EffectDeflection;
+  coriolis_vertical: EffectDeflection; // Eötvös effect
+  aerodynamic_jump: EffectDeflection;
+}
+
+export interface TrajectoryPoint {
+  range_yards: number;
+  drop_inches: number; // relative to line of sight, negative = below
+  elevation_mil: number; // correction to dial, positive = up
+  elevation_moa: number;
+  windage_inches: number; // drift, positive = right
+  windage_mil: number; // correction to dial, positive = right
+  windage_moa: number;
+  velocity_fps: number;
+  mach: number;
+  energy_ftlbs: number;
+  time_of_flight: number; // seconds
+  effects?: TrajectoryEffects; // included in drop/windage totals above
+}
+
+export interface SecondOrderSummary {
+  stability_factor: number;
+  bullet_length_calibers: number;
+  twist_direction: TwistDirection;
+  latitude: number | null;
+  shot_azimuth: number | null;
+}
+
+export interface SolverResult {
+  drag_model: SolverDragModel;
+  ballistic_coefficient: number;
+  muzzle_velocity: number;
+  zero_distance: number;
+  zero_angle_moa: number;
+  atmosphere: {
+    density_ratio: number;
+    speed_of_sound_fps: number;
+  };
+  second_order: SecondOrderSummary | null;
+  trajectory: TrajectoryPoint[];
+}
+
+interface Atmosphere {
+  densityRatio: number;
+  speedOfSound: number; // fps
+}
+
+interface FlightState {
+  x: number; // downrange, ft
+  y: number; // vertical relative to line of sight, ft
+  z: number; // lateral, ft (positive = right)
+  vx: number;
+  vy: number;
+  vz: number;
+  t: number;
+}
+
+export class BallisticsService {
+  /**
+   * Solve a full trajectory for the given projectile and conditions
+   */
+  solve(input: SolverInput): SolverResult {
+    const ranges: number[] = [];
+    for (let range = 0; range <= input.maxRange + 1e-9; range += input.rangeStep) {
+      ranges.push(range);
+    }
+
+    const { atmosphere, zeroAngle, trajectory } = this.run(input, ranges);
+
+    return {
+      drag_model: input.dragModel,
+      ballistic_coefficient: input.ballisticCoefficient,
+      muzzle_velocity: input.muzzleVelocity,
+      zero_distance: input.zeroDistance,
+      zero_angle_moa: round((zeroAngle * 180 * 60) / Math.PI, 3),
+      atmosphere: {
+        density_ratio: round(atmosphere.densityRatio, 4),
+        speed_of_sound_fps: round(atmosphere.speedOfSound, 1),
+      },
+      second_order: this.describeSecondOrder(input),
+      trajectory,
+    };
+  }
+
+  /**
+   * Solve the trajectory at arbitrary ranges (yards) instead of fixed steps.
+   * Ranges the bullet never reaches are omitted.
+   */
+  solveRanges(input: SolverInput, ranges: number[]): TrajectoryPoint[] {
+    return this.run(input, ranges).trajectory;
+  }
+
+  private run(
+    input: SolverInput,
+    ranges: number[],
+  ): { atmosphere: Atmosphere; zeroAngle: number; trajectory: TrajectoryPoint[] } {
+    const atmosphere = this.getAtmosphere(input.conditions);
+    const zeroAngle = this.computeZeroAngle(input, atmosphere);
+    const sorted = Array.from(new Set(ranges)).sort((a, b) => a - b);
+
+    const states = this.fly(input, atmosphere, zeroAngle, sorted, true);
+    const trajectory: TrajectoryPoint[] = [];
+
+    states.forEach((state, index) => {
+      if (!state) {
+        return;
+      }
+      trajectory.push(this.toTrajectoryPoint(input, atmosphere, sorted[index]!, state));
+    });
+
+    return { atmosphere, zeroAngle, trajectory };
+  }
+
+  /**
+   * Find the bore angle (radians) that puts the bullet on the line of sight
+   * at the zero distance. Zeroing ignores wind and incline.
+   */
+  computeZeroAngle(input: SolverInput, atmosphere?: Atmosphere): number {
+    const atmo = atmosphere || this.getAtmosphere(input.conditions);
+    const zeroFeet = input.zeroDistance * 3;
+    let angle = 0;
+
+    for (let i = 0; i < 25; i++) {
+      const [state] = this.fly(input, atmo, angle, [input.zeroDistance], false);
+      if (!state) {
+        break;
+      }
+      if (Math.abs(state.y) < 1e-5) {
+        break;
+      }
+      angle -= state.y / zeroFeet;
+    }
+
+    return angle;
+  }
+
+  /**
+   * Derive air density ratio (humidity corrected) and speed of sound from
+   * the shot conditions
+   */
+  private getAtmosphere(conditions: ShotConditions): Atmosphere {
+    const atmosphere = calculateAtmosphere({
+      temperature: conditions.temperature,
+      pressure: conditions.pressure,
+      humidity: conditions.humidity,
+      altitude: conditions.altitude,
+      pressureType: conditions.pressureType,
+    });
+
+    return {
+      densityRatio: atmosphere.density_ratio,
+      speedOfSound: atmosphere.speed_of_sound,
+    };
+  }
+
+  /**
+   * Integrate the trajectory and capture the flight state at each requested
+   * range (yards). Ranges the bullet never reaches are returned as null.
+   * Wind and incline only apply when flying the shot as fired, not when
+   * zeroing. Coordinates are along and across the line of sight.
+   */
+  private fly(
+    input: SolverInput,
+    atmosphere: Atmosphere,
+    angle: number,
+    rangesYards: number[],
+    asFired: boolean,
+  ): Array<FlightState | null> {
+    const table = this.getTable(input);
+    const results: Array<FlightState | null> = rangesYards.map(() => null);
+    const targets = rangesYards.map((range) => range * 3);
+    const maxFeet = Math.max(...targets);
+
+    // Wind vector: headwind blows toward the shooter, wind from the right blows left
+    let windX = 0;
+    let windZ = 0;
+    if (asFired && input.conditions.windSpeed > 0) {
+      const relative =
+        ((input.conditions.windDirection - (input.shotAzimuth || 0)) * Math.PI) / 180;
+      const windFps = input.conditions.windSpeed * MPH_TO_FPS;
+      windX = -windFps * Math.cos(relative);
+      windZ = -windFps * Math.sin(relative);
+    }
+
+    // Gravity split along and across a line of sight inclined by the shot angle
+    const incline = asFired ? ((input.inclineAngle || 0) * Math.PI) / 180 : 0;
+    const gravityX = GRAVITY * Math.sin(incline);
+    const gravityY = GRAVITY * Math.cos(incline);
+
+    let state: FlightState = {
+      x: 0,
+      y: -input.scopeHeight / 12,
+      z: 0,
+      vx: input.muzzleVelocity * Math.cos(angle),
+      vy: input.muzzleVelocity * Math.sin(angle),
+      vz: 0,
+      t: 0,
+    };
+
+    let next = 0;
+    while (next < targets.length && targets[next]! <= 0) {
+      results[next] = { ...state };
+      next++;
+    }
+
+    const acceleration = (s: FlightState): [number, number, number] => {
+      const rx = s.vx - windX;
+      const ry = s.vy;
+      const rz = s.vz - windZ;
+      const airspeed = Math.sqrt(rx * rx + ry * ry + rz * rz);
+      const bc = input.velocityBands
+        ? bandedBc(input.velocityBands, airspeed)
+        : input.ballisticCoefficient;
+      const k = this.dragFactor(table, bc, atmosphere, airspeed);
+      return [-k * airspeed * rx - gravityX, -k * airspeed * ry - gravityY, -k * airspeed * rz];
+    };
+
+    while (next < targets.length && state.x < maxFeet) {
+      const speed = Math.sqrt(state.vx * state.vx + state.vy * state.vy + state.vz * state.vz);
+      if (speed < MIN_VELOCITY || state.t > MAX_TIME_OF_FLIGHT) {
+        break;
+      }
+
+      // Midpoint (RK2) step of roughly one foot of travel
+      const dt = 1 / speed;
+      const [ax1, ay1, az1] = acceleration(state);
+      const mid: FlightState = {
+        x: state.x + state.vx * dt * 0.5,
+        y: state.y + state.vy * dt * 0.5,
+        z: state.z + state.vz * dt * 0.5,
+        vx: state.vx + ax1 * dt * 0.5,
+        vy: state.vy + ay1 * dt * 0.5,
+        vz: state.vz + az1 * dt * 0.5,
+        t: state.t + dt * 0.5,
+      };
+      const [ax2, ay2, az2] = acceleration(mid);
+      const nextState: FlightState = {
+        x: state.x + mid.vx * dt,
+        y: state.y + mid.vy * dt,
+        z: state.z + mid.vz * dt,
+        vx: state.vx + ax2 * dt,
+        vy: state.vy + ay2 * dt,
+        vz: state.vz + az2 * dt,
+        t: state.t + dt,
+      };
+
+      // Capture every target range crossed during this step
+      while (next < targets.length && targets[next]! <= nextState.x) {
+        const fraction = (targets[next]! - state.x) / (nextState.x - state.x);
+        results[next] = this.interpolate(state, nextState, fraction);
+        next++;
+      }
+
+      state = nextState;
+    }
+
+    return results;
+  }
+
+  private getTable(input: SolverInput): DragPoint[] {
+    if (input.dragModel !== 'CUSTOM') {
+      return getDragTable(input.dragModel);
+    }
+    if (!input.dragTable || input.dragTable.length < 2) {
+      throw new Error('CUSTOM drag model requires a drag table');
+    }
+    return input.dragTable;
+  }
+
+  /**
+   * Drag deceleration factor such that a = factor * v^2
+   */
+  private dragFactor(
+    table: DragPoint[],
+    ballisticCoefficient: number,
+    atmosphere: Atmosphere,
+    airspeed: number,
+  ): number {
+    const cd = interpolateCd(table, airspeed / atmosphere.speedOfSound);
+    return (atmosphere.densityRatio * DRAG_CONSTANT * cd) / ballisticCoefficient;
+  }
+
+  private interpolate(a: FlightState, b: FlightState, fraction: number): FlightState {
+    const lerp = (from: number, to: number): number => from + (to - from) * fraction;
+    return {
+      x: lerp(a.x, b.x),
+      y: lerp(a.y, b.y),
+      z: lerp(a.z, b.z),
+      vx: lerp(a.vx, b.vx),
+      vy: lerp(a.vy, b.vy),
+      vz: lerp(a.vz, b.vz),
+      t: lerp(a.t, b.t),
+    };
+  }
+
+  private toTrajectoryPoint(
+    input: SolverInput,
+    atmosphere: Atmosphere,
+    rangeYards: number,
+    state: FlightState,
+  ): TrajectoryPoint {
+    const velocity = Math.sqrt(state.vx * state.vx + state.vy * state.vy + state.vz * state.vz);
+    const effects = input.secondOrder ? this.computeEffects(input, rangeYards, state) : null;
+
+    let dropInches = state.y * 12;
+    let windageInches = state.z * 12;
+    if (effects) {
+      dropInches += effects.coriolis_vertical.inches + effects.aerodynamic_jump.inches;
+      windageInches += effects.spin_drift.inches + effects.coriolis_horizontal.inches;
+    }
+
+    const point: TrajectoryPoint = {
+      range_yards: round(rangeYards, 2),
+      drop_inches: round(dropInches, 2),
+      elevation_mil: round(inchesToAngular(-dropInches, rangeYards, 'MIL'), 2),
+      elevation_moa: round(inchesToAngular(-dropInches, rangeYards, 'MOA'), 2),
+      windage_inches: round(windageInches, 2),
+      windage_mil: round(inchesToAngular(-windageInches, rangeYards, 'MIL'), 2),
+      windage_moa: round(inchesToAngular(-windageInches, rangeYards, 'MOA'), 2),
+      velocity_fps: round(velocity, 1),
+      mach: round(velocity / atmosphere.speedOfSound, 3),
+      energy_ftlbs: round((input.bulletWeight * velocity * velocity) / 450240, 1),
+      time_of_flight: round(state.t, 4),
+    };
+
+    if (effects) {
+      point.effects = effects;
+    }
+
+    return point;
+  }
+
+  /**
+   * Second-order deflections at a range:
+   * - spin drift (Litz): 1.25 * (Sg + 1.2) * TOF^1.83 inches toward the twist
+   * - Coriolis: Ω * X * t * sin(latitude) horizontally, and the Eötvös
+   *   effect Ω * X * t * cos(latitude) * sin(azimuth) vertically
+   * - aerodynamic jump (Litz): (0.01 * Sg - 0.0024 * L + 0.032) MOA per mph
+   *   of crosswind; with right-hand twist wind from the right jumps down
+   */
+  private computeEffects(
+    input: SolverInput,
+    rangeYards: number,
+    state: FlightState,
+  ): TrajectoryEffects {
+    const { stabilityFactor, bulletLength, twistDirection } = input.secondOrder!;
+    const twistSign = twistDirection === 'right' ? 1 : -1;
+
+    const spinDrift = twistSign * 1.25 * (stabilityFactor + 1.2) * Math.pow(state.t, 1.83);
+
+    let coriolisHorizontal = 0;
+    let coriolisVertical = 0;
+    const latitude = this.latitude(input);
+    if (latitude !== null) {
+      const latitudeRad = (latitude * Math.PI) / 180;
+      const base = EARTH_ROTATION * state.x * state.t * 12;
+      coriolisHorizontal = base * Math.sin(latitudeRad);
+      if (input.shotAzimuth !== undefined) {
+        coriolisVertical =
+          base * Math.cos(latitudeRad) * Math.sin((input.shotAzimuth * Math.PI) / 180);
+      }
+    }
+
+    const jumpMoaPerMph = 0.01 * stabilityFactor - 0.0024 * bulletLength + 0.032;
+    const jumpMoa = -twistSign * jumpMoaPerMph * this.crosswindFromRight(input);
+    const aerodynamicJump = angularToInches(jumpMoa, rangeYards, 'MOA');
+
+    return {
+      spin_drift: this.deflection(spinDrift, rangeYards),
+      coriolis_horizontal: this.deflection(coriolisHorizontal, rangeYards),
+      coriolis_vertical: this.deflection(coriolisVertical, rangeYards),
+      aerodynamic_jump: this.deflection(aerodynamicJump, rangeYards),
+    };
+  }
+
+  private describeSecondOrder(input: SolverInput): SecondOrderSummary | null {
+    if (!input.secondOrder) {
+      return null;
+    }
+
+    return {
+      stability_factor: round(input.secondOrder.stabilityFactor, 2),
+      bullet_length_calibers: round(input.secondOrder.bulletLength, 2),
+      twist_direction: input.secondOrder.twistDirection,
+      latitude: this.latitude(input),
+      shot_azimuth: input.shotAzimuth ?? null,
+    };
+  }
+
+  private deflection(inches: number, rangeYards: number): EffectDeflection {
+    return {
+      inches: round(inches, 2),
+      mil: round(inchesToAngular(inches, rangeYards, 'MIL'), 2),
+      moa: round(inchesToAngular(inches, rangeYards, 'MOA'), 2),
+    };
+  }
+
+  /**
+   * Crosswind component in mph, positive when blowing from the right
+   */
+  private crosswindFromRight(input: SolverInput): number {
+    const relative = ((input.conditions.windDirection - (input.shotAzimuth || 0)) * Math.PI) / 180;
+    return input.conditions.windSpeed * Math.sin(relative);
+  }
+
+  private latitude(input: SolverInput): number | null {
+    const latitude = input.conditions.latitude;
+    return latitude !== undefined && latitude !== null ? latitude : null;
+  }
+}
+
+export default new BallisticsService();
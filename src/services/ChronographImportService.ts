@@ -0,0 +1,350 @@
+import { ValidationError } from '../utils/errors';
+import { detectDelimiter, parseNumber, splitFields, splitLines } from '../utils/csv';
+import { round, VelocityUnit } from '../utils/units';
+
+/**
+ * Chronograph Import Service
+ *
+ * Parses CSV exports from LabRadar, MagnetoSpeed and Garmin Xero
+ * chronographs into shot velocities in fps, grouped into series.
+ */
+
+export type ChronographFormat = 'labradar' | 'magnetospeed' | 'garmin';
+
+export interface ParsedSeries {
+  name: string;
+  session_date: string | null; // YYYY-MM-DD when the export includes it
+  shots: Array<{ shot_number: number; velocity: number }>; // fps
+}
+
+export interface ParsedChronographFile {
+  format: ChronographFormat;
+  unit: VelocityUnit;
+  unit_source: 'file' | 'request' | 'inferred';
+  series: ParsedSeries[];
+  warnings: string[];
+}
+
+export interface ImportOptions {
+  format?: ChronographFormat; // detected when omitted
+  unit?: VelocityUnit; // overrides the unit in the file
+}
+
+interface RawSeries {
+  name: string;
+  date: string | null;
+  shots: Array<{ shot_number: number; velocity: number }>;
+  unit: VelocityUnit | null;
+}
+
+const FPS_PER_MPS = 3.28084;
+// Above this a velocity is assumed to be fps when the file has no unit
+const MAX_PLAUSIBLE_MPS = 1400;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export class ChronographImportService {
+  /**
+   * Parse an export, detecting the format and unit unless given
+   */
+  parse(content: string, options: ImportOptions = {}): ParsedChronographFile {
+    const lines = splitLines(content);
+    if (lines.length === 0) {
+      throw new ValidationError('Chronograph file is empty');
+    }
+
+    const delimiter = detectDelimiter(lines);
+    const rows = lines.map((line) => splitFields(line, delimiter));
+    const format = options.format || this.detectFormat(rows);
+
+    if (!format) {
+      throw new ValidationError(
+        'Unrecognized chronograph file; expected a LabRadar, MagnetoSpeed or Garmin Xero CSV export',
+      );
+    }
+
+    const raw = this.parseFormat(format, rows);
+    const shotCount = raw.reduce((sum, series) => sum + series.shots.length, 0);
+    if (shotCount === 0) {
+      throw new ValidationError(`No shots found in ${format} file`);
+    }
+
+    const warnings: string[] = [];
+    const fileUnit = raw.find((series) => series.unit)?.unit || null;
+    let unit: VelocityUnit;
+    let unitSource: ParsedChronographFile['unit_source'];
+
+    if (options.unit) {
+      unit = options.unit;
+      unitSource = 'request';
+      if (fileUnit && fileUnit !== options.unit) {
+        warnings.push(`File reports ${fileUnit} but ${options.unit} was requested`);
+      }
+    } else if (fileUnit) {
+      unit = fileUnit;
+      unitSource = 'file';
+    } else {
+      unit = this.inferUnit(raw);
+      unitSource = 'inferred';
+      warnings.push(`Velocity unit not found in file; assumed ${unit} from the values`);
+    }
+
+    const series = raw.map((entry) => ({
+      name: entry.name,
+      session_date: entry.date,
+      shots: entry.shots.map((shot) => ({
+        shot_number: shot.shot_number,
+        velocity: unit === 'mps' ? round(shot.velocity * FPS_PER_MPS, 1) : shot.velocity,
+      })),
+    }));
+
+    if (series.some((entry) => !entry.session_date)) {
+      warnings.push('Session date not found in file for every series');
+    }
+
+    return { format, unit, unit_source: unitSource, series, warnings };
+  }
+
+  /**
+   * Identify the device from header text
+   */
+  detectFormat(rows: string[][]): ChronographFormat | null {
+    const text = rows
+      .slice(0, 40)
+      .map((row) => row.join(' '))
+      .join('\n')
+      .toLowerCase();
+
+    if (text.includes('labradar') || (text.includes('shot id') && text.includes('v0'))) {
+      return 'labradar';
+    }
+    if (text.includes('xero') || /speed \((fps|mps|m\/s|ft\/s)\)/.test(text)) {
+      return 'garmin';
+    }
+    if (text.includes('magnetospeed') || (text.includes('series') && text.includes('speed'))) {
+      return 'magnetospeed';
+    }
+    return null;
+  }
+
+  /**
+   * Whether two strings of velocities are the same readings, in any order
+   */
+  isDuplicate(existing: number[], incoming: number[]): boolean {
+    if (existing.length !== incoming.length || existing.length === 0) {
+      return false;
+    }
+    const key = (values: number[]): string =>
+      values
+        .map((value) => round(Number(value), 1))
+        .sort((a, b) => a - b)
+        .join(',');
+    return key(existing) === key(incoming);
+  }
+
+  private parseFormat(format: ChronographFormat, rows: string[][]): RawSeries[] {
+    switch (format) {
+      case 'labradar':
+        return [this.parseLabRadar(rows)];
+      case 'magnetospeed':
+        return this.parseMagnetoSpeed(rows);
+      case 'garmin':
+        return [this.parseGarmin(rows)];
+    }
+  }
+
+  /**
+   * LabRadar: key/value header ("Series No", "Units velocity") followed by
+   * a "Shot ID;V0;...;Date;Time" table
+   */
+  private parseLabRadar(rows: string[][]): RawSeries {
+    let name = 'LabRadar';
+    let unit: VelocityUnit | null = null;
+    let date: string | null = null;
+    const shots: RawSeries['shots'] = [];
+    let columns: { shot: number; velocity: number; date: number } | null = null;
+
+    rows.forEach((row) => {
+      const label = (row[0] || '').toLowerCase();
+
+      if (!columns) {
+        if (label === 'series no') {
+          name = `LabRadar series ${row[1]}`;
+        } else if (label === 'units velocity') {
+          unit = this.parseUnit(row[1]);
+        } else if (label === 'shot id') {
+          const lower = row.map((field) => field.toLowerCase());
+          columns = {
+            shot: 0,
+            velocity: lower.indexOf('v0'),
+            date: lower.indexOf('date'),
+          };
+        }
+        return;
+      }
+
+      const shotNumber = parseNumber(row[columns.shot]);
+      const velocity = parseNumber(row[columns.velocity]);
+      if (shotNumber === null || velocity === null || velocity <= 0) {
+        return;
+      }
+      shots.push({ shot_number: shotNumber, velocity });
+      if (!date && columns.date >= 0) {
+        date = this.parseDate(row[columns.date]);
+      }
+    });
+
+    return { name, date, shots, unit };
+  }
+
+  /**
+   * MagnetoSpeed: one block per series with a "Series,Shot,Speed,Units"
+   * table; summary rows (Min, Max, Avg, ES, SD) are ignored
+   */
+  private parseMagnetoSpeed(rows: string[][]): RawSeries[] {
+    const series = new Map<string, RawSeries>();
+    let columns: { series: number; shot: number; speed: number; units: number } | null = null;
+    let date: string | null = null;
+
+    rows.forEach((row) => {
+      const lower = row.map((field) => field.toLowerCase());
+
+      if (lower.includes('shot') && lower.includes('speed')) {
+        columns = {
+          series: lower.indexOf('series'),
+          shot: lower.indexOf('shot'),
+          speed: lower.indexOf('speed'),
+          units: lower.indexOf('units'),
+        };
+        return;
+      }
+
+      if (lower[0] === 'date' && row[1]) {
+        date = this.parseDate(row[1]) || date;
+        return;
+      }
+
+      if (!columns) {
+        return;
+      }
+
+      const shotNumber = parseNumber(row[columns.shot]);
+      const velocity = parseNumber(row[columns.speed]);
+      if (shotNumber === null || velocity === null || velocity <= 0) {
+        return;
+      }
+
+      const seriesId = columns.series >= 0 ? row[columns.series] || '1' : '1';
+      const entry = series.get(seriesId) || {
+        name: `MagnetoSpeed series ${seriesId}`,
+        date: null,
+        shots: [],
+        unit: null,
+      };
+      entry.shots.push({ shot_number: shotNumber, velocity });
+      if (!entry.unit && columns.units >= 0) {
+        entry.unit = this.parseUnit(row[columns.units]);
+      }
+      series.set(seriesId, entry);
+    });
+
+    return Array.from(series.values()).map((entry) => ({ ...entry, date }));
+  }
+
+  /**
+   * Garmin Xero: "#,SPEED (FPS),..." table followed by summary rows,
+   * including "DATE"
+   */
+  private parseGarmin(rows: string[][]): RawSeries {
+    let unit: VelocityUnit | null = null;
+    let date: string | null = null;
+    const shots: RawSeries['shots'] = [];
+    let speedColumn = -1;
+
+    rows.forEach((row) => {
+      const lower = row.map((field) => field.toLowerCase());
+      const speedHeader = lower.findIndex((field) => field.startsWith('speed ('));
+
+      if (speedHeader >= 0) {
+        speedColumn = speedHeader;
+        unit = this.parseUnit(lower[speedHeader]!.replace(/^speed \(|\)$/g, ''));
+        return;
+      }
+
+      if (lower[0] === 'date' || lower[0] === 'session date') {
+        date = this.parseDate(row[1]) || date;
+        return;
+      }
+
+      if (speedColumn < 0) {
+        return;
+      }
+
+      const shotNumber = parseNumber(row[0]);
+      const velocity = parseNumber(row[speedColumn]);
+      if (shotNumber !== null && velocity !== null && velocity > 0) {
+        shots.push({ shot_number: shotNumber, velocity });
+      }
+    });
+
+    return { name: 'Garmin Xero', date, shots, unit };
+  }
+
+  private parseUnit(value: string | undefined): VelocityUnit | null {
+    const unit = (value || '').toLowerCase().replace(/\s/g, '');
+    if (['fps', 'ft/s', 'f/s'].includes(unit)) {
+      return 'fps';
+    }
+    if (['mps', 'm/s', 'ms'].includes(unit)) {
+      return 'mps';
+    }
+    return null;
+  }
+
+  /**
+   * Rifle velocities in m/s rarely exceed 1,400; fps readings almost
+   * always do
+   */
+  private inferUnit(series: RawSeries[]): VelocityUnit {
+    const velocities = series.flatMap((entry) => entry.shots.map((shot) => shot.velocity));
+    const average = velocities.reduce((sum, value) => sum + value, 0) / velocities.length;
+    return average > MAX_PLAUSIBLE_MPS ? 'fps' : 'mps';
+  }
+
+  /**
+   * Normalize dates such as 2024-05-01, 05-01-2024, 05/01/2024 and
+   * "May 1, 2024 at 10:20" to YYYY-MM-DD
+   */
+  parseDate(value: string | undefined): string | null {
+    if (!value) {
+      return null;
+    }
+    const text = value.trim();
+    const pad = (n: number): string => String(n).padStart(2, '0');
+    const format = (year: number, month: number, day: number): string | null =>
+      month >= 1 && month <= 12 && day >= 1 && day <= 31
+        ? `${year}-${pad(month)}-${pad(day)}`
+        : null;
+
+    let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    if (match) {
+      return format(Number(match[1]), Number(match[2]), Number(match[3]));
+    }
+
+    // Device exports use US month-first order
+    match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/);
+    if (match) {
+      return format(Number(match[3]), Number(match[1]), Number(match[2]));
+    }
+
+    match = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})/i);
+    if (match) {
+      const month = MONTHS.indexOf(match[1]!.toLowerCase()) + 1;
+      return month > 0 ? format(Number(match[3]), month, Number(match[2])) : null;
+    }
+
+    return null;
+  }
+}
+
+export default new ChronographImportService();
@@ -0,0 +1,197 @@
+import { linearRegression, mean, standardDeviation } from '../utils/statistics';
+import { convertAngular, inchesToAngular, INCHES_PER_MOA_AT_100, round } from '../utils/units';
+
+/**
+ * Cold Bore Service
+ *
+ * Compares cold-bore impacts with the warm-bore group center to find how
+ * far the first shot of the day strays, and how much to hold for it.
+ * Offsets are compared as angles since shots are logged at any distance.
+ */
+
+export interface ColdBoreRecord {
+  distance_yards: number;
+  offset_horizontal: number; // inches, positive = right
+  offset_vertical: number; // inches, positive = high
+  warm_offset_horizontal?: number | null;
+  warm_offset_vertical?: number | null;
+  days_since_cleaning?: number | null;
+}
+
+export interface AngularOffset {
+  horizontal_moa: number;
+  vertical_moa: number;
+  horizontal_mil: number;
+  vertical_mil: number;
+}
+
+export interface OffsetStats extends AngularOffset {
+  count: number;
+  horizontal_sd_moa: number | null; // null below 2 shots
+  vertical_sd_moa: number | null;
+  inches_at_100: { horizontal: number; vertical: number };
+}
+
+export interface CleaningTrend {
+  count: number;
+  horizontal_moa_per_day: number;
+  vertical_moa_per_day: number;
+  vertical_r_squared: number;
+}
+
+export interface ColdBoreAnalysis {
+  shot_count: number;
+  paired_count: number; // shots with a warm-bore group center
+  reference: 'warm_bore' | 'point_of_aim' | null;
+  cold_impact: OffsetStats | null; // cold shots from point of aim
+  warm_impact: OffsetStats | null; // warm group centers from point of aim
+  shift: OffsetStats | null; // cold minus reference
+  hold: AngularOffset | null; // correction for the cold shot
+  cleaning_trend: CleaningTrend | null;
+}
+
+interface Point {
+  horizontal: number; // MOA
+  vertical: number; // MOA
+}
+
+export class ColdBoreService {
+  /**
+   * Shift of cold-bore impacts from the warm-bore center. Only shots with
+   * a warm-bore center are compared when any have one; otherwise the rifle
+   * is assumed zeroed warm and the shift is measured from point of aim.
+   */
+  analyze(records: ColdBoreRecord[]): ColdBoreAnalysis {
+    const paired = records.filter((record) => this.hasWarm(record));
+    const compared = paired.length > 0 ? paired : records;
+
+    const shifts = compared.map((record) => {
+      const cold = this.toMoa(
+        record.offset_horizontal,
+        record.offset_vertical,
+        record.distance_yards,
+      );
+      if (!this.hasWarm(record)) {
+        return cold;
+      }
+      const warm = this.toMoa(
+        record.warm_offset_horizontal!,
+        record.warm_offset_vertical!,
+        record.distance_yards,
+      );
+      return {
+        horizontal: cold.horizontal - warm.horizontal,
+        vertical: cold.vertical - warm.vertical,
+      };
+    });
+
+    const shift = this.stats(shifts);
+    let reference: ColdBoreAnalysis['reference'] = null;
+    if (records.length > 0) {
+      reference = paired.length > 0 ? 'warm_bore' : 'point_of_aim';
+    }
+
+    return {
+      shot_count: records.length,
+      paired_count: paired.length,
+      reference,
+      cold_impact: this.stats(
+        records.map((record) =>
+          this.toMoa(record.offset_horizontal, record.offset_vertical, record.distance_yards),
+        ),
+      ),
+      warm_impact: this.stats(
+        paired.map((record) =>
+          this.toMoa(
+            record.warm_offset_horizontal!,
+            record.warm_offset_vertical!,
+            record.distance_yards,
+          ),
+        ),
+      ),
+      shift,
+      hold: shift ? this.angular(-shift.horizontal_moa, -shift.vertical_moa) : null,
+      cleaning_trend: this.cleaningTrend(compared, shifts),
+    };
+  }
+
+  /**
+   * Change in shift per day since cleaning; null without enough shots
+   * across different cleaning intervals
+   */
+  private cleaningTrend(records: ColdBoreRecord[], shifts: Point[]): CleaningTrend | null {
+    const days: number[] = [];
+    const horizontal: number[] = [];
+    const vertical: number[] = [];
+
+    records.forEach((record, index) => {
+      if (record.days_since_cleaning !== null && record.days_since_cleaning !== undefined) {
+        days.push(Number(record.days_since_cleaning));
+        horizontal.push(shifts[index]!.horizontal);
+        vertical.push(shifts[index]!.vertical);
+      }
+    });
+
+    const horizontalFit = days.length >= 3 ? linearRegression(days, horizontal) : null;
+    const verticalFit = days.length >= 3 ? linearRegression(days, vertical) : null;
+    if (!horizontalFit || !verticalFit) {
+      return null;
+    }
+
+    return {
+      count: days.length,
+      horizontal_moa_per_day: round(horizontalFit.slope, 3),
+      vertical_moa_per_day: round(verticalFit.slope, 3),
+      vertical_r_squared: round(verticalFit.r_squared, 3),
+    };
+  }
+
+  private stats(points: Point[]): OffsetStats | null {
+    if (points.length === 0) {
+      return null;
+    }
+
+    const horizontal = points.map((point) => point.horizontal);
+    const vertical = points.map((point) => point.vertical);
+    const meanHorizontal = mean(horizontal);
+    const meanVertical = mean(vertical);
+
+    return {
+      count: points.length,
+      ...this.angular(meanHorizontal, meanVertical),
+      horizontal_sd_moa: points.length > 1 ? round(standardDeviation(horizontal), 2) : null,
+      vertical_sd_moa: points.length > 1 ? round(standardDeviation(vertical), 2) : null,
+      inches_at_100: {
+        horizontal: round(meanHorizontal * INCHES_PER_MOA_AT_100, 2),
+        vertical: round(meanVertical * INCHES_PER_MOA_AT_100, 2),
+      },
+    };
+  }
+
+  private angular(horizontalMoa: number, verticalMoa: number): AngularOffset {
+    return {
+      horizontal_moa: round(horizontalMoa, 2),
+      vertical_moa: round(verticalMoa, 2),
+      horizontal_mil: round(convertAngular(horizontalMoa, 'MOA', 'MIL'), 2),
+      vertical_mil: round(convertAngular(verticalMoa, 'MOA', 'MIL'), 2),
+    };
+  }
+
+  private toMoa(horizontal: number, vertical: number, distanceYards: number): Point {
+    return {
+      horizontal: inchesToAngular(Number(horizontal), Number(distanceYards), 'MOA'),
+      vertical: inchesToAngular(Number(vertical), Number(distanceYards), 'MOA'),
+    };
+  }
+
+  private hasWarm(record: ColdBoreRecord): boolean {
+    return (
+      record.warm_offset_horizontal !== null &&
+      record.warm_offset_horizontal !== undefined &&
+      record.warm_offset_vertical !== null &&
+      record.warm_offset_vertical !== undefined
+    );
+  }
+}
+
+export default new ColdBoreService();
@@ -0,0 +1,295 @@
+import sequelize from '../config/database';
+import CommunityAmmo from '../models/CommunityAmmo';
+import CommunityAmmoVote from '../models/CommunityAmmoVote';
+import { VoteState, VoteType } from '../types/community';
+
+/**
+ * Community Vote Service
+ *
+ * Keeps the vote counters on community ammo consistent with individual
+ * votes and looks for vote rings: accounts that vote in lockstep, pile
+ * onto one submitter's entries, or arrive in a burst of fresh accounts
+ * created together. Flagged votes are kept but excluded from the counters.
+ */
+
+export interface RecordedVote extends VoteState {
+  flag_reason?: string | null;
+}
+
+export interface CounterChange {
+  score: number; // change to vote_score
+  count: number; // change to vote_count
+}
+
+export interface CastVote {
+  user_id: number;
+  ammo_id: number;
+  vote_type: VoteType;
+  submitted_by: number | null; // submitter of the voted ammo
+  created_at: Date;
+  voter_created_at: Date; // when the voting account was created
+}
+
+export interface RingAssessmentInput {
+  voter: { user_id: number; created_at: Date };
+  vote_type: VoteType;
+  ammo: { id: number; submitted_by: number | null };
+  history: CastVote[]; // the voter's earlier votes
+  related: CastVote[]; // other accounts' votes on the same ammo
+  now?: Date;
+}
+
+export interface RingAssessment {
+  flagged: boolean;
+  reasons: string[];
+  correlated_user_ids: number[]; // accounts voting together with the voter
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const VOTE_RING_THRESHOLDS = {
+  // Lockstep voting with other accounts
+  lockstep_min_shared: 4, // other entries both accounts voted on
+  lockstep_min_agreement: 0.9,
+  lockstep_min_accounts: 2,
+  // Up votes concentrated on one submitter
+  affinity_min_votes: 5,
+  affinity_min_share: 0.8,
+  // Fresh accounts created together voting the same way
+  burst_max_account_age_days: 30,
+  burst_window_hours: 24,
+  burst_account_window_hours: 72,
+  burst_min_accounts: 3, // including the voter
+};
+
+export class CommunityVoteService {
+  /**
+   * Value a vote adds to the score
+   */
+  voteValue(voteType: VoteType): number {
+    return voteType === 'up' ? 1 : -1;
+  }
+
+  /**
+   * Counter change for replacing one vote state with another.
+   * Pass null for no vote; flagged votes never count.
+   */
+  counterChange(previous: VoteState | null, next: VoteState | null): CounterChange {
+    const change = { score: 0, count: 0 };
+
+    if (previous && !previous.is_flagged) {
+      change.score -= this.voteValue(previous.vote_type);
+      change.count -= 1;
+    }
+
+    if (next && !next.is_flagged) {
+      change.score += this.voteValue(next.vote_type);
+      change.count += 1;
+    }
+
+    return change;
+  }
+
+  /**
+   * Counters for a full set of votes; flagged votes never count
+   */
+  tally(votes: VoteState[]): { vote_score: number; vote_count: number } {
+    const counted = votes.filter((vote) => !vote.is_flagged);
+    return {
+      vote_score: counted.reduce((sum, vote) => sum + this.voteValue(vote.vote_type), 0),
+      vote_count: counted.length,
+    };
+  }
+
+  /**
+   * Cast, change or (with null) retract a user's vote and update the
+   * entry's counters in one transaction. Same-direction votes from
+   * correlatedUserIds are flagged along with it.
+   */
+  async record(
+    ammoId: number,
+    userId: number,
+    next: RecordedVote | null,
+    correlatedUserIds: number[] = [],
+  ): Promise<CommunityAmmoVote | null> {
+    return sequelize.transaction(async (transaction) => {
+      const previous = await CommunityAmmoVote.findOne({
+        where: { ammo_id: ammoId, user_id: userId },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+
+      const change = this.counterChange(previous, next);
+      let vote: CommunityAmmoVote | null = null;
+
+      if (next && previous) {
+        vote = await previous.update(next, { transaction });
+      } else if (next) {
+        vote = await CommunityAmmoVote.create(
+          { ammo_id: ammoId, user_id: userId, ...next },
+          { transaction },
+        );
+      } else if (previous) {
+        await previous.destroy({ transaction });
+      }
+
+      if (next && correlatedUserIds.length > 0) {
+        const ring = await CommunityAmmoVote.findAll({
+          where: {
+            ammo_id: ammoId,
+            user_id: correlatedUserIds,
+            vote_type: next.vote_type,
+            is_flagged: false,
+          },
+          transaction,
+          lock: transaction.LOCK.UPDATE,
+        });
+
+        for (const member of ring) {
+          const flagged: VoteState = { vote_type: member.vote_type, is_flagged: true };
+          const memberChange = this.counterChange(member, flagged);
+          change.score += memberChange.score;
+          change.count += memberChange.count;
+          await member.update(
+            { is_flagged: true, flag_reason: next.flag_reason ?? null },
+            { transaction },
+          );
+        }
+      }
+
+      if (change.score !== 0 || change.count !== 0) {
+        await CommunityAmmo.increment(
+          { vote_score: change.score, vote_count: change.count },
+          { where: { id: ammoId }, transaction },
+        );
+      }
+
+      return vote;
+    });
+  }
+
+  /**
+   * Decide whether a vote looks like part of a vote ring
+   */
+  assess(input: RingAssessmentInput): RingAssessment {
+    const reasons: string[] = [];
+    const correlated = new Set<number>();
+
+    const lockstep = this.lockstepAccounts(input);
+    if (lockstep.length >= VOTE_RING_THRESHOLDS.lockstep_min_accounts) {
+      reasons.push(`Votes in lockstep with ${lockstep.length} other accounts`);
+      lockstep.forEach((userId) => correlated.add(userId));
+    }
+
+    if (this.isSubmitterFocused(input)) {
+      reasons.push("Up votes concentrated on one submitter's entries");
+    }
+
+    const burst = this.burstAccounts(input);
+    if (burst.length + 1 >= VOTE_RING_THRESHOLDS.burst_min_accounts) {
+      reasons.push(`Burst of votes from ${burst.length + 1} accounts created together`);
+      burst.forEach((userId) => correlated.add(userId));
+    }
+
+    return {
+      flagged: reasons.length > 0,
+      reasons,
+      correlated_user_ids: [...correlated].sort((a, b) => a - b),
+    };
+  }
+
+  /**
+   * Accounts that voted the same way on this ammo and agree with the
+   * voter on nearly every other entry both have voted on
+   */
+  private lockstepAccounts({
+    voter,
+    vote_type,
+    ammo,
+    history,
+    related,
+  }: RingAssessmentInput): number[] {
+    const mine = new Map<number, VoteType>();
+    history
+      .filter((vote) => vote.ammo_id !== ammo.id)
+      .forEach((vote) => mine.set(vote.ammo_id, vote.vote_type));
+
+    const byUser = this.groupByUser(related, voter.user_id);
+    const accounts: number[] = [];
+
+    byUser.forEach((votes, userId) => {
+      const target = votes.find((vote) => vote.ammo_id === ammo.id);
+      if (!target || target.vote_type !== vote_type) {
+        return;
+      }
+
+      const shared = votes.filter((vote) => mine.has(vote.ammo_id));
+      const agreed = shared.filter((vote) => mine.get(vote.ammo_id) === vote.vote_type);
+      if (
+        shared.length >= VOTE_RING_THRESHOLDS.lockstep_min_shared &&
+        agreed.length / shared.length >= VOTE_RING_THRESHOLDS.lockstep_min_agreement
+      ) {
+        accounts.push(userId);
+      }
+    });
+
+    return accounts;
+  }
+
+  /**
+   * An up vote from an account whose up votes mostly go to this submitter
+   */
+  private isSubmitterFocused({ vote_type, ammo, history }: RingAssessmentInput): boolean {
+    if (vote_type !== 'up' || ammo.submitted_by === null) {
+      return false;
+    }
+
+    const ups = history.filter((vote) => vote.vote_type === 'up' && vote.ammo_id !== ammo.id);
+    if (ups.length < VOTE_RING_THRESHOLDS.affinity_min_votes) {
+      return false;
+    }
+
+    const focused = ups.filter((vote) => vote.submitted_by === ammo.submitted_by);
+    return focused.length / ups.length >= VOTE_RING_THRESHOLDS.affinity_min_share;
+  }
+
+  /**
+   * Recent same-direction voters on this ammo whose accounts were
+   * created close to the voter's fresh account
+   */
+  private burstAccounts({ voter, vote_type, ammo, related, now }: RingAssessmentInput): number[] {
+    const at = (now ?? new Date()).getTime();
+    const windowMs = VOTE_RING_THRESHOLDS.burst_window_hours * HOUR_MS;
+    const accountWindowMs = VOTE_RING_THRESHOLDS.burst_account_window_hours * HOUR_MS;
+    const created = voter.created_at.getTime();
+
+    if (at - created > VOTE_RING_THRESHOLDS.burst_max_account_age_days * 24 * HOUR_MS) {
+      return [];
+    }
+
+    const accounts = related
+      .filter(
+        (vote) =>
+          vote.user_id !== voter.user_id &&
+          vote.ammo_id === ammo.id &&
+          vote.vote_type === vote_type &&
+          at - vote.created_at.getTime() <= windowMs &&
+          Math.abs(vote.voter_created_at.getTime() - created) <= accountWindowMs,
+      )
+      .map((vote) => vote.user_id);
+
+    return [...new Set(accounts)];
+  }
+
+  private groupByUser(votes: CastVote[], excludeUserId: number): Map<number, CastVote[]> {
+    const byUser = new Map<number, CastVote[]>();
+    votes
+      .filter((vote) => vote.user_id !== excludeUserId)
+      .forEach((vote) => {
+        byUser.set(vote.user_id, [...(byUser.get(vote.user_id) ?? []), vote]);
+      });
+    return byUser;
+  }
+}
+
+export default new CommunityVoteService();
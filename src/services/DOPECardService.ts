@@ -0,0 +1,163 @@
+import { TrajectoryPoint } from './BallisticsService';
+import { AngularUnit, convertAngular, round } from '../utils/units';
+
+/**
+ * DOPE Card Service
+ *
+ * Builds DOPE card rows from solver predictions and logged DOPE,
+ * expressed in the rifle's click unit with click counts.
+ */
+
+export type CardMode = 'predicted' | 'observed' | 'blended';
+
+export interface ObservedEntry {
+  range_yards: number;
+  elevation: number;
+  windage: number;
+  unit: AngularUnit;
+  normalized?: boolean; // converted from an inclined or canted shot
+}
+
+export interface CardOptions {
+  mode: CardMode;
+  unit: AngularUnit;
+  clickValue: number;
+  tolerance: number; // in card unit
+}
+
+export interface CardCorrection {
+  elevation: number;
+  windage: number;
+}
+
+export interface ObservedCorrection extends CardCorrection {
+  log_count: number;
+  normalized_count: number; // logs converted to flat fire
+}
+
+export interface CardRow {
+  range_yards: number;
+  source: 'predicted' | 'observed';
+  elevation: number;
+  windage: number;
+  elevation_clicks: number;
+  windage_clicks: number;
+  predicted: CardCorrection | null;
+  observed: ObservedCorrection | null;
+  difference: CardCorrection | null; // observed minus predicted
+  disagreement: boolean;
+}
+
+// Default tolerance before observed and predicted values are flagged
+export const DEFAULT_TOLERANCE_MIL = 0.2;
+
+export class DOPECardService {
+  /**
+   * Build card rows for the requested mode
+   */
+  buildCard(
+    predicted: TrajectoryPoint[],
+    observed: ObservedEntry[],
+    options: CardOptions,
+  ): CardRow[] {
+    const predictedByRange = new Map<number, CardCorrection>();
+    if (options.mode !== 'observed') {
+      predicted.forEach((point) => {
+        predictedByRange.set(Math.round(point.range_yards), {
+          elevation: options.unit === 'MIL' ? point.elevation_mil : point.elevation_moa,
+          windage: options.unit === 'MIL' ? point.windage_mil : point.windage_moa,
+        });
+      });
+    }
+
+    const observedByRange =
+      options.mode === 'predicted'
+        ? new Map<number, ObservedCorrection>()
+        : this.groupObserved(observed, options.unit);
+
+    let ranges: number[];
+    if (options.mode === 'predicted') {
+      ranges = Array.from(predictedByRange.keys());
+    } else if (options.mode === 'observed') {
+      ranges = Array.from(observedByRange.keys());
+    } else {
+      ranges = Array.from(new Set([...predictedByRange.keys(), ...observedByRange.keys()]));
+    }
+    ranges.sort((a, b) => a - b);
+
+    return ranges
+      .filter((range) => range > 0)
+      .map((range): CardRow => {
+        const prediction = predictedByRange.get(range) || null;
+        const observation = observedByRange.get(range) || null;
+        const chosen = observation || prediction!;
+
+        let difference: CardCorrection | null = null;
+        if (prediction && observation) {
+          difference = {
+            elevation: round(observation.elevation - prediction.elevation, 2),
+            windage: round(observation.windage - prediction.windage, 2),
+          };
+        }
+
+        return {
+          range_yards: range,
+          source: observation ? 'observed' : 'predicted',
+          elevation: round(chosen.elevation, 2),
+          windage: round(chosen.windage, 2),
+          elevation_clicks: this.toClicks(chosen.elevation, options.clickValue),
+          windage_clicks: this.toClicks(chosen.windage, options.clickValue),
+          predicted: prediction,
+          observed: observation,
+          difference,
+          disagreement: difference
+            ? Math.abs(difference.elevation) > options.tolerance ||
+              Math.abs(difference.windage) > options.tolerance
+            : false,
+        };
+      });
+  }
+
+  /**
+   * Average logged corrections per range, converted to the card unit
+   */
+  private groupObserved(
+    observed: ObservedEntry[],
+    unit: AngularUnit,
+  ): Map<number, ObservedCorrection> {
+    const groups = new Map<
+      number,
+      { elevation: number; windage: number; count: number; normalized: number }
+    >();
+
+    observed.forEach((entry) => {
+      const range = Math.round(entry.range_yards);
+      const group = groups.get(range) || { elevation: 0, windage: 0, count: 0, normalized: 0 };
+      group.elevation += convertAngular(entry.elevation, entry.unit, unit);
+      group.windage += convertAngular(entry.windage, entry.unit, unit);
+      group.count++;
+      if (entry.normalized) {
+        group.normalized++;
+      }
+      groups.set(range, group);
+    });
+
+    const averaged = new Map<number, ObservedCorrection>();
+    groups.forEach((group, range) => {
+      averaged.set(range, {
+        elevation: round(group.elevation / group.count, 2),
+        windage: round(group.windage / group.count, 2),
+        log_count: group.count,
+        normalized_count: group.normalized,
+      });
+    });
+
+    return averaged;
+  }
+
+  private toClicks(value: number, clickValue: number): number {
+    return clickValue > 0 ? Math.round(value / clickValue) : 0;
+  }
+}
+
+export default new DOPECardService();
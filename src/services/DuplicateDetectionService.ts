@@ -0,0 +1,261 @@
+import { Op } from 'sequelize';
+import CommunityAmmo from '../models/CommunityAmmo';
+import { VerificationStatus } from '../types/community';
+import { round } from '../utils/units';
+
+/**
+ * Duplicate Detection Service
+ *
+ * Finds community ammo entries that likely describe the same factory
+ * load. Names and calibers are normalized so spelling variants such as
+ * "6.5mm Creedmoor" and "6.5 CM" compare equal; candidates must share the
+ * caliber and bullet weight and are then scored on name similarity and
+ * ballistic coefficient proximity.
+ */
+
+export interface AmmoFingerprint {
+  manufacturer: string;
+  product_name: string;
+  caliber: string;
+  bullet_weight: number | string; // grains; DECIMAL columns may be strings
+  ballistic_coefficient_g1?: number | string | null;
+  ballistic_coefficient_g7?: number | string | null;
+}
+
+export interface DuplicateMatch<T extends AmmoFingerprint> {
+  candidate: T;
+  score: number; // 0-1
+  reasons: string[];
+}
+
+export interface DuplicateSuggestion {
+  id: number;
+  manufacturer: string;
+  product_name: string;
+  caliber: string;
+  bullet_weight: number;
+  ballistic_coefficient_g1: number | null;
+  ballistic_coefficient_g7: number | null;
+  verification_status: VerificationStatus;
+  quality_score: number;
+  match_score: number; // 0-1
+  match_reasons: string[];
+}
+
+export const DUPLICATE_THRESHOLDS = {
+  max_weight_difference: 1, // grains
+  bc_tolerance: 0.02, // difference at which BCs stop counting as close
+  min_score: 0.7,
+};
+
+// Entries scored when looking for duplicates
+const DUPLICATE_CANDIDATE_LIMIT = 500;
+
+// Score weights (sum to 1)
+const NAME_WEIGHT = 0.5;
+const WEIGHT_WEIGHT = 0.2;
+const BC_WEIGHT = 0.3;
+
+// Abbreviations used interchangeably in caliber and product names
+const TOKEN_ALIASES: Record<string, string> = {
+  cm: 'creedmoor',
+  creed: 'creedmoor',
+  win: 'winchester',
+  rem: 'remington',
+  mag: 'magnum',
+  wby: 'weatherby',
+  spl: 'special',
+  spfld: 'springfield',
+  sprg: 'springfield',
+  hdy: 'hornady',
+};
+
+// Bullet weight words and numbers say nothing about the product name
+const WEIGHT_TOKEN = /^(\d+(\.\d+)?(gr|grain|grains)?|gr|grain|grains)$/;
+
+export class DuplicateDetectionService {
+  /**
+   * Comparable caliber, e.g. ".308 Win" and "308 Winchester" both give
+   * "308 winchester"
+   */
+  normalizeCaliber(caliber: string): string {
+    return this.tokens(caliber.replace(/(\d)\s*mm\b/gi, '$1'))
+      .filter((token) => token !== 'mm')
+      .join(' ');
+  }
+
+  /**
+   * Likely duplicates of an entry among candidates, best match first
+   */
+  findDuplicates<T extends AmmoFingerprint>(
+    entry: AmmoFingerprint,
+    candidates: T[],
+  ): DuplicateMatch<T>[] {
+    return candidates
+      .map((candidate) => this.compare(entry, candidate))
+      .filter((match): match is DuplicateMatch<T> => match !== null)
+      .filter((match) => match.score >= DUPLICATE_THRESHOLDS.min_score)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Score a candidate, or null when caliber or bullet weight differ
+   */
+  compare<T extends AmmoFingerprint>(
+    entry: AmmoFingerprint,
+    candidate: T,
+  ): DuplicateMatch<T> | null {
+    if (this.normalizeCaliber(entry.caliber) !== this.normalizeCaliber(candidate.caliber)) {
+      return null;
+    }
+
+    const weightDifference = Math.abs(
+      Number(entry.bullet_weight) - Number(candidate.bullet_weight),
+    );
+    if (weightDifference > DUPLICATE_THRESHOLDS.max_weight_difference) {
+      return null;
+    }
+
+    const reasons = ['Same caliber'];
+    reasons.push(
+      weightDifference === 0
+        ? 'Same bullet weight'
+        : `Bullet weight within ${round(weightDifference, 2)} gr`,
+    );
+
+    const nameSimilarity = this.nameSimilarity(entry, candidate);
+    if (nameSimilarity > 0) {
+      reasons.push(`Name ${Math.round(nameSimilarity * 100)}% similar`);
+    }
+
+    const bc = this.bcCloseness(entry, candidate);
+    if (bc.reason) {
+      reasons.push(bc.reason);
+    }
+
+    const weightCloseness = 1 - weightDifference / DUPLICATE_THRESHOLDS.max_weight_difference;
+    const score =
+      NAME_WEIGHT * nameSimilarity + WEIGHT_WEIGHT * weightCloseness + BC_WEIGHT * bc.closeness;
+
+    return { candidate, score: round(score, 3), reasons };
+  }
+
+  /**
+   * Likely duplicates of an entry among live (not rejected or merged)
+   * entries with a similar bullet weight, best match first
+   */
+  async findLikelyDuplicates(
+    entry: AmmoFingerprint,
+    excludeId?: number,
+  ): Promise<DuplicateSuggestion[]> {
+    const weight = Number(entry.bullet_weight);
+    const tolerance = DUPLICATE_THRESHOLDS.max_weight_difference;
+
+    const candidates = await CommunityAmmo.findAll({
+      where: {
+        bullet_weight: { [Op.between]: [weight - tolerance, weight + tolerance] },
+        verification_status: { [Op.ne]: 'rejected' },
+        ...(excludeId ? { id: { [Op.ne]: excludeId } } : {}),
+      },
+      limit: DUPLICATE_CANDIDATE_LIMIT,
+    });
+
+    return this.findDuplicates(entry, candidates).map(({ candidate, score, reasons }) => ({
+      id: candidate.id,
+      manufacturer: candidate.manufacturer,
+      product_name: candidate.product_name,
+      caliber: candidate.caliber,
+      bullet_weight: Number(candidate.bullet_weight),
+      ballistic_coefficient_g1: this.optionalNumber(candidate.ballistic_coefficient_g1),
+      ballistic_coefficient_g7: this.optionalNumber(candidate.ballistic_coefficient_g7),
+      verification_status: candidate.verification_status,
+      quality_score: Number(candidate.quality_score),
+      match_score: score,
+      match_reasons: reasons,
+    }));
+  }
+
+  /**
+   * Dice coefficient of the manufacturer and product name words,
+   * ignoring caliber and bullet weight words
+   */
+  private nameSimilarity(a: AmmoFingerprint, b: AmmoFingerprint): number {
+    const words = (ammo: AmmoFingerprint): Set<string> => {
+      const caliber = new Set(this.normalizeCaliber(ammo.caliber).split(' '));
+      return new Set(
+        this.tokens(`${ammo.manufacturer} ${ammo.product_name}`).filter(
+          (token) => !caliber.has(token) && !WEIGHT_TOKEN.test(token),
+        ),
+      );
+    };
+
+    const left = words(a);
+    const right = words(b);
+    if (left.size === 0 || right.size === 0) {
+      return 0;
+    }
+
+    const shared = [...left].filter((token) => right.has(token)).length;
+    return (2 * shared) / (left.size + right.size);
+  }
+
+  /**
+   * Closeness of the BCs both entries have, 0.5 when none compare
+   */
+  private bcCloseness(
+    a: AmmoFingerprint,
+    b: AmmoFingerprint,
+  ): { closeness: number; reason: string | null } {
+    const pairs = (
+      [
+        ['G1', a.ballistic_coefficient_g1, b.ballistic_coefficient_g1],
+        ['G7', a.ballistic_coefficient_g7, b.ballistic_coefficient_g7],
+      ] as const
+    )
+      .filter(([, left, right]) => this.isPresent(left) && this.isPresent(right))
+      .map(([model, left, right]) => ({
+        model,
+        difference: Math.abs(Number(left) - Number(right)),
+      }));
+
+    if (pairs.length === 0) {
+      return { closeness: 0.5, reason: null };
+    }
+
+    const closeness =
+      pairs
+        .map(({ difference }) => Math.max(0, 1 - difference / DUPLICATE_THRESHOLDS.bc_tolerance))
+        .reduce((sum, value) => sum + value, 0) / pairs.length;
+    const reason = pairs
+      .map(({ model, difference }) => `${model} BC within ${round(difference, 4)}`)
+      .join(', ');
+
+    return { closeness, reason };
+  }
+
+  /**
+   * Lowercase words with punctuation removed and abbreviations expanded
+   */
+  private tokens(text: string): string[] {
+    return text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9.]+/g, ' ')
+      .split(' ')
+      .map((token) => token.replace(/^\.+|\.+$/g, ''))
+      .filter((token) => token.length > 0)
+      .map((token) => TOKEN_ALIASES[token] ?? token);
+  }
+
+  private isPresent(value: number | string | null | undefined): boolean {
+    return value !== null && value !== undefined && Number.isFinite(Number(value));
+  }
+
+  // DECIMAL columns come back as strings
+  private optionalNumber(value: number | null | undefined): number | null {
+    return value === null || value === undefined ? null : Number(value);
+  }
+}
+
+export default new DuplicateDetectionService();
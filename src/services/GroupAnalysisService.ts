@@ -0,0 +1,193 @@
+import { mean, standardDeviation } from '../utils/statistics';
+import { inchesToAngular, round } from '../utils/units';
+import { ValidationError } from '../utils/errors';
+import { Point, ScaleReference } from '../types/targetImage';
+
+/**
+ * Group Analysis Service
+ *
+ * Measures a shot group from the POI markers on a target photo. Pixel
+ * coordinates are scaled to inches with a reference of known length
+ * marked on the same photo, then to MOA/MIL at the shooting distance.
+ * Image y grows downward, so vertical offsets are flipped to positive = high.
+ */
+
+export interface Measurement {
+  inches: number;
+  moa: number | null; // null without a distance
+  mil: number | null;
+}
+
+export interface CenterOffset {
+  horizontal: Measurement; // positive = right
+  vertical: Measurement; // positive = high
+  radial: Measurement;
+}
+
+export interface GroupAnalysis {
+  shot_count: number;
+  distance_yards: number | null;
+  pixels_per_inch: number;
+  extreme_spread: Measurement | null; // center-to-center, null below 2 shots
+  mean_radius: Measurement;
+  cep: Measurement; // median radius, 50% of shots fall inside
+  horizontal_dispersion: Measurement; // group width
+  vertical_dispersion: Measurement; // group height
+  horizontal_sd: Measurement | null; // null below 2 shots
+  vertical_sd: Measurement | null;
+  center_offset: CenterOffset | null; // group center from point of aim
+}
+
+export class GroupAnalysisService {
+  /**
+   * Validate a scale reference given as an object or a JSON string
+   */
+  parseScaleReference(input: unknown): ScaleReference | null {
+    const reference = this.parseJson(input, 'Scale reference');
+    if (reference === null) {
+      return null;
+    }
+
+    const from = this.point(reference.from, 'Scale reference "from"');
+    const to = this.point(reference.to, 'Scale reference "to"');
+    const inches = reference.inches;
+
+    if (typeof inches !== 'number' || !Number.isFinite(inches) || inches <= 0) {
+      throw new ValidationError('Scale reference needs a positive length in inches');
+    }
+    if (this.distance(from, to) === 0) {
+      throw new ValidationError('Scale reference points must be different');
+    }
+
+    return { from, to, inches };
+  }
+
+  /**
+   * Validate an aim point given as an object or a JSON string
+   */
+  parseAimPoint(input: unknown): Point | null {
+    const aimPoint = this.parseJson(input, 'Aim point');
+    return aimPoint === null ? null : this.point(aimPoint, 'Aim point');
+  }
+
+  /**
+   * Pixels per inch along the scale reference
+   */
+  pixelsPerInch(scale: ScaleReference): number {
+    return this.distance(scale.from, scale.to) / scale.inches;
+  }
+
+  /**
+   * Group measurements; null without any shots
+   */
+  analyze(
+    markers: Point[],
+    scale: ScaleReference,
+    distanceYards: number | null,
+    aimPoint: Point | null = null,
+  ): GroupAnalysis | null {
+    if (markers.length === 0) {
+      return null;
+    }
+
+    const ppi = this.pixelsPerInch(scale);
+    const distance = distanceYards && distanceYards > 0 ? distanceYards : null;
+    const measure = (pixels: number): Measurement => this.measure(pixels / ppi, distance);
+
+    const xs = markers.map((marker) => marker.x);
+    const ys = markers.map((marker) => marker.y);
+    const center = { x: mean(xs), y: mean(ys) };
+
+    const radii = markers.map((marker) => this.distance(marker, center)).sort((a, b) => a - b);
+
+    let extremeSpread = 0;
+    markers.forEach((a, i) => {
+      markers.slice(i + 1).forEach((b) => {
+        extremeSpread = Math.max(extremeSpread, this.distance(a, b));
+      });
+    });
+
+    let centerOffset: CenterOffset | null = null;
+    if (aimPoint) {
+      centerOffset = {
+        horizontal: measure(center.x - aimPoint.x),
+        vertical: measure(aimPoint.y - center.y),
+        radial: measure(this.distance(center, aimPoint)),
+      };
+    }
+
+    const grouped = markers.length > 1;
+
+    return {
+      shot_count: markers.length,
+      distance_yards: distance,
+      pixels_per_inch: round(ppi, 3),
+      extreme_spread: grouped ? measure(extremeSpread) : null,
+      mean_radius: measure(mean(radii)),
+      cep: measure(this.median(radii)),
+      horizontal_dispersion: measure(Math.max(...xs) - Math.min(...xs)),
+      vertical_dispersion: measure(Math.max(...ys) - Math.min(...ys)),
+      horizontal_sd: grouped ? measure(standardDeviation(xs)) : null,
+      vertical_sd: grouped ? measure(standardDeviation(ys)) : null,
+      center_offset: centerOffset,
+    };
+  }
+
+  private measure(inches: number, distanceYards: number | null): Measurement {
+    return {
+      inches: round(inches, 3),
+      moa: distanceYards ? round(inchesToAngular(inches, distanceYards, 'MOA'), 2) : null,
+      mil: distanceYards ? round(inchesToAngular(inches, distanceYards, 'MIL'), 2) : null,
+    };
+  }
+
+  private median(sorted: number[]): number {
+    const middle = Math.floor(sorted.length / 2);
+    if (sorted.length % 2 === 1) {
+      return sorted[middle]!;
+    }
+    return (sorted[middle - 1]! + sorted[middle]!) / 2;
+  }
+
+  private distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+
+  private parseJson(input: unknown, name: string): Record<string, unknown> | null {
+    let value = input;
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (typeof value === 'string') {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        throw new ValidationError(`${name} must be valid JSON`);
+      }
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(`${name} must be an object`);
+    }
+    return value as Record<string, unknown>;
+  }
+
+  private point(input: unknown, name: string): Point {
+    const point = input as Record<string, unknown> | null | undefined;
+    const x = point?.x;
+    const y = point?.y;
+
+    if (
+      typeof x !== 'number' ||
+      typeof y !== 'number' ||
+      !Number.isFinite(x + y) ||
+      x < 0 ||
+      y < 0
+    ) {
+      throw new ValidationError(`${name} needs non-negative x and y`);
+    }
+
+    return { x, y };
+  }
+}
+
+export default new GroupAnalysisService();
@@ -0,0 +1,57 @@
+import { TrajectoryPoint } from './BallisticsService';
+import { inchesToAngular, round } from '../utils/units';
+
+/**
+ * Lead Service
+ *
+ * Computes holds for moving targets from the predicted time of flight:
+ * lead = target speed × sin(target angle) × time of flight.
+ */
+
+export interface MovingTarget {
+  speed: number; // mph
+  angle: number; // degrees from the line of fire, 90 = crossing left to right
+  width: number; // inches
+}
+
+export interface LeadRow {
+  range_yards: number;
+  time_of_flight: number; // seconds
+  lead_inches: number; // positive = hold right
+  lead_mil: number;
+  lead_moa: number;
+  target_widths: number;
+}
+
+// A deer vital zone or IPSC mover is roughly this wide
+export const DEFAULT_TARGET_WIDTH_INCHES = 18;
+export const DEFAULT_TARGET_ANGLE = 90;
+
+const MPH_TO_INCHES_PER_SECOND = 17.6;
+
+export class LeadService {
+  /**
+   * Lead at each trajectory point for a target moving at constant speed
+   */
+  computeLeads(points: TrajectoryPoint[], target: MovingTarget): LeadRow[] {
+    const crossingSpeed =
+      target.speed * MPH_TO_INCHES_PER_SECOND * Math.sin((target.angle * Math.PI) / 180);
+
+    return points
+      .filter((point) => point.range_yards > 0)
+      .map((point) => {
+        const leadInches = crossingSpeed * point.time_of_flight;
+
+        return {
+          range_yards: point.range_yards,
+          time_of_flight: point.time_of_flight,
+          lead_inches: round(leadInches, 1),
+          lead_mil: round(inchesToAngular(leadInches, point.range_yards, 'MIL'), 2),
+          lead_moa: round(inchesToAngular(leadInches, point.range_yards, 'MOA'), 2),
+          target_widths: target.width > 0 ? round(leadInches / target.width, 2) : 0,
+        };
+      });
+  }
+}
+
+export default new LeadService();
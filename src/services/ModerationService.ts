@@ -0,0 +1,237 @@
+import { Op } from 'sequelize';
+import sequelize from '../config/database';
+import CommunityAmmo from '../models/CommunityAmmo';
+import CommunityAmmoModeration from '../models/CommunityAmmoModeration';
+import CommunityAmmoVote from '../models/CommunityAmmoVote';
+import { ModerationAction, VerificationStatus } from '../types/community';
+import { ValidationError } from '../utils/errors';
+import CommunityVoteService from './CommunityVoteService';
+
+/**
+ * Moderation Service
+ *
+ * The review workflow for community ammo submissions: which moderation
+ * actions are allowed from each verification status and where they lead.
+ * Merged duplicates end up rejected, pointing at their canonical entry.
+ */
+
+export interface ModerationRule {
+  to: VerificationStatus;
+  from: readonly VerificationStatus[];
+  reason_required: boolean;
+}
+
+export const MODERATION_RULES: Record<ModerationAction, ModerationRule> = {
+  verify: { to: 'verified', from: ['pending', 'disputed', 'rejected'], reason_required: false },
+  reject: { to: 'rejected', from: ['pending', 'verified', 'disputed'], reason_required: true },
+  dispute: { to: 'disputed', from: ['pending', 'verified'], reason_required: true },
+  // Applies to the duplicate folded into a canonical entry
+  merge: { to: 'rejected', from: ['pending', 'verified', 'disputed'], reason_required: false },
+};
+
+export interface ModerationDecision {
+  action: ModerationAction;
+  from_status: VerificationStatus;
+  to_status: VerificationStatus;
+  reason: string | null;
+}
+
+// Data a canonical entry takes from a merged duplicate when it has none
+const MERGE_FILL_FIELDS = [
+  'ballistic_coefficient_g1',
+  'ballistic_coefficient_g7',
+  'advertised_velocity',
+  'barrel_length',
+  'data_source',
+  'notes',
+] as const;
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+export class ModerationService {
+  /**
+   * Check an action against the current status and describe the decision
+   */
+  decide(
+    current: VerificationStatus,
+    action: ModerationAction,
+    reason?: string | null,
+  ): ModerationDecision {
+    const rule = MODERATION_RULES[action];
+    const trimmed = reason?.trim() || null;
+
+    if (!rule.from.includes(current)) {
+      throw new ValidationError(`Cannot ${action} community ammo that is ${current}`);
+    }
+
+    if (rule.reason_required && !trimmed) {
+      throw new ValidationError(`A reason is required to ${action} community ammo`, [
+        { field: 'reason', message: 'Reason is required' },
+      ]);
+    }
+
+    return { action, from_status: current, to_status: rule.to, reason: trimmed };
+  }
+
+  /**
+   * Apply a moderation action to the entry and record the decision in
+   * one transaction. The entry is locked so concurrent reviews are
+   * checked against its latest status.
+   */
+  async apply(
+    ammo: CommunityAmmo,
+    moderatorId: number,
+    action: ModerationAction,
+    reason?: string | null,
+  ): Promise<CommunityAmmoModeration> {
+    return sequelize.transaction(async (transaction) => {
+      await ammo.reload({ transaction, lock: transaction.LOCK.UPDATE });
+      if (ammo.merged_into_id) {
+        throw new ValidationError(`Community ammo was merged into #${ammo.merged_into_id}`);
+      }
+      const decision = this.decide(ammo.verification_status, action, reason);
+
+      const verification =
+        decision.to_status === 'verified'
+          ? { verified_by: moderatorId, verified_at: new Date() }
+          : decision.to_status === 'rejected'
+            ? { verified_by: null, verified_at: null }
+            : {};
+
+      await ammo.update(
+        {
+          verification_status: decision.to_status,
+          moderation_reason: decision.to_status === 'verified' ? null : decision.reason,
+          ...verification,
+        },
+        { transaction },
+      );
+
+      return CommunityAmmoModeration.create(
+        {
+          ammo_id: ammo.id,
+          moderator_id: moderatorId,
+          action: decision.action,
+          from_status: decision.from_status,
+          to_status: decision.to_status,
+          reason: decision.reason,
+        },
+        { transaction },
+      );
+    });
+  }
+
+  /**
+   * Fold a duplicate into a canonical entry in one transaction. Votes
+   * move over (the canonical vote wins when a user voted on both),
+   * copies are added to usage_count, missing data is filled in and the
+   * duplicate is rejected with a pointer to the canonical entry, which
+   * keeps it as provenance. Both entries get a history row.
+   */
+  async merge(
+    canonical: CommunityAmmo,
+    duplicate: CommunityAmmo,
+    moderatorId: number,
+    reason?: string | null,
+  ): Promise<CommunityAmmoModeration> {
+    return sequelize.transaction(async (transaction) => {
+      // Lock in id order so opposite merges cannot deadlock
+      const [first, second] =
+        canonical.id < duplicate.id ? [canonical, duplicate] : [duplicate, canonical];
+      await first.reload({ transaction, lock: transaction.LOCK.UPDATE });
+      await second.reload({ transaction, lock: transaction.LOCK.UPDATE });
+
+      if (canonical.verification_status === 'rejected') {
+        throw new ValidationError('Cannot merge into rejected community ammo');
+      }
+      const decision = this.decide(duplicate.verification_status, 'merge', reason);
+
+      // Move votes, dropping those that would double up or land on the
+      // canonical submitter's own entry
+      const canonicalVotes = await CommunityAmmoVote.findAll({
+        where: { ammo_id: canonical.id },
+        attributes: ['user_id'],
+        transaction,
+      });
+      const excluded = canonicalVotes.map((vote) => vote.user_id);
+      if (canonical.submitted_by) {
+        excluded.push(canonical.submitted_by);
+      }
+      await CommunityAmmoVote.destroy({
+        where: { ammo_id: duplicate.id, user_id: excluded },
+        transaction,
+      });
+      await CommunityAmmoVote.update(
+        { ammo_id: canonical.id },
+        { where: { ammo_id: duplicate.id }, transaction },
+      );
+
+      const votes = await CommunityAmmoVote.findAll({
+        where: { ammo_id: canonical.id },
+        attributes: ['vote_type', 'is_flagged'],
+        transaction,
+      });
+
+      const filled = Object.fromEntries(
+        MERGE_FILL_FIELDS.filter(
+          (field) => isMissing(canonical[field]) && !isMissing(duplicate[field]),
+        ).map((field) => [field, duplicate[field]]),
+      ) as Partial<Pick<CommunityAmmo, (typeof MERGE_FILL_FIELDS)[number]>>;
+
+      await canonical.update(
+        {
+          ...filled,
+          ...CommunityVoteService.tally(votes),
+          usage_count: Number(canonical.usage_count) + Number(duplicate.usage_count),
+        },
+        { transaction },
+      );
+
+      await duplicate.update(
+        {
+          verification_status: decision.to_status,
+          merged_into_id: canonical.id,
+          moderation_reason: decision.reason ?? `Merged into #${canonical.id}`,
+          vote_score: 0,
+          vote_count: 0,
+          usage_count: 0,
+        },
+        { transaction },
+      );
+
+      // Duplicates merged into this one earlier now point at the new canonical
+      await CommunityAmmo.update(
+        { merged_into_id: canonical.id },
+        { where: { merged_into_id: duplicate.id, id: { [Op.ne]: canonical.id } }, transaction },
+      );
+
+      await CommunityAmmoModeration.create(
+        {
+          ammo_id: duplicate.id,
+          moderator_id: moderatorId,
+          action: 'merge',
+          from_status: decision.from_status,
+          to_status: decision.to_status,
+          reason: decision.reason ?? `Merged into #${canonical.id}`,
+        },
+        { transaction },
+      );
+
+      return CommunityAmmoModeration.create(
+        {
+          ammo_id: canonical.id,
+          moderator_id: moderatorId,
+          action: 'merge',
+          from_status: canonical.verification_status,
+          to_status: canonical.verification_status,
+          reason: `Merged #${duplicate.id}` + (decision.reason ? `: ${decision.reason}` : ''),
+        },
+        { transaction },
+      );
+    });
+  }
+}
+
+export default new ModerationService();
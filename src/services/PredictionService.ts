@@ -0,0 +1,387 @@
+import RifleProfile from '../models/RifleProfile';
+import AmmoProfile from '../models/AmmoProfile';
+import EnvironmentSnapshot from '../models/EnvironmentSnapshot';
+import CustomDragModel from '../models/CustomDragModel';
+import ShotString from '../models/ShotString';
+import { ValidationError } from '../utils/errors';
+import { DragModel } from '../utils/dragTables';
+import { PressureType, stationPressure } from '../utils/atmosphere';
+import { SecondOrderInput, ShotConditions, SolverInput } from './BallisticsService';
+import StabilityService, { StabilityResult } from './StabilityService';
+import TemperatureSensitivityService, {
+  TemperatureSensitivity,
+  VelocityAdjustment,
+} from './TemperatureSensitivityService';
+
+/**
+ * Prediction Service
+ *
+ * Loads rifle, ammo and environment profiles for a user and turns them
+ * into solver input for the ballistic engine.
+ */
+
+export interface InlineConditions {
+  temperature?: number;
+  pressure?: number;
+  pressure_type?: PressureType;
+  humidity?: number;
+  altitude?: number;
+  wind_speed?: number;
+  wind_direction?: number;
+  latitude?: number;
+}
+
+export interface PredictionParams {
+  rifle_id: number;
+  ammo_id: number;
+  environment_id?: number;
+  conditions?: InlineConditions;
+  drag_model?: DragModel;
+  max_range?: number;
+  range_step?: number;
+  shot_azimuth?: number;
+  incline_angle?: number;
+  second_order?: boolean;
+  powder_temperature?: boolean; // adjust muzzle velocity for temperature (default true)
+}
+
+export interface PredictionContext {
+  rifle: RifleProfile;
+  ammo: AmmoProfile;
+  environment: EnvironmentSnapshot | null;
+  customDrag: CustomDragModel | null;
+  velocityAdjustment: VelocityAdjustment | null;
+  input: SolverInput;
+}
+
+// ICAO standard sea level conditions, no wind
+const STANDARD_CONDITIONS = {
+  temperature: 59,
+  pressure: 29.92,
+  humidity: 0,
+  altitude: 0,
+  wind_speed: 0,
+  wind_direction: 0,
+};
+
+// Assumed bullet stability and length when no bullet geometry is stored
+const DEFAULT_STABILITY = 1.5;
+const DEFAULT_BULLET_LENGTH = 4.0; // calibers
+
+const DEFAULT_MAX_RANGE = 1000; // yards
+const DEFAULT_RANGE_STEP = 100; // yards
+
+export class PredictionService {
+  /**
+   * Load and verify ownership of the profiles referenced by the request
+   * and build the solver input
+   */
+  async loadContext(userId: number, params: PredictionParams): Promise<PredictionContext> {
+    const rifle = await RifleProfile.findOne({
+      where: { id: params.rifle_id, user_id: userId },
+    });
+
+    if (!rifle) {
+      throw new ValidationError('Invalid rifle_id: Rifle not found or does not belong to you');
+    }
+
+    const ammo = await AmmoProfile.findOne({
+      where: { id: params.ammo_id, user_id: userId },
+    });
+
+    if (!ammo) {
+      throw new ValidationError('Invalid ammo_id: Ammo not found or does not belong to you');
+    }
+
+    let environment: EnvironmentSnapshot | null = null;
+    if (params.environment_id) {
+      environment = await EnvironmentSnapshot.findOne({
+        where: { id: params.environment_id, user_id: userId },
+      });
+
+      if (!environment) {
+        throw new ValidationError(
+          'Invalid environment_id: Environment not found or does not belong to you',
+        );
+      }
+    }
+
+    const customDrag = await this.getActiveDragModel(ammo.id);
+    const conditions = this.buildConditions(environment, params.conditions);
+    const velocityAdjustment =
+      params.powder_temperature === false
+        ? null
+        : await this.getVelocityAdjustment(userId, ammo, conditions.temperature);
+    const input = this.buildSolverInput(
+      rifle,
+      ammo,
+      conditions,
+      params,
+      customDrag,
+      velocityAdjustment,
+    );
+
+    return { rifle, ammo, environment, customDrag, velocityAdjustment, input };
+  }
+
+  /**
+   * Get the active custom drag model for an ammo profile, if any
+   */
+  async getActiveDragModel(ammoId: number): Promise<CustomDragModel | null> {
+    return CustomDragModel.findOne({
+      where: { ammo_id: ammoId, is_active: true },
+      order: [['updated_at', 'DESC']],
+    });
+  }
+
+  /**
+   * Fit muzzle velocity against temperature over the ammo profile's
+   * chronograph readings
+   */
+  async getTemperatureSensitivity(userId: number, ammoId: number): Promise<TemperatureSensitivity> {
+    const shots = await ShotString.findAll({
+      where: { user_id: userId, ammo_id: ammoId },
+      order: [
+        ['session_date', 'ASC'],
+        ['shot_number', 'ASC'],
+      ],
+    });
+
+    return TemperatureSensitivityService.fit(shots);
+  }
+
+  /**
+   * Muzzle velocity adjusted for powder temperature; null when the
+   * chronograph data can't support a fit. The profile velocity is taken
+   * to be measured at muzzle_velocity_temperature, or at the average
+   * chronograph temperature when that is not recorded.
+   */
+  async getVelocityAdjustment(
+    userId: number,
+    ammo: AmmoProfile,
+    temperature: number,
+  ): Promise<VelocityAdjustment | null> {
+    const sensitivity = await this.getTemperatureSensitivity(userId, ammo.id);
+    const reference =
+      ammo.muzzle_velocity_temperature !== null && ammo.muzzle_velocity_temperature !== undefined
+        ? Number(ammo.muzzle_velocity_temperature)
+        : sensitivity.mean_temperature;
+
+    if (reference === null) {
+      return null;
+    }
+
+    return TemperatureSensitivityService.adjust(
+      Number(ammo.muzzle_velocity),
+      reference,
+      temperature,
+      sensitivity,
+    );
+  }
+
+  /**
+   * Merge snapshot values with inline overrides, falling back to
+   * standard conditions for anything not supplied
+   */
+  buildConditions(
+    environment: EnvironmentSnapshot | null,
+    inline: InlineConditions = {},
+  ): ShotConditions {
+    const pick = (key: keyof typeof STANDARD_CONDITIONS): number => {
+      if (inline[key] !== undefined && inline[key] !== null) {
+        return Number(inline[key]);
+      }
+      if (environment && environment[key] !== undefined && environment[key] !== null) {
+        return Number(environment[key]);
+      }
+      return STANDARD_CONDITIONS[key];
+    };
+
+    const temperature = pick('temperature');
+    const pressure = pick('pressure');
+    const humidity = pick('humidity');
+    const altitude = pick('altitude');
+    const pressureType: PressureType =
+      inline.pressure_type || (environment && environment.pressure_type) || 'barometric';
+
+    // Reuse the stored density altitude unless inline values changed the atmosphere
+    const atmosphereOverridden =
+      inline.temperature !== undefined ||
+      inline.pressure !== undefined ||
+      inline.pressure_type !== undefined ||
+      inline.humidity !== undefined ||
+      inline.altitude !== undefined;
+    let densityAltitude = EnvironmentSnapshot.calculateDensityAltitude(
+      temperature,
+      pressure,
+      altitude,
+      humidity,
+      pressureType,
+    );
+    if (environment && !atmosphereOverridden && environment.density_altitude !== null) {
+      densityAltitude = Number(environment.density_altitude);
+    }
+
+    return {
+      temperature,
+      pressure,
+      pressureType,
+      humidity,
+      altitude,
+      densityAltitude,
+      windSpeed: pick('wind_speed'),
+      windDirection: pick('wind_direction'),
+      latitude: this.pickLatitude(environment, inline),
+    };
+  }
+
+  /**
+   * Build solver input from rifle and ammo profiles. An active custom drag
+   * model is used unless a standard drag model is explicitly requested.
+   * When bullet geometry is known, the Miller stability factor drives the
+   * second-order effects and the BC penalty for marginal stability.
+   * A powder temperature adjustment replaces the profile muzzle velocity.
+   */
+  buildSolverInput(
+    rifle: RifleProfile,
+    ammo: AmmoProfile,
+    conditions: ShotConditions,
+    options: Pick<
+      PredictionParams,
+      'drag_model' | 'max_range' | 'range_step' | 'shot_azimuth' | 'incline_angle' | 'second_order'
+    > = {},
+    customDrag: CustomDragModel | null = null,
+    velocityAdjustment: VelocityAdjustment | null = null,
+  ): SolverInput {
+    const muzzleVelocity = velocityAdjustment
+      ? velocityAdjustment.adjusted_velocity
+      : Number(ammo.muzzle_velocity);
+    const g1 = Number(ammo.ballistic_coefficient_g1) || 0;
+    const g7 = Number(ammo.ballistic_coefficient_g7) || 0;
+    const dragModel: DragModel = options.drag_model || (g7 > 0 ? 'G7' : 'G1');
+
+    const drag = customDrag && !options.drag_model ? this.customDrag(ammo, customDrag) : null;
+    const { ballisticCoefficient, velocityBands, ...dragFields } = drag || {
+      dragModel,
+      ballisticCoefficient: dragModel === 'G7' ? g7 : g1,
+    };
+
+    if (!drag && ballisticCoefficient <= 0) {
+      throw new ValidationError(`Ammo profile has no ${dragModel} ballistic coefficient`);
+    }
+
+    // Measured drag curves already include the yaw drag of the real bullet
+    const stability = this.getStability(rifle, ammo, conditions, muzzleVelocity);
+    const bcFactor =
+      stability && dragFields.dragModel !== 'CUSTOM' ? stability.bc_correction_factor : 1;
+
+    return {
+      muzzleVelocity,
+      ballisticCoefficient: ballisticCoefficient * bcFactor,
+      velocityBands: velocityBands?.map((band) => ({ ...band, bc: band.bc * bcFactor })),
+      ...dragFields,
+      bulletWeight: Number(ammo.bullet_weight),
+      scopeHeight: Number(rifle.scope_height),
+      zeroDistance: Number(rifle.zero_distance),
+      conditions,
+      maxRange: Number(options.max_range) || DEFAULT_MAX_RANGE,
+      rangeStep: Number(options.range_step) || DEFAULT_RANGE_STEP,
+      shotAzimuth:
+        options.shot_azimuth !== undefined && options.shot_azimuth !== null
+          ? Number(options.shot_azimuth)
+          : undefined,
+      inclineAngle: Number(options.incline_angle) || 0,
+      secondOrder:
+        options.second_order === false ? undefined : this.buildSecondOrder(rifle, stability),
+    };
+  }
+
+  /**
+   * Miller stability for the rifle/ammo pair under the given conditions;
+   * null when the bullet geometry or twist rate is unknown
+   */
+  getStability(
+    rifle: RifleProfile,
+    ammo: AmmoProfile,
+    conditions: Pick<ShotConditions, 'temperature' | 'pressure' | 'pressureType' | 'altitude'>,
+    muzzleVelocity: number = Number(ammo.muzzle_velocity),
+  ): StabilityResult | null {
+    const twistRate = RifleProfile.parseTwistRate(rifle.twist_rate);
+    const bulletLength = Number(ammo.bullet_length) || 0;
+    const bulletDiameter = Number(ammo.bullet_diameter) || 0;
+
+    if (!twistRate || bulletLength <= 0 || bulletDiameter <= 0) {
+      return null;
+    }
+
+    return StabilityService.calculate({
+      bulletWeight: Number(ammo.bullet_weight),
+      bulletLength,
+      bulletDiameter,
+      twistRate,
+      muzzleVelocity,
+      temperature: conditions.temperature,
+      // Miller's atmosphere correction uses the actual pressure at the rifle
+      pressure: stationPressure(conditions.pressure, conditions.altitude, conditions.pressureType),
+    });
+  }
+
+  /**
+   * Second-order effect inputs for the rifle's twist direction; typical
+   * stability and length are used when the bullet geometry is unknown
+   */
+  private buildSecondOrder(
+    rifle: RifleProfile,
+    stability: StabilityResult | null,
+  ): SecondOrderInput {
+    return {
+      stabilityFactor: stability ? stability.stability_factor : DEFAULT_STABILITY,
+      bulletLength: stability ? stability.bullet_length_calibers : DEFAULT_BULLET_LENGTH,
+      twistDirection: rifle.twist_direction || 'right',
+    };
+  }
+
+  /**
+   * Latitude from inline conditions or the snapshot; null when unknown
+   */
+  private pickLatitude(
+    environment: EnvironmentSnapshot | null,
+    inline: InlineConditions,
+  ): number | null {
+    if (inline.latitude !== undefined && inline.latitude !== null) {
+      return Number(inline.latitude);
+    }
+    if (environment && environment.latitude !== undefined && environment.latitude !== null) {
+      return Number(environment.latitude);
+    }
+    return null;
+  }
+
+  /**
+   * Drag fields of the solver input for a custom drag model. Measured
+   * curves fly against the bullet's sectional density.
+   */
+  private customDrag(
+    ammo: AmmoProfile,
+    customDrag: CustomDragModel,
+  ): Pick<SolverInput, 'dragModel' | 'ballisticCoefficient' | 'dragTable' | 'velocityBands'> {
+    if (customDrag.type === 'curve') {
+      const diameter = Number(customDrag.reference_diameter);
+
+      return {
+        dragModel: 'CUSTOM',
+        ballisticCoefficient: ammo.getSectionalDensity(diameter)!,
+        dragTable: customDrag.getCurve(),
+      };
+    }
+
+    const bands = customDrag.getBands();
+    return {
+      dragModel: customDrag.drag_model || 'G7',
+      ballisticCoefficient: bands[0]!.bc,
+      velocityBands: bands,
+    };
+  }
+}
+
+export default new PredictionService();
@@ -0,0 +1,175 @@
+import { round } from '../utils/units';
+
+/**
+ * Range Session Service
+ *
+ * Summarizes the DOPE logged during a range session: rounds fired, hit
+ * rate by distance and how conditions changed over the session.
+ */
+
+export interface SessionLog {
+  id: number;
+  distance_yards: number;
+  hit_count?: number | null;
+  shot_count?: number | null;
+  environment_id: number;
+  timestamp: Date;
+}
+
+export interface SessionConditions {
+  id: number;
+  timestamp: Date;
+  temperature: number;
+  humidity: number;
+  pressure: number;
+  wind_speed: number;
+  wind_direction: number;
+  density_altitude: number;
+}
+
+export interface HitTally {
+  log_count: number;
+  rounds_fired: number;
+  hits: number;
+  hit_rate: number | null; // percent of scored rounds; null when none were scored
+}
+
+export interface DistanceTally extends HitTally {
+  distance_yards: number;
+}
+
+type ConditionKey = Exclude<keyof SessionConditions, 'id' | 'timestamp'>;
+
+export interface ConditionChange {
+  environment_id: number;
+  timestamp: Date;
+  conditions: Record<ConditionKey, number>;
+  change: Record<ConditionKey, number> | null; // from the previous snapshot
+}
+
+export interface SessionSummary extends HitTally {
+  first_log_at: Date | null;
+  last_log_at: Date | null;
+  distances: DistanceTally[];
+  environment_changes: ConditionChange[];
+  net_change: Record<ConditionKey, number> | null; // last snapshot minus first
+}
+
+const CONDITION_KEYS: ConditionKey[] = [
+  'temperature',
+  'humidity',
+  'pressure',
+  'wind_speed',
+  'wind_direction',
+  'density_altitude',
+];
+
+export class RangeSessionService {
+  /**
+   * Summarize session logs and the snapshots they (and the session) were
+   * recorded under
+   */
+  summarize(logs: SessionLog[], environments: SessionConditions[]): SessionSummary {
+    const times = logs.map((log) => new Date(log.timestamp).getTime());
+    const byDistance = new Map<number, SessionLog[]>();
+
+    logs.forEach((log) => {
+      const distance = round(Number(log.distance_yards), 0);
+      byDistance.set(distance, [...(byDistance.get(distance) || []), log]);
+    });
+
+    const distances = Array.from(byDistance.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([distance, entries]) => ({ distance_yards: distance, ...this.tally(entries) }));
+
+    const changes = this.environmentChanges(environments);
+
+    return {
+      ...this.tally(logs),
+      first_log_at: times.length > 0 ? new Date(Math.min(...times)) : null,
+      last_log_at: times.length > 0 ? new Date(Math.max(...times)) : null,
+      distances,
+      environment_changes: changes,
+      net_change:
+        changes.length > 1
+          ? this.difference(changes[0]!.conditions, changes[changes.length - 1]!.conditions)
+          : null,
+    };
+  }
+
+  /**
+   * Rounds fired and hits; only logs with both counts are scored
+   */
+  tally(logs: Array<Pick<SessionLog, 'hit_count' | 'shot_count'>>): HitTally {
+    let roundsFired = 0;
+    let scored = 0;
+    let hits = 0;
+
+    logs.forEach((log) => {
+      const shots = Number(log.shot_count) || 0;
+      roundsFired += shots;
+      if (shots > 0 && log.hit_count !== null && log.hit_count !== undefined) {
+        scored += shots;
+        hits += Number(log.hit_count);
+      }
+    });
+
+    return {
+      log_count: logs.length,
+      rounds_fired: roundsFired,
+      hits,
+      hit_rate: scored > 0 ? round((hits / scored) * 100, 1) : null,
+    };
+  }
+
+  /**
+   * Distinct snapshots in time order with the change from the previous one
+   */
+  private environmentChanges(environments: SessionConditions[]): ConditionChange[] {
+    const unique = new Map<number, SessionConditions>();
+    environments.forEach((environment) => unique.set(environment.id, environment));
+
+    const sorted = Array.from(unique.values()).sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+    );
+
+    let previous: Record<ConditionKey, number> | null = null;
+    return sorted.map((environment) => {
+      const conditions = {} as Record<ConditionKey, number>;
+      CONDITION_KEYS.forEach((key) => {
+        conditions[key] = Number(environment[key]);
+      });
+
+      const change = previous ? this.difference(previous, conditions) : null;
+      previous = conditions;
+
+      return {
+        environment_id: environment.id,
+        timestamp: environment.timestamp,
+        conditions,
+        change,
+      };
+    });
+  }
+
+  /**
+   * Change between two sets of conditions; wind direction takes the
+   * shorter way around the compass
+   */
+  private difference(
+    from: Record<ConditionKey, number>,
+    to: Record<ConditionKey, number>,
+  ): Record<ConditionKey, number> {
+    const change = {} as Record<ConditionKey, number>;
+    CONDITION_KEYS.forEach((key) => {
+      let delta = to[key] - from[key];
+      if (key === 'wind_direction') {
+        delta = ((((delta + 180) % 360) + 360) % 360) - 180;
+      }
+      change[key] = round(delta, 2);
+    });
+    return change;
+  }
+}
+
+export default new RangeSessionService();
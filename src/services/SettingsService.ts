@@ -0,0 +1,208 @@
+import AppSetting from '../models/AppSetting';
+import { ValidationError } from '../utils/errors';
+import { SettingKey, UserSettings } from '../types/settings';
+import { CONFLICT_STRATEGIES } from '../types/sync';
+import { DisplayUnits, UNIT_SYSTEMS } from './UnitConversionService';
+
+/**
+ * Settings Service
+ *
+ * Declares the per-user settings kept in app_settings, validates values
+ * against that schema and resolves a user's settings over the defaults.
+ */
+
+export type SettingValue = string | number | boolean | null;
+
+export interface SettingDefinition {
+  type: 'enum' | 'integer';
+  values?: readonly string[]; // enum only
+  min?: number; // integer only
+  max?: number;
+  nullable: boolean;
+  default: SettingValue;
+  description: string;
+}
+
+export const SETTINGS_SCHEMA: Record<SettingKey, SettingDefinition> = {
+  unit_system: {
+    type: 'enum',
+    values: ['imperial', 'metric'],
+    nullable: false,
+    default: 'imperial',
+    description: 'Units for requests and responses that do not ask for a unit system',
+  },
+  distance_unit: {
+    type: 'enum',
+    values: ['yards', 'meters'],
+    nullable: true,
+    default: null,
+    description: 'Unit for distances in requests and responses; null follows unit_system',
+  },
+  correction_unit: {
+    type: 'enum',
+    values: ['MIL', 'MOA'],
+    nullable: true,
+    default: null,
+    description: "Unit for DOPE card corrections; null uses each rifle's turret unit",
+  },
+  temperature_unit: {
+    type: 'enum',
+    values: ['F', 'C'],
+    nullable: true,
+    default: null,
+    description: 'Unit for temperatures in requests and responses; null follows unit_system',
+  },
+  pressure_unit: {
+    type: 'enum',
+    values: ['inHg', 'hPa', 'mmHg'],
+    nullable: true,
+    default: null,
+    description: 'Unit for barometric pressure in requests and responses; null follows unit_system',
+  },
+  default_rifle_id: {
+    type: 'integer',
+    min: 1,
+    nullable: true,
+    default: null,
+    description: 'Rifle used when a DOPE card or range session does not name one',
+  },
+  card_increment: {
+    type: 'integer',
+    min: 10,
+    max: 500,
+    nullable: false,
+    default: 100,
+    description: 'Distance between DOPE card rows, in the distance unit',
+  },
+  card_max_range: {
+    type: 'integer',
+    min: 100,
+    max: 3000,
+    nullable: false,
+    default: 1000,
+    description: 'Longest predicted DOPE card row, in the distance unit',
+  },
+  sync_conflict_strategy: {
+    type: 'enum',
+    values: CONFLICT_STRATEGIES,
+    nullable: false,
+    default: 'merge',
+    description: 'How sync settles a field edited on two devices; merge keeps the latest edit',
+  },
+};
+
+export const SETTING_KEYS = Object.keys(SETTINGS_SCHEMA) as SettingKey[];
+
+export const DEFAULT_SETTINGS = Object.fromEntries(
+  SETTING_KEYS.map((key) => [key, SETTINGS_SCHEMA[key].default]),
+) as unknown as UserSettings;
+
+export class SettingsService {
+  isKey(key: string): key is SettingKey {
+    return Object.prototype.hasOwnProperty.call(SETTINGS_SCHEMA, key);
+  }
+
+  /**
+   * Validate a value for a key; integers may arrive as numeric strings
+   */
+  parse(key: string, value: unknown): SettingValue {
+    if (!this.isKey(key)) {
+      throw new ValidationError(`Unknown setting: ${key}`);
+    }
+
+    const definition = SETTINGS_SCHEMA[key];
+    if (value === null) {
+      if (!definition.nullable) {
+        throw new ValidationError(`${key} cannot be null`);
+      }
+      return null;
+    }
+
+    if (definition.type === 'enum') {
+      if (typeof value !== 'string' || !definition.values!.includes(value)) {
+        throw new ValidationError(`${key} must be one of ${definition.values!.join(', ')}`);
+      }
+      return value;
+    }
+
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isInteger(number)) {
+      throw new ValidationError(`${key} must be an integer`);
+    }
+    if (
+      (definition.min !== undefined && number < definition.min) ||
+      (definition.max !== undefined && number > definition.max)
+    ) {
+      throw new ValidationError(
+        `${key} must be between ${definition.min ?? '-∞'} and ${definition.max ?? '∞'}`,
+      );
+    }
+    return number;
+  }
+
+  /**
+   * Validate every key in an update, collecting all errors
+   */
+  parseAll(values: Record<string, unknown>): Partial<UserSettings> {
+    const parsed: Record<string, SettingValue> = {};
+    const errors: { field: string; message: string }[] = [];
+
+    Object.entries(values).forEach(([key, value]) => {
+      try {
+        parsed[key] = this.parse(key, value);
+      } catch (error) {
+        errors.push({ field: key, message: (error as Error).message });
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid settings', errors);
+    }
+    return parsed as Partial<UserSettings>;
+  }
+
+  /**
+   * A user's stored settings over the defaults
+   */
+  async getUserSettings(userId: number): Promise<UserSettings> {
+    const rows = await AppSetting.findAll({ where: { user_id: userId } });
+    return this.resolve(rows);
+  }
+
+  /**
+   * Settings from stored rows over the defaults. Unknown keys and values
+   * that no longer validate fall back to the default.
+   */
+  resolve(rows: { setting_key: string; setting_value: string }[]): UserSettings {
+    const settings: Record<string, SettingValue> = { ...DEFAULT_SETTINGS };
+
+    rows.forEach((row) => {
+      if (!this.isKey(row.setting_key)) {
+        return;
+      }
+      try {
+        settings[row.setting_key] = this.parse(row.setting_key, JSON.parse(row.setting_value));
+      } catch {
+        // Keep the default
+      }
+    });
+
+    return settings as unknown as UserSettings;
+  }
+
+  /**
+   * Units for formatting responses: the unit system with any per-quantity
+   * overrides
+   */
+  displayUnits(settings: UserSettings): DisplayUnits {
+    const units = UNIT_SYSTEMS[settings.unit_system];
+    return {
+      ...units,
+      distance: settings.distance_unit ?? units.distance,
+      temperature: settings.temperature_unit ?? units.temperature,
+      pressure: settings.pressure_unit ?? units.pressure,
+    };
+  }
+}
+
+export default new SettingsService();
@@ -0,0 +1,106 @@
+import BallisticsService, { SolverInput } from './BallisticsService';
+import { AngularUnit, convertAngular } from '../utils/units';
+
+/**
+ * Shot Angle Service
+ *
+ * Normalizes DOPE logged on inclined shots or with a canted rifle to the
+ * equivalent flat-fire, level-scope corrections so they can be compared
+ * with flat-range data.
+ */
+
+// rifleman: angled correction ≈ flat correction × cos(incline)
+// full: solver difference between the flat and inclined trajectories
+export type AngleMode = 'rifleman' | 'full';
+
+export interface AngledCorrection {
+  rangeYards: number;
+  elevation: number;
+  windage: number;
+  unit: AngularUnit;
+  inclineAngle?: number | null; // degrees, positive = uphill
+  cantAngle?: number | null; // degrees, positive = canted clockwise
+}
+
+export interface FlatCorrection {
+  elevation: number;
+  windage: number;
+  normalized: boolean; // true when incline or cant changed the values
+}
+
+export class ShotAngleService {
+  /**
+   * Flat-fire equivalent of a logged correction. The full mode needs solver
+   * input for the rifle/ammo pair and falls back to the rifleman's rule
+   * when it is missing or the bullet never reaches the range.
+   */
+  toFlat(correction: AngledCorrection, mode: AngleMode, input?: SolverInput): FlatCorrection {
+    const incline = Number(correction.inclineAngle) || 0;
+    const cant = Number(correction.cantAngle) || 0;
+    const level = this.removeCant(correction.elevation, correction.windage, cant);
+
+    if (incline === 0) {
+      return { ...level, normalized: cant !== 0 };
+    }
+
+    if (mode === 'full' && input) {
+      const flat = this.fullTrajectoryOffset(input, correction.rangeYards, incline);
+      if (flat) {
+        return {
+          elevation: level.elevation + convertAngular(flat.elevation, 'MIL', correction.unit),
+          windage: level.windage + convertAngular(flat.windage, 'MIL', correction.unit),
+          normalized: true,
+        };
+      }
+    }
+
+    return {
+      elevation: level.elevation / Math.cos((incline * Math.PI) / 180),
+      windage: level.windage,
+      normalized: true,
+    };
+  }
+
+  /**
+   * Rotate corrections dialed on a canted scope into true vertical and
+   * horizontal components. Canting right moves impact low and right.
+   */
+  removeCant(
+    elevation: number,
+    windage: number,
+    cantAngle: number,
+  ): { elevation: number; windage: number } {
+    if (!cantAngle) {
+      return { elevation, windage };
+    }
+
+    const cant = (cantAngle * Math.PI) / 180;
+    return {
+      elevation: elevation * Math.cos(cant) - windage * Math.sin(cant),
+      windage: elevation * Math.sin(cant) + windage * Math.cos(cant),
+    };
+  }
+
+  /**
+   * Flat minus inclined predicted correction (MIL) at a range
+   */
+  private fullTrajectoryOffset(
+    input: SolverInput,
+    rangeYards: number,
+    inclineAngle: number,
+  ): { elevation: number; windage: number } | null {
+    const [flat] = BallisticsService.solveRanges({ ...input, inclineAngle: 0 }, [rangeYards]);
+    const [angled] = BallisticsService.solveRanges({ ...input, inclineAngle }, [rangeYards]);
+
+    if (!flat || !angled) {
+      return null;
+    }
+
+    return {
+      elevation: flat.elevation_mil - angled.elevation_mil,
+      windage: flat.windage_mil - angled.windage_mil,
+    };
+  }
+}
+
+export default new ShotAngleService();
@@ -0,0 +1,98 @@
+import { round } from '../utils/units';
+import {
+  CONFIDENCE_LEVEL,
+  Interval,
+  extremeSpread,
+  mean,
+  meanConfidenceInterval,
+  standardDeviation,
+  standardDeviationConfidenceInterval,
+} from '../utils/statistics';
+
+/**
+ * Shot String Service
+ *
+ * Groups chronograph shots into sessions and computes velocity
+ * statistics with small-sample confidence intervals.
+ */
+
+export interface ChronoShot {
+  session_date: string; // YYYY-MM-DD
+  shot_number: number;
+  velocity: number; // fps
+  temperature: number; // Fahrenheit
+}
+
+export interface VelocityStats {
+  shot_count: number;
+  average: number;
+  extreme_spread: number;
+  standard_deviation: number;
+  min: number;
+  max: number;
+  average_temperature: number;
+  confidence_level: number;
+  average_interval: Interval | null; // null below 2 shots
+  standard_deviation_interval: Interval | null;
+}
+
+export interface ShotSession<T extends ChronoShot> {
+  session_date: string;
+  stats: VelocityStats;
+  shots: T[];
+}
+
+export class ShotStringService {
+  /**
+   * Velocity statistics for a set of shots
+   */
+  summarize(shots: ChronoShot[]): VelocityStats {
+    const velocities = shots.map((shot) => Number(shot.velocity));
+    const temperatures = shots.map((shot) => Number(shot.temperature));
+    const averageInterval = meanConfidenceInterval(velocities);
+    const sdInterval = standardDeviationConfidenceInterval(velocities);
+
+    return {
+      shot_count: velocities.length,
+      average: round(mean(velocities), 1),
+      extreme_spread: round(extremeSpread(velocities), 1),
+      standard_deviation: round(standardDeviation(velocities), 1),
+      min: velocities.length > 0 ? Math.min(...velocities) : 0,
+      max: velocities.length > 0 ? Math.max(...velocities) : 0,
+      average_temperature: round(mean(temperatures), 1),
+      confidence_level: CONFIDENCE_LEVEL,
+      average_interval: averageInterval ? this.roundInterval(averageInterval) : null,
+      standard_deviation_interval: sdInterval ? this.roundInterval(sdInterval) : null,
+    };
+  }
+
+  /**
+   * Group shots by session date, newest session first, shots in order
+   */
+  groupSessions<T extends ChronoShot>(shots: T[]): ShotSession<T>[] {
+    const sessions = new Map<string, T[]>();
+
+    shots.forEach((shot) => {
+      const list = sessions.get(shot.session_date) || [];
+      list.push(shot);
+      sessions.set(shot.session_date, list);
+    });
+
+    return Array.from(sessions.entries())
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([sessionDate, list]) => {
+        const ordered = [...list].sort((a, b) => a.shot_number - b.shot_number);
+        return {
+          session_date: sessionDate,
+          stats: this.summarize(ordered),
+          shots: ordered,
+        };
+      });
+  }
+
+  private roundInterval(interval: Interval): Interval {
+    return { low: round(interval.low, 1), high: round(interval.high, 1) };
+  }
+}
+
+export default new ShotStringService();
@@ -0,0 +1,105 @@
+import { round } from '../utils/units';
+
+/**
+ * Stability Service
+ *
+ * Miller gyroscopic stability factor (Sg) for a bullet and barrel twist,
+ * corrected for muzzle velocity and air density, and the BC penalty Litz
+ * recommends for marginally stable bullets.
+ */
+
+export interface StabilityInput {
+  bulletWeight: number; // grains
+  bulletLength: number; // inches
+  bulletDiameter: number; // inches
+  twistRate: number; // inches per turn
+  muzzleVelocity: number; // fps
+  temperature: number; // Fahrenheit
+  pressure: number; // inHg
+}
+
+export type StabilityStatus = 'unstable' | 'marginal' | 'stable';
+
+export interface StabilityResult {
+  stability_factor: number; // corrected for velocity and atmosphere
+  stability_factor_standard: number; // at 59°F and 29.92 inHg
+  status: StabilityStatus;
+  warning: string | null;
+  bullet_length_calibers: number;
+  twist_calibers: number;
+  velocity_factor: number;
+  atmosphere_factor: number;
+  bc_correction_factor: number;
+}
+
+// Below this Sg the bullet may not fly point forward at long range
+export const MIN_RECOMMENDED_STABILITY = 1.4;
+// Below this Sg BC is reduced by the yaw drag penalty
+const FULL_BC_STABILITY = 1.5;
+
+export class StabilityService {
+  /**
+   * Miller formula: Sg = 30m / (t² d³ l (1 + l²)), with t and l in calibers,
+   * scaled by (V / 2800)^(1/3) and by (T + 460) / 519 * 29.92 / P
+   */
+  calculate(input: StabilityInput): StabilityResult {
+    const lengthCalibers = input.bulletLength / input.bulletDiameter;
+    const twistCalibers = input.twistRate / input.bulletDiameter;
+
+    const base =
+      (30 * input.bulletWeight) /
+      (Math.pow(twistCalibers, 2) *
+        Math.pow(input.bulletDiameter, 3) *
+        lengthCalibers *
+        (1 + Math.pow(lengthCalibers, 2)));
+    const velocityFactor = Math.cbrt(input.muzzleVelocity / 2800);
+    const atmosphereFactor = ((input.temperature + 460) / (59 + 460)) * (29.92 / input.pressure);
+
+    const standard = base * velocityFactor;
+    const stability = standard * atmosphereFactor;
+
+    return {
+      stability_factor: round(stability, 3),
+      stability_factor_standard: round(standard, 3),
+      status: this.getStatus(stability),
+      warning: this.getWarning(stability),
+      bullet_length_calibers: round(lengthCalibers, 3),
+      twist_calibers: round(twistCalibers, 2),
+      velocity_factor: round(velocityFactor, 4),
+      atmosphere_factor: round(atmosphereFactor, 4),
+      bc_correction_factor: round(this.bcCorrectionFactor(stability), 4),
+    };
+  }
+
+  /**
+   * Litz BC correction: BC * (Sg + 1) / 2.5 when Sg is below 1.5
+   */
+  bcCorrectionFactor(stability: number): number {
+    if (stability >= FULL_BC_STABILITY) {
+      return 1;
+    }
+    return Math.max(0, (stability + 1) / 2.5);
+  }
+
+  private getStatus(stability: number): StabilityStatus {
+    if (stability < 1) {
+      return 'unstable';
+    }
+    if (stability < MIN_RECOMMENDED_STABILITY) {
+      return 'marginal';
+    }
+    return 'stable';
+  }
+
+  private getWarning(stability: number): string | null {
+    if (stability < 1) {
+      return 'Bullet is not gyroscopically stable (Sg < 1.0) with this twist rate';
+    }
+    if (stability < MIN_RECOMMENDED_STABILITY) {
+      return `Stability is marginal (Sg < ${MIN_RECOMMENDED_STABILITY}); BC will be reduced`;
+    }
+    return null;
+  }
+}
+
+export default new StabilityService();
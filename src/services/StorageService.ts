@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AppError } from '../utils/errors';
+
+/**
+ * Storage Service
+ *
+ * Pluggable file storage for uploaded images. Files are addressed by a
+ * relative key; the provider decides where the bytes live. Local disk is
+ * the default; other providers register a factory under their
+ * STORAGE_PROVIDER name.
+ */
+
+export interface StorageProvider {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // null when the key is missing
+  remove(key: string): Promise<void>;
+}
+
+export type StorageProviderFactory = () => StorageProvider;
+
+/**
+ * Files under a directory on local disk (STORAGE_PATH, default ./uploads)
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Absolute path for a key; keys may not climb out of the storage root
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new AppError(`Invalid storage key: ${key}`, 500, false);
+    }
+    return filePath;
+  }
+}
+
+const factories = new Map<string, StorageProviderFactory>([
+  [
+    'local',
+    (): StorageProvider => new LocalStorageProvider(process.env.STORAGE_PATH || './uploads'),
+  ],
+]);
+
+let provider: StorageProvider | null = null;
+
+/**
+ * Make a provider available under a STORAGE_PROVIDER name
+ */
+export function registerStorageProvider(name: string, factory: StorageProviderFactory): void {
+  factories.set(name, factory);
+  if (provider && provider.name === name) {
+    provider = null;
+  }
+}
+
+/**
+ * The configured provider, created on first use
+ */
+export function getStorage(): StorageProvider {
+  if (!provider) {
+    const name = process.env.STORAGE_PROVIDER || 'local';
+    const factory = factories.get(name);
+    if (!factory) {
+      throw new AppError(`Storage provider "${name}" is not available`, 500, false);
+    }
+    provider = factory();
+  }
+  return provider;
+}
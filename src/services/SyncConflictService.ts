@@ -0,0 +1,191 @@
+import { ValidationError } from '../utils/errors';
+import { ConflictResolution, ConflictStrategy, ServerEdit, SyncData } from '../types/sync';
+
+/**
+ * Sync Conflict Service
+ *
+ * Detects when a device's offline change overlaps edits made elsewhere
+ * since the version the device last saw, and resolves the overlap with
+ * the user's strategy. Only fields changed on both sides to different
+ * values conflict; the device's other fields always apply.
+ */
+
+export interface ConflictCheck {
+  operation: 'update' | 'delete';
+  client_data: SyncData; // fields the client changed (update)
+  client_timestamp: Date;
+  server_data: SyncData; // current stored values
+  server_edits: ServerEdit[];
+}
+
+export interface ConflictOutcome {
+  conflicting_fields: string[];
+  resolution: ConflictResolution | null; // null without a conflict or when left to the user
+  pending: boolean; // left for the user to settle
+  apply: SyncData; // client fields to write now
+  delete: boolean;
+}
+
+export class SyncConflictService {
+  /**
+   * Decide what of a client change to apply
+   */
+  resolve(check: ConflictCheck, strategy: ConflictStrategy): ConflictOutcome {
+    const conflicting = this.conflictingFields(check);
+
+    if (conflicting.length === 0) {
+      return {
+        conflicting_fields: [],
+        resolution: null,
+        pending: false,
+        apply: check.operation === 'update' ? check.client_data : {},
+        delete: check.operation === 'delete',
+      };
+    }
+
+    const unopposed = this.omit(check.client_data, conflicting);
+    const outcome = (
+      resolution: ConflictResolution | null,
+      clientFields: string[],
+    ): ConflictOutcome => ({
+      conflicting_fields: conflicting,
+      resolution,
+      pending: resolution === null,
+      apply:
+        check.operation === 'update'
+          ? { ...unopposed, ...this.pick(check.client_data, clientFields) }
+          : {},
+      delete: check.operation === 'delete' && clientFields.length === conflicting.length,
+    });
+
+    switch (strategy) {
+      case 'client_wins':
+        return outcome('client', conflicting);
+      case 'server_wins':
+        return outcome('server', []);
+      case 'manual':
+        return outcome(null, []);
+      case 'merge': {
+        // The later edit of each field wins; ties go to the server
+        const editedAt = this.serverEditTimes(check);
+        const clientFields = conflicting.filter(
+          (field) => check.client_timestamp.getTime() > (editedAt.get(field) ?? 0),
+        );
+        return outcome('merge', clientFields);
+      }
+    }
+  }
+
+  /**
+   * What to apply when the user settles a pending conflict. A merge names
+   * the value to keep for each conflicting field.
+   */
+  settle(
+    operation: 'update' | 'delete',
+    conflictingFields: string[],
+    clientData: SyncData,
+    resolution: ConflictResolution,
+    chosen?: SyncData,
+  ): { apply: SyncData; delete: boolean } {
+    if (resolution === 'server') {
+      return { apply: {}, delete: false };
+    }
+
+    if (resolution === 'client') {
+      return operation === 'delete'
+        ? { apply: {}, delete: true }
+        : { apply: this.pick(clientData, conflictingFields), delete: false };
+    }
+
+    if (operation === 'delete') {
+      throw new ValidationError(
+        'A deleted entity cannot be merged; keep the server or client side',
+      );
+    }
+
+    const unknown = Object.keys(chosen || {}).filter((field) => !conflictingFields.includes(field));
+    if (!chosen || Object.keys(chosen).length === 0 || unknown.length > 0) {
+      throw new ValidationError('Invalid merge', [
+        {
+          field: 'data',
+          message: `Data must pick values for conflicting fields only: ${conflictingFields.join(', ')}`,
+        },
+      ]);
+    }
+
+    return { apply: chosen, delete: false };
+  }
+
+  /**
+   * Client fields the server also changed, to a different value. Any
+   * server edit conflicts with a delete.
+   */
+  conflictingFields(check: ConflictCheck): string[] {
+    if (check.server_edits.length === 0) {
+      return [];
+    }
+
+    const editedAt = this.serverEditTimes(check);
+
+    if (check.operation === 'delete') {
+      return [...editedAt.keys()].sort();
+    }
+
+    return Object.keys(check.client_data)
+      .filter((field) => editedAt.has(field))
+      .filter((field) => !this.sameValue(check.client_data[field], check.server_data[field]))
+      .sort();
+  }
+
+  /**
+   * Latest server edit time per field
+   */
+  private serverEditTimes(check: ConflictCheck): Map<string, number> {
+    const allFields = [
+      ...new Set([...Object.keys(check.server_data), ...Object.keys(check.client_data)]),
+    ];
+    const editedAt = new Map<string, number>();
+
+    check.server_edits.forEach((edit) => {
+      (edit.fields ?? allFields).forEach((field) => {
+        editedAt.set(field, Math.max(editedAt.get(field) ?? 0, edit.client_timestamp.getTime()));
+      });
+    });
+
+    return editedAt;
+  }
+
+  /**
+   * Equal values across the forms they arrive in: DECIMAL columns come
+   * back as strings and dates as Date objects
+   */
+  private sameValue(a: unknown, b: unknown): boolean {
+    if (a === null || a === undefined || b === null || b === undefined) {
+      return (a ?? null) === (b ?? null);
+    }
+
+    if (a instanceof Date || b instanceof Date) {
+      return new Date(a as string).getTime() === new Date(b as string).getTime();
+    }
+
+    const numeric = (value: unknown): boolean =>
+      typeof value === 'number' ||
+      (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value)));
+
+    if (numeric(a) && numeric(b)) {
+      return Number(a) === Number(b);
+    }
+
+    return String(a) === String(b);
+  }
+
+  private pick(data: SyncData, fields: string[]): SyncData {
+    return Object.fromEntries(Object.entries(data).filter(([field]) => fields.includes(field)));
+  }
+
+  private omit(data: SyncData, fields: string[]): SyncData {
+    return Object.fromEntries(Object.entries(data).filter(([field]) => !fields.includes(field)));
+  }
+}
+
+export default new SyncConflictService();
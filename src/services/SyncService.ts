@@ -0,0 +1,253 @@
+import { ValidationError } from '../utils/errors';
+import {
+  SyncData,
+  SyncEntityType,
+  SyncOperation,
+  SYNC_ENTITY_TYPES,
+  SYNC_OPERATIONS,
+} from '../types/sync';
+
+/**
+ * Sync Service
+ *
+ * Rules for offline-first delta sync: which entities and fields a client
+ * may change, how a batch of client changes is checked and how entities
+ * created earlier in the same batch are referenced, and how the server's
+ * change log is reduced to the latest operation per entity.
+ */
+
+export interface ClientChange {
+  entity_type: SyncEntityType;
+  operation: SyncOperation;
+  entity_id?: number | string; // server id, or client_id of an entity created earlier in the batch
+  client_id?: string; // the client's own id for a created entity
+  base_version?: number; // row_version the client last saw, for conflict detection
+  client_timestamp: string;
+  data?: SyncData;
+}
+
+export interface LoggedChange {
+  id: number;
+  entity_type: string;
+  entity_id: number;
+  operation: SyncOperation;
+  server_timestamp: Date;
+}
+
+export interface SyncEntityRule {
+  fields: readonly string[]; // writable by clients
+  references: Readonly<Record<string, SyncEntityType>>; // reference field -> entity type
+}
+
+export const MAX_BATCH_SIZE = 500;
+
+export const SYNC_ENTITY_RULES: Record<SyncEntityType, SyncEntityRule> = {
+  rifle: {
+    fields: [
+      'name',
+      'caliber',
+      'barrel_length',
+      'twist_rate',
+      'twist_direction',
+      'zero_distance',
+      'optic_manufacturer',
+      'optic_model',
+      'reticle_type',
+      'click_value_type',
+      'click_value',
+      'scope_height',
+      'notes',
+    ],
+    references: {},
+  },
+  ammo: {
+    fields: [
+      'rifle_id',
+      'name',
+      'manufacturer',
+      'bullet_weight',
+      'bullet_type',
+      'bullet_length',
+      'bullet_diameter',
+      'ballistic_coefficient_g1',
+      'ballistic_coefficient_g7',
+      'muzzle_velocity',
+      'muzzle_velocity_temperature',
+      'powder_type',
+      'powder_weight',
+      'lot_number',
+      'notes',
+    ],
+    references: { rifle_id: 'rifle' },
+  },
+  environment: {
+    // density_altitude is calculated by the model
+    fields: [
+      'temperature',
+      'humidity',
+      'pressure',
+      'pressure_type',
+      'altitude',
+      'wind_speed',
+      'wind_direction',
+      'latitude',
+      'longitude',
+      'timestamp',
+    ],
+    references: {},
+  },
+  dope_log: {
+    fields: [
+      'rifle_id',
+      'ammo_id',
+      'environment_id',
+      'distance',
+      'distance_unit',
+      'elevation_correction',
+      'windage_correction',
+      'correction_unit',
+      'incline_angle',
+      'cant_angle',
+      'shot_azimuth',
+      'target_type',
+      'group_size',
+      'hit_count',
+      'shot_count',
+      'notes',
+      'timestamp',
+    ],
+    references: { rifle_id: 'rifle', ammo_id: 'ammo', environment_id: 'environment' },
+  },
+};
+
+export class SyncService {
+  /**
+   * Check the shape of a batch of client changes
+   */
+  validateBatch(changes: unknown): ClientChange[] {
+    if (!Array.isArray(changes)) {
+      throw new ValidationError('Changes must be an array');
+    }
+
+    if (changes.length > MAX_BATCH_SIZE) {
+      throw new ValidationError(`A sync batch can hold at most ${MAX_BATCH_SIZE} changes`);
+    }
+
+    const errors: { field: string; message: string }[] = [];
+    const clientIds = new Set<string>();
+
+    changes.forEach((change: Partial<ClientChange>, index) => {
+      const field = (name: string): string => `changes[${index}].${name}`;
+
+      if (!SYNC_ENTITY_TYPES.includes(change.entity_type as SyncEntityType)) {
+        errors.push({
+          field: field('entity_type'),
+          message: `Entity type must be one of: ${SYNC_ENTITY_TYPES.join(', ')}`,
+        });
+      }
+
+      if (!SYNC_OPERATIONS.includes(change.operation as SyncOperation)) {
+        errors.push({
+          field: field('operation'),
+          message: 'Operation must be create, update or delete',
+        });
+      }
+
+      if (Number.isNaN(Date.parse(String(change.client_timestamp)))) {
+        errors.push({
+          field: field('client_timestamp'),
+          message: 'Client timestamp must be an ISO 8601 date',
+        });
+      }
+
+      if (change.operation === 'create') {
+        if (typeof change.client_id !== 'string' || change.client_id === '') {
+          errors.push({ field: field('client_id'), message: 'Client ID is required for create' });
+        } else if (clientIds.has(change.client_id)) {
+          errors.push({ field: field('client_id'), message: 'Client ID is used more than once' });
+        } else {
+          clientIds.add(change.client_id);
+        }
+      } else if (change.entity_id === undefined || change.entity_id === null) {
+        errors.push({ field: field('entity_id'), message: 'Entity ID is required' });
+      }
+
+      if (
+        change.base_version !== undefined &&
+        change.base_version !== null &&
+        !(Number.isInteger(change.base_version) && change.base_version >= 0)
+      ) {
+        errors.push({
+          field: field('base_version'),
+          message: 'Base version must be a non-negative integer',
+        });
+      }
+
+      const needsData = change.operation === 'create' || change.operation === 'update';
+      if (needsData && !this.isData(change.data)) {
+        errors.push({ field: field('data'), message: 'Data must be an object' });
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid sync batch', errors);
+    }
+
+    return changes as ClientChange[];
+  }
+
+  /**
+   * The writable fields of the data, with references to entities created
+   * earlier in the batch replaced by their server ids
+   */
+  prepareData(
+    entityType: SyncEntityType,
+    data: SyncData,
+    createdIds: ReadonlyMap<string, number>,
+  ): SyncData {
+    const rule = SYNC_ENTITY_RULES[entityType];
+    const prepared: SyncData = {};
+
+    rule.fields
+      .filter((field) => data[field] !== undefined)
+      .forEach((field) => {
+        prepared[field] =
+          field in rule.references ? this.resolveId(data[field], createdIds) : data[field];
+      });
+
+    return prepared;
+  }
+
+  /**
+   * A server id, or the server id of an entity created earlier in the batch
+   */
+  resolveId(value: unknown, createdIds: ReadonlyMap<string, number>): unknown {
+    if (typeof value === 'string' && createdIds.has(value)) {
+      return createdIds.get(value);
+    }
+    return value;
+  }
+
+  /**
+   * Latest logged operation per entity, in log order
+   */
+  collapse<T extends LoggedChange>(logs: T[]): T[] {
+    const latest = new Map<string, T>();
+
+    [...logs]
+      .sort((a, b) => a.id - b.id)
+      .forEach((log) => {
+        const key = `${log.entity_type}:${log.entity_id}`;
+        latest.delete(key); // re-insert so map order follows the latest log
+        latest.set(key, log);
+      });
+
+    return [...latest.values()];
+  }
+
+  private isData(value: unknown): value is SyncData {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+export default new SyncService();
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { ValidationError } from '../utils/errors';
+import { PoiMarker } from '../types/targetImage';
+
+/**
+ * Target Image Service
+ *
+ * Reads uploaded target photos, renders thumbnails and validates the
+ * point-of-impact markers placed on them. Marker coordinates are pixels
+ * from the top-left corner of the upright (EXIF-rotated) image.
+ */
+
+export const THUMBNAIL_SIZE = 320; // px, longest side
+export const MAX_POI_MARKERS = 200;
+
+const EXTENSIONS: Record<string, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+};
+
+export interface ProcessedImage {
+  format: string; // jpeg, png or webp
+  content_type: string;
+  extension: string;
+  width: number;
+  height: number;
+  thumbnail: Buffer; // JPEG
+}
+
+export interface StorageKeys {
+  image: string;
+  thumbnail: string;
+}
+
+export class TargetImageService {
+  /**
+   * Decode an upload and render its thumbnail; rejects anything sharp
+   * cannot read or that isn't a JPEG, PNG or WebP image
+   */
+  async process(data: Buffer): Promise<ProcessedImage> {
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(data).metadata();
+    } catch {
+      throw new ValidationError('Uploaded file is not a readable image');
+    }
+
+    const format = metadata.format || '';
+    const extension = EXTENSIONS[format];
+    if (!extension || !metadata.width || !metadata.height) {
+      throw new ValidationError('Only JPEG, PNG or WebP images are accepted');
+    }
+
+    // EXIF orientations 5-8 are rotated a quarter turn
+    const rotated = (metadata.orientation || 1) >= 5;
+
+    const thumbnail = await sharp(data)
+      .rotate()
+      .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'inside' })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+
+    return {
+      format,
+      content_type: `image/${format}`,
+      extension,
+      width: rotated ? metadata.height : metadata.width,
+      height: rotated ? metadata.width : metadata.height,
+      thumbnail,
+    };
+  }
+
+  /**
+   * Validate markers given as an array or a JSON string (multipart
+   * fields are strings). Markers must fall inside the image when its
+   * size is known.
+   */
+  parseMarkers(input: unknown, width?: number | null, height?: number | null): PoiMarker[] {
+    let markers = input;
+    if (markers === undefined || markers === null || markers === '') {
+      return [];
+    }
+    if (typeof markers === 'string') {
+      try {
+        markers = JSON.parse(markers);
+      } catch {
+        throw new ValidationError('POI markers must be valid JSON');
+      }
+    }
+
+    if (!Array.isArray(markers)) {
+      throw new ValidationError('POI markers must be an array of {x, y} points');
+    }
+    if (markers.length > MAX_POI_MARKERS) {
+      throw new ValidationError(`At most ${MAX_POI_MARKERS} POI markers are allowed`);
+    }
+
+    return (markers as (Record<string, unknown> | null)[]).map((marker, index) => {
+      const x = marker?.x;
+      const y = marker?.y;
+
+      if (
+        typeof x !== 'number' ||
+        typeof y !== 'number' ||
+        !Number.isFinite(x + y) ||
+        x < 0 ||
+        y < 0
+      ) {
+        throw new ValidationError(`POI marker ${index + 1} needs non-negative x and y`);
+      }
+      if ((width && x > width) || (height && y > height)) {
+        throw new ValidationError(`POI marker ${index + 1} is outside the image`);
+      }
+
+      const parsed: PoiMarker = { x, y };
+      if (marker?.label !== undefined && marker.label !== null) {
+        parsed.label = String(marker.label).slice(0, 50);
+      }
+      return parsed;
+    });
+  }
+
+  /**
+   * Storage keys for a new upload, grouped by user
+   */
+  storageKeys(userId: number, extension: string): StorageKeys {
+    const name = crypto.randomUUID();
+    return {
+      image: `target-images/${userId}/${name}.${extension}`,
+      thumbnail: `target-images/${userId}/${name}_thumb.jpg`,
+    };
+  }
+}
+
+export default new TargetImageService();
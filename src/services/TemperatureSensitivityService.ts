@@ -0,0 +1,104 @@
+import { ChronoShot } from './ShotStringService';
+import { linearRegression, mean } from '../utils/statistics';
+import { round } from '../utils/units';
+
+/**
+ * Temperature Sensitivity Service
+ *
+ * Regresses muzzle velocity against temperature from chronograph data and
+ * adjusts a profile's muzzle velocity to the temperature of a shot.
+ */
+
+export interface TemperatureSensitivity {
+  usable: boolean; // enough data across enough temperature span
+  warning: string | null;
+  fps_per_degree: number | null; // fps per °F
+  intercept: number | null; // fps at 0°F
+  r_squared: number | null;
+  slope_standard_error: number | null;
+  shot_count: number;
+  session_count: number;
+  temperature_range: { min: number; max: number } | null;
+  mean_temperature: number | null;
+  mean_velocity: number | null;
+}
+
+export interface VelocityAdjustment {
+  base_velocity: number;
+  reference_temperature: number;
+  temperature: number;
+  fps_per_degree: number;
+  adjusted_velocity: number;
+}
+
+// Below these the slope is mostly chronograph noise
+export const MIN_SENSITIVITY_SHOTS = 5;
+export const MIN_TEMPERATURE_SPAN = 10; // °F
+
+export class TemperatureSensitivityService {
+  /**
+   * Fit velocity = intercept + slope * temperature over individual shots
+   */
+  fit(shots: ChronoShot[]): TemperatureSensitivity {
+    const temperatures = shots.map((shot) => Number(shot.temperature));
+    const velocities = shots.map((shot) => Number(shot.velocity));
+    const sessions = new Set(shots.map((shot) => shot.session_date)).size;
+    const regression = linearRegression(temperatures, velocities);
+
+    const range =
+      shots.length > 0 ? { min: Math.min(...temperatures), max: Math.max(...temperatures) } : null;
+    const span = range ? range.max - range.min : 0;
+
+    let warning: string | null = null;
+    if (shots.length < MIN_SENSITIVITY_SHOTS) {
+      warning = `At least ${MIN_SENSITIVITY_SHOTS} chronograph shots are needed`;
+    } else if (span < MIN_TEMPERATURE_SPAN) {
+      warning = `Shots must span at least ${MIN_TEMPERATURE_SPAN}°F of temperature`;
+    }
+
+    return {
+      usable: warning === null && regression !== null,
+      warning,
+      fps_per_degree: regression ? round(regression.slope, 3) : null,
+      intercept: regression ? round(regression.intercept, 1) : null,
+      r_squared: regression ? round(regression.r_squared, 3) : null,
+      slope_standard_error:
+        regression && regression.slope_standard_error !== null
+          ? round(regression.slope_standard_error, 3)
+          : null,
+      shot_count: shots.length,
+      session_count: sessions,
+      temperature_range: range,
+      mean_temperature: shots.length > 0 ? round(mean(temperatures), 1) : null,
+      mean_velocity: shots.length > 0 ? round(mean(velocities), 1) : null,
+    };
+  }
+
+  /**
+   * Shift a muzzle velocity measured at the reference temperature to
+   * another temperature; null when the fit is not usable
+   */
+  adjust(
+    baseVelocity: number,
+    referenceTemperature: number,
+    temperature: number,
+    sensitivity: TemperatureSensitivity,
+  ): VelocityAdjustment | null {
+    if (!sensitivity.usable || sensitivity.fps_per_degree === null) {
+      return null;
+    }
+
+    const adjusted =
+      baseVelocity + sensitivity.fps_per_degree * (temperature - referenceTemperature);
+
+    return {
+      base_velocity: baseVelocity,
+      reference_temperature: referenceTemperature,
+      temperature,
+      fps_per_degree: sensitivity.fps_per_degree,
+      adjusted_velocity: round(adjusted, 1),
+    };
+  }
+}
+
+export default new TemperatureSensitivityService();
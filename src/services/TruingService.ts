@@ -0,0 +1,271 @@
+import BallisticsService, { SolverInput } from './BallisticsService';
+import { AngularUnit, convertAngular, round } from '../utils/units';
+
+/**
+ * Truing Service
+ *
+ * Fits an effective muzzle velocity and/or a ballistic coefficient scale
+ * factor to logged elevation corrections, each observation flown under its
+ * own recorded conditions. Uses Gauss-Newton least squares on the
+ * elevation residuals in MIL.
+ */
+
+export type TruingFit = 'muzzle_velocity' | 'bc' | 'both';
+
+export interface TruingObservation {
+  input: SolverInput; // solver input built from the log's environment
+  rangeYards: number;
+  elevationMil: number; // logged elevation correction
+}
+
+export interface TruingResidual {
+  range_yards: number;
+  log_count: number;
+  observed: number;
+  predicted_before: number;
+  predicted_after: number;
+  residual_before: number; // observed minus predicted
+  residual_after: number;
+}
+
+export interface TruingResult {
+  fit: TruingFit;
+  unit: AngularUnit;
+  observation_count: number;
+  iterations: number;
+  converged: boolean;
+  original: {
+    muzzle_velocity: number;
+    ballistic_coefficient: number;
+  };
+  trued: {
+    muzzle_velocity: number;
+    ballistic_coefficient: number;
+    bc_scale: number;
+  };
+  rms_error: {
+    before: number;
+    after: number;
+  };
+  residuals: TruingResidual[];
+}
+
+interface TruingParams {
+  muzzleVelocity: number;
+  bcScale: number;
+}
+
+const MAX_ITERATIONS = 12;
+const MV_STEP = 5; // fps, finite difference step
+const BC_STEP = 0.005; // finite difference step for the BC scale
+const MV_TOLERANCE = 0.5; // fps
+const BC_TOLERANCE = 0.0005;
+const MIN_BC_SCALE = 0.5;
+const MAX_BC_SCALE = 1.5;
+
+export class TruingService {
+  /**
+   * Fit the requested parameters to the observations
+   */
+  true(observations: TruingObservation[], fit: TruingFit, unit: AngularUnit): TruingResult {
+    const base = observations[0]!.input;
+    const initial: TruingParams = { muzzleVelocity: base.muzzleVelocity, bcScale: 1 };
+    const fitMv = fit !== 'bc';
+    const fitBc = fit !== 'muzzle_velocity';
+
+    let params = { ...initial };
+    let residuals = this.residuals(observations, params);
+    let iterations = 0;
+    let converged = false;
+
+    while (iterations < MAX_ITERATIONS) {
+      iterations++;
+
+      // Finite difference Jacobian columns for each fitted parameter
+      const columns: number[][] = [];
+      if (fitMv) {
+        const shifted = this.residuals(observations, {
+          ...params,
+          muzzleVelocity: params.muzzleVelocity + MV_STEP,
+        });
+        columns.push(shifted.map((value, i) => (value - residuals[i]!) / MV_STEP));
+      }
+      if (fitBc) {
+        const shifted = this.residuals(observations, {
+          ...params,
+          bcScale: params.bcScale + BC_STEP,
+        });
+        columns.push(shifted.map((value, i) => (value - residuals[i]!) / BC_STEP));
+      }
+
+      const step = this.solveNormalEquations(columns, residuals);
+      if (!step) {
+        break;
+      }
+
+      let index = 0;
+      const next = { ...params };
+      if (fitMv) {
+        next.muzzleVelocity = this.clamp(
+          params.muzzleVelocity - step[index++]!,
+          initial.muzzleVelocity * 0.5,
+          initial.muzzleVelocity * 1.5,
+        );
+      }
+      if (fitBc) {
+        next.bcScale = this.clamp(params.bcScale - step[index++]!, MIN_BC_SCALE, MAX_BC_SCALE);
+      }
+
+      const mvChange = Math.abs(next.muzzleVelocity - params.muzzleVelocity);
+      const bcChange = Math.abs(next.bcScale - params.bcScale);
+      params = next;
+      residuals = this.residuals(observations, params);
+
+      if (mvChange < MV_TOLERANCE && bcChange < BC_TOLERANCE) {
+        converged = true;
+        break;
+      }
+    }
+
+    const before = this.predict(observations, initial);
+    const after = this.predict(observations, params);
+
+    return {
+      fit,
+      unit,
+      observation_count: observations.length,
+      iterations,
+      converged,
+      original: {
+        muzzle_velocity: round(initial.muzzleVelocity, 1),
+        ballistic_coefficient: base.ballisticCoefficient,
+      },
+      trued: {
+        muzzle_velocity: round(params.muzzleVelocity, 1),
+        ballistic_coefficient: round(base.ballisticCoefficient * params.bcScale, 4),
+        bc_scale: round(params.bcScale, 4),
+      },
+      rms_error: {
+        before: round(convertAngular(this.rms(observations, before), 'MIL', unit), 3),
+        after: round(convertAngular(this.rms(observations, after), 'MIL', unit), 3),
+      },
+      residuals: this.groupResiduals(observations, before, after, unit),
+    };
+  }
+
+  /**
+   * Predicted elevation (MIL) for every observation
+   */
+  private predict(observations: TruingObservation[], params: TruingParams): number[] {
+    return observations.map((observation) => {
+      const input: SolverInput = {
+        ...observation.input,
+        muzzleVelocity: params.muzzleVelocity,
+        ballisticCoefficient: observation.input.ballisticCoefficient * params.bcScale,
+        velocityBands: observation.input.velocityBands?.map((band) => ({
+          ...band,
+          bc: band.bc * params.bcScale,
+        })),
+      };
+      const [point] = BallisticsService.solveRanges(input, [observation.rangeYards]);
+
+      // Ranges the bullet never reaches count as a large miss
+      return point ? point.elevation_mil : observation.elevationMil + 100;
+    });
+  }
+
+  /**
+   * Predicted minus observed elevation (MIL) for every observation
+   */
+  private residuals(observations: TruingObservation[], params: TruingParams): number[] {
+    return this.predict(observations, params).map(
+      (predicted, i) => predicted - observations[i]!.elevationMil,
+    );
+  }
+
+  /**
+   * Solve (JᵀJ)·step = Jᵀr for one or two parameters
+   */
+  private solveNormalEquations(columns: number[][], residuals: number[]): number[] | null {
+    const dot = (a: number[], b: number[]): number =>
+      a.reduce((sum, value, i) => sum + value * b[i]!, 0);
+
+    if (columns.length === 1) {
+      const jtj = dot(columns[0]!, columns[0]!);
+      return jtj > 0 ? [dot(columns[0]!, residuals) / jtj] : null;
+    }
+
+    const [a, b] = columns as [number[], number[]];
+    const aa = dot(a, a);
+    const ab = dot(a, b);
+    const bb = dot(b, b);
+    const ar = dot(a, residuals);
+    const br = dot(b, residuals);
+    const determinant = aa * bb - ab * ab;
+
+    if (Math.abs(determinant) < 1e-12) {
+      return null;
+    }
+
+    return [(bb * ar - ab * br) / determinant, (aa * br - ab * ar) / determinant];
+  }
+
+  private rms(observations: TruingObservation[], predicted: number[]): number {
+    const sum = predicted.reduce(
+      (total, value, i) => total + Math.pow(observations[i]!.elevationMil - value, 2),
+      0,
+    );
+    return Math.sqrt(sum / observations.length);
+  }
+
+  /**
+   * Average observed and predicted elevations per distance in the output unit
+   */
+  private groupResiduals(
+    observations: TruingObservation[],
+    before: number[],
+    after: number[],
+    unit: AngularUnit,
+  ): TruingResidual[] {
+    const groups = new Map<
+      number,
+      { observed: number; before: number; after: number; count: number }
+    >();
+
+    observations.forEach((observation, i) => {
+      const range = Math.round(observation.rangeYards);
+      const group = groups.get(range) || { observed: 0, before: 0, after: 0, count: 0 };
+      group.observed += observation.elevationMil;
+      group.before += before[i]!;
+      group.after += after[i]!;
+      group.count++;
+      groups.set(range, group);
+    });
+
+    const convert = (mil: number): number => round(convertAngular(mil, 'MIL', unit), 2);
+
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([range, group]) => {
+        const observed = group.observed / group.count;
+        const predictedBefore = group.before / group.count;
+        const predictedAfter = group.after / group.count;
+
+        return {
+          range_yards: range,
+          log_count: group.count,
+          observed: convert(observed),
+          predicted_before: convert(predictedBefore),
+          predicted_after: convert(predictedAfter),
+          residual_before: convert(observed - predictedBefore),
+          residual_after: convert(observed - predictedAfter),
+        };
+      });
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+  }
+}
+
+export default new TruingService();
@@ -0,0 +1,358 @@
+import {
+  AltitudeUnit,
+  convertAltitude,
+  convertDistance,
+  convertLength,
+  convertMass,
+  convertPressure,
+  convertSpeed,
+  convertTemperature,
+  convertVelocity,
+  DistanceUnit,
+  LengthUnit,
+  MassUnit,
+  PressureUnit,
+  round,
+  SpeedUnit,
+  TemperatureUnit,
+  UnitSystem,
+  VelocityUnit,
+} from '../utils/units';
+
+/**
+ * Unit Conversion Service
+ *
+ * Converts API payloads between the canonical units every record is
+ * stored in (yards, Fahrenheit, inHg, feet, mph, fps, grains, inches)
+ * and the units a client asked for. Quantities are recognized by field
+ * name; fields whose name carries a unit (range_yards, drop_inches,
+ * velocity_fps, ...) always stay in that unit.
+ */
+
+export interface DisplayUnits {
+  distance: DistanceUnit;
+  temperature: TemperatureUnit;
+  pressure: PressureUnit;
+  altitude: AltitudeUnit;
+  speed: SpeedUnit; // wind and target speed
+  velocity: VelocityUnit; // bullet velocity
+  mass: MassUnit;
+  length: LengthUnit;
+}
+
+export const UNIT_SYSTEMS: Record<UnitSystem, DisplayUnits> = {
+  imperial: {
+    distance: 'yards',
+    temperature: 'F',
+    pressure: 'inHg',
+    altitude: 'ft',
+    speed: 'mph',
+    velocity: 'fps',
+    mass: 'gr',
+    length: 'in',
+  },
+  metric: {
+    distance: 'meters',
+    temperature: 'C',
+    pressure: 'hPa',
+    altitude: 'm',
+    speed: 'mps',
+    velocity: 'mps',
+    mass: 'g',
+    length: 'cm',
+  },
+};
+
+export const CANONICAL_UNITS: DisplayUnits = UNIT_SYSTEMS.imperial;
+
+type Quantity = keyof DisplayUnits;
+type Plain = Record<string, unknown>;
+
+// Unit-bearing fields by name, wherever they appear
+const FIELD_QUANTITIES: Record<string, Quantity> = {
+  temperature: 'temperature',
+  muzzle_velocity_temperature: 'temperature',
+  reference_temperature: 'temperature',
+  mean_temperature: 'temperature',
+  average_temperature: 'temperature',
+  avg_temperature: 'temperature',
+  min_temperature: 'temperature',
+  max_temperature: 'temperature',
+  pressure: 'pressure',
+  station_pressure: 'pressure',
+  avg_pressure: 'pressure',
+  avg_station_pressure: 'pressure',
+  altitude: 'altitude',
+  density_altitude: 'altitude',
+  avg_altitude: 'altitude',
+  avg_density_altitude: 'altitude',
+  wind_speed: 'speed',
+  wind_speeds: 'speed',
+  avg_wind_speed: 'speed',
+  target_speed: 'speed',
+  muzzle_velocity: 'velocity',
+  advertised_velocity: 'velocity',
+  velocity: 'velocity',
+  base_velocity: 'velocity',
+  adjusted_velocity: 'velocity',
+  mean_velocity: 'velocity',
+  speed_of_sound: 'velocity',
+  avg_speed_of_sound: 'velocity',
+  bullet_weight: 'mass',
+  powder_weight: 'mass',
+  barrel_length: 'length',
+  scope_height: 'length',
+  bullet_length: 'length',
+  bullet_diameter: 'length',
+  reference_diameter: 'length',
+  group_size: 'length',
+  target_width: 'length',
+  offset_horizontal: 'length',
+  offset_vertical: 'length',
+  warm_offset_horizontal: 'length',
+  warm_offset_vertical: 'length',
+  distance: 'distance',
+  zero_distance: 'distance',
+  max_range: 'distance',
+  range_step: 'distance',
+};
+
+// Generic field names that only carry a unit inside a known parent
+const NESTED_QUANTITIES: Record<string, Record<string, Quantity>> = {
+  temperature_range: { min: 'temperature', max: 'temperature' },
+  stats: {
+    average: 'velocity',
+    extreme_spread: 'velocity',
+    standard_deviation: 'velocity',
+    min: 'velocity',
+    max: 'velocity',
+  },
+  average_interval: { low: 'velocity', high: 'velocity' },
+  standard_deviation_interval: { low: 'velocity', high: 'velocity' },
+  moving_target: { speed: 'speed', width: 'length' },
+};
+
+// Parents whose values are differences, not absolute readings
+const DELTA_KEYS = new Set(['change', 'net_change']);
+
+// Decimal places for converted values
+const DECIMALS: Record<Quantity, number> = {
+  distance: 2,
+  temperature: 1,
+  pressure: 2,
+  altitude: 1,
+  speed: 1,
+  velocity: 1,
+  mass: 2,
+  length: 3,
+};
+
+// Display units shown with fewer decimals than their quantity
+const UNIT_DECIMALS: Record<string, number> = {
+  hPa: 1,
+  mmHg: 1,
+};
+
+// Input is kept close to exact; storage applies its own precision
+const INPUT_DECIMALS = 4;
+
+type Direction = 'format' | 'parse';
+
+interface Context {
+  direction: Direction;
+  units: DisplayUnits;
+  fields: Record<string, Quantity>;
+  delta: boolean;
+}
+
+export class UnitConversionService {
+  /**
+   * Whether a value names a unit system
+   */
+  isUnitSystem(value: string): value is UnitSystem {
+    return Object.prototype.hasOwnProperty.call(UNIT_SYSTEMS, value);
+  }
+
+  /**
+   * The unit system a set of units belongs to, or custom when mixed
+   */
+  systemOf(units: DisplayUnits): UnitSystem | 'custom' {
+    const system = (Object.keys(UNIT_SYSTEMS) as UnitSystem[]).find((name) =>
+      (Object.keys(units) as Quantity[]).every(
+        (quantity) => UNIT_SYSTEMS[name][quantity] === units[quantity],
+      ),
+    );
+    return system ?? 'custom';
+  }
+
+  /**
+   * Response payload with canonical values in display units
+   */
+  format(data: unknown, units: DisplayUnits): unknown {
+    return this.convert(data, {
+      direction: 'format',
+      units,
+      fields: FIELD_QUANTITIES,
+      delta: false,
+    });
+  }
+
+  /**
+   * Request payload in display units with values in canonical units
+   */
+  parse(data: unknown, units: DisplayUnits): unknown {
+    return this.convert(data, {
+      direction: 'parse',
+      units,
+      fields: FIELD_QUANTITIES,
+      delta: false,
+    });
+  }
+
+  /**
+   * Convert a single value of a quantity
+   */
+  convertValue(
+    value: number,
+    quantity: Quantity,
+    units: DisplayUnits,
+    direction: Direction = 'format',
+    delta: boolean = false,
+  ): number {
+    let from: string = CANONICAL_UNITS[quantity];
+    let to: string = units[quantity];
+    if (direction === 'parse') {
+      [from, to] = [to, from];
+    }
+
+    switch (quantity) {
+      case 'distance':
+        return convertDistance(value, from as DistanceUnit, to as DistanceUnit);
+      case 'temperature':
+        // A temperature difference scales without the 32° offset
+        if (delta) {
+          return (
+            convertTemperature(value, from as TemperatureUnit, to as TemperatureUnit) -
+            convertTemperature(0, from as TemperatureUnit, to as TemperatureUnit)
+          );
+        }
+        return convertTemperature(value, from as TemperatureUnit, to as TemperatureUnit);
+      case 'pressure':
+        return convertPressure(value, from as PressureUnit, to as PressureUnit);
+      case 'altitude':
+        return convertAltitude(value, from as AltitudeUnit, to as AltitudeUnit);
+      case 'speed':
+        return convertSpeed(value, from as SpeedUnit, to as SpeedUnit);
+      case 'velocity':
+        return convertVelocity(value, from as VelocityUnit, to as VelocityUnit);
+      case 'mass':
+        return convertMass(value, from as MassUnit, to as MassUnit);
+      case 'length':
+        return convertLength(value, from as LengthUnit, to as LengthUnit);
+    }
+  }
+
+  private convert(data: unknown, context: Context): unknown {
+    if (Array.isArray(data)) {
+      return data.map((item) => this.convert(item, context));
+    }
+    if (data === null || typeof data !== 'object' || data instanceof Date) {
+      return data;
+    }
+
+    const values = this.plain(data);
+    const distanceUnit = values.distance_unit as DistanceUnit | undefined;
+
+    Object.keys(values).forEach((key) => {
+      const value = values[key];
+      const quantity = context.fields[key] as Quantity | undefined;
+
+      // A distance logged with its own unit is shown in the display unit
+      // and accepted as given
+      if (key === 'distance' && distanceUnit) {
+        if (context.direction === 'format' && this.isNumeric(value)) {
+          if (distanceUnit !== context.units.distance) {
+            values.distance = round(
+              convertDistance(Number(value), distanceUnit, context.units.distance),
+              DECIMALS.distance,
+            );
+            values.distance_unit = context.units.distance;
+          }
+        }
+        return;
+      }
+
+      if (quantity) {
+        if (this.isNumeric(value)) {
+          values[key] = this.convertNumber(value, quantity, context);
+          return;
+        }
+        if (Array.isArray(value) && value.every((item) => this.isNumeric(item))) {
+          values[key] = value.map((item) => this.convertNumber(item, quantity, context));
+          return;
+        }
+      }
+
+      if (value !== null && typeof value === 'object') {
+        values[key] = this.convert(value, {
+          ...context,
+          fields: NESTED_QUANTITIES[key]
+            ? { ...FIELD_QUANTITIES, ...NESTED_QUANTITIES[key] }
+            : FIELD_QUANTITIES,
+          delta: context.delta || DELTA_KEYS.has(key),
+        });
+      }
+    });
+
+    // A bare distance taken in meters is now in yards
+    if (
+      context.direction === 'parse' &&
+      !distanceUnit &&
+      context.units.distance !== CANONICAL_UNITS.distance &&
+      this.isNumeric(values.distance)
+    ) {
+      values.distance_unit = CANONICAL_UNITS.distance;
+    }
+
+    return values;
+  }
+
+  /**
+   * Numbers in the display unit are left exactly as stored
+   */
+  private convertNumber(value: unknown, quantity: Quantity, context: Context): unknown {
+    if (context.units[quantity] === CANONICAL_UNITS[quantity]) {
+      return value;
+    }
+
+    const converted = this.convertValue(
+      Number(value),
+      quantity,
+      context.units,
+      context.direction,
+      context.delta,
+    );
+    let decimals = INPUT_DECIMALS;
+    if (context.direction === 'format') {
+      decimals = UNIT_DECIMALS[context.units[quantity]] ?? DECIMALS[quantity];
+    }
+    return round(converted, decimals);
+  }
+
+  /**
+   * Plain copy of a record (Sequelize instances are serialized first)
+   */
+  private plain(record: object): Plain {
+    const json = record as { toJSON?: () => unknown };
+    return { ...((typeof json.toJSON === 'function' ? json.toJSON() : record) as Plain) };
+  }
+
+  private isNumeric(value: unknown): boolean {
+    if (typeof value === 'number') {
+      return Number.isFinite(value);
+    }
+    return typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value));
+  }
+}
+
+export default new UnitConversionService();
@@ -0,0 +1,169 @@
+import BallisticsService, { SolverInput, TrajectoryPoint } from './BallisticsService';
+import { AngularUnit, convertAngular, round } from '../utils/units';
+
+/**
+ * Wind Table Service
+ *
+ * Builds wind holds per range for a set of wind speeds and clock
+ * directions, optionally scaled by a calibration factor fitted to the
+ * windage the shooter actually logged.
+ */
+
+export interface WindTableOptions {
+  speeds: number[]; // mph
+  clocks: number[]; // 12 = headwind, 3 = from the right, 9 = from the left
+  unit: AngularUnit;
+  clickValue: number;
+  calibrationFactor: number;
+}
+
+export interface WindHold {
+  speed_mph: number;
+  clock: number;
+  hold: number; // correction in the table unit, positive = right
+  hold_inches: number;
+  clicks: number;
+}
+
+export interface WindTableRow {
+  range_yards: number;
+  baseline_windage: number; // no-wind correction (spin drift, Coriolis)
+  holds: WindHold[];
+}
+
+export interface WindObservation {
+  input: SolverInput; // solver input with the log's conditions and wind
+  rangeYards: number;
+  windageMil: number; // logged windage correction
+}
+
+export interface WindCalibration {
+  factor: number;
+  log_count: number;
+  applied: boolean;
+}
+
+export const DEFAULT_WIND_SPEEDS = [5, 10, 15];
+export const DEFAULT_CLOCKS = [3, 9];
+
+// Logs whose predicted wind hold is smaller than this carry no information
+const MIN_CALIBRATION_HOLD_MIL = 0.05;
+const MIN_FACTOR = 0.5;
+const MAX_FACTOR = 2;
+
+export class WindTableService {
+  /**
+   * Build wind holds for each range. Holds exclude the no-wind windage,
+   * which is reported separately as the baseline.
+   */
+  buildTable(input: SolverInput, ranges: number[], options: WindTableOptions): WindTableRow[] {
+    const calm = this.byRange(BallisticsService.solveRanges(this.withWind(input, 0, 0), ranges));
+    const rows = new Map<number, WindTableRow>();
+
+    calm.forEach((point, range) => {
+      if (range <= 0) {
+        return;
+      }
+      rows.set(range, {
+        range_yards: range,
+        baseline_windage: round(this.windage(point, options.unit), 2),
+        holds: [],
+      });
+    });
+
+    options.speeds.forEach((speed) => {
+      options.clocks.forEach((clock) => {
+        const windy = BallisticsService.solveRanges(this.withWind(input, speed, clock), ranges);
+
+        windy.forEach((point) => {
+          const row = rows.get(point.range_yards);
+          const base = calm.get(point.range_yards);
+          if (!row || !base) {
+            return;
+          }
+
+          const hold =
+            (this.windage(point, options.unit) - this.windage(base, options.unit)) *
+            options.calibrationFactor;
+          const holdInches =
+            -(point.windage_inches - base.windage_inches) * options.calibrationFactor;
+
+          row.holds.push({
+            speed_mph: speed,
+            clock,
+            hold: round(hold, 2),
+            hold_inches: round(holdInches, 2),
+            clicks: options.clickValue > 0 ? Math.round(hold / options.clickValue) : 0,
+          });
+        });
+      });
+    });
+
+    return Array.from(rows.values()).sort((a, b) => a.range_yards - b.range_yards);
+  }
+
+  /**
+   * Least-squares scale between predicted and logged wind holds, through
+   * the origin. The factor is only applied when at least one log had a
+   * meaningful crosswind.
+   */
+  calibrate(observations: WindObservation[]): WindCalibration {
+    let sumProduct = 0;
+    let sumSquares = 0;
+    let count = 0;
+
+    observations.forEach((observation) => {
+      const [windy] = BallisticsService.solveRanges(observation.input, [observation.rangeYards]);
+      const [calm] = BallisticsService.solveRanges(
+        { ...observation.input, conditions: { ...observation.input.conditions, windSpeed: 0 } },
+        [observation.rangeYards],
+      );
+      if (!windy || !calm) {
+        return;
+      }
+
+      const predicted = windy.windage_mil - calm.windage_mil;
+      if (Math.abs(predicted) < MIN_CALIBRATION_HOLD_MIL) {
+        return;
+      }
+
+      const logged = observation.windageMil - calm.windage_mil;
+      sumProduct += predicted * logged;
+      sumSquares += predicted * predicted;
+      count++;
+    });
+
+    if (count === 0 || sumSquares === 0) {
+      return { factor: 1, log_count: 0, applied: false };
+    }
+
+    const factor = Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, sumProduct / sumSquares));
+    return { factor: round(factor, 3), log_count: count, applied: true };
+  }
+
+  /**
+   * Solver input with a wind of the given speed from a clock position
+   * relative to the shot direction
+   */
+  private withWind(input: SolverInput, speed: number, clock: number): SolverInput {
+    const azimuth = input.shotAzimuth || 0;
+    return {
+      ...input,
+      conditions: {
+        ...input.conditions,
+        windSpeed: speed,
+        windDirection: (azimuth + (clock % 12) * 30) % 360,
+      },
+    };
+  }
+
+  private windage(point: TrajectoryPoint, unit: AngularUnit): number {
+    return convertAngular(point.windage_mil, 'MIL', unit);
+  }
+
+  private byRange(points: TrajectoryPoint[]): Map<number, TrajectoryPoint> {
+    return new Map(points.map((point) => [point.range_yards, point]));
+  }
+}
+
+export default new WindTableService();
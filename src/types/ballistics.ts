@@ -0,0 +1,7 @@
+/**
+ * Ballistics Types
+ *
+ * Rifle and bullet properties stored on profiles and used by the solver.
+ */
+
+export type TwistDirection = 'right' | 'left';
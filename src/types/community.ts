@@ -0,0 +1,16 @@
+/**
+ * Community Types
+ *
+ * Review and votes on shared community ammo entries.
+ */
+
+export type VerificationStatus = 'pending' | 'verified' | 'disputed' | 'rejected';
+
+export type ModerationAction = 'verify' | 'reject' | 'dispute' | 'merge';
+
+export type VoteType = 'up' | 'down';
+
+export interface VoteState {
+  vote_type: VoteType;
+  is_flagged: boolean;
+}
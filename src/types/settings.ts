@@ -0,0 +1,29 @@
+import {
+  AngularUnit,
+  DistanceUnit,
+  PressureUnit,
+  TemperatureUnit,
+  UnitSystem,
+} from '../utils/units';
+import { ConflictStrategy } from './sync';
+
+/**
+ * Settings Types
+ *
+ * A user's resolved settings. The schema that validates each key is
+ * declared in SettingsService.
+ */
+
+export interface UserSettings {
+  unit_system: UnitSystem;
+  distance_unit: DistanceUnit | null; // null follows unit_system
+  correction_unit: AngularUnit | null; // null follows each rifle's turret
+  temperature_unit: TemperatureUnit | null;
+  pressure_unit: PressureUnit | null;
+  default_rifle_id: number | null;
+  card_increment: number; // in distance_unit
+  card_max_range: number; // in distance_unit
+  sync_conflict_strategy: ConflictStrategy;
+}
+
+export type SettingKey = keyof UserSettings;
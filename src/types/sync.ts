@@ -0,0 +1,29 @@
+/**
+ * Sync Types
+ *
+ * Entities and operations of offline-first sync, as logged in sync_logs
+ * and sent by devices.
+ */
+
+export const SYNC_ENTITY_TYPES = ['rifle', 'ammo', 'environment', 'dope_log'] as const;
+export type SyncEntityType = (typeof SYNC_ENTITY_TYPES)[number];
+
+export const SYNC_OPERATIONS = ['create', 'update', 'delete'] as const;
+export type SyncOperation = (typeof SYNC_OPERATIONS)[number];
+
+export type SyncData = Record<string, unknown>;
+
+export const CONFLICT_STRATEGIES = ['server_wins', 'client_wins', 'merge', 'manual'] as const;
+export type ConflictStrategy = (typeof CONFLICT_STRATEGIES)[number];
+
+export const CONFLICT_RESOLUTIONS = ['server', 'client', 'merge'] as const;
+export type ConflictResolution = (typeof CONFLICT_RESOLUTIONS)[number];
+
+/**
+ * An edit made by another device or the REST API after the client's base
+ * version
+ */
+export interface ServerEdit {
+  fields: string[] | null; // null when unknown: treated as every field
+  client_timestamp: Date;
+}
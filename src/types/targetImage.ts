@@ -0,0 +1,26 @@
+/**
+ * Target Image Types
+ *
+ * Marks placed on target photos. Coordinates are pixels from the top-left
+ * corner of the upright (EXIF-rotated) image.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Two points marked a known length apart, which scale the image to inches
+ */
+export interface ScaleReference {
+  from: Point;
+  to: Point;
+  inches: number; // real length between the two points
+}
+
+export interface PoiMarker {
+  x: number;
+  y: number;
+  label?: string;
+}
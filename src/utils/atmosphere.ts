@@ -0,0 +1,138 @@
+/**
+ * Atmosphere Utilities
+ *
+ * ICAO standard atmosphere and moist-air density used for density
+ * altitude and ballistic drag. Inputs use the API's imperial units
+ * (°F, inHg, feet).
+ */
+
+// station: pressure measured at the shooter's elevation (Kestrel "station")
+// barometric: altimeter setting, corrected to sea level (weather reports)
+export type PressureType = 'station' | 'barometric';
+
+export interface AtmosphereInput {
+  temperature: number; // Fahrenheit
+  pressure: number; // inHg
+  humidity: number; // percentage 0-100
+  altitude: number; // feet
+  pressureType?: PressureType; // defaults to barometric
+}
+
+export interface AtmosphereResult {
+  station_pressure: number; // inHg
+  pressure_altitude: number; // feet
+  vapor_pressure: number; // inHg
+  air_density: number; // lb/ft³
+  density_ratio: number; // relative to ICAO sea level
+  density_altitude: number; // feet
+  speed_of_sound: number; // fps
+}
+
+// ICAO sea-level standard
+export const STANDARD_TEMPERATURE_F = 59;
+export const STANDARD_PRESSURE_INHG = 29.92126;
+export const STANDARD_AIR_DENSITY = 0.0764742; // lb/ft³ (1.225 kg/m³)
+
+// Troposphere lapse rate and pressure exponent, altitude in feet
+const LAPSE_RATE_F_PER_FT = 0.00356616;
+const ALTITUDE_FACTOR = 6.8755856e-6;
+const PRESSURE_EXPONENT = 5.2558797;
+const DENSITY_EXPONENT = 4.2558797;
+
+const PA_PER_INHG = 3386.389;
+const KG_M3_TO_LB_FT3 = 0.062428;
+const DRY_AIR_GAS_CONSTANT = 287.058; // J/(kg·K)
+const WATER_VAPOR_GAS_CONSTANT = 461.495; // J/(kg·K)
+
+/**
+ * ICAO standard temperature (°F) at a geopotential altitude (feet)
+ */
+export function standardTemperature(altitude: number): number {
+  return STANDARD_TEMPERATURE_F - LAPSE_RATE_F_PER_FT * altitude;
+}
+
+/**
+ * ICAO standard pressure (inHg) at an altitude (feet)
+ */
+export function standardPressure(altitude: number): number {
+  return STANDARD_PRESSURE_INHG * Math.pow(1 - ALTITUDE_FACTOR * altitude, PRESSURE_EXPONENT);
+}
+
+/**
+ * Pressure at the shooter's elevation. A barometric (altimeter) reading is
+ * reduced to station pressure with the standard pressure ratio.
+ */
+export function stationPressure(
+  pressure: number,
+  altitude: number,
+  pressureType: PressureType = 'barometric',
+): number {
+  if (pressureType === 'station') {
+    return pressure;
+  }
+  return pressure * Math.pow(1 - ALTITUDE_FACTOR * altitude, PRESSURE_EXPONENT);
+}
+
+/**
+ * Altitude (feet) at which the standard atmosphere has this station pressure
+ */
+export function pressureAltitude(station: number): number {
+  return (1 - Math.pow(station / STANDARD_PRESSURE_INHG, 1 / PRESSURE_EXPONENT)) / ALTITUDE_FACTOR;
+}
+
+/**
+ * Saturation vapor pressure (inHg) over water, Tetens equation
+ */
+export function saturationVaporPressure(temperature: number): number {
+  const celsius = ((temperature - 32) * 5) / 9;
+  const hectopascals = 6.1078 * Math.pow(10, (7.5 * celsius) / (celsius + 237.3));
+  return (hectopascals * 100) / PA_PER_INHG;
+}
+
+/**
+ * Moist air density (lb/ft³) from the partial pressures of dry air and
+ * water vapor
+ */
+export function airDensity(temperature: number, station: number, humidity: number): number {
+  const kelvin = ((temperature - 32) * 5) / 9 + 273.15;
+  const vapor = (saturationVaporPressure(temperature) * humidity) / 100;
+  const dryPa = (station - vapor) * PA_PER_INHG;
+  const vaporPa = vapor * PA_PER_INHG;
+
+  const kgPerM3 =
+    dryPa / (DRY_AIR_GAS_CONSTANT * kelvin) + vaporPa / (WATER_VAPOR_GAS_CONSTANT * kelvin);
+  return kgPerM3 * KG_M3_TO_LB_FT3;
+}
+
+/**
+ * Altitude (feet) at which the standard atmosphere has this density ratio
+ */
+export function densityAltitudeFromRatio(densityRatio: number): number {
+  return (1 - Math.pow(densityRatio, 1 / DENSITY_EXPONENT)) / ALTITUDE_FACTOR;
+}
+
+/**
+ * Speed of sound (fps) in dry air at a temperature
+ */
+export function speedOfSound(temperature: number): number {
+  return 49.0223 * Math.sqrt(temperature + 459.67);
+}
+
+/**
+ * Full atmosphere for a set of measured conditions
+ */
+export function calculateAtmosphere(input: AtmosphereInput): AtmosphereResult {
+  const station = stationPressure(input.pressure, input.altitude, input.pressureType);
+  const density = airDensity(input.temperature, station, input.humidity);
+  const densityRatio = density / STANDARD_AIR_DENSITY;
+
+  return {
+    station_pressure: station,
+    pressure_altitude: pressureAltitude(station),
+    vapor_pressure: (saturationVaporPressure(input.temperature) * input.humidity) / 100,
+    air_density: density,
+    density_ratio: densityRatio,
+    density_altitude: densityAltitudeFromRatio(densityRatio),
+    speed_of_sound: speedOfSound(input.temperature),
+  };
+}
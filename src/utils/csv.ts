@@ -0,0 +1,87 @@
+/**
+ * CSV Utilities
+ *
+ * Minimal delimited-text parsing for device exports. Handles quoted
+ * fields, escaped quotes and comma or semicolon delimiters.
+ */
+
+export type Delimiter = ',' | ';' | '\t';
+
+/**
+ * Split text into trimmed, non-empty lines, dropping a byte order mark
+ */
+export function splitLines(content: string): string[] {
+  return content
+    .replace(/^\uFEFF/, '')
+    .split(/\r\n|\n|\r/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Guess the delimiter from an Excel "sep=" hint or the most common
+ * candidate in the first lines
+ */
+export function detectDelimiter(lines: string[]): Delimiter {
+  const hint = lines[0]?.match(/^"?sep=(.)"?$/i);
+  if (hint && (hint[1] === ',' || hint[1] === ';' || hint[1] === '\t')) {
+    return hint[1];
+  }
+
+  const sample = lines.slice(0, 20).join('\n');
+  const counts: Array<[Delimiter, number]> = [
+    [',', (sample.match(/,/g) || []).length],
+    [';', (sample.match(/;/g) || []).length],
+    ['\t', (sample.match(/\t/g) || []).length],
+  ];
+  counts.sort((a, b) => b[1] - a[1]);
+  return counts[0]![1] > 0 ? counts[0]![0] : ',';
+}
+
+/**
+ * Split one line into trimmed fields
+ */
+export function splitFields(line: string, delimiter: Delimiter): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Parse a number that may use a decimal comma (common in semicolon files)
+ */
+export function parseNumber(value: string | undefined): number | null {
+  if (value === undefined) {
+    return null;
+  }
+  const normalized = value.replace(/\s/g, '').replace(',', '.');
+  if (normalized === '' || !/^-?\d*\.?\d+$/.test(normalized)) {
+    return null;
+  }
+  return Number(normalized);
+}
@@ -0,0 +1,306 @@
+/**
+ * Drag Tables
+ *
+ * Standard projectile drag functions (Mach number vs drag coefficient)
+ * used by the point-mass trajectory solver.
+ */
+
+export type DragModel = 'G1' | 'G7';
+
+export interface DragPoint {
+  mach: number;
+  cd: number;
+}
+
+/**
+ * BC that applies at and above a velocity (fps) for a standard drag model
+ */
+export interface VelocityBand {
+  min_velocity: number;
+  bc: number;
+}
+
+/**
+ * G1 standard projectile (flat base, 2 caliber ogive)
+ */
+export const G1_TABLE: DragPoint[] = [
+  { mach: 0.0, cd: 0.2629 },
+  { mach: 0.05, cd: 0.2558 },
+  { mach: 0.1, cd: 0.2487 },
+  { mach: 0.15, cd: 0.2413 },
+  { mach: 0.2, cd: 0.2344 },
+  { mach: 0.25, cd: 0.2278 },
+  { mach: 0.3, cd: 0.2214 },
+  { mach: 0.35, cd: 0.2155 },
+  { mach: 0.4, cd: 0.2104 },
+  { mach: 0.45, cd: 0.2061 },
+  { mach: 0.5, cd: 0.2032 },
+  { mach: 0.55, cd: 0.202 },
+  { mach: 0.6, cd: 0.2034 },
+  { mach: 0.7, cd: 0.2165 },
+  { mach: 0.725, cd: 0.223 },
+  { mach: 0.75, cd: 0.2313 },
+  { mach: 0.775, cd: 0.2417 },
+  { mach: 0.8, cd: 0.2546 },
+  { mach: 0.825, cd: 0.2706 },
+  { mach: 0.85, cd: 0.2901 },
+  { mach: 0.875, cd: 0.3136 },
+  { mach: 0.9, cd: 0.3415 },
+  { mach: 0.925, cd: 0.3734 },
+  { mach: 0.95, cd: 0.4084 },
+  { mach: 0.975, cd: 0.4448 },
+  { mach: 1.0, cd: 0.4805 },
+  { mach: 1.025, cd: 0.5136 },
+  { mach: 1.05, cd: 0.5427 },
+  { mach: 1.075, cd: 0.5677 },
+  { mach: 1.1, cd: 0.5883 },
+  { mach: 1.125, cd: 0.6053 },
+  { mach: 1.15, cd: 0.6191 },
+  { mach: 1.2, cd: 0.6393 },
+  { mach: 1.25, cd: 0.6518 },
+  { mach: 1.3, cd: 0.6589 },
+  { mach: 1.35, cd: 0.6621 },
+  { mach: 1.4, cd: 0.6625 },
+  { mach: 1.45, cd: 0.6607 },
+  { mach: 1.5, cd: 0.6573 },
+  { mach: 1.55, cd: 0.6528 },
+  { mach: 1.6, cd: 0.6474 },
+  { mach: 1.65, cd: 0.6413 },
+  { mach: 1.7, cd: 0.6347 },
+  { mach: 1.75, cd: 0.628 },
+  { mach: 1.8, cd: 0.621 },
+  { mach: 1.85, cd: 0.6141 },
+  { mach: 1.9, cd: 0.6072 },
+  { mach: 1.95, cd: 0.6003 },
+  { mach: 2.0, cd: 0.5934 },
+  { mach: 2.05, cd: 0.5867 },
+  { mach: 2.1, cd: 0.5804 },
+  { mach: 2.15, cd: 0.5743 },
+  { mach: 2.2, cd: 0.5685 },
+  { mach: 2.25, cd: 0.563 },
+  { mach: 2.3, cd: 0.5577 },
+  { mach: 2.35, cd: 0.5527 },
+  { mach: 2.4, cd: 0.5481 },
+  { mach: 2.45, cd: 0.5438 },
+  { mach: 2.5, cd: 0.5397 },
+  { mach: 2.6, cd: 0.5325 },
+  { mach: 2.7, cd: 0.5264 },
+  { mach: 2.8, cd: 0.5211 },
+  { mach: 2.9, cd: 0.5168 },
+  { mach: 3.0, cd: 0.5133 },
+  { mach: 3.1, cd: 0.5105 },
+  { mach: 3.2, cd: 0.5084 },
+  { mach: 3.3, cd: 0.5067 },
+  { mach: 3.4, cd: 0.5054 },
+  { mach: 3.5, cd: 0.504 },
+  { mach: 3.6, cd: 0.503 },
+  { mach: 3.7, cd: 0.5022 },
+  { mach: 3.8, cd: 0.5016 },
+  { mach: 3.9, cd: 0.501 },
+  { mach: 4.0, cd: 0.5006 },
+  { mach: 4.2, cd: 0.4998 },
+  { mach: 4.4, cd: 0.4995 },
+  { mach: 4.6, cd: 0.4992 },
+  { mach: 4.8, cd: 0.499 },
+  { mach: 5.0, cd: 0.4988 },
+];
+
+/**
+ * G7 standard projectile (boat tail, long ogive)
+ */
+export const G7_TABLE: DragPoint[] = [
+  { mach: 0.0, cd: 0.1198 },
+  { mach: 0.05, cd: 0.1197 },
+  { mach: 0.1, cd: 0.1196 },
+  { mach: 0.15, cd: 0.1194 },
+  { mach: 0.2, cd: 0.1193 },
+  { mach: 0.25, cd: 0.1194 },
+  { mach: 0.3, cd: 0.1194 },
+  { mach: 0.35, cd: 0.1194 },
+  { mach: 0.4, cd: 0.1193 },
+  { mach: 0.45, cd: 0.1193 },
+  { mach: 0.5, cd: 0.1194 },
+  { mach: 0.55, cd: 0.1193 },
+  { mach: 0.6, cd: 0.1194 },
+  { mach: 0.65, cd: 0.1197 },
+  { mach: 0.7, cd: 0.1202 },
+  { mach: 0.725, cd: 0.1207 },
+  { mach: 0.75, cd: 0.1215 },
+  { mach: 0.775, cd: 0.1226 },
+  { mach: 0.8, cd: 0.1242 },
+  { mach: 0.825, cd: 0.1266 },
+  { mach: 0.85, cd: 0.1306 },
+  { mach: 0.875, cd: 0.1368 },
+  { mach: 0.9, cd: 0.1464 },
+  { mach: 0.925, cd: 0.166 },
+  { mach: 0.95, cd: 0.2054 },
+  { mach: 0.975, cd: 0.2993 },
+  { mach: 1.0, cd: 0.3803 },
+  { mach: 1.025, cd: 0.4015 },
+  { mach: 1.05, cd: 0.4043 },
+  { mach: 1.075, cd: 0.4034 },
+  { mach: 1.1, cd: 0.4014 },
+  { mach: 1.125, cd: 0.3987 },
+  { mach: 1.15, cd: 0.3955 },
+  { mach: 1.2, cd: 0.3884 },
+  { mach: 1.25, cd: 0.381 },
+  { mach: 1.3, cd: 0.3732 },
+  { mach: 1.35, cd: 0.3657 },
+  { mach: 1.4, cd: 0.358 },
+  { mach: 1.5, cd: 0.344 },
+  { mach: 1.55, cd: 0.3376 },
+  { mach: 1.6, cd: 0.3315 },
+  { mach: 1.65, cd: 0.326 },
+  { mach: 1.7, cd: 0.3209 },
+  { mach: 1.75, cd: 0.316 },
+  { mach: 1.8, cd: 0.3117 },
+  { mach: 1.85, cd: 0.3078 },
+  { mach: 1.9, cd: 0.3042 },
+  { mach: 1.95, cd: 0.301 },
+  { mach: 2.0, cd: 0.298 },
+  { mach: 2.05, cd: 0.2951 },
+  { mach: 2.1, cd: 0.2922 },
+  { mach: 2.15, cd: 0.2892 },
+  { mach: 2.2, cd: 0.2864 },
+  { mach: 2.25, cd: 0.2835 },
+  { mach: 2.3, cd: 0.2807 },
+  { mach: 2.35, cd: 0.2779 },
+  { mach: 2.4, cd: 0.2752 },
+  { mach: 2.45, cd: 0.2725 },
+  { mach: 2.5, cd: 0.2697 },
+  { mach: 2.55, cd: 0.267 },
+  { mach: 2.6, cd: 0.2643 },
+  { mach: 2.65, cd: 0.2615 },
+  { mach: 2.7, cd: 0.2588 },
+  { mach: 2.75, cd: 0.2561 },
+  { mach: 2.8, cd: 0.2533 },
+  { mach: 2.85, cd: 0.2506 },
+  { mach: 2.9, cd: 0.2479 },
+  { mach: 2.95, cd: 0.2451 },
+  { mach: 3.0, cd: 0.2424 },
+  { mach: 3.1, cd: 0.2368 },
+  { mach: 3.2, cd: 0.2313 },
+  { mach: 3.3, cd: 0.2258 },
+  { mach: 3.4, cd: 0.2205 },
+  { mach: 3.5, cd: 0.2154 },
+  { mach: 3.6, cd: 0.2106 },
+  { mach: 3.7, cd: 0.206 },
+  { mach: 3.8, cd: 0.2017 },
+  { mach: 3.9, cd: 0.1975 },
+  { mach: 4.0, cd: 0.1935 },
+  { mach: 4.2, cd: 0.1861 },
+  { mach: 4.4, cd: 0.1793 },
+  { mach: 4.6, cd: 0.173 },
+  { mach: 4.8, cd: 0.1672 },
+  { mach: 5.0, cd: 0.1618 },
+];
+
+/**
+ * Get the standard drag table for a drag model
+ */
+export function getDragTable(model: DragModel): DragPoint[] {
+  return model === 'G1' ? G1_TABLE : G7_TABLE;
+}
+
+/**
+ * Interpolate drag coefficient for a Mach number
+ * Values outside the table are clamped to the first/last entry
+ */
+export function interpolateCd(table: DragPoint[], mach: number): number {
+  const first = table[0]!;
+  const last = table[table.length - 1]!;
+
+  if (mach <= first.mach) {
+    return first.cd;
+  }
+  if (mach >= last.mach) {
+    return last.cd;
+  }
+
+  // Binary search for the bracketing segment
+  let low = 0;
+  let high = table.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (table[mid]!.mach <= mach) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  const a = table[low]!;
+  const b = table[high]!;
+  return a.cd + ((mach - a.mach) / (b.mach - a.mach)) * (b.cd - a.cd);
+}
+
+/**
+ * Check a custom drag curve: at least two points, Mach strictly increasing
+ * and positive drag coefficients. Returns an error message or null.
+ */
+export function validateDragCurve(points: DragPoint[]): string | null {
+  if (!Array.isArray(points) || points.length < 2) {
+    return 'Drag curve needs at least 2 points';
+  }
+
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i]!;
+    if (!Number.isFinite(point.mach) || point.mach < 0) {
+      return `Point ${i}: Mach must be a non-negative number`;
+    }
+    if (!Number.isFinite(point.cd) || point.cd <= 0) {
+      return `Point ${i}: Cd must be a positive number`;
+    }
+    if (i > 0 && point.mach <= points[i - 1]!.mach) {
+      return `Point ${i}: Mach values must be strictly increasing`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check velocity bands: at least one band, unique velocities and BCs
+ * between 0 and 1. Returns an error message or null.
+ */
+export function validateVelocityBands(bands: VelocityBand[]): string | null {
+  if (!Array.isArray(bands) || bands.length < 1) {
+    return 'At least 1 velocity band is required';
+  }
+
+  const seen = new Set<number>();
+  for (let i = 0; i < bands.length; i++) {
+    const band = bands[i]!;
+    if (!Number.isFinite(band.min_velocity) || band.min_velocity < 0) {
+      return `Band ${i}: min_velocity must be a non-negative number`;
+    }
+    if (!Number.isFinite(band.bc) || band.bc <= 0 || band.bc > 1) {
+      return `Band ${i}: BC must be between 0 and 1`;
+    }
+    if (seen.has(band.min_velocity)) {
+      return `Band ${i}: min_velocity values must be unique`;
+    }
+    seen.add(band.min_velocity);
+  }
+
+  return null;
+}
+
+/**
+ * BC for a velocity from bands; below the slowest band its BC is used
+ */
+export function bandedBc(bands: VelocityBand[], velocity: number): number {
+  let match: VelocityBand | null = null;
+  let slowest = bands[0]!;
+
+  bands.forEach((band) => {
+    if (band.min_velocity <= velocity && (!match || band.min_velocity > match.min_velocity)) {
+      match = band;
+    }
+    if (band.min_velocity < slowest.min_velocity) {
+      slowest = band;
+    }
+  });
+
+  return (match || slowest).bc;
+}
@@ -1,4 +1,4 @@
-import jwt from 'jsonwebtoken';
+import jwt, { SignOptions } from 'jsonwebtoken';
 import { AuthenticationError } from './errors';
 
 /**
@@ -9,8 +9,10 @@ import { AuthenticationError } from './errors';
  */
 
 const JWT_SECRET = process.env.JWT_SECRET || 'dev_jwt_secret_changeme_in_production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m'; // Access token: 15 minutes
-const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d'; // Refresh token: 7 days
+type ExpiresIn = SignOptions['expiresIn'];
+
+const JWT_EXPIRES_IN = (process.env.JWT_EXPIRES_IN || '15m') as ExpiresIn; // Access token: 15 minutes
+const JWT_REFRESH_EXPIRES_IN = (process.env.JWT_REFRESH_EXPIRES_IN || '7d') as ExpiresIn; // Refresh token: 7 days
 
 export interface JwtPayload {
   userId: number;
@@ -126,7 +128,7 @@ export function extractBearerToken(authHeader?: string): string | null {
     return null;
   }
 
-  return parts[1];
+  return parts[1] ?? null;
 }
 
 /**
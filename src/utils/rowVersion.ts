@@ -0,0 +1,34 @@
+import { ConflictError } from './errors';
+
+/**
+ * Row Version Utilities
+ *
+ * Optimistic locking for records edited from several devices. Models
+ * initialized with `rowVersioning` bump row_version on every update, and
+ * an update only applies while the row is still at the version it was
+ * read at; a concurrent edit fails with SequelizeOptimisticLockError (409).
+ * Clients send the row_version their edit is based on, so an edit to a
+ * version someone else has since changed is rejected before writing.
+ */
+
+export const rowVersioning = { version: 'row_version' } as const;
+
+/**
+ * The changes of an edit, after rejecting it when it is based on a
+ * row_version other than the current one
+ */
+export function versionedChanges<T extends Record<string, unknown>>(
+  row: { row_version: number },
+  edit: T,
+  label: string,
+): Omit<T, 'row_version'> {
+  const { row_version: expectedVersion, ...changes } = edit;
+
+  if (expectedVersion !== undefined && Number(expectedVersion) !== row.row_version) {
+    throw new ConflictError(
+      `${label} was changed elsewhere (now version ${row.row_version}); reload and try again`,
+    );
+  }
+
+  return changes;
+}
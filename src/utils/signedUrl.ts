@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+
+/**
+ * Signed URL Utilities
+ *
+ * HMAC-signed, expiring links that grant access to a single resource
+ * without an access token (e.g. an <Image> source in the mobile app).
+ */
+
+const SIGNING_SECRET =
+  process.env.STORAGE_SIGNING_SECRET ||
+  process.env.JWT_SECRET ||
+  'dev_jwt_secret_changeme_in_production';
+
+export const DEFAULT_SIGNED_URL_TTL = 15 * 60; // seconds
+export const MAX_SIGNED_URL_TTL = 24 * 60 * 60; // seconds
+
+export interface SignedUrl {
+  url: string;
+  expires_at: Date;
+}
+
+/**
+ * Signature over a resource name and its expiry (Unix seconds)
+ */
+export function signResource(resource: string, expires: number): string {
+  return crypto.createHmac('sha256', SIGNING_SECRET).update(`${resource}:${expires}`).digest('hex');
+}
+
+/**
+ * URL for a resource path with expires/signature query parameters
+ */
+export function createSignedUrl(
+  urlPath: string,
+  resource: string,
+  ttlSeconds: number = DEFAULT_SIGNED_URL_TTL,
+  now: number = Date.now(),
+): SignedUrl {
+  const ttl = Math.min(Math.max(Math.round(ttlSeconds), 1), MAX_SIGNED_URL_TTL);
+  const expires = Math.floor(now / 1000) + ttl;
+  const separator = urlPath.includes('?') ? '&' : '?';
+
+  return {
+    url: `${urlPath}${separator}expires=${expires}&signature=${signResource(resource, expires)}`,
+    expires_at: new Date(expires * 1000),
+  };
+}
+
+/**
+ * Whether a signature is valid for the resource and not yet expired
+ */
+export function verifySignedResource(
+  resource: string,
+  expires: unknown,
+  signature: unknown,
+  now: number = Date.now(),
+): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || typeof signature !== 'string') {
+    return false;
+  }
+  if (expiresAt * 1000 < now) {
+    return false;
+  }
+
+  const expected = Buffer.from(signResource(resource, expiresAt), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
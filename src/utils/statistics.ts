@@ -0,0 +1,173 @@
+/**
+ * Statistics Utilities
+ *
+ * Descriptive statistics and small-sample confidence intervals for
+ * chronograph strings and other shot measurements.
+ */
+
+export interface Interval {
+  low: number;
+  high: number;
+}
+
+// Two-sided 95% Student's t critical values by degrees of freedom (1-30)
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145,
+  2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048,
+  2.045, 2.042,
+];
+
+// Chi-square 2.5% and 97.5% quantiles by degrees of freedom (1-30)
+const CHI_SQUARE_025 = [
+  0.000982, 0.0506, 0.216, 0.484, 0.831, 1.237, 1.69, 2.18, 2.7, 3.247, 3.816, 4.404, 5.009, 5.629,
+  6.262, 6.908, 7.564, 8.231, 8.907, 9.591, 10.283, 10.982, 11.689, 12.401, 13.12, 13.844, 14.573,
+  15.308, 16.047, 16.791,
+];
+const CHI_SQUARE_975 = [
+  5.024, 7.378, 9.348, 11.143, 12.833, 14.449, 16.013, 17.535, 19.023, 20.483, 21.92, 23.337,
+  24.736, 26.119, 27.488, 28.845, 30.191, 31.526, 32.852, 34.17, 35.479, 36.781, 38.076, 39.364,
+  40.646, 41.923, 43.195, 44.461, 45.722, 46.979,
+];
+
+// Standard normal 97.5% quantile
+const Z_975 = 1.959964;
+
+export const CONFIDENCE_LEVEL = 0.95;
+
+export function mean(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Sample standard deviation (n - 1 denominator); 0 for fewer than 2 values
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  const squares = values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0);
+  return Math.sqrt(squares / (values.length - 1));
+}
+
+export function extremeSpread(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  return Math.max(...values) - Math.min(...values);
+}
+
+/**
+ * Two-sided 95% Student's t critical value
+ */
+export function tCritical(degreesOfFreedom: number): number {
+  if (degreesOfFreedom < 1) {
+    return Infinity;
+  }
+  if (degreesOfFreedom <= T_95.length) {
+    return T_95[Math.floor(degreesOfFreedom) - 1]!;
+  }
+  // Cornish-Fisher expansion, accurate to 3 decimals above 30 df
+  const z = Z_975;
+  const df = degreesOfFreedom;
+  return (
+    z +
+    (Math.pow(z, 3) + z) / (4 * df) +
+    (5 * Math.pow(z, 5) + 16 * Math.pow(z, 3) + 3 * z) / (96 * df * df)
+  );
+}
+
+/**
+ * Chi-square 97.5% (upper) or 2.5% quantile, by table up to 30 df and the
+ * Wilson-Hilferty approximation above
+ */
+export function chiSquareQuantile(degreesOfFreedom: number, upper: boolean): number {
+  const table = upper ? CHI_SQUARE_975 : CHI_SQUARE_025;
+  if (degreesOfFreedom <= table.length) {
+    return table[Math.max(1, Math.floor(degreesOfFreedom)) - 1]!;
+  }
+  const z = upper ? Z_975 : -Z_975;
+  const k = degreesOfFreedom;
+  return k * Math.pow(1 - 2 / (9 * k) + z * Math.sqrt(2 / (9 * k)), 3);
+}
+
+/**
+ * 95% confidence interval for the population mean; null below 2 values
+ */
+export function meanConfidenceInterval(values: number[]): Interval | null {
+  if (values.length < 2) {
+    return null;
+  }
+  const average = mean(values);
+  const margin =
+    (tCritical(values.length - 1) * standardDeviation(values)) / Math.sqrt(values.length);
+  return { low: average - margin, high: average + margin };
+}
+
+/**
+ * 95% confidence interval for the population standard deviation; null
+ * below 2 values
+ */
+export function standardDeviationConfidenceInterval(values: number[]): Interval | null {
+  if (values.length < 2) {
+    return null;
+  }
+  const df = values.length - 1;
+  const variance = Math.pow(standardDeviation(values), 2);
+  return {
+    low: Math.sqrt((df * variance) / chiSquareQuantile(df, true)),
+    high: Math.sqrt((df * variance) / chiSquareQuantile(df, false)),
+  };
+}
+
+export interface LinearFit {
+  slope: number;
+  intercept: number;
+  r_squared: number;
+  slope_standard_error: number | null; // null below 3 points
+  count: number;
+}
+
+/**
+ * Ordinary least-squares fit of y = intercept + slope * x; null when there
+ * are fewer than 2 points or x does not vary
+ */
+export function linearRegression(xs: number[], ys: number[]): LinearFit | null {
+  const count = Math.min(xs.length, ys.length);
+  if (count < 2) {
+    return null;
+  }
+
+  const meanX = mean(xs.slice(0, count));
+  const meanY = mean(ys.slice(0, count));
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+
+  for (let i = 0; i < count; i++) {
+    const dx = xs[i]! - meanX;
+    const dy = ys[i]! - meanY;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+  }
+
+  if (sxx === 0) {
+    return null;
+  }
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const residual = syy - slope * sxy;
+
+  return {
+    slope,
+    intercept,
+    r_squared: syy === 0 ? 1 : Math.max(0, 1 - residual / syy),
+    slope_standard_error: count > 2 ? Math.sqrt(Math.max(0, residual) / (count - 2) / sxx) : null,
+    count,
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Unit Utilities
+ *
+ * Conversions between linear and angular units used for
+ * ballistic corrections, and between the display units users
+ * can choose for distances and conditions.
+ */
+
+export type AngularUnit = 'MIL' | 'MOA';
+export type DistanceUnit = 'yards' | 'meters';
+export type TemperatureUnit = 'F' | 'C';
+export type PressureUnit = 'inHg' | 'hPa' | 'mmHg';
+export type AltitudeUnit = 'ft' | 'm';
+export type SpeedUnit = 'mph' | 'kph' | 'mps';
+export type VelocityUnit = 'fps' | 'mps';
+export type MassUnit = 'gr' | 'g';
+export type LengthUnit = 'in' | 'cm' | 'mm';
+export type UnitSystem = 'imperial' | 'metric';
+
+// Inches subtended by one unit at 100 yards
+export const INCHES_PER_MOA_AT_100 = 1.047197551;
+export const INCHES_PER_MIL_AT_100 = 3.6;
+
+// 1 MIL expressed in MOA
+export const MOA_PER_MIL = 3.437746771;
+
+export const YARDS_PER_METER = 1.09361;
+
+// Pressure units per inch of mercury
+const PRESSURE_PER_INHG: Record<PressureUnit, number> = {
+  inHg: 1,
+  hPa: 33.8639,
+  mmHg: 25.4,
+};
+
+const METERS_PER_FOOT = 0.3048;
+
+// Speed units per mile per hour
+const SPEED_PER_MPH: Record<SpeedUnit, number> = {
+  mph: 1,
+  kph: 1.609344,
+  mps: 0.44704,
+};
+
+// Velocity units per foot per second
+const VELOCITY_PER_FPS: Record<VelocityUnit, number> = {
+  fps: 1,
+  mps: METERS_PER_FOOT,
+};
+
+// Mass units per grain
+const MASS_PER_GRAIN: Record<MassUnit, number> = {
+  gr: 1,
+  g: 0.06479891,
+};
+
+// Length units per inch
+const LENGTH_PER_INCH: Record<LengthUnit, number> = {
+  in: 1,
+  cm: 2.54,
+  mm: 25.4,
+};
+
+/**
+ * Convert a linear offset at a given range into an angular value
+ */
+export function inchesToAngular(inches: number, rangeYards: number, unit: AngularUnit): number {
+  if (rangeYards <= 0) {
+    return 0;
+  }
+  const perUnit = unit === 'MIL' ? INCHES_PER_MIL_AT_100 : INCHES_PER_MOA_AT_100;
+  return inches / ((rangeYards / 100) * perUnit);
+}
+
+/**
+ * Convert an angular value at a given range into a linear offset
+ */
+export function angularToInches(value: number, rangeYards: number, unit: AngularUnit): number {
+  const perUnit = unit === 'MIL' ? INCHES_PER_MIL_AT_100 : INCHES_PER_MOA_AT_100;
+  return value * (rangeYards / 100) * perUnit;
+}
+
+/**
+ * Convert an angular value between MIL and MOA
+ */
+export function convertAngular(value: number, from: AngularUnit, to: AngularUnit): number {
+  if (from === to) {
+    return value;
+  }
+  return from === 'MIL' ? value * MOA_PER_MIL : value / MOA_PER_MIL;
+}
+
+/**
+ * Convert a distance between yards and meters
+ */
+export function convertDistance(value: number, from: DistanceUnit, to: DistanceUnit): number {
+  if (from === to) {
+    return value;
+  }
+  return from === 'meters' ? value * YARDS_PER_METER : value / YARDS_PER_METER;
+}
+
+/**
+ * Convert a temperature between Fahrenheit and Celsius
+ */
+export function convertTemperature(
+  value: number,
+  from: TemperatureUnit,
+  to: TemperatureUnit,
+): number {
+  if (from === to) {
+    return value;
+  }
+  return from === 'F' ? ((value - 32) * 5) / 9 : (value * 9) / 5 + 32;
+}
+
+/**
+ * Convert a pressure between inHg, hPa and mmHg
+ */
+export function convertPressure(value: number, from: PressureUnit, to: PressureUnit): number {
+  return (value / PRESSURE_PER_INHG[from]) * PRESSURE_PER_INHG[to];
+}
+
+/**
+ * Convert an altitude between feet and meters
+ */
+export function convertAltitude(value: number, from: AltitudeUnit, to: AltitudeUnit): number {
+  if (from === to) {
+    return value;
+  }
+  return from === 'ft' ? value * METERS_PER_FOOT : value / METERS_PER_FOOT;
+}
+
+/**
+ * Convert a wind or target speed between mph, km/h and m/s
+ */
+export function convertSpeed(value: number, from: SpeedUnit, to: SpeedUnit): number {
+  return (value / SPEED_PER_MPH[from]) * SPEED_PER_MPH[to];
+}
+
+/**
+ * Convert a bullet velocity between fps and m/s
+ */
+export function convertVelocity(value: number, from: VelocityUnit, to: VelocityUnit): number {
+  return (value / VELOCITY_PER_FPS[from]) * VELOCITY_PER_FPS[to];
+}
+
+/**
+ * Convert a bullet or powder mass between grains and grams
+ */
+export function convertMass(value: number, from: MassUnit, to: MassUnit): number {
+  return (value / MASS_PER_GRAIN[from]) * MASS_PER_GRAIN[to];
+}
+
+/**
+ * Convert a length between inches, centimeters and millimeters
+ */
+export function convertLength(value: number, from: LengthUnit, to: LengthUnit): number {
+  return (value / LENGTH_PER_INCH[from]) * LENGTH_PER_INCH[to];
+}
+
+/**
+ * Round to a fixed number of decimal places
+ */
+export function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,104 @@
+/**
+ * Ballistics Integration Tests
+ *
+ * Tests that the table endpoints validate conditions like the solver
+ * does, and give holds in the user's correction unit.
+ */
+
+import request from 'supertest';
+import app from '../../src/server';
+import RifleProfile from '../../src/models/RifleProfile';
+import AmmoProfile from '../../src/models/AmmoProfile';
+import CustomDragModel from '../../src/models/CustomDragModel';
+import ShotString from '../../src/models/ShotString';
+import { build, signIn, mockSettings, USER_ID } from './helpers';
+
+function stubProfiles(): void {
+  jest.spyOn(RifleProfile, 'findOne').mockResolvedValue(
+    build(RifleProfile, {
+      id: 7,
+      user_id: USER_ID,
+      name: 'Match rifle',
+      caliber: '6.5 Creedmoor',
+      barrel_length: 24,
+      twist_rate: '1:8',
+      zero_distance: 100,
+      optic_manufacturer: 'Vortex',
+      optic_model: 'Razor',
+      reticle_type: 'EBR-7C',
+      click_value_type: 'MIL',
+      click_value: 0.1,
+      scope_height: 1.5,
+    }),
+  );
+  jest.spyOn(AmmoProfile, 'findOne').mockResolvedValue(
+    build(AmmoProfile, {
+      id: 9,
+      user_id: USER_ID,
+      rifle_id: 7,
+      name: 'Match load',
+      manufacturer: 'Hornady',
+      bullet_weight: 140,
+      bullet_type: 'ELD-M',
+      ballistic_coefficient_g1: 0.61,
+      ballistic_coefficient_g7: 0.315,
+      muzzle_velocity: 2710,
+    }),
+  );
+  jest.spyOn(CustomDragModel, 'findOne').mockResolvedValue(null);
+  jest.spyOn(ShotString, 'findAll').mockResolvedValue([]);
+}
+
+describe('Ballistics', () => {
+  describe.each(['/api/v1/ballistics/wind-table', '/api/v1/ballistics/leads'])(
+    'POST %s',
+    (path) => {
+      it('should reject conditions out of range', async () => {
+        const auth = signIn();
+        mockSettings({});
+        const rifle = jest.spyOn(RifleProfile, 'findOne');
+
+        const response = await request(app)
+          .post(`${path}?units=imperial`)
+          .set(auth)
+          .send({
+            rifle_id: 7,
+            ammo_id: 9,
+            target_speed: 5,
+            conditions: { temperature: 500, wind_speed: -3 },
+          });
+
+        expect(response.status).toBe(400);
+        expect(response.body.errors.map((error: { field: string }) => error.field)).toEqual([
+          'conditions.temperature',
+          'conditions.wind_speed',
+        ]);
+        expect(rifle).not.toHaveBeenCalled();
+      });
+    },
+  );
+
+  describe('POST /api/v1/ballistics/wind-table', () => {
+    it('should give holds and clicks in the correction unit setting', async () => {
+      const auth = signIn();
+      mockSettings({ correction_unit: 'MOA' });
+      stubProfiles();
+
+      const response = await request(app)
+        .post('/api/v1/ballistics/wind-table?units=imperial')
+        .set(auth)
+        .send({
+          rifle_id: 7,
+          ammo_id: 9,
+          calibrate: false,
+          max_range: 500,
+          wind_speeds: [10],
+          clock_positions: [3],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.unit).toBe('MOA');
+      expect(response.body.data.click_value).toBeCloseTo(0.3438, 3);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Integration Test Helpers
+ *
+ * Sign-in and settings stubs for requests against the app without a
+ * database. Stubs are spies, so they are restored between tests.
+ */
+
+import { Model, ModelStatic, Transaction } from 'sequelize';
+import sequelize from '../../src/config/database';
+import User from '../../src/models/User';
+import AppSetting from '../../src/models/AppSetting';
+import { generateAccessToken } from '../../src/utils/jwt';
+
+export const USER_ID = 1;
+
+/**
+ * A model instance whose attributes also read through the model's class
+ * fields, which shadow Sequelize's getters on unsaved instances
+ */
+export function build<M extends Model>(model: ModelStatic<M>, values: M['_creationAttributes']): M {
+  return Object.assign(model.build(values), values);
+}
+
+/**
+ * Authorization header for an active user
+ */
+export function signIn(): { Authorization: string } {
+  const user = build(User, {
+    id: USER_ID,
+    email: 'shooter@example.com',
+    password_hash: 'hash',
+    is_active: true,
+    is_verified: true,
+  });
+  jest.spyOn(User, 'findByPk').mockResolvedValue(user);
+
+  return { Authorization: `Bearer ${generateAccessToken(USER_ID, 'shooter@example.com')}` };
+}
+
+/**
+ * Stored settings of the signed-in user
+ */
+export function mockSettings(settings: Record<string, unknown>): jest.SpyInstance {
+  const rows = Object.entries(settings).map(([key, value]) =>
+    build(AppSetting, {
+      user_id: USER_ID,
+      setting_key: key,
+      setting_value: JSON.stringify(value),
+    }),
+  );
+  return jest.spyOn(AppSetting, 'findAll').mockResolvedValue(rows);
+}
+
+/**
+ * Run transactions without a connection
+ */
+export function mockTransactions(): void {
+  const transaction = { LOCK: Transaction.LOCK } as unknown as Transaction;
+
+  jest
+    .spyOn(sequelize, 'transaction')
+    .mockImplementation(((callback: (t: Transaction) => Promise<unknown>) =>
+      callback(transaction)) as typeof sequelize.transaction);
+}
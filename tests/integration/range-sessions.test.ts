@@ -0,0 +1,63 @@
+/**
+ * Range Session Integration Tests
+ *
+ * Tests that deleting a range session logs the DOPE logs it unlinks, in
+ * the transaction of the delete, so devices sync the cleared session.
+ */
+
+import request from 'supertest';
+import sequelize from '../../src/config/database';
+import app from '../../src/server';
+import { DOPELog, RangeSession, SyncLog } from '../../src/models';
+import { build, signIn, mockSettings, mockTransactions, USER_ID } from './helpers';
+
+function stubSession(): RangeSession {
+  const session = build(RangeSession, {
+    id: 4,
+    user_id: USER_ID,
+    rifle_id: 7,
+    ammo_id: 9,
+    environment_id: 5,
+    start_time: new Date('2026-10-01T09:00:00Z'),
+    distance: 300,
+  });
+  session.isNewRecord = false;
+
+  jest.spyOn(RangeSession, 'findOne').mockResolvedValue(session);
+  return session;
+}
+
+describe('Range Sessions', () => {
+  describe('DELETE /api/v1/range-sessions/:id', () => {
+    it('should log the DOPE logs the session unlinks', async () => {
+      const auth = signIn();
+      mockSettings({});
+      stubSession();
+      mockTransactions();
+      jest
+        .spyOn(DOPELog, 'findAll')
+        .mockResolvedValue([
+          build(DOPELog, { id: 11, user_id: USER_ID } as DOPELog['_creationAttributes']),
+        ]);
+      const create = jest.spyOn(SyncLog, 'create').mockResolvedValue(SyncLog.build());
+      const remove = jest
+        .spyOn(sequelize.getQueryInterface(), 'delete')
+        .mockResolvedValue(undefined as never);
+
+      const response = await request(app).delete('/api/v1/range-sessions/4').set(auth);
+
+      expect(response.status).toBe(204);
+      expect(remove).toHaveBeenCalled();
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entity_type: 'dope_log',
+          entity_id: 11,
+          operation: 'update',
+          changed_fields: ['range_session_id'],
+        }),
+        expect.objectContaining({ transaction: expect.anything() }),
+      );
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Sync Integration Tests
+ *
+ * Tests that devices push and pull canonical values whatever the user's
+ * unit settings or the units a request names.
+ */
+
+import request from 'supertest';
+import app from '../../src/server';
+import {
+  RifleProfile,
+  AmmoProfile,
+  EnvironmentSnapshot,
+  DOPELog,
+  SyncLog,
+  SyncConflict,
+} from '../../src/models';
+import { build, signIn, mockSettings, mockTransactions, USER_ID } from './helpers';
+
+function stubStore(): RifleProfile {
+  const rifle = build(RifleProfile, {
+    id: 7,
+    user_id: USER_ID,
+    name: 'Match rifle',
+    caliber: '6.5 Creedmoor',
+    barrel_length: 24,
+    twist_rate: '1:8',
+    zero_distance: 100,
+    optic_manufacturer: 'Vortex',
+    optic_model: 'Razor',
+    reticle_type: 'EBR-7C',
+    click_value_type: 'MIL',
+    click_value: 0.1,
+    scope_height: 1.5,
+    row_version: 3,
+  });
+
+  jest.spyOn(RifleProfile, 'findAll').mockResolvedValue([rifle]);
+  jest.spyOn(RifleProfile, 'findOne').mockResolvedValue(rifle);
+  jest.spyOn(AmmoProfile, 'findAll').mockResolvedValue([]);
+  jest.spyOn(EnvironmentSnapshot, 'findAll').mockResolvedValue([]);
+  jest.spyOn(DOPELog, 'findAll').mockResolvedValue([]);
+  jest.spyOn(SyncLog, 'findAll').mockResolvedValue([]);
+  jest.spyOn(SyncLog, 'max').mockResolvedValue(0);
+  jest.spyOn(SyncConflict, 'count').mockResolvedValue(0);
+  mockTransactions();
+
+  return rifle;
+}
+
+describe('Sync Endpoints', () => {
+  describe('POST /api/v1/sync', () => {
+    it('should pull canonical values for a user with metric settings', async () => {
+      const auth = signIn();
+      mockSettings({ unit_system: 'metric' });
+      stubStore();
+
+      const response = await request(app)
+        .post('/api/v1/sync')
+        .set(auth)
+        .send({ device_id: 'phone', cursor: null, changes: [] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).not.toHaveProperty('units');
+      expect(response.body.data.changes).toHaveLength(1);
+      expect(response.body.data.changes[0].data).toMatchObject({
+        barrel_length: 24,
+        zero_distance: 100,
+        scope_height: 1.5,
+      });
+    });
+
+    it('should store a pulled record pushed back unchanged as it was', async () => {
+      const auth = signIn();
+      mockSettings({ unit_system: 'metric' });
+      const rifle = stubStore();
+      const update = jest.spyOn(rifle, 'update').mockResolvedValue(rifle);
+
+      const pull = await request(app)
+        .post('/api/v1/sync')
+        .set(auth)
+        .send({ device_id: 'phone', cursor: null, changes: [] });
+      const pulled = pull.body.data.changes[0];
+
+      const push = await request(app)
+        .post('/api/v1/sync')
+        .set(auth)
+        .set('Accept-Units', 'metric')
+        .send({
+          device_id: 'phone',
+          cursor: pull.body.data.cursor,
+          changes: [
+            {
+              entity_type: 'rifle',
+              operation: 'update',
+              entity_id: pulled.entity_id,
+              client_timestamp: '2026-06-01T12:00:00Z',
+              data: pulled.data,
+            },
+          ],
+        });
+
+      expect(push.status).toBe(200);
+      expect(push.body.data.results[0]).toMatchObject({ status: 'applied', entity_id: 7 });
+      expect(push.body.data.results[0].data).toHaveProperty('zero_distance', 100);
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({ barrel_length: 24, zero_distance: 100, scope_height: 1.5 }),
+        expect.anything(),
+      );
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Target Image Integration Tests
+ *
+ * Tests that a DOPE log's group size follows the target images measuring
+ * it when an image is moved to another log or can no longer be measured.
+ */
+
+import request from 'supertest';
+import { Model } from 'sequelize';
+import app from '../../src/server';
+import DOPELog from '../../src/models/DOPELog';
+import TargetImage from '../../src/models/TargetImage';
+import { build, signIn, mockSettings, mockTransactions, USER_ID } from './helpers';
+
+const SCALE = { from: { x: 0, y: 0 }, to: { x: 100, y: 0 }, inches: 1 };
+
+/**
+ * Instance updates that apply the values without a database
+ */
+function applyUpdates(instance: Model): void {
+  jest
+    .spyOn(instance, 'update')
+    .mockImplementation((async (values: object) =>
+      Object.assign(instance.set(values), values)) as Model['update']);
+}
+
+function stubLog(id: number, groupSize: number | null): DOPELog {
+  return build(DOPELog, {
+    id,
+    user_id: USER_ID,
+    rifle_id: 7,
+    ammo_id: 9,
+    environment_id: 5,
+    distance: 100,
+    distance_unit: 'yards',
+    distance_yards: 100,
+    elevation_correction: 0,
+    windage_correction: 0,
+    correction_unit: 'MIL',
+    target_type: 'paper',
+    group_size: groupSize,
+  });
+}
+
+/**
+ * An image measured at 1.25" on log 11, which also holds that size, and
+ * an empty log 12. No other image of either log is measured.
+ */
+function stubImage(): { image: TargetImage; logs: Record<number, DOPELog> } {
+  const image = build(TargetImage, {
+    id: 3,
+    user_id: USER_ID,
+    dope_log_id: 11,
+    image_uri: 'target-images/3/original',
+    target_type: 'Paper',
+    image_width: 1000,
+    image_height: 1000,
+    poi_markers: [
+      { x: 100, y: 100 },
+      { x: 225, y: 100 },
+    ],
+    scale_reference: SCALE,
+    group_size: 1.25,
+  });
+  const logs: Record<number, DOPELog> = { 11: stubLog(11, 1.25), 12: stubLog(12, null) };
+
+  jest
+    .spyOn(TargetImage, 'findOne')
+    .mockImplementation(async (options) =>
+      (options?.where as { id?: number }).id === 3 ? image : null,
+    );
+  jest
+    .spyOn(DOPELog, 'findOne')
+    .mockImplementation(async (options) => logs[(options?.where as { id: number }).id] ?? null);
+  jest.spyOn(DOPELog, 'findByPk').mockImplementation(async (id) => logs[Number(id)] ?? null);
+
+  mockTransactions();
+  applyUpdates(image);
+  Object.values(logs).forEach(applyUpdates);
+  return { image, logs };
+}
+
+describe('Target Images', () => {
+  describe('PUT /api/v1/target-images/:id', () => {
+    it('should move the group size to the log the image is moved to', async () => {
+      const auth = signIn();
+      mockSettings({});
+      const { logs } = stubImage();
+
+      const response = await request(app)
+        .put('/api/v1/target-images/3?units=imperial')
+        .set(auth)
+        .send({ dope_log_id: 12 });
+
+      expect(response.status).toBe(200);
+      expect(logs[12]!.group_size).toBe(1.25);
+      expect(logs[11]!.group_size).toBeNull();
+    });
+
+    it('should clear the group size when the scale is removed', async () => {
+      const auth = signIn();
+      mockSettings({});
+      const { logs } = stubImage();
+
+      const response = await request(app)
+        .put('/api/v1/target-images/3?units=imperial')
+        .set(auth)
+        .send({ scale_reference: null });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.group_size).toBeNull();
+      expect(logs[11]!.group_size).toBeNull();
+    });
+
+    it('should keep a group size the log did not get from the image', async () => {
+      const auth = signIn();
+      mockSettings({});
+      const { logs } = stubImage();
+      logs[11]!.group_size = 0.8;
+
+      await request(app)
+        .put('/api/v1/target-images/3?units=imperial')
+        .set(auth)
+        .send({ scale_reference: null });
+
+      expect(logs[11]!.group_size).toBe(0.8);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit Negotiation Integration Tests
+ *
+ * Tests that request bodies and responses use the same units, whether
+ * the request names a unit system or the user's settings apply.
+ */
+
+import request from 'supertest';
+import app from '../../src/server';
+import RifleProfile from '../../src/models/RifleProfile';
+import AmmoProfile from '../../src/models/AmmoProfile';
+import ShotString from '../../src/models/ShotString';
+import { build, signIn, mockSettings, mockTransactions, USER_ID } from './helpers';
+
+const EDITABLE = ['name', 'barrel_length', 'zero_distance', 'scope_height'];
+
+function stubRifle(): RifleProfile {
+  const rifle = build(RifleProfile, {
+    id: 7,
+    user_id: USER_ID,
+    name: 'Match rifle',
+    caliber: '6.5 Creedmoor',
+    barrel_length: 24,
+    twist_rate: '1:8',
+    zero_distance: 100,
+    optic_manufacturer: 'Vortex',
+    optic_model: 'Razor',
+    reticle_type: 'EBR-7C',
+    click_value_type: 'MIL',
+    click_value: 0.1,
+    scope_height: 1.5,
+    row_version: 3,
+  });
+  jest.spyOn(RifleProfile, 'findOne').mockResolvedValue(rifle);
+  mockTransactions();
+  return rifle;
+}
+
+function stubAmmo(): AmmoProfile {
+  const ammo = build(AmmoProfile, {
+    id: 9,
+    user_id: USER_ID,
+    rifle_id: 7,
+    name: 'Match load',
+    manufacturer: 'Hornady',
+    bullet_weight: 140,
+    bullet_type: 'ELD-M',
+    ballistic_coefficient_g1: 0.61,
+    ballistic_coefficient_g7: 0.315,
+    muzzle_velocity: 2710,
+  });
+  jest.spyOn(AmmoProfile, 'findOne').mockResolvedValue(ammo);
+  jest.spyOn(ShotString, 'findAll').mockResolvedValue([]);
+  return ammo;
+}
+
+const MAGNETOSPEED_CSV = [
+  'MagnetoSpeed V3',
+  'Date,2024-06-10',
+  'Series,1,Shots:,2',
+  'Series,Shot,Speed,Units',
+  '1,1,807.2,m/s',
+  '1,2,810.0,m/s',
+].join('\n');
+
+function pick(data: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((field) => [field, data[field]]));
+}
+
+describe('Unit Negotiation', () => {
+  describe('with metric unit settings', () => {
+    it('should return records in the user units', async () => {
+      const auth = signIn();
+      const settings = mockSettings({ unit_system: 'metric' });
+      stubRifle();
+
+      const response = await request(app).get('/api/v1/rifles/7').set(auth);
+
+      expect(response.status).toBe(200);
+      expect(response.body.units).toHaveProperty('system', 'metric');
+      expect(response.body.data).toMatchObject({
+        barrel_length: 60.96,
+        zero_distance: 91.44,
+        scope_height: 3.81,
+      });
+      expect(settings).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store a record read and written back unchanged as it was', async () => {
+      const auth = signIn();
+      mockSettings({ unit_system: 'metric' });
+      const rifle = stubRifle();
+      const update = jest.spyOn(rifle, 'update').mockResolvedValue(rifle);
+
+      const read = await request(app).get('/api/v1/rifles/7').set(auth);
+      const write = await request(app)
+        .put('/api/v1/rifles/7')
+        .set(auth)
+        .send(pick(read.body.data, EDITABLE));
+
+      expect(write.status).toBe(200);
+      expect(update).toHaveBeenCalledWith(
+        {
+          name: 'Match rifle',
+          barrel_length: 24,
+          zero_distance: expect.closeTo(100, 2),
+          scope_height: 1.5,
+        },
+        { transaction: expect.anything() },
+      );
+    });
+  });
+
+  describe('with uploads and routes without units', () => {
+    it('should convert multipart fields once the upload is parsed', async () => {
+      const auth = signIn();
+      mockSettings({ unit_system: 'metric' });
+      stubAmmo();
+
+      const response = await request(app)
+        .post('/api/v1/ammo/9/shot-strings/import')
+        .set(auth)
+        .field('temperature', '20')
+        .field('dry_run', 'true')
+        .attach('file', Buffer.from(MAGNETOSPEED_CSV), 'series.csv');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.sessions[0].shots[0]).toMatchObject({
+        temperature: 20,
+        velocity: 807.2,
+      });
+    });
+
+    it('should not load the user units for routes without unit fields', async () => {
+      const auth = signIn();
+      const settings = mockSettings({ unit_system: 'metric' });
+
+      const response = await request(app).get('/api/v1/auth/me').set(auth);
+
+      expect(response.status).toBe(200);
+      expect(settings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with an explicit unit system', () => {
+    it('should override the user units in both directions', async () => {
+      const auth = signIn();
+      const settings = mockSettings({ unit_system: 'metric' });
+      const rifle = stubRifle();
+      const update = jest.spyOn(rifle, 'update').mockResolvedValue(rifle);
+
+      const response = await request(app)
+        .put('/api/v1/rifles/7')
+        .set(auth)
+        .set('Accept-Units', 'imperial')
+        .send({ zero_distance: 200 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.units).toHaveProperty('system', 'imperial');
+      expect(update).toHaveBeenCalledWith(
+        { zero_distance: 200 },
+        { transaction: expect.anything() },
+      );
+      expect(settings).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown unit system', async () => {
+      const response = await request(app).get('/api/v1/rifles/7?units=nautical').set(signIn());
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('success', false);
+    });
+  });
+});
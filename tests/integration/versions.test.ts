@@ -0,0 +1,97 @@
+/**
+ * Row Version Integration Tests
+ *
+ * Tests that REST updates only apply to the version of a record they were
+ * based on, including when another edit lands between the read and the write.
+ */
+
+import request from 'supertest';
+import app from '../../src/server';
+import sequelize from '../../src/config/database';
+import { RifleProfile, SyncLog } from '../../src/models';
+import { build, signIn, mockTransactions, USER_ID } from './helpers';
+
+function stubRifle(): RifleProfile {
+  const rifle = build(RifleProfile, {
+    id: 7,
+    user_id: USER_ID,
+    name: 'Match rifle',
+    caliber: '6.5 Creedmoor',
+    barrel_length: 24,
+    twist_rate: '1:8',
+    zero_distance: 100,
+    optic_manufacturer: 'Vortex',
+    optic_model: 'Razor',
+    reticle_type: 'EBR-7C',
+    click_value_type: 'MIL',
+    click_value: 0.1,
+    scope_height: 1.5,
+    row_version: 3,
+  });
+  rifle.isNewRecord = false;
+
+  jest.spyOn(RifleProfile, 'findOne').mockResolvedValue(rifle);
+  jest.spyOn(SyncLog, 'create').mockResolvedValue(SyncLog.build());
+  mockTransactions();
+  return rifle;
+}
+
+/**
+ * Answer UPDATE statements as if they matched the given number of rows
+ */
+function mockUpdate(rowsUpdated: number): jest.SpyInstance {
+  return jest
+    .spyOn(sequelize.getQueryInterface(), 'update')
+    .mockImplementation(async (instance) => [instance, rowsUpdated]);
+}
+
+describe('Row Versions', () => {
+  describe('PUT /api/v1/rifles/:id', () => {
+    it('should only update the row at the version read', async () => {
+      stubRifle();
+      const update = mockUpdate(1);
+
+      const response = await request(app)
+        .put('/api/v1/rifles/7?units=imperial')
+        .set(signIn())
+        .send({ row_version: 3, zero_distance: 200 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveProperty('row_version', 4);
+      expect(update).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ zero_distance: 200, row_version: 4 }),
+        { id: 7, row_version: 3 },
+        expect.anything(),
+      );
+    });
+
+    it('should reject an edit based on an older version without writing', async () => {
+      stubRifle();
+      const update = mockUpdate(1);
+
+      const response = await request(app)
+        .put('/api/v1/rifles/7?units=imperial')
+        .set(signIn())
+        .send({ row_version: 2, zero_distance: 200 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toMatch('changed elsewhere');
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should reject an edit when another one lands between the read and the write', async () => {
+      stubRifle();
+      mockUpdate(0);
+
+      const response = await request(app)
+        .put('/api/v1/rifles/7?units=imperial')
+        .set(signIn())
+        .send({ row_version: 3, zero_distance: 200 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toMatch('changed elsewhere');
+    });
+  });
+});
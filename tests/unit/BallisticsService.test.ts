@@ -0,0 +1,198 @@
+/**
+ * Ballistics Service Unit Tests
+ *
+ * Tests for the point-mass trajectory solver.
+ */
+
+import BallisticsService, { SolverInput } from '../../src/services/BallisticsService';
+import { G7_TABLE } from '../../src/utils/dragTables';
+
+const baseInput: SolverInput = {
+  muzzleVelocity: 2600,
+  ballisticCoefficient: 0.243,
+  dragModel: 'G7',
+  bulletWeight: 175,
+  scopeHeight: 1.5,
+  zeroDistance: 100,
+  conditions: {
+    temperature: 59,
+    pressure: 29.92,
+    humidity: 0,
+    altitude: 0,
+    densityAltitude: 0,
+    windSpeed: 0,
+    windDirection: 0,
+  },
+  maxRange: 1000,
+  rangeStep: 100,
+};
+
+describe('BallisticsService', () => {
+  describe('solve', () => {
+    it('should return a point for every range step including the muzzle', () => {
+      const result = BallisticsService.solve(baseInput);
+
+      expect(result.trajectory).toHaveLength(11);
+      expect(result.trajectory[0]).toMatchObject({
+        range_yards: 0,
+        drop_inches: -1.5,
+        velocity_fps: 2600,
+      });
+    });
+
+    it('should cross the line of sight at the zero distance', () => {
+      const result = BallisticsService.solve(baseInput);
+      const zero = result.trajectory.find((point) => point.range_yards === 100);
+
+      expect(zero).toBeDefined();
+      expect(Math.abs(zero!.drop_inches)).toBeLessThan(0.05);
+      expect(result.zero_angle_moa).toBeGreaterThan(0);
+    });
+
+    it('should match published drop and velocity for a 175gr .308 load at 1000 yards', () => {
+      const result = BallisticsService.solve(baseInput);
+      const far = result.trajectory[result.trajectory.length - 1]!;
+
+      expect(far.range_yards).toBe(1000);
+      expect(far.elevation_mil).toBeGreaterThan(11.5);
+      expect(far.elevation_mil).toBeLessThan(12.5);
+      expect(far.velocity_fps).toBeGreaterThan(1050);
+      expect(far.velocity_fps).toBeLessThan(1130);
+    });
+
+    it('should drift left and correct right for wind from the right', () => {
+      const result = BallisticsService.solve({
+        ...baseInput,
+        conditions: { ...baseInput.conditions, windSpeed: 10, windDirection: 90 },
+      });
+      const point = result.trajectory.find((p) => p.range_yards === 500)!;
+
+      expect(point.windage_inches).toBeLessThan(0);
+      expect(point.windage_mil).toBeGreaterThan(0);
+    });
+
+    it('should slow more with the G1 model at an equivalent low BC', () => {
+      const g7 = BallisticsService.solve(baseInput);
+      const g1 = BallisticsService.solve({
+        ...baseInput,
+        dragModel: 'G1',
+        ballisticCoefficient: 0.243,
+      });
+
+      expect(g1.trajectory[10]!.velocity_fps).toBeLessThan(g7.trajectory[10]!.velocity_fps);
+    });
+
+    it('should carry the bullet further in thinner air', () => {
+      const sea = BallisticsService.solve(baseInput);
+      const high = BallisticsService.solve({
+        ...baseInput,
+        conditions: { ...baseInput.conditions, altitude: 6000 },
+      });
+
+      expect(high.atmosphere.density_ratio).toBeLessThan(1);
+      expect(high.trajectory[10]!.elevation_mil).toBeLessThan(sea.trajectory[10]!.elevation_mil);
+    });
+  });
+
+  describe('custom drag', () => {
+    it('should match the standard model when flying its table as a custom curve', () => {
+      const g7 = BallisticsService.solve(baseInput);
+      const custom = BallisticsService.solve({
+        ...baseInput,
+        dragModel: 'CUSTOM',
+        dragTable: G7_TABLE,
+      });
+
+      expect(custom.drag_model).toBe('CUSTOM');
+      expect(custom.trajectory[10]!.elevation_mil).toBe(g7.trajectory[10]!.elevation_mil);
+    });
+
+    it('should switch BC by velocity band', () => {
+      const scalar = BallisticsService.solve(baseInput);
+      const banded = BallisticsService.solve({
+        ...baseInput,
+        velocityBands: [
+          { min_velocity: 2000, bc: 0.243 },
+          { min_velocity: 0, bc: 0.2 },
+        ],
+      });
+
+      expect(banded.trajectory[3]!.velocity_fps).toBe(scalar.trajectory[3]!.velocity_fps);
+      expect(banded.trajectory[10]!.velocity_fps).toBeLessThan(scalar.trajectory[10]!.velocity_fps);
+    });
+
+    it('should reject a custom model without a drag table', () => {
+      expect(() => BallisticsService.solve({ ...baseInput, dragModel: 'CUSTOM' })).toThrow();
+    });
+  });
+
+  describe('second-order effects', () => {
+    const withEffects: SolverInput = {
+      ...baseInput,
+      secondOrder: { stabilityFactor: 1.5, bulletLength: 4, twistDirection: 'right' },
+    };
+
+    it('should not report effects unless requested', () => {
+      const result = BallisticsService.solve(baseInput);
+
+      expect(result.second_order).toBeNull();
+      expect(result.trajectory[10]!.effects).toBeUndefined();
+    });
+
+    it('should drift right with a right-hand twist and include it in windage', () => {
+      const plain = BallisticsService.solve(baseInput);
+      const result = BallisticsService.solve(withEffects);
+      const far = result.trajectory[10]!;
+
+      // Litz: 1.25 * (1.5 + 1.2) * TOF^1.83
+      const expected = 1.25 * 2.7 * Math.pow(far.time_of_flight, 1.83);
+      expect(far.effects!.spin_drift.inches).toBeCloseTo(expected, 1);
+      expect(far.windage_inches).toBeCloseTo(
+        plain.trajectory[10]!.windage_inches + far.effects!.spin_drift.inches,
+        1,
+      );
+      expect(far.effects!.coriolis_horizontal.inches).toBe(0);
+    });
+
+    it('should apply Coriolis to the right and Eötvös up when shooting east', () => {
+      const result = BallisticsService.solve({
+        ...withEffects,
+        shotAzimuth: 90,
+        conditions: { ...baseInput.conditions, latitude: 45 },
+      });
+      const effects = result.trajectory[10]!.effects!;
+
+      expect(effects.coriolis_horizontal.inches).toBeGreaterThan(2);
+      expect(effects.coriolis_horizontal.inches).toBeLessThan(4);
+      expect(effects.coriolis_vertical.inches).toBeGreaterThan(0);
+      expect(result.second_order!.latitude).toBe(45);
+    });
+
+    it('should jump down for wind from the right with a right-hand twist', () => {
+      const result = BallisticsService.solve({
+        ...withEffects,
+        conditions: { ...baseInput.conditions, windSpeed: 10, windDirection: 90 },
+      });
+      const effects = result.trajectory[10]!.effects!;
+
+      // (0.01 * 1.5 - 0.0024 * 4 + 0.032) MOA/mph * 10 mph
+      expect(effects.aerodynamic_jump.moa).toBeCloseTo(-0.374, 1);
+    });
+
+    it('should mirror spin drift and aerodynamic jump with a left-hand twist', () => {
+      const conditions = { ...baseInput.conditions, windSpeed: 10, windDirection: 90 };
+      const right = BallisticsService.solve({ ...withEffects, conditions });
+      const left = BallisticsService.solve({
+        ...withEffects,
+        conditions,
+        secondOrder: { ...withEffects.secondOrder!, twistDirection: 'left' },
+      });
+      const rightEffects = right.trajectory[10]!.effects!;
+      const leftEffects = left.trajectory[10]!.effects!;
+
+      expect(leftEffects.spin_drift.inches).toBeCloseTo(-rightEffects.spin_drift.inches, 5);
+      expect(leftEffects.aerodynamic_jump.moa).toBeCloseTo(-rightEffects.aerodynamic_jump.moa, 5);
+      expect(left.second_order!.twist_direction).toBe('left');
+    });
+  });
+});
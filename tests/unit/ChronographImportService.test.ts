@@ -0,0 +1,127 @@
+/**
+ * Chronograph Import Service Unit Tests
+ *
+ * Tests for parsing LabRadar, MagnetoSpeed and Garmin Xero exports.
+ */
+
+import ChronographImportService from '../../src/services/ChronographImportService';
+
+const labRadar = [
+  'sep=;',
+  'Device ID;LBR-0013458;;',
+  'Series No;0042;;',
+  'Total number of shots;0003;;',
+  ';;;',
+  'Units velocity;fps;;',
+  'Units distances;yd;;',
+  ';;;',
+  'Shot ID;V0;V10;V20;Date;Time;',
+  '0001;2650,5;2640,1;2629,8;05-01-2024;10:22:33;',
+  '0002;2662,0;2651,2;2640,7;05-01-2024;10:23:10;',
+  '0003;2655,4;2644,9;2634,5;05-01-2024;10:23:52;',
+].join('\n');
+
+const magnetoSpeed = [
+  'MagnetoSpeed V3',
+  'Date,2024-06-10',
+  'Series,1,Shots:,2',
+  'Min,807,Max,810',
+  '----------------------------------------------------------------',
+  'Series,Shot,Speed,Units',
+  '1,1,807.2,m/s',
+  '1,2,810.0,m/s',
+  'Series,2,Shots:,1',
+  'Series,Shot,Speed,Units',
+  '2,1,808.5,m/s',
+].join('\n');
+
+const garmin = [
+  '"Garmin Xero C1 Pro, 6.5 CM 140 ELD-M",,,,',
+  '#,SPEED (FPS),Δ AVG (FPS),KE (FT-LB),TIME',
+  '1,2701.3,-2.1,2268,09:14:02',
+  '2,2705.8,2.4,2276,09:14:40',
+  '-,,,,',
+  'AVERAGE SPEED,2703.4,,,',
+  'DATE,"July 4, 2024 at 9:13 AM",,,',
+].join('\n');
+
+describe('ChronographImportService', () => {
+  describe('parse', () => {
+    it('should parse a LabRadar export with decimal commas', () => {
+      const parsed = ChronographImportService.parse(labRadar);
+
+      expect(parsed.format).toBe('labradar');
+      expect(parsed.unit).toBe('fps');
+      expect(parsed.unit_source).toBe('file');
+      expect(parsed.series).toHaveLength(1);
+      expect(parsed.series[0]).toMatchObject({
+        name: 'LabRadar series 0042',
+        session_date: '2024-05-01',
+      });
+      expect(parsed.series[0]!.shots.map((shot) => shot.velocity)).toEqual([2650.5, 2662, 2655.4]);
+    });
+
+    it('should parse MagnetoSpeed series and convert m/s to fps', () => {
+      const parsed = ChronographImportService.parse(magnetoSpeed);
+
+      expect(parsed.format).toBe('magnetospeed');
+      expect(parsed.unit).toBe('mps');
+      expect(parsed.series).toHaveLength(2);
+      expect(parsed.series[0]!.session_date).toBe('2024-06-10');
+      expect(parsed.series[0]!.shots[0]!.velocity).toBeCloseTo(2648.3, 1);
+      expect(parsed.series[1]!.shots).toHaveLength(1);
+    });
+
+    it('should parse a Garmin Xero export and its session date', () => {
+      const parsed = ChronographImportService.parse(garmin);
+
+      expect(parsed.format).toBe('garmin');
+      expect(parsed.unit).toBe('fps');
+      expect(parsed.series[0]!.session_date).toBe('2024-07-04');
+      expect(parsed.series[0]!.shots).toEqual([
+        { shot_number: 1, velocity: 2701.3 },
+        { shot_number: 2, velocity: 2705.8 },
+      ]);
+    });
+
+    it('should infer the unit when the file has none', () => {
+      const parsed = ChronographImportService.parse(
+        ['Series,Shot,Speed', '1,1,823.1', '1,2,825.4'].join('\n'),
+      );
+
+      expect(parsed.unit).toBe('mps');
+      expect(parsed.unit_source).toBe('inferred');
+      expect(parsed.warnings.length).toBeGreaterThan(0);
+    });
+
+    it('should honor a requested unit over the file', () => {
+      const parsed = ChronographImportService.parse(garmin, { unit: 'mps' });
+
+      expect(parsed.unit_source).toBe('request');
+      expect(parsed.warnings).toContain('File reports fps but mps was requested');
+    });
+
+    it('should reject unrecognized files', () => {
+      expect(() => ChronographImportService.parse('name,value\nfoo,1')).toThrow(
+        'Unrecognized chronograph file',
+      );
+    });
+  });
+
+  describe('isDuplicate', () => {
+    it('should match the same readings in any order', () => {
+      expect(ChronographImportService.isDuplicate([2650.5, 2662], [2662, 2650.5])).toBe(true);
+      expect(ChronographImportService.isDuplicate([2650.5, 2662], [2662])).toBe(false);
+      expect(ChronographImportService.isDuplicate([], [])).toBe(false);
+    });
+  });
+
+  describe('parseDate', () => {
+    it('should normalize common date formats', () => {
+      expect(ChronographImportService.parseDate('2024-05-01 10:00')).toBe('2024-05-01');
+      expect(ChronographImportService.parseDate('05/01/2024')).toBe('2024-05-01');
+      expect(ChronographImportService.parseDate('Sep 9, 2023')).toBe('2023-09-09');
+      expect(ChronographImportService.parseDate('yesterday')).toBeNull();
+    });
+  });
+});
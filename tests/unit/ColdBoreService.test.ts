@@ -0,0 +1,95 @@
+/**
+ * Cold Bore Service Unit Tests
+ *
+ * Tests for the cold vs warm bore point-of-impact shift analysis.
+ */
+
+import ColdBoreService from '../../src/services/ColdBoreService';
+import { INCHES_PER_MOA_AT_100, MOA_PER_MIL } from '../../src/utils/units';
+
+// Offsets given in MOA, stored as inches at the shot distance
+const shot = (
+  distance: number,
+  cold: [number, number],
+  warm: [number, number] | null,
+  days: number | null,
+) => {
+  const inches = (moa: number) => (moa * INCHES_PER_MOA_AT_100 * distance) / 100;
+  return {
+    distance_yards: distance,
+    offset_horizontal: inches(cold[0]),
+    offset_vertical: inches(cold[1]),
+    warm_offset_horizontal: warm ? inches(warm[0]) : null,
+    warm_offset_vertical: warm ? inches(warm[1]) : null,
+    days_since_cleaning: days,
+  };
+};
+
+describe('ColdBoreService', () => {
+  it('should measure the shift from the warm-bore center across distances', () => {
+    const analysis = ColdBoreService.analyze([
+      shot(100, [1, 2], [0, 1], 1),
+      shot(200, [0, 2], [0, 0], 3),
+      shot(100, [2, 3], [1, 0], 5),
+      shot(300, [4, 4], null, null),
+    ]);
+
+    expect(analysis.shot_count).toBe(4);
+    expect(analysis.paired_count).toBe(3);
+    expect(analysis.reference).toBe('warm_bore');
+    expect(analysis.shift).toMatchObject({
+      count: 3,
+      horizontal_moa: 0.67,
+      vertical_moa: 2,
+      vertical_sd_moa: 1,
+    });
+    expect(analysis.shift!.vertical_mil).toBeCloseTo(2 / MOA_PER_MIL, 2);
+    expect(analysis.shift!.inches_at_100.vertical).toBeCloseTo(2.09, 2);
+    expect(analysis.cold_impact!.count).toBe(4);
+    expect(analysis.cold_impact!.vertical_moa).toBeCloseTo(2.75, 2);
+    expect(analysis.warm_impact!.count).toBe(3);
+  });
+
+  it('should hold opposite the shift', () => {
+    const analysis = ColdBoreService.analyze([shot(100, [1, 2], [0, 1], null)]);
+
+    expect(analysis.hold).toMatchObject({ horizontal_moa: -1, vertical_moa: -1 });
+    expect(analysis.shift!.vertical_sd_moa).toBeNull();
+  });
+
+  it('should fall back to point of aim without warm-bore centers', () => {
+    const analysis = ColdBoreService.analyze([
+      shot(100, [0.5, -1], null, null),
+      shot(100, [1.5, -2], null, null),
+    ]);
+
+    expect(analysis.reference).toBe('point_of_aim');
+    expect(analysis.warm_impact).toBeNull();
+    expect(analysis.shift).toMatchObject({ horizontal_moa: 1, vertical_moa: -1.5 });
+    expect(analysis.hold).toMatchObject({ horizontal_moa: -1, vertical_moa: 1.5 });
+  });
+
+  it('should trend the shift against days since cleaning', () => {
+    const analysis = ColdBoreService.analyze([
+      shot(100, [1, 2], [0, 1], 1),
+      shot(200, [0, 2], [0, 0], 3),
+      shot(100, [2, 3], [1, 0], 5),
+    ]);
+
+    expect(analysis.cleaning_trend).toEqual({
+      count: 3,
+      horizontal_moa_per_day: 0,
+      vertical_moa_per_day: 0.5,
+      vertical_r_squared: 1,
+    });
+  });
+
+  it('should report nothing without shots', () => {
+    const analysis = ColdBoreService.analyze([]);
+
+    expect(analysis.reference).toBeNull();
+    expect(analysis.shift).toBeNull();
+    expect(analysis.hold).toBeNull();
+    expect(analysis.cleaning_trend).toBeNull();
+  });
+});
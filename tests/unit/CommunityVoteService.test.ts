@@ -0,0 +1,162 @@
+/**
+ * Community Vote Service Unit Tests
+ *
+ * Tests for vote counter changes and vote ring detection.
+ */
+
+import CommunityVoteService, {
+  CastVote,
+  RingAssessmentInput,
+} from '../../src/services/CommunityVoteService';
+import { VoteType } from '../../src/types/community';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number): Date => new Date(NOW.getTime() - days * DAY_MS);
+
+function castVote(
+  userId: number,
+  ammoId: number,
+  voteType: VoteType,
+  overrides: Partial<CastVote> = {},
+): CastVote {
+  return {
+    user_id: userId,
+    ammo_id: ammoId,
+    vote_type: voteType,
+    submitted_by: 99,
+    created_at: daysAgo(10),
+    voter_created_at: daysAgo(400),
+    ...overrides,
+  };
+}
+
+function input(overrides: Partial<RingAssessmentInput> = {}): RingAssessmentInput {
+  return {
+    voter: { user_id: 1, created_at: daysAgo(365) },
+    vote_type: 'up',
+    ammo: { id: 100, submitted_by: 50 },
+    history: [],
+    related: [],
+    now: NOW,
+    ...overrides,
+  };
+}
+
+describe('CommunityVoteService', () => {
+  describe('counterChange', () => {
+    it('should count new, changed and retracted votes', () => {
+      const up = { vote_type: 'up' as const, is_flagged: false };
+      const down = { vote_type: 'down' as const, is_flagged: false };
+
+      expect(CommunityVoteService.counterChange(null, up)).toEqual({ score: 1, count: 1 });
+      expect(CommunityVoteService.counterChange(up, down)).toEqual({ score: -2, count: 0 });
+      expect(CommunityVoteService.counterChange(down, null)).toEqual({ score: 1, count: -1 });
+    });
+
+    it('should leave flagged votes out of the counters', () => {
+      const flagged = { vote_type: 'up' as const, is_flagged: true };
+
+      expect(CommunityVoteService.counterChange(null, flagged)).toEqual({ score: 0, count: 0 });
+      expect(
+        CommunityVoteService.counterChange({ vote_type: 'up', is_flagged: false }, flagged),
+      ).toEqual({ score: -1, count: -1 });
+    });
+  });
+
+  describe('tally', () => {
+    it('should total the counted votes', () => {
+      expect(
+        CommunityVoteService.tally([
+          { vote_type: 'up', is_flagged: false },
+          { vote_type: 'up', is_flagged: false },
+          { vote_type: 'down', is_flagged: false },
+          { vote_type: 'up', is_flagged: true },
+        ]),
+      ).toEqual({ vote_score: 1, vote_count: 3 });
+      expect(CommunityVoteService.tally([])).toEqual({ vote_score: 0, vote_count: 0 });
+    });
+  });
+
+  describe('assess', () => {
+    it('should pass an ordinary vote', () => {
+      const assessment = CommunityVoteService.assess(
+        input({
+          history: [castVote(1, 1, 'up'), castVote(1, 2, 'down')],
+          related: [castVote(2, 100, 'up'), castVote(3, 1, 'down')],
+        }),
+      );
+
+      expect(assessment).toEqual({ flagged: false, reasons: [], correlated_user_ids: [] });
+    });
+
+    it('should flag accounts voting in lockstep', () => {
+      const entries = [1, 2, 3, 4];
+      const history = entries.map((ammoId) => castVote(1, ammoId, ammoId === 4 ? 'down' : 'up'));
+      const partner = (userId: number): CastVote[] => [
+        ...history.map((vote) => ({ ...vote, user_id: userId })),
+        castVote(userId, 100, 'up'),
+      ];
+
+      const assessment = CommunityVoteService.assess(
+        input({ history, related: [...partner(2), ...partner(3), castVote(4, 100, 'up')] }),
+      );
+
+      expect(assessment.flagged).toBe(true);
+      expect(assessment.reasons).toEqual(['Votes in lockstep with 2 other accounts']);
+      expect(assessment.correlated_user_ids).toEqual([2, 3]);
+    });
+
+    it('should not treat one agreeing account or opposite votes as a ring', () => {
+      const history = [1, 2, 3, 4].map((ammoId) => castVote(1, ammoId, 'up'));
+      const partner = (userId: number, target: VoteType): CastVote[] => [
+        ...history.map((vote) => ({ ...vote, user_id: userId })),
+        castVote(userId, 100, target),
+      ];
+
+      const assessment = CommunityVoteService.assess(
+        input({ history, related: [...partner(2, 'up'), ...partner(3, 'down')] }),
+      );
+
+      expect(assessment.flagged).toBe(false);
+    });
+
+    it('should flag up votes concentrated on one submitter', () => {
+      const history = [1, 2, 3, 4, 5].map((ammoId) =>
+        castVote(1, ammoId, 'up', { submitted_by: ammoId === 5 ? 7 : 50 }),
+      );
+
+      expect(CommunityVoteService.assess(input({ history })).reasons).toEqual([
+        "Up votes concentrated on one submitter's entries",
+      ]);
+      expect(CommunityVoteService.assess(input({ history, vote_type: 'down' })).flagged).toBe(
+        false,
+      );
+    });
+
+    it('should flag a burst of votes from fresh accounts created together', () => {
+      const fresh = { user_id: 1, created_at: daysAgo(5) };
+      const related = [
+        castVote(2, 100, 'up', { created_at: daysAgo(0.5), voter_created_at: daysAgo(4) }),
+        castVote(3, 100, 'up', { created_at: daysAgo(0.2), voter_created_at: daysAgo(6) }),
+        // Too long ago, an older account and the other direction
+        castVote(4, 100, 'up', { created_at: daysAgo(3), voter_created_at: daysAgo(5) }),
+        castVote(5, 100, 'up', { created_at: daysAgo(0.1), voter_created_at: daysAgo(90) }),
+        castVote(6, 100, 'down', { created_at: daysAgo(0.1), voter_created_at: daysAgo(5) }),
+      ];
+
+      const assessment = CommunityVoteService.assess(input({ voter: fresh, related }));
+
+      expect(assessment.reasons).toEqual(['Burst of votes from 3 accounts created together']);
+      expect(assessment.correlated_user_ids).toEqual([2, 3]);
+
+      // Established accounts created the same week are left alone
+      const established = { user_id: 1, created_at: daysAgo(200) };
+      const older = related.map((vote) => ({ ...vote, voter_created_at: daysAgo(201) }));
+      expect(
+        CommunityVoteService.assess(input({ voter: established, related: older })).flagged,
+      ).toBe(false);
+    });
+  });
+});
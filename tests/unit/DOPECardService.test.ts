@@ -0,0 +1,86 @@
+/**
+ * DOPE Card Service Unit Tests
+ *
+ * Tests for merging predicted and observed DOPE into card rows.
+ */
+
+import DOPECardService, { ObservedEntry } from '../../src/services/DOPECardService';
+import { TrajectoryPoint } from '../../src/services/BallisticsService';
+
+const point = (range: number, elevationMil: number): TrajectoryPoint => ({
+  range_yards: range,
+  drop_inches: 0,
+  elevation_mil: elevationMil,
+  elevation_moa: elevationMil * 3.437746771,
+  windage_inches: 0,
+  windage_mil: 0,
+  windage_moa: 0,
+  velocity_fps: 2000,
+  mach: 1.8,
+  energy_ftlbs: 1500,
+  time_of_flight: 0.5,
+});
+
+const predicted = [point(0, 0), point(100, 0), point(200, 1), point(300, 2)];
+const observed: ObservedEntry[] = [
+  { range_yards: 300, elevation: 2.6, windage: 0.1, unit: 'MIL' },
+  { range_yards: 300, elevation: 2.4, windage: 0.1, unit: 'MIL' },
+];
+
+describe('DOPECardService', () => {
+  describe('buildCard', () => {
+    it('should return every predicted increment except the muzzle in predicted mode', () => {
+      const card = DOPECardService.buildCard(predicted, observed, {
+        mode: 'predicted',
+        unit: 'MIL',
+        clickValue: 0.1,
+        tolerance: 0.2,
+      });
+
+      expect(card.map((row) => row.range_yards)).toEqual([100, 200, 300]);
+      expect(card.every((row) => row.source === 'predicted')).toBe(true);
+      expect(card[1]!.elevation_clicks).toBe(10);
+    });
+
+    it('should only include logged ranges in observed mode', () => {
+      const card = DOPECardService.buildCard([], observed, {
+        mode: 'observed',
+        unit: 'MIL',
+        clickValue: 0.1,
+        tolerance: 0.2,
+      });
+
+      expect(card).toHaveLength(1);
+      expect(card[0]).toMatchObject({ range_yards: 300, elevation: 2.5, source: 'observed' });
+      expect(card[0]!.observed!.log_count).toBe(2);
+    });
+
+    it('should overlay observed corrections and flag disagreement in blended mode', () => {
+      const card = DOPECardService.buildCard(predicted, observed, {
+        mode: 'blended',
+        unit: 'MIL',
+        clickValue: 0.1,
+        tolerance: 0.2,
+      });
+      const row = card.find((r) => r.range_yards === 300)!;
+
+      expect(card).toHaveLength(3);
+      expect(row.source).toBe('observed');
+      expect(row.difference!.elevation).toBe(0.5);
+      expect(row.disagreement).toBe(true);
+      expect(card.find((r) => r.range_yards === 200)!.disagreement).toBe(false);
+    });
+
+    it('should convert observed MIL corrections into MOA clicks', () => {
+      const card = DOPECardService.buildCard([], observed, {
+        mode: 'observed',
+        unit: 'MOA',
+        clickValue: 0.25,
+        tolerance: 0.75,
+      });
+
+      expect(card[0]!.elevation).toBeCloseTo(8.59, 1);
+      expect(card[0]!.elevation_clicks).toBe(34);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Duplicate Detection Service Unit Tests
+ *
+ * Tests for name normalization and duplicate scoring of community ammo.
+ */
+
+import DuplicateDetectionService, {
+  AmmoFingerprint,
+} from '../../src/services/DuplicateDetectionService';
+
+const eldMatch: AmmoFingerprint = {
+  manufacturer: 'Hornady',
+  product_name: 'ELD Match 140 gr',
+  caliber: '6.5mm Creedmoor',
+  bullet_weight: 140,
+  ballistic_coefficient_g1: 0.646,
+  ballistic_coefficient_g7: 0.326,
+};
+
+describe('DuplicateDetectionService', () => {
+  describe('normalizeCaliber', () => {
+    it('should treat spelling variants of a caliber as equal', () => {
+      expect(DuplicateDetectionService.normalizeCaliber('6.5mm Creedmoor')).toBe('6.5 creedmoor');
+      expect(DuplicateDetectionService.normalizeCaliber('6.5 CM')).toBe('6.5 creedmoor');
+      expect(DuplicateDetectionService.normalizeCaliber('.308 Win')).toBe('308 winchester');
+      expect(DuplicateDetectionService.normalizeCaliber('308 Winchester')).toBe('308 winchester');
+    });
+  });
+
+  describe('findDuplicates', () => {
+    it('should match the same load written differently', () => {
+      const candidate = {
+        id: 7,
+        manufacturer: 'HORNADY',
+        product_name: 'ELD-Match',
+        caliber: '6.5 CM',
+        bullet_weight: '140.00',
+        ballistic_coefficient_g1: '0.6460',
+        ballistic_coefficient_g7: null,
+      };
+
+      const [match] = DuplicateDetectionService.findDuplicates(eldMatch, [candidate]);
+
+      expect(match?.candidate).toBe(candidate);
+      expect(match?.score).toBe(1);
+      expect(match?.reasons).toEqual([
+        'Same caliber',
+        'Same bullet weight',
+        'Name 100% similar',
+        'G1 BC within 0',
+      ]);
+    });
+
+    it('should skip other calibers and bullet weights', () => {
+      const candidates = [
+        { ...eldMatch, caliber: '6.5 PRC' },
+        { ...eldMatch, bullet_weight: 147 },
+      ];
+
+      expect(DuplicateDetectionService.findDuplicates(eldMatch, candidates)).toEqual([]);
+    });
+
+    it('should not match a different product line from the same maker', () => {
+      const eldx = {
+        ...eldMatch,
+        product_name: 'ELD-X Precision Hunter',
+        bullet_weight: 140.5,
+        ballistic_coefficient_g1: 0.61,
+        ballistic_coefficient_g7: 0.305,
+      };
+
+      expect(DuplicateDetectionService.compare(eldMatch, eldx)?.score).toBeLessThan(0.7);
+      expect(DuplicateDetectionService.findDuplicates(eldMatch, [eldx])).toEqual([]);
+    });
+
+    it('should rank closer matches first', () => {
+      const close = { ...eldMatch, ballistic_coefficient_g1: 0.64 };
+      const exact = { ...eldMatch, manufacturer: 'Hornady Manufacturing' };
+      const matches = DuplicateDetectionService.findDuplicates(eldMatch, [exact, close]);
+
+      expect(matches.map((match) => match.candidate)).toEqual([close, exact]);
+      expect(matches[0]?.reasons).toContain('G1 BC within 0.006, G7 BC within 0');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Group Analysis Service Unit Tests
+ *
+ * Tests for group measurements from POI markers on a scaled target photo.
+ */
+
+import GroupAnalysisService from '../../src/services/GroupAnalysisService';
+import { ValidationError } from '../../src/utils/errors';
+
+// 100 px to the inch
+const scale = { from: { x: 0, y: 0 }, to: { x: 60, y: 80 }, inches: 1 };
+
+// One-inch square
+const square = [
+  { x: 0, y: 0 },
+  { x: 100, y: 0 },
+  { x: 0, y: 100 },
+  { x: 100, y: 100 },
+];
+
+describe('GroupAnalysisService', () => {
+  describe('analyze', () => {
+    it('should measure the group in inches, MOA and MIL', () => {
+      const analysis = GroupAnalysisService.analyze(square, scale, 100)!;
+
+      expect(analysis.shot_count).toBe(4);
+      expect(analysis.pixels_per_inch).toBe(100);
+      expect(analysis.extreme_spread).toEqual({ inches: 1.414, moa: 1.35, mil: 0.39 });
+      expect(analysis.mean_radius.inches).toBe(0.707);
+      expect(analysis.cep.inches).toBe(0.707);
+      expect(analysis.horizontal_dispersion).toEqual({ inches: 1, moa: 0.95, mil: 0.28 });
+      expect(analysis.vertical_dispersion.inches).toBe(1);
+      expect(analysis.horizontal_sd!.inches).toBeCloseTo(0.577, 3);
+      expect(analysis.center_offset).toBeNull();
+    });
+
+    it('should scale angular sizes with distance', () => {
+      const near = GroupAnalysisService.analyze(square, scale, 100)!;
+      const far = GroupAnalysisService.analyze(square, scale, 200)!;
+
+      expect(far.extreme_spread!.inches).toBe(near.extreme_spread!.inches);
+      expect(far.extreme_spread!.moa).toBe(0.68);
+    });
+
+    it('should report the group center from point of aim, positive right and high', () => {
+      const analysis = GroupAnalysisService.analyze(square, scale, 100, { x: 0, y: 150 })!;
+
+      expect(analysis.center_offset!.horizontal.inches).toBe(0.5);
+      expect(analysis.center_offset!.vertical.inches).toBe(1);
+      expect(analysis.center_offset!.radial.inches).toBeCloseTo(1.118, 3);
+    });
+
+    it('should take the median radius as CEP', () => {
+      const analysis = GroupAnalysisService.analyze(
+        [
+          { x: 0, y: 0 },
+          { x: 10, y: 0 },
+          { x: 20, y: 0 },
+          { x: 330, y: 0 },
+        ],
+        scale,
+        null,
+      )!;
+
+      // Center at x = 90: radii 90, 80, 70, 240 px
+      expect(analysis.cep.inches).toBe(0.85);
+      expect(analysis.mean_radius.inches).toBe(1.2);
+      expect(analysis.cep.moa).toBeNull();
+      expect(analysis.distance_yards).toBeNull();
+    });
+
+    it('should leave spread out for a single shot and skip empty targets', () => {
+      const single = GroupAnalysisService.analyze([{ x: 5, y: 5 }], scale, 100)!;
+
+      expect(single.extreme_spread).toBeNull();
+      expect(single.horizontal_sd).toBeNull();
+      expect(single.cep.inches).toBe(0);
+      expect(GroupAnalysisService.analyze([], scale, 100)).toBeNull();
+    });
+  });
+
+  describe('parseScaleReference', () => {
+    it('should accept objects and JSON strings', () => {
+      expect(GroupAnalysisService.parseScaleReference(scale)).toEqual(scale);
+      expect(GroupAnalysisService.parseScaleReference(JSON.stringify(scale))).toEqual(scale);
+      expect(GroupAnalysisService.parseScaleReference(null)).toBeNull();
+    });
+
+    it('should reject unusable references', () => {
+      expect(() => GroupAnalysisService.parseScaleReference({ ...scale, inches: 0 })).toThrow(
+        'positive length',
+      );
+      expect(() =>
+        GroupAnalysisService.parseScaleReference({ ...scale, to: { x: 0, y: 0 } }),
+      ).toThrow('must be different');
+      expect(() => GroupAnalysisService.parseScaleReference({ from: { x: 1 } })).toThrow(
+        ValidationError,
+      );
+      expect(() => GroupAnalysisService.parseAimPoint('[1, 2]')).toThrow('must be an object');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Lead Service Unit Tests
+ *
+ * Tests for moving-target lead computation.
+ */
+
+import { TrajectoryPoint } from '../../src/services/BallisticsService';
+import LeadService from '../../src/services/LeadService';
+
+const point = (range: number, tof: number): TrajectoryPoint =>
+  ({ range_yards: range, time_of_flight: tof }) as TrajectoryPoint;
+
+describe('LeadService', () => {
+  describe('computeLeads', () => {
+    it('should lead a crossing target by speed times time of flight', () => {
+      // 10 mph = 176 in/s, over 0.5 s = 88 inches
+      const [lead] = LeadService.computeLeads([point(400, 0.5)], {
+        speed: 10,
+        angle: 90,
+        width: 22,
+      });
+
+      expect(lead!.lead_inches).toBeCloseTo(88, 1);
+      expect(lead!.lead_mil).toBeCloseTo(88 / (4 * 3.6), 1);
+      expect(lead!.lead_moa).toBeCloseTo(88 / (4 * 1.047), 1);
+      expect(lead!.target_widths).toBeCloseTo(4, 2);
+    });
+
+    it('should scale by the sine of the target angle', () => {
+      const [full] = LeadService.computeLeads([point(300, 0.4)], {
+        speed: 5,
+        angle: 90,
+        width: 18,
+      });
+      const [quarter] = LeadService.computeLeads([point(300, 0.4)], {
+        speed: 5,
+        angle: 30,
+        width: 18,
+      });
+
+      expect(quarter!.lead_inches).toBeCloseTo(full!.lead_inches / 2, 0);
+    });
+
+    it('should hold left for targets moving right to left', () => {
+      const [lead] = LeadService.computeLeads([point(300, 0.4)], {
+        speed: 5,
+        angle: 270,
+        width: 18,
+      });
+
+      expect(lead!.lead_inches).toBeLessThan(0);
+    });
+
+    it('should skip the muzzle point', () => {
+      const leads = LeadService.computeLeads([point(0, 0), point(100, 0.12)], {
+        speed: 3,
+        angle: 90,
+        width: 18,
+      });
+
+      expect(leads.map((lead) => lead.range_yards)).toEqual([100]);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Moderation Service Unit Tests
+ *
+ * Tests for the community ammo review workflow.
+ */
+
+import ModerationService from '../../src/services/ModerationService';
+import { ValidationError } from '../../src/utils/errors';
+
+describe('ModerationService', () => {
+  describe('decide', () => {
+    it('should move entries to the status of the action', () => {
+      expect(ModerationService.decide('pending', 'verify')).toEqual({
+        action: 'verify',
+        from_status: 'pending',
+        to_status: 'verified',
+        reason: null,
+      });
+      expect(ModerationService.decide('verified', 'dispute', '  BC off by 10%  ')).toEqual({
+        action: 'dispute',
+        from_status: 'verified',
+        to_status: 'disputed',
+        reason: 'BC off by 10%',
+      });
+      expect(ModerationService.decide('disputed', 'reject', 'Duplicate').to_status).toBe(
+        'rejected',
+      );
+      expect(ModerationService.decide('rejected', 'verify').to_status).toBe('verified');
+    });
+
+    it('should reject merged duplicates without requiring a reason', () => {
+      expect(ModerationService.decide('verified', 'merge')).toEqual({
+        action: 'merge',
+        from_status: 'verified',
+        to_status: 'rejected',
+        reason: null,
+      });
+      expect(() => ModerationService.decide('rejected', 'merge')).toThrow(ValidationError);
+    });
+
+    it('should require a reason to reject or dispute', () => {
+      expect(() => ModerationService.decide('pending', 'reject')).toThrow(ValidationError);
+      expect(() => ModerationService.decide('verified', 'dispute', '   ')).toThrow(
+        'A reason is required to dispute community ammo',
+      );
+    });
+
+    it('should refuse actions that do not change the status', () => {
+      expect(() => ModerationService.decide('verified', 'verify')).toThrow(
+        'Cannot verify community ammo that is verified',
+      );
+      expect(() => ModerationService.decide('rejected', 'reject', 'Again')).toThrow(
+        ValidationError,
+      );
+      expect(() => ModerationService.decide('rejected', 'dispute', 'Wrong BC')).toThrow(
+        ValidationError,
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Range Session Service Unit Tests
+ *
+ * Tests for session hit tallies and environment change tracking.
+ */
+
+import RangeSessionService from '../../src/services/RangeSessionService';
+
+const log = (
+  id: number,
+  distance_yards: number,
+  shot_count: number | null,
+  hit_count: number | null,
+  minute: number,
+) => ({
+  id,
+  distance_yards,
+  shot_count,
+  hit_count,
+  environment_id: 1,
+  timestamp: new Date(Date.UTC(2024, 4, 1, 9, minute)),
+});
+
+const conditions = (id: number, minute: number, temperature: number, wind_direction: number) => ({
+  id,
+  timestamp: new Date(Date.UTC(2024, 4, 1, 9, minute)),
+  temperature,
+  humidity: 40,
+  pressure: 29.92,
+  wind_speed: 5,
+  wind_direction,
+  density_altitude: 500,
+});
+
+describe('RangeSessionService', () => {
+  describe('tally', () => {
+    it('should count rounds fired and score only logs with hits recorded', () => {
+      const tally = RangeSessionService.tally([
+        { shot_count: 5, hit_count: 4 },
+        { shot_count: 5, hit_count: 2 },
+        { shot_count: 3, hit_count: null },
+        { shot_count: null, hit_count: null },
+      ]);
+
+      expect(tally).toEqual({
+        log_count: 4,
+        rounds_fired: 13,
+        hits: 6,
+        hit_rate: 60,
+      });
+    });
+
+    it('should report no hit rate when nothing was scored', () => {
+      expect(RangeSessionService.tally([{ shot_count: 3 }]).hit_rate).toBeNull();
+    });
+  });
+
+  describe('summarize', () => {
+    it('should tally by distance and bracket the log times', () => {
+      const summary = RangeSessionService.summarize(
+        [log(1, 600, 5, 3, 30), log(2, 300, 5, 5, 10), log(3, 600.4, 5, 4, 45)],
+        [],
+      );
+
+      expect(summary.rounds_fired).toBe(15);
+      expect(summary.hit_rate).toBe(80);
+      expect(summary.first_log_at).toEqual(new Date(Date.UTC(2024, 4, 1, 9, 10)));
+      expect(summary.last_log_at).toEqual(new Date(Date.UTC(2024, 4, 1, 9, 45)));
+      expect(summary.distances).toEqual([
+        { distance_yards: 300, log_count: 1, rounds_fired: 5, hits: 5, hit_rate: 100 },
+        { distance_yards: 600, log_count: 2, rounds_fired: 10, hits: 7, hit_rate: 70 },
+      ]);
+      expect(summary.environment_changes).toEqual([]);
+      expect(summary.net_change).toBeNull();
+    });
+
+    it('should order distinct snapshots and report changes between them', () => {
+      const summary = RangeSessionService.summarize(
+        [],
+        [conditions(2, 40, 68, 10), conditions(1, 0, 60, 350), conditions(2, 40, 68, 10)],
+      );
+
+      expect(summary.environment_changes.map((change) => change.environment_id)).toEqual([1, 2]);
+      expect(summary.environment_changes[0]!.change).toBeNull();
+      // 350° to 10° is a 20° clockwise shift, not -340°
+      expect(summary.environment_changes[1]!.change).toMatchObject({
+        temperature: 8,
+        wind_direction: 20,
+        pressure: 0,
+      });
+      expect(summary.net_change).toEqual(summary.environment_changes[1]!.change);
+    });
+  });
+});
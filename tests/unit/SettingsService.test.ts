@@ -0,0 +1,86 @@
+/**
+ * Settings Service Unit Tests
+ *
+ * Tests for settings schema validation and resolution over defaults.
+ */
+
+import SettingsService, { DEFAULT_SETTINGS } from '../../src/services/SettingsService';
+import { UNIT_SYSTEMS } from '../../src/services/UnitConversionService';
+import { ValidationError } from '../../src/utils/errors';
+
+const row = (setting_key: string, value: unknown) => ({
+  setting_key,
+  setting_value: JSON.stringify(value),
+});
+
+describe('SettingsService', () => {
+  describe('parse', () => {
+    it('should accept declared values', () => {
+      expect(SettingsService.parse('distance_unit', 'meters')).toBe('meters');
+      expect(SettingsService.parse('correction_unit', null)).toBeNull();
+      expect(SettingsService.parse('card_increment', 50)).toBe(50);
+      expect(SettingsService.parse('card_increment', '25')).toBe(25);
+    });
+
+    it('should reject unknown keys and invalid values', () => {
+      expect(() => SettingsService.parse('theme', 'dark')).toThrow('Unknown setting');
+      expect(() => SettingsService.parse('distance_unit', 'feet')).toThrow('yards, meters');
+      expect(() => SettingsService.parse('unit_system', null)).toThrow('cannot be null');
+      expect(() => SettingsService.parse('card_increment', 12.5)).toThrow('integer');
+      expect(() => SettingsService.parse('card_increment', 5)).toThrow('between 10 and 500');
+      expect(() => SettingsService.parse('default_rifle_id', '')).toThrow(ValidationError);
+    });
+
+    it('should collect every invalid key in a bulk update', () => {
+      expect.assertions(2);
+      try {
+        SettingsService.parseAll({ temperature_unit: 'K', pressure_unit: 'hPa', colour: 'red' });
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).errors.map((entry) => entry.field)).toEqual([
+          'temperature_unit',
+          'colour',
+        ]);
+      }
+    });
+  });
+
+  describe('resolve', () => {
+    it('should fall back to defaults for missing, unknown and stale values', () => {
+      const settings = SettingsService.resolve([
+        row('distance_unit', 'meters'),
+        row('card_increment', 50),
+        row('pressure_unit', 'bar'),
+        row('legacy_key', true),
+        { setting_key: 'temperature_unit', setting_value: 'not json' },
+      ]);
+
+      expect(settings).toEqual({
+        ...DEFAULT_SETTINGS,
+        distance_unit: 'meters',
+        card_increment: 50,
+      });
+    });
+
+    it('should map settings to display units', () => {
+      const settings = SettingsService.resolve([row('temperature_unit', 'C')]);
+
+      expect(SettingsService.displayUnits(settings)).toEqual({
+        ...UNIT_SYSTEMS.imperial,
+        temperature: 'C',
+      });
+    });
+
+    it('should apply per-quantity overrides over the unit system', () => {
+      const settings = SettingsService.resolve([
+        row('unit_system', 'metric'),
+        row('distance_unit', 'yards'),
+      ]);
+
+      expect(SettingsService.displayUnits(settings)).toEqual({
+        ...UNIT_SYSTEMS.metric,
+        distance: 'yards',
+      });
+    });
+  });
+});
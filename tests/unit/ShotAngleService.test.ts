@@ -0,0 +1,85 @@
+/**
+ * Shot Angle Service Unit Tests
+ *
+ * Tests for normalizing inclined and canted DOPE to flat fire.
+ */
+
+import BallisticsService, { SolverInput } from '../../src/services/BallisticsService';
+import ShotAngleService from '../../src/services/ShotAngleService';
+
+const baseInput: SolverInput = {
+  muzzleVelocity: 2600,
+  ballisticCoefficient: 0.243,
+  dragModel: 'G7',
+  bulletWeight: 175,
+  scopeHeight: 1.5,
+  zeroDistance: 100,
+  conditions: {
+    temperature: 59,
+    pressure: 29.92,
+    humidity: 0,
+    altitude: 0,
+    densityAltitude: 0,
+    windSpeed: 0,
+    windDirection: 0,
+  },
+  maxRange: 1000,
+  rangeStep: 100,
+};
+
+describe('ShotAngleService', () => {
+  describe('toFlat', () => {
+    it('should leave level, uncanted logs unchanged', () => {
+      const flat = ShotAngleService.toFlat(
+        { rangeYards: 600, elevation: 4.5, windage: 0.3, unit: 'MIL' },
+        'rifleman',
+      );
+
+      expect(flat).toEqual({ elevation: 4.5, windage: 0.3, normalized: false });
+    });
+
+    it('should apply the rifleman rule to inclined logs', () => {
+      const flat = ShotAngleService.toFlat(
+        { rangeYards: 600, elevation: 4.5, windage: 0.3, unit: 'MIL', inclineAngle: 30 },
+        'rifleman',
+      );
+
+      expect(flat.elevation).toBeCloseTo(4.5 / Math.cos(Math.PI / 6), 5);
+      expect(flat.windage).toBe(0.3);
+      expect(flat.normalized).toBe(true);
+    });
+
+    it('should recover the flat correction from an inclined solution in full mode', () => {
+      const [flatPoint] = BallisticsService.solveRanges(baseInput, [800]);
+      const [angledPoint] = BallisticsService.solveRanges(
+        { ...baseInput, inclineAngle: -25 },
+        [800],
+      );
+
+      expect(angledPoint!.elevation_mil).toBeLessThan(flatPoint!.elevation_mil);
+
+      const flat = ShotAngleService.toFlat(
+        {
+          rangeYards: 800,
+          elevation: angledPoint!.elevation_mil,
+          windage: 0,
+          unit: 'MIL',
+          inclineAngle: -25,
+        },
+        'full',
+        baseInput,
+      );
+
+      expect(flat.elevation).toBeCloseTo(flatPoint!.elevation_mil, 2);
+    });
+  });
+
+  describe('removeCant', () => {
+    it('should move elevation into windage when canted right', () => {
+      const level = ShotAngleService.removeCant(5, 0, 10);
+
+      expect(level.elevation).toBeCloseTo(5 * Math.cos(Math.PI / 18), 5);
+      expect(level.windage).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Shot String Service Unit Tests
+ *
+ * Tests for chronograph session grouping and velocity statistics.
+ */
+
+import ShotStringService from '../../src/services/ShotStringService';
+
+const shot = (session_date: string, shot_number: number, velocity: number, temperature = 70) => ({
+  session_date,
+  shot_number,
+  velocity,
+  temperature,
+});
+
+describe('ShotStringService', () => {
+  describe('summarize', () => {
+    it('should report average, ES, SD and intervals', () => {
+      const stats = ShotStringService.summarize([
+        shot('2024-05-01', 1, 2650),
+        shot('2024-05-01', 2, 2662),
+        shot('2024-05-01', 3, 2655, 72),
+        shot('2024-05-01', 4, 2641),
+        shot('2024-05-01', 5, 2670, 72),
+      ]);
+
+      expect(stats).toMatchObject({
+        shot_count: 5,
+        average: 2655.6,
+        extreme_spread: 29,
+        standard_deviation: 11.1,
+        min: 2641,
+        max: 2670,
+        average_temperature: 70.8,
+        confidence_level: 0.95,
+      });
+      expect(stats.average_interval!.low).toBeLessThan(2655.6);
+      expect(stats.average_interval!.high).toBeGreaterThan(2655.6);
+      expect(stats.standard_deviation_interval!.high).toBeGreaterThan(stats.standard_deviation);
+    });
+
+    it('should accept decimal strings from the database', () => {
+      const stats = ShotStringService.summarize([
+        { ...shot('2024-05-01', 1, 0), velocity: '2650.50' as unknown as number },
+        { ...shot('2024-05-01', 2, 0), velocity: '2651.50' as unknown as number },
+      ]);
+
+      expect(stats.average).toBe(2651);
+    });
+
+    it('should omit intervals for a single shot', () => {
+      const stats = ShotStringService.summarize([shot('2024-05-01', 1, 2650)]);
+
+      expect(stats.standard_deviation).toBe(0);
+      expect(stats.average_interval).toBeNull();
+      expect(stats.standard_deviation_interval).toBeNull();
+    });
+  });
+
+  describe('groupSessions', () => {
+    it('should group by date, newest first, with shots in order', () => {
+      const sessions = ShotStringService.groupSessions([
+        shot('2024-05-01', 2, 2660),
+        shot('2024-06-10', 1, 2700),
+        shot('2024-05-01', 1, 2650),
+      ]);
+
+      expect(sessions.map((session) => session.session_date)).toEqual(['2024-06-10', '2024-05-01']);
+      expect(sessions[1]!.shots.map((s) => s.shot_number)).toEqual([1, 2]);
+      expect(sessions[1]!.stats.average).toBe(2655);
+    });
+  });
+});
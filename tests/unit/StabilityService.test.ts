@@ -0,0 +1,50 @@
+/**
+ * Stability Service Unit Tests
+ *
+ * Tests for the Miller stability factor and BC correction.
+ */
+
+import StabilityService, { StabilityInput } from '../../src/services/StabilityService';
+
+// 175gr .308 match bullet, 1.24" long, from a 1:10 barrel
+const baseInput: StabilityInput = {
+  bulletWeight: 175,
+  bulletLength: 1.24,
+  bulletDiameter: 0.308,
+  twistRate: 10,
+  muzzleVelocity: 2800,
+  temperature: 59,
+  pressure: 29.92,
+};
+
+describe('StabilityService', () => {
+  describe('calculate', () => {
+    it('should compute the Miller stability factor at standard conditions', () => {
+      const result = StabilityService.calculate(baseInput);
+
+      expect(result.stability_factor).toBeCloseTo(2.46, 1);
+      expect(result.stability_factor).toBe(result.stability_factor_standard);
+      expect(result.bullet_length_calibers).toBeCloseTo(4.026, 2);
+      expect(result.status).toBe('stable');
+      expect(result.warning).toBeNull();
+      expect(result.bc_correction_factor).toBe(1);
+    });
+
+    it('should lose stability in cold, dense air', () => {
+      const warm = StabilityService.calculate(baseInput);
+      const cold = StabilityService.calculate({ ...baseInput, temperature: 0, pressure: 30.5 });
+
+      expect(cold.stability_factor).toBeLessThan(warm.stability_factor);
+      expect(cold.atmosphere_factor).toBeLessThan(1);
+    });
+
+    it('should warn and reduce BC when stability is marginal', () => {
+      const result = StabilityService.calculate({ ...baseInput, twistRate: 14 });
+
+      expect(result.stability_factor).toBeLessThan(1.5);
+      expect(result.status).toBe('marginal');
+      expect(result.warning).toMatch(/marginal/);
+      expect(result.bc_correction_factor).toBeCloseTo((result.stability_factor + 1) / 2.5, 3);
+    });
+  });
+});
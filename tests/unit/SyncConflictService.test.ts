@@ -0,0 +1,153 @@
+/**
+ * Sync Conflict Service Unit Tests
+ *
+ * Tests for detecting overlapping edits and resolving them with each
+ * conflict strategy.
+ */
+
+import SyncConflictService, { ConflictCheck } from '../../src/services/SyncConflictService';
+import { ValidationError } from '../../src/utils/errors';
+
+const at = (time: string): Date => new Date(`2026-06-01T${time}:00Z`);
+
+function check(overrides: Partial<ConflictCheck> = {}): ConflictCheck {
+  return {
+    operation: 'update',
+    client_data: { name: 'Match rifle', zero_distance: 200 },
+    client_timestamp: at('12:00'),
+    server_data: { name: 'Hunting rifle', zero_distance: '100.00', notes: null },
+    server_edits: [{ fields: ['name'], client_timestamp: at('11:00') }],
+    ...overrides,
+  };
+}
+
+describe('SyncConflictService', () => {
+  describe('conflictingFields', () => {
+    it('should only flag fields changed on both sides to different values', () => {
+      expect(SyncConflictService.conflictingFields(check())).toEqual(['name']);
+      expect(
+        SyncConflictService.conflictingFields(
+          check({ server_data: { name: 'Match rifle', zero_distance: '100.00' } }),
+        ),
+      ).toEqual([]);
+      expect(SyncConflictService.conflictingFields(check({ server_edits: [] }))).toEqual([]);
+    });
+
+    it('should compare DECIMAL strings and dates by value', () => {
+      const edits = [{ fields: ['zero_distance', 'timestamp'], client_timestamp: at('11:00') }];
+
+      expect(
+        SyncConflictService.conflictingFields(
+          check({
+            client_data: { zero_distance: 100, timestamp: '2026-06-01T08:00:00.000Z' },
+            server_data: { zero_distance: '100.00', timestamp: at('08:00') },
+            server_edits: edits,
+          }),
+        ),
+      ).toEqual([]);
+    });
+
+    it('should treat edits with unknown fields as touching every field', () => {
+      expect(
+        SyncConflictService.conflictingFields(
+          check({ server_edits: [{ fields: null, client_timestamp: at('11:00') }] }),
+        ),
+      ).toEqual(['name', 'zero_distance']);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should apply changes without a conflict as sent', () => {
+      const outcome = SyncConflictService.resolve(check({ server_edits: [] }), 'manual');
+
+      expect(outcome).toEqual({
+        conflicting_fields: [],
+        resolution: null,
+        pending: false,
+        apply: { name: 'Match rifle', zero_distance: 200 },
+        delete: false,
+      });
+    });
+
+    it('should keep unopposed client fields under every strategy', () => {
+      const apply = (strategy: 'server_wins' | 'client_wins' | 'manual') =>
+        SyncConflictService.resolve(check(), strategy).apply;
+
+      expect(apply('server_wins')).toEqual({ zero_distance: 200 });
+      expect(apply('client_wins')).toEqual({ name: 'Match rifle', zero_distance: 200 });
+      expect(apply('manual')).toEqual({ zero_distance: 200 });
+    });
+
+    it('should leave manual conflicts pending', () => {
+      const outcome = SyncConflictService.resolve(check(), 'manual');
+
+      expect(outcome.pending).toBe(true);
+      expect(outcome.resolution).toBeNull();
+      expect(outcome.conflicting_fields).toEqual(['name']);
+    });
+
+    it('should merge by keeping the later edit of each field', () => {
+      const edits = [
+        { fields: ['name'], client_timestamp: at('11:00') },
+        { fields: ['zero_distance'], client_timestamp: at('13:00') },
+      ];
+
+      const outcome = SyncConflictService.resolve(check({ server_edits: edits }), 'merge');
+
+      expect(outcome.resolution).toBe('merge');
+      expect(outcome.conflicting_fields).toEqual(['name', 'zero_distance']);
+      expect(outcome.apply).toEqual({ name: 'Match rifle' });
+    });
+
+    it('should delete an edited entity only when the client side wins', () => {
+      const deletion = check({ operation: 'delete', client_data: {} });
+
+      expect(SyncConflictService.resolve(deletion, 'client_wins').delete).toBe(true);
+      expect(SyncConflictService.resolve(deletion, 'server_wins').delete).toBe(false);
+      expect(SyncConflictService.resolve(deletion, 'merge').delete).toBe(true);
+      expect(
+        SyncConflictService.resolve({ ...deletion, client_timestamp: at('10:00') }, 'merge').delete,
+      ).toBe(false);
+      expect(SyncConflictService.resolve(deletion, 'manual')).toMatchObject({
+        pending: true,
+        delete: false,
+        conflicting_fields: ['name'],
+      });
+    });
+  });
+
+  describe('settle', () => {
+    const fields = ['name', 'zero_distance'];
+    const clientData = { name: 'Match rifle', zero_distance: 200 };
+
+    it('should apply the chosen side', () => {
+      expect(SyncConflictService.settle('update', fields, clientData, 'server')).toEqual({
+        apply: {},
+        delete: false,
+      });
+      expect(SyncConflictService.settle('update', fields, clientData, 'client')).toEqual({
+        apply: clientData,
+        delete: false,
+      });
+      expect(SyncConflictService.settle('delete', fields, {}, 'client')).toEqual({
+        apply: {},
+        delete: true,
+      });
+    });
+
+    it('should only merge values for conflicting fields', () => {
+      expect(
+        SyncConflictService.settle('update', fields, clientData, 'merge', { name: 'Rifle' }),
+      ).toEqual({ apply: { name: 'Rifle' }, delete: false });
+      expect(() =>
+        SyncConflictService.settle('update', fields, clientData, 'merge', { notes: 'x' }),
+      ).toThrow(ValidationError);
+      expect(() => SyncConflictService.settle('update', fields, clientData, 'merge')).toThrow(
+        ValidationError,
+      );
+      expect(() => SyncConflictService.settle('delete', fields, {}, 'merge', {})).toThrow(
+        'cannot be merged',
+      );
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Sync Service Unit Tests
+ *
+ * Tests for sync batch validation, client data preparation and change
+ * log collapsing.
+ */
+
+import SyncService, { ClientChange, LoggedChange } from '../../src/services/SyncService';
+import { ValidationError } from '../../src/utils/errors';
+
+const TIMESTAMP = '2026-06-01T12:00:00Z';
+
+function change(overrides: Partial<ClientChange> = {}): ClientChange {
+  return {
+    entity_type: 'rifle',
+    operation: 'create',
+    client_id: 'rifle-1',
+    client_timestamp: TIMESTAMP,
+    data: { name: 'Match rifle' },
+    ...overrides,
+  };
+}
+
+function logged(
+  id: number,
+  entityType: string,
+  entityId: number,
+  operation: LoggedChange['operation'],
+): LoggedChange {
+  return {
+    id,
+    entity_type: entityType,
+    entity_id: entityId,
+    operation,
+    server_timestamp: new Date(TIMESTAMP),
+  };
+}
+
+describe('SyncService', () => {
+  describe('validateBatch', () => {
+    it('should accept creates, updates and deletes', () => {
+      const batch = [
+        change(),
+        change({ operation: 'update', client_id: undefined, entity_id: 12 }),
+        change({
+          operation: 'delete',
+          client_id: undefined,
+          entity_id: 'rifle-1',
+          data: undefined,
+        }),
+      ];
+
+      expect(SyncService.validateBatch(batch)).toEqual(batch);
+    });
+
+    it('should report every invalid change by index', () => {
+      const batch = [
+        change({ entity_type: 'scope' as ClientChange['entity_type'] }),
+        change({ client_id: 'rifle-1' }),
+        change({ operation: 'update', entity_id: undefined, data: [] as any }),
+        change({ client_timestamp: 'yesterday', client_id: 'rifle-2' }),
+      ];
+
+      expect.assertions(2);
+      try {
+        SyncService.validateBatch(batch);
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).errors.map((entry) => entry.field)).toEqual([
+          'changes[0].entity_type',
+          'changes[1].client_id',
+          'changes[2].entity_id',
+          'changes[2].data',
+          'changes[3].client_timestamp',
+        ]);
+      }
+    });
+
+    it('should reject oversized batches', () => {
+      const batch = Array.from({ length: 501 }, (_, index) =>
+        change({ client_id: `rifle-${index}` }),
+      );
+
+      expect(() => SyncService.validateBatch(batch)).toThrow('at most 500 changes');
+      expect(() => SyncService.validateBatch({})).toThrow('Changes must be an array');
+    });
+  });
+
+  describe('prepareData', () => {
+    it('should keep writable fields and resolve batch references', () => {
+      const createdIds = new Map([
+        ['rifle-1', 41],
+        ['env-1', 7],
+      ]);
+
+      const data = SyncService.prepareData(
+        'dope_log',
+        {
+          rifle_id: 'rifle-1',
+          ammo_id: 9,
+          environment_id: 'env-1',
+          distance: 600,
+          user_id: 2,
+          hit_percentage: 100,
+        },
+        createdIds,
+      );
+
+      expect(data).toEqual({ rifle_id: 41, ammo_id: 9, environment_id: 7, distance: 600 });
+    });
+
+    it('should leave unknown client ids for reference checks to refuse', () => {
+      expect(SyncService.prepareData('ammo', { rifle_id: 'rifle-9' }, new Map())).toEqual({
+        rifle_id: 'rifle-9',
+      });
+    });
+  });
+
+  describe('collapse', () => {
+    it('should keep the latest operation per entity in log order', () => {
+      const collapsed = SyncService.collapse([
+        logged(3, 'rifle', 1, 'update'),
+        logged(1, 'rifle', 1, 'create'),
+        logged(2, 'ammo', 5, 'create'),
+        logged(4, 'ammo', 5, 'delete'),
+        logged(5, 'dope_log', 1, 'update'),
+      ]);
+
+      expect(collapsed.map((log) => [log.entity_type, log.operation])).toEqual([
+        ['rifle', 'update'],
+        ['ammo', 'delete'],
+        ['dope_log', 'update'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Target Image Service Unit Tests
+ *
+ * Tests for upload decoding, thumbnails and POI marker validation.
+ */
+
+import sharp from 'sharp';
+import TargetImageService, { THUMBNAIL_SIZE } from '../../src/services/TargetImageService';
+import { ValidationError } from '../../src/utils/errors';
+
+const image = (width: number, height: number) =>
+  sharp({
+    create: { width, height, channels: 3, background: { r: 255, g: 255, b: 255 } },
+  })
+    .png()
+    .toBuffer();
+
+describe('TargetImageService', () => {
+  describe('process', () => {
+    it('should read the image size and render a JPEG thumbnail', async () => {
+      const processed = await TargetImageService.process(await image(800, 400));
+
+      expect(processed).toMatchObject({
+        format: 'png',
+        content_type: 'image/png',
+        extension: 'png',
+        width: 800,
+        height: 400,
+      });
+
+      const thumbnail = await sharp(processed.thumbnail).metadata();
+      expect(thumbnail.format).toBe('jpeg');
+      expect(thumbnail.width).toBe(THUMBNAIL_SIZE);
+      expect(thumbnail.height).toBe(THUMBNAIL_SIZE / 2);
+    });
+
+    it('should reject files that are not images', async () => {
+      await expect(TargetImageService.process(Buffer.from('not an image'))).rejects.toThrow(
+        ValidationError,
+      );
+    });
+  });
+
+  describe('parseMarkers', () => {
+    it('should accept arrays and JSON strings', () => {
+      const markers = [
+        { x: 10, y: 20.5, label: '1' },
+        { x: 0, y: 0 },
+      ];
+
+      expect(TargetImageService.parseMarkers(markers)).toEqual(markers);
+      expect(TargetImageService.parseMarkers(JSON.stringify(markers))).toEqual(markers);
+      expect(TargetImageService.parseMarkers(undefined)).toEqual([]);
+    });
+
+    it('should reject malformed markers', () => {
+      expect(() => TargetImageService.parseMarkers('{oops')).toThrow('valid JSON');
+      expect(() => TargetImageService.parseMarkers({ x: 1, y: 1 })).toThrow('array');
+      expect(() => TargetImageService.parseMarkers([{ x: 1 }])).toThrow('marker 1');
+      expect(() =>
+        TargetImageService.parseMarkers([
+          { x: 1, y: 1 },
+          { x: -1, y: 1 },
+        ]),
+      ).toThrow('marker 2');
+      expect(() => TargetImageService.parseMarkers([{ x: '1', y: 1 }])).toThrow(ValidationError);
+    });
+
+    it('should keep markers inside the image', () => {
+      expect(TargetImageService.parseMarkers([{ x: 800, y: 400 }], 800, 400)).toHaveLength(1);
+      expect(() => TargetImageService.parseMarkers([{ x: 801, y: 10 }], 800, 400)).toThrow(
+        'outside the image',
+      );
+    });
+  });
+
+  describe('storageKeys', () => {
+    it('should give each upload its own keys under the user', () => {
+      const first = TargetImageService.storageKeys(7, 'png');
+      const second = TargetImageService.storageKeys(7, 'png');
+
+      expect(first.image).toMatch(/^target-images\/7\/[0-9a-f-]+\.png$/);
+      expect(first.thumbnail).toMatch(/^target-images\/7\/[0-9a-f-]+_thumb\.jpg$/);
+      expect(first.image).not.toBe(second.image);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Temperature Sensitivity Service Unit Tests
+ *
+ * Tests for the velocity-temperature fit and muzzle velocity adjustment.
+ */
+
+import TemperatureSensitivityService from '../../src/services/TemperatureSensitivityService';
+
+const shot = (
+  session_date: string,
+  shot_number: number,
+  velocity: number,
+  temperature: number,
+) => ({
+  session_date,
+  shot_number,
+  velocity,
+  temperature,
+});
+
+// 1.5 fps/°F with a little scatter, over two sessions 50°F apart
+const shots = [
+  shot('2024-01-10', 1, 2600, 30),
+  shot('2024-01-10', 2, 2604, 30),
+  shot('2024-01-10', 3, 2596, 30),
+  shot('2024-07-10', 1, 2675, 80),
+  shot('2024-07-10', 2, 2679, 80),
+  shot('2024-07-10', 3, 2671, 80),
+];
+
+describe('TemperatureSensitivityService', () => {
+  describe('fit', () => {
+    it('should report fps per °F with goodness of fit', () => {
+      const fit = TemperatureSensitivityService.fit(shots);
+
+      expect(fit).toMatchObject({
+        usable: true,
+        warning: null,
+        fps_per_degree: 1.5,
+        intercept: 2555,
+        shot_count: 6,
+        session_count: 2,
+        temperature_range: { min: 30, max: 80 },
+        mean_temperature: 55,
+        mean_velocity: 2637.5,
+      });
+      expect(fit.r_squared).toBeGreaterThan(0.98);
+      expect(fit.slope_standard_error).toBeGreaterThan(0);
+    });
+
+    it('should not be usable over a narrow temperature span', () => {
+      const fit = TemperatureSensitivityService.fit([
+        shot('2024-05-01', 1, 2650, 70),
+        shot('2024-05-01', 2, 2655, 72),
+        shot('2024-05-01', 3, 2652, 74),
+        shot('2024-05-01', 4, 2660, 75),
+        shot('2024-05-01', 5, 2648, 70),
+      ]);
+
+      expect(fit.usable).toBe(false);
+      expect(fit.warning).toMatch(/10°F/);
+    });
+
+    it('should not be usable with too few shots', () => {
+      const fit = TemperatureSensitivityService.fit(shots.slice(2, 5));
+
+      expect(fit.usable).toBe(false);
+      expect(fit.warning).toMatch(/5 chronograph shots/);
+    });
+
+    it('should handle no readings', () => {
+      const fit = TemperatureSensitivityService.fit([]);
+
+      expect(fit.usable).toBe(false);
+      expect(fit.fps_per_degree).toBeNull();
+      expect(fit.temperature_range).toBeNull();
+      expect(fit.mean_temperature).toBeNull();
+    });
+  });
+
+  describe('adjust', () => {
+    it('should shift velocity from the reference temperature', () => {
+      const fit = TemperatureSensitivityService.fit(shots);
+
+      expect(TemperatureSensitivityService.adjust(2650, 70, 20, fit)).toEqual({
+        base_velocity: 2650,
+        reference_temperature: 70,
+        temperature: 20,
+        fps_per_degree: 1.5,
+        adjusted_velocity: 2575,
+      });
+    });
+
+    it('should not adjust from an unusable fit', () => {
+      const fit = TemperatureSensitivityService.fit(shots.slice(0, 3));
+
+      expect(TemperatureSensitivityService.adjust(2650, 70, 20, fit)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Truing Service Unit Tests
+ *
+ * Tests for fitting muzzle velocity and BC to logged elevations.
+ */
+
+import BallisticsService, { SolverInput } from '../../src/services/BallisticsService';
+import TruingService, { TruingObservation } from '../../src/services/TruingService';
+
+const baseInput: SolverInput = {
+  muzzleVelocity: 2600,
+  ballisticCoefficient: 0.243,
+  dragModel: 'G7',
+  bulletWeight: 175,
+  scopeHeight: 1.5,
+  zeroDistance: 100,
+  conditions: {
+    temperature: 59,
+    pressure: 29.92,
+    humidity: 0,
+    altitude: 0,
+    densityAltitude: 0,
+    windSpeed: 0,
+    windDirection: 0,
+  },
+  maxRange: 1000,
+  rangeStep: 100,
+};
+
+/**
+ * Generate observations from a "true" load that differs from the profile
+ */
+const observe = (actual: Partial<SolverInput>, ranges: number[]): TruingObservation[] =>
+  BallisticsService.solveRanges({ ...baseInput, ...actual }, ranges).map((point) => ({
+    input: baseInput,
+    rangeYards: point.range_yards,
+    elevationMil: point.elevation_mil,
+  }));
+
+describe('TruingService', () => {
+  describe('true', () => {
+    it('should recover muzzle velocity from observed elevations', () => {
+      const observations = observe({ muzzleVelocity: 2650 }, [300, 500, 700]);
+      const result = TruingService.true(observations, 'muzzle_velocity', 'MIL');
+
+      expect(result.converged).toBe(true);
+      expect(Math.abs(result.trued.muzzle_velocity - 2650)).toBeLessThan(10);
+      expect(result.trued.bc_scale).toBe(1);
+      expect(result.rms_error.after).toBeLessThan(result.rms_error.before);
+    });
+
+    it('should fit both muzzle velocity and BC scale', () => {
+      const observations = observe(
+        { muzzleVelocity: 2560, ballisticCoefficient: 0.243 * 0.92 },
+        [300, 500, 700, 900, 1000],
+      );
+      const result = TruingService.true(observations, 'both', 'MIL');
+
+      expect(Math.abs(result.trued.muzzle_velocity - 2560)).toBeLessThan(20);
+      expect(Math.abs(result.trued.bc_scale - 0.92)).toBeLessThan(0.02);
+      expect(result.rms_error.after).toBeLessThan(0.05);
+    });
+
+    it('should report residuals per distance in the requested unit', () => {
+      const observations = observe({ muzzleVelocity: 2650 }, [300, 600]);
+      observations.push({ ...observations[0]!, elevationMil: observations[0]!.elevationMil + 0.2 });
+      const result = TruingService.true(observations, 'bc', 'MOA');
+
+      expect(result.unit).toBe('MOA');
+      expect(result.residuals.map((r) => r.range_yards)).toEqual([300, 600]);
+      expect(result.residuals[0]!.log_count).toBe(2);
+      expect(result.residuals[1]!.residual_before).toBeLessThan(0);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit Conversion Service Unit Tests
+ *
+ * Tests for converting payloads between canonical and display units.
+ */
+
+import UnitConversionService, {
+  CANONICAL_UNITS,
+  UNIT_SYSTEMS,
+} from '../../src/services/UnitConversionService';
+import {
+  convertAltitude,
+  convertDistance,
+  convertLength,
+  convertMass,
+  convertPressure,
+  convertSpeed,
+  convertTemperature,
+  convertVelocity,
+} from '../../src/utils/units';
+
+const metric = UNIT_SYSTEMS.metric;
+
+describe('UnitConversionService', () => {
+  describe('conversions', () => {
+    it('should convert distance, temperature and pressure both ways', () => {
+      expect(convertDistance(100, 'meters', 'yards')).toBeCloseTo(109.361, 3);
+      expect(
+        convertDistance(convertDistance(600, 'yards', 'meters'), 'meters', 'yards'),
+      ).toBeCloseTo(600, 9);
+      expect(convertTemperature(59, 'F', 'C')).toBeCloseTo(15, 9);
+      expect(convertTemperature(-40, 'C', 'F')).toBeCloseTo(-40, 9);
+      expect(convertPressure(29.92, 'inHg', 'hPa')).toBeCloseTo(1013.21, 2);
+      expect(convertPressure(760, 'mmHg', 'inHg')).toBeCloseTo(29.92, 2);
+    });
+
+    it('should convert altitude, speeds, mass and length', () => {
+      expect(convertAltitude(1000, 'ft', 'm')).toBeCloseTo(304.8, 9);
+      expect(convertSpeed(10, 'mph', 'mps')).toBeCloseTo(4.4704, 9);
+      expect(convertSpeed(36, 'kph', 'mps')).toBeCloseTo(10, 9);
+      expect(convertVelocity(800, 'mps', 'fps')).toBeCloseTo(2624.67, 2);
+      expect(convertMass(140, 'gr', 'g')).toBeCloseTo(9.072, 3);
+      expect(convertLength(24, 'in', 'cm')).toBeCloseTo(60.96, 9);
+    });
+  });
+
+  describe('format', () => {
+    it('should convert unit-bearing fields and leave unit-named fields alone', () => {
+      const formatted = UnitConversionService.format(
+        {
+          id: 1,
+          temperature: '59.0',
+          pressure: '29.92',
+          humidity: 50,
+          altitude: 1000,
+          wind_speed: 10,
+          muzzle_velocity: 2700,
+          bullet_weight: '140.00',
+          barrel_length: 24,
+          notes: null,
+          timestamp: new Date('2026-01-01T00:00:00Z'),
+          trajectory: [{ range_yards: 100, drop_inches: -1.5, velocity_fps: 2500 }],
+        },
+        metric,
+      );
+
+      expect(formatted).toEqual({
+        id: 1,
+        temperature: 15,
+        pressure: 1013.2,
+        humidity: 50,
+        altitude: 304.8,
+        wind_speed: 4.5,
+        muzzle_velocity: 823,
+        bullet_weight: 9.07,
+        barrel_length: 60.96,
+        notes: null,
+        timestamp: new Date('2026-01-01T00:00:00Z'),
+        trajectory: [{ range_yards: 100, drop_inches: -1.5, velocity_fps: 2500 }],
+      });
+    });
+
+    it('should leave values exactly as stored in canonical units', () => {
+      const record = { temperature: '59.0', pressure: null, zero_distance: '100.00' };
+
+      expect(UnitConversionService.format(record, CANONICAL_UNITS)).toEqual(record);
+    });
+
+    it('should show logged distances in the display unit', () => {
+      // Sequelize instances are serialized first
+      const log = {
+        toJSON: () => ({
+          distance: 600,
+          distance_unit: 'yards',
+          distance_yards: 600,
+          environment: { temperature: 32 },
+        }),
+      };
+
+      expect(UnitConversionService.format([log], metric)).toEqual([
+        {
+          distance: 548.64,
+          distance_unit: 'meters',
+          distance_yards: 600,
+          environment: { temperature: 0 },
+        },
+      ]);
+      expect(
+        UnitConversionService.format({ distance: 300, distance_unit: 'meters' }, metric),
+      ).toEqual({ distance: 300, distance_unit: 'meters' });
+    });
+
+    it('should convert temperature changes without the offset', () => {
+      const formatted = UnitConversionService.format(
+        { conditions: { temperature: 50 }, change: { temperature: 9, pressure: 0.1 } },
+        metric,
+      );
+
+      expect(formatted).toEqual({
+        conditions: { temperature: 10 },
+        change: { temperature: 5, pressure: 3.4 },
+      });
+    });
+
+    it('should convert generic names only inside known parents', () => {
+      const formatted = UnitConversionService.format(
+        {
+          stats: { shot_count: 5, average: 2800, min: 2790, max: 2810 },
+          temperature_range: { min: 32, max: 95 },
+          summary: { min: 1, max: 2 },
+        },
+        metric,
+      );
+
+      expect(formatted).toEqual({
+        stats: { shot_count: 5, average: 853.4, min: 850.4, max: 856.5 },
+        temperature_range: { min: 0, max: 35 },
+        summary: { min: 1, max: 2 },
+      });
+    });
+  });
+
+  describe('parse', () => {
+    it('should take metric input into canonical units', () => {
+      const parsed = UnitConversionService.parse(
+        {
+          temperature: 15,
+          pressure: '1013.25',
+          wind_speeds: [2, 4],
+          conditions: { altitude: 100 },
+          notes: 'calm',
+        },
+        metric,
+      );
+
+      expect(parsed).toEqual({
+        temperature: 59,
+        pressure: 29.9212,
+        wind_speeds: [4.4739, 8.9477],
+        conditions: { altitude: 328.084 },
+        notes: 'calm',
+      });
+    });
+
+    it('should keep distances given with a unit and tag bare ones as yards', () => {
+      expect(
+        UnitConversionService.parse({ distance: 300, distance_unit: 'meters' }, metric),
+      ).toEqual({ distance: 300, distance_unit: 'meters' });
+      expect(UnitConversionService.parse({ distance: 100 }, metric)).toEqual({
+        distance: 109.361,
+        distance_unit: 'yards',
+      });
+      expect(UnitConversionService.parse({ distance: 100 }, CANONICAL_UNITS)).toEqual({
+        distance: 100,
+      });
+    });
+
+    it('should leave invalid values for validation', () => {
+      expect(UnitConversionService.parse({ temperature: 'warm' }, metric)).toEqual({
+        temperature: 'warm',
+      });
+    });
+  });
+
+  describe('systemOf', () => {
+    it('should name the unit system or report a mix', () => {
+      expect(UnitConversionService.systemOf(metric)).toBe('metric');
+      expect(UnitConversionService.systemOf(CANONICAL_UNITS)).toBe('imperial');
+      expect(UnitConversionService.systemOf({ ...metric, distance: 'yards' })).toBe('custom');
+      expect(UnitConversionService.isUnitSystem('metric')).toBe(true);
+      expect(UnitConversionService.isUnitSystem('si')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Wind Table Service Unit Tests
+ *
+ * Tests for wind hold tables and calibration against logged windage.
+ */
+
+import BallisticsService, { SolverInput } from '../../src/services/BallisticsService';
+import WindTableService, { WindTableOptions } from '../../src/services/WindTableService';
+
+const baseInput: SolverInput = {
+  muzzleVelocity: 2600,
+  ballisticCoefficient: 0.243,
+  dragModel: 'G7',
+  bulletWeight: 175,
+  scopeHeight: 1.5,
+  zeroDistance: 100,
+  conditions: {
+    temperature: 59,
+    pressure: 29.92,
+    humidity: 0,
+    altitude: 0,
+    densityAltitude: 0,
+    windSpeed: 0,
+    windDirection: 0,
+  },
+  maxRange: 1000,
+  rangeStep: 100,
+};
+
+const options: WindTableOptions = {
+  speeds: [5, 10],
+  clocks: [3, 9, 12],
+  unit: 'MIL',
+  clickValue: 0.1,
+  calibrationFactor: 1,
+};
+
+const holdAt = (rows: ReturnType<typeof WindTableService.buildTable>, range: number) =>
+  rows.find((row) => row.range_yards === range)!.holds;
+
+describe('WindTableService', () => {
+  describe('buildTable', () => {
+    it('should return a row per range with a hold per speed and clock', () => {
+      const rows = WindTableService.buildTable(baseInput, [300, 600], options);
+
+      expect(rows.map((row) => row.range_yards)).toEqual([300, 600]);
+      expect(rows[0]!.holds).toHaveLength(6);
+    });
+
+    it("should hold right for wind from 3 o'clock and left for 9 o'clock", () => {
+      const holds = holdAt(WindTableService.buildTable(baseInput, [600], options), 600);
+      const right = holds.find((h) => h.speed_mph === 10 && h.clock === 3)!;
+      const left = holds.find((h) => h.speed_mph === 10 && h.clock === 9)!;
+      const head = holds.find((h) => h.speed_mph === 10 && h.clock === 12)!;
+
+      expect(right.hold).toBeGreaterThan(0);
+      expect(left.hold).toBeCloseTo(-right.hold, 1);
+      expect(Math.abs(head.hold)).toBeLessThan(0.05);
+      expect(right.clicks).toBe(Math.round(right.hold / 0.1));
+    });
+
+    it('should scale roughly linearly with wind speed', () => {
+      const holds = holdAt(WindTableService.buildTable(baseInput, [600], options), 600);
+      const five = holds.find((h) => h.speed_mph === 5 && h.clock === 3)!;
+      const ten = holds.find((h) => h.speed_mph === 10 && h.clock === 3)!;
+
+      expect(ten.hold / five.hold).toBeCloseTo(2, 1);
+    });
+
+    it('should apply the calibration factor', () => {
+      const plain = holdAt(WindTableService.buildTable(baseInput, [600], options), 600);
+      const scaled = holdAt(
+        WindTableService.buildTable(baseInput, [600], { ...options, calibrationFactor: 1.2 }),
+        600,
+      );
+
+      expect(scaled[1]!.hold).toBeCloseTo(plain[1]!.hold * 1.2, 1);
+    });
+
+    it('should report holds in MOA when requested', () => {
+      const mil = holdAt(WindTableService.buildTable(baseInput, [600], options), 600);
+      const moa = holdAt(
+        WindTableService.buildTable(baseInput, [600], {
+          ...options,
+          unit: 'MOA',
+          clickValue: 0.25,
+        }),
+        600,
+      );
+
+      expect(moa[1]!.hold / mil[1]!.hold).toBeCloseTo(3.438, 1);
+    });
+  });
+
+  describe('calibrate', () => {
+    const windy: SolverInput = {
+      ...baseInput,
+      conditions: { ...baseInput.conditions, windSpeed: 10, windDirection: 90 },
+    };
+
+    it('should recover the ratio between logged and predicted wind holds', () => {
+      const [predicted] = BallisticsService.solveRanges(windy, [600]);
+      const [calm] = BallisticsService.solveRanges(baseInput, [600]);
+      const windHold = predicted!.windage_mil - calm!.windage_mil;
+
+      const calibration = WindTableService.calibrate([
+        { input: windy, rangeYards: 600, windageMil: calm!.windage_mil + windHold * 1.25 },
+      ]);
+
+      expect(calibration.applied).toBe(true);
+      expect(calibration.log_count).toBe(1);
+      expect(calibration.factor).toBeCloseTo(1.25, 2);
+    });
+
+    it('should ignore logs without a meaningful crosswind', () => {
+      const calibration = WindTableService.calibrate([
+        { input: baseInput, rangeYards: 600, windageMil: 0.4 },
+      ]);
+
+      expect(calibration).toEqual({ factor: 1, log_count: 0, applied: false });
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Atmosphere Utilities Unit Tests
+ *
+ * Tests for the ICAO standard atmosphere and moist air density.
+ */
+
+import {
+  STANDARD_PRESSURE_INHG,
+  airDensity,
+  calculateAtmosphere,
+  pressureAltitude,
+  saturationVaporPressure,
+  speedOfSound,
+  standardPressure,
+  standardTemperature,
+  stationPressure,
+} from '../../src/utils/atmosphere';
+
+describe('atmosphere', () => {
+  it('should match the ICAO standard atmosphere', () => {
+    expect(standardTemperature(0)).toBeCloseTo(59, 5);
+    expect(standardTemperature(5000)).toBeCloseTo(41.17, 1);
+    expect(standardPressure(5000)).toBeCloseTo(24.896, 2);
+    expect(pressureAltitude(standardPressure(8000))).toBeCloseTo(8000, 0);
+  });
+
+  it('should give a density ratio of 1 and zero density altitude at sea level standard', () => {
+    const air = calculateAtmosphere({
+      temperature: 59,
+      pressure: STANDARD_PRESSURE_INHG,
+      humidity: 0,
+      altitude: 0,
+    });
+
+    expect(air.density_ratio).toBeCloseTo(1, 3);
+    expect(Math.abs(air.density_altitude)).toBeLessThan(10);
+    expect(air.speed_of_sound).toBeCloseTo(1116.4, 0);
+  });
+
+  it('should reduce barometric pressure to station pressure', () => {
+    expect(stationPressure(29.92, 5000, 'barometric')).toBeCloseTo(24.89, 1);
+    expect(stationPressure(24.89, 5000, 'station')).toBe(24.89);
+  });
+
+  it('should treat station and equivalent barometric readings the same', () => {
+    const barometric = calculateAtmosphere({
+      temperature: 70,
+      pressure: 30.1,
+      humidity: 40,
+      altitude: 4000,
+      pressureType: 'barometric',
+    });
+    const station = calculateAtmosphere({
+      temperature: 70,
+      pressure: barometric.station_pressure,
+      humidity: 40,
+      altitude: 4000,
+      pressureType: 'station',
+    });
+
+    expect(station.density_altitude).toBeCloseTo(barometric.density_altitude, 3);
+  });
+
+  it('should lower air density and raise density altitude with humidity', () => {
+    const dry = calculateAtmosphere({ temperature: 90, pressure: 29.92, humidity: 0, altitude: 0 });
+    const humid = calculateAtmosphere({
+      temperature: 90,
+      pressure: 29.92,
+      humidity: 100,
+      altitude: 0,
+    });
+
+    expect(humid.air_density).toBeLessThan(dry.air_density);
+    // Saturated air at 90°F adds several hundred feet of density altitude
+    expect(humid.density_altitude - dry.density_altitude).toBeGreaterThan(300);
+  });
+
+  it('should compute saturation vapor pressure', () => {
+    // 0.6112 kPa at 0°C and about 3.17 kPa at 25°C
+    expect(saturationVaporPressure(32)).toBeCloseTo(0.1805, 3);
+    expect(saturationVaporPressure(77)).toBeCloseTo(0.936, 2);
+  });
+
+  it('should compute dry air density and speed of sound', () => {
+    expect(airDensity(59, STANDARD_PRESSURE_INHG, 0)).toBeCloseTo(0.07647, 4);
+    expect(speedOfSound(32)).toBeCloseTo(1087.4, 0);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Drag Tables Unit Tests
+ *
+ * Tests for drag curve and velocity band helpers.
+ */
+
+import { bandedBc, validateDragCurve, validateVelocityBands } from '../../src/utils/dragTables';
+
+describe('dragTables', () => {
+  describe('validateDragCurve', () => {
+    it('should accept strictly increasing Mach values', () => {
+      expect(
+        validateDragCurve([
+          { mach: 0.5, cd: 0.12 },
+          { mach: 1.0, cd: 0.38 },
+          { mach: 2.0, cd: 0.29 },
+        ]),
+      ).toBeNull();
+    });
+
+    it('should reject unsorted or repeated Mach values', () => {
+      expect(
+        validateDragCurve([
+          { mach: 1.0, cd: 0.38 },
+          { mach: 0.5, cd: 0.12 },
+        ]),
+      ).toMatch(/strictly increasing/);
+      expect(
+        validateDragCurve([
+          { mach: 1.0, cd: 0.38 },
+          { mach: 1.0, cd: 0.4 },
+        ]),
+      ).toMatch(/strictly increasing/);
+    });
+
+    it('should reject curves with too few points or non-positive Cd', () => {
+      expect(validateDragCurve([{ mach: 1, cd: 0.3 }])).not.toBeNull();
+      expect(
+        validateDragCurve([
+          { mach: 0.5, cd: 0 },
+          { mach: 1, cd: 0.3 },
+        ]),
+      ).toMatch(/Cd/);
+    });
+  });
+
+  describe('velocity bands', () => {
+    const bands = [
+      { min_velocity: 2800, bc: 0.25 },
+      { min_velocity: 1800, bc: 0.24 },
+      { min_velocity: 1200, bc: 0.23 },
+    ];
+
+    it('should reject duplicate velocities', () => {
+      expect(validateVelocityBands(bands)).toBeNull();
+      expect(validateVelocityBands([...bands, { min_velocity: 1200, bc: 0.2 }])).toMatch(/unique/);
+    });
+
+    it('should pick the band for a velocity', () => {
+      expect(bandedBc(bands, 3000)).toBe(0.25);
+      expect(bandedBc(bands, 2000)).toBe(0.24);
+      expect(bandedBc(bands, 1800)).toBe(0.24);
+      expect(bandedBc(bands, 900)).toBe(0.23);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Row Version Unit Tests
+ *
+ * Tests for rejecting edits based on an outdated row_version.
+ */
+
+import { versionedChanges } from '../../src/utils/rowVersion';
+import { ConflictError } from '../../src/utils/errors';
+
+describe('versionedChanges', () => {
+  const row = { row_version: 3 };
+
+  it('should return the changes without the version', () => {
+    expect(versionedChanges(row, { row_version: 3, name: 'Match rifle' }, 'Rifle')).toEqual({
+      name: 'Match rifle',
+    });
+  });
+
+  it('should accept a version sent as a string', () => {
+    expect(versionedChanges(row, { row_version: '3', name: 'Match rifle' }, 'Rifle')).toEqual({
+      name: 'Match rifle',
+    });
+  });
+
+  it('should accept edits that name no version', () => {
+    expect(versionedChanges(row, { name: 'Match rifle' }, 'Rifle')).toEqual({
+      name: 'Match rifle',
+    });
+  });
+
+  it('should reject an edit based on another version', () => {
+    expect(() => versionedChanges(row, { row_version: 2, name: 'Match rifle' }, 'Rifle')).toThrow(
+      new ConflictError('Rifle was changed elsewhere (now version 3); reload and try again'),
+    );
+  });
+});
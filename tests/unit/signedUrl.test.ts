@@ -0,0 +1,41 @@
+/**
+ * Signed URL Unit Tests
+ *
+ * Tests for signing and verifying temporary download links.
+ */
+
+import { createSignedUrl, verifySignedResource } from '../../src/utils/signedUrl';
+
+const NOW = Date.UTC(2024, 4, 1, 12, 0, 0);
+
+const params = (url: string) => new URL(url, 'http://localhost').searchParams;
+
+describe('signedUrl', () => {
+  it('should append expiry and signature to the path', () => {
+    const signed = createSignedUrl('/files/1?variant=thumbnail', 'files/1/thumbnail', 600, NOW);
+    const query = params(signed.url);
+
+    expect(signed.url.startsWith('/files/1?variant=thumbnail&expires=')).toBe(true);
+    expect(Number(query.get('expires'))).toBe(NOW / 1000 + 600);
+    expect(signed.expires_at).toEqual(new Date(NOW + 600 * 1000));
+  });
+
+  it('should verify a signature for the same resource before it expires', () => {
+    const query = params(createSignedUrl('/files/1', 'files/1/original', 600, NOW).url);
+    const expires = query.get('expires');
+    const signature = query.get('signature');
+
+    expect(verifySignedResource('files/1/original', expires, signature, NOW + 599 * 1000)).toBe(
+      true,
+    );
+    expect(verifySignedResource('files/1/original', expires, signature, NOW + 601 * 1000)).toBe(
+      false,
+    );
+    expect(verifySignedResource('files/2/original', expires, signature, NOW)).toBe(false);
+    expect(verifySignedResource('files/1/original', Number(expires) + 60, signature, NOW)).toBe(
+      false,
+    );
+    expect(verifySignedResource('files/1/original', expires, 'abcd', NOW)).toBe(false);
+    expect(verifySignedResource('files/1/original', expires, undefined, NOW)).toBe(false);
+  });
+});
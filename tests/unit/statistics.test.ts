@@ -0,0 +1,77 @@
+/**
+ * Statistics Utilities Unit Tests
+ *
+ * Tests for descriptive statistics and confidence intervals.
+ */
+
+import {
+  chiSquareQuantile,
+  extremeSpread,
+  linearRegression,
+  mean,
+  meanConfidenceInterval,
+  standardDeviation,
+  standardDeviationConfidenceInterval,
+  tCritical,
+} from '../../src/utils/statistics';
+
+const velocities = [2650, 2662, 2655, 2641, 2670];
+
+describe('statistics', () => {
+  it('should compute mean, extreme spread and sample standard deviation', () => {
+    expect(mean(velocities)).toBeCloseTo(2655.6, 5);
+    expect(extremeSpread(velocities)).toBe(29);
+    expect(standardDeviation(velocities)).toBeCloseTo(11.104, 2);
+  });
+
+  it('should handle empty and single-value samples', () => {
+    expect(mean([])).toBe(0);
+    expect(standardDeviation([2650])).toBe(0);
+    expect(extremeSpread([])).toBe(0);
+    expect(meanConfidenceInterval([2650])).toBeNull();
+    expect(standardDeviationConfidenceInterval([2650])).toBeNull();
+  });
+
+  it('should use Student t and chi-square critical values', () => {
+    expect(tCritical(4)).toBeCloseTo(2.776, 3);
+    expect(tCritical(60)).toBeCloseTo(2.0, 2);
+    expect(chiSquareQuantile(4, true)).toBeCloseTo(11.143, 3);
+    expect(chiSquareQuantile(50, false)).toBeCloseTo(32.357, 0);
+    expect(chiSquareQuantile(50, true)).toBeCloseTo(71.42, 0);
+  });
+
+  it('should compute a 95% interval for the mean', () => {
+    const interval = meanConfidenceInterval(velocities)!;
+    const margin = (2.776 * standardDeviation(velocities)) / Math.sqrt(5);
+
+    expect(interval.low).toBeCloseTo(2655.6 - margin, 2);
+    expect(interval.high).toBeCloseTo(2655.6 + margin, 2);
+  });
+
+  it('should compute a wide interval for SD from a small sample', () => {
+    const interval = standardDeviationConfidenceInterval(velocities)!;
+    const sd = standardDeviation(velocities);
+
+    // 5 shots: the true SD could be from about 0.6x to 2.9x the sample SD
+    expect(interval.low / sd).toBeCloseTo(0.599, 2);
+    expect(interval.high / sd).toBeCloseTo(2.874, 2);
+  });
+
+  it('should fit a least-squares line with goodness of fit', () => {
+    const fit = linearRegression([0, 1, 2, 3], [1, 3, 5, 7])!;
+
+    expect(fit.slope).toBeCloseTo(2, 10);
+    expect(fit.intercept).toBeCloseTo(1, 10);
+    expect(fit.r_squared).toBeCloseTo(1, 10);
+    expect(fit.slope_standard_error).toBeCloseTo(0, 10);
+
+    const noisy = linearRegression([0, 1, 2, 3], [1, 2, 2, 4])!;
+    expect(noisy.slope).toBeCloseTo(0.9, 10);
+    expect(noisy.r_squared).toBeCloseTo(0.8526, 4);
+  });
+
+  it('should not fit when x does not vary', () => {
+    expect(linearRegression([5, 5, 5], [1, 2, 3])).toBeNull();
+    expect(linearRegression([1], [1])).toBeNull();
+  });
+});